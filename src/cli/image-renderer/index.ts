@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import * as argparse from 'argparse';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Canvas3DContext } from '../../mol-canvas3d/canvas3d';
+import { GLRenderingContext } from '../../mol-gl/webgl/compat';
+import { PluginContext } from '../../mol-plugin/context';
+import { DefaultPluginSpec } from '../../mol-plugin/spec';
+import { HeadlessScreenshotHelper } from '../../mol-plugin/util/headless-screenshot';
+import { Color } from '../../mol-util/color';
+import { getFileInfo } from '../../mol-util/file-info';
+
+/** Requires the `gl` package (headless-gl), which renders offscreen, e.g. with Mesa, and is installed separately */
+function createGLContext(width: number, height: number): GLRenderingContext {
+    let createGl: (width: number, height: number, attribs: WebGLContextAttributes) => GLRenderingContext | null;
+    try {
+        createGl = require('gl');
+    } catch (e) {
+        throw new Error('headless rendering requires the "gl" package, install it with "npm install gl"');
+    }
+    const gl = createGl(width, height, {
+        alpha: true,
+        depth: true,
+        premultipliedAlpha: true,
+        preserveDrawingBuffer: true,
+        antialias: true,
+    });
+    if (!gl) throw new Error('could not create a WebGL rendering context');
+    return gl;
+}
+
+async function createPlugin(args: Args) {
+    const plugin = new PluginContext(DefaultPluginSpec());
+    await plugin.init();
+    if (!plugin.initHeadlessViewer(Canvas3DContext.fromGLContext(createGLContext(args.width, args.height)))) {
+        throw new Error('could not initialize the viewer');
+    }
+    if (args.background) {
+        plugin.canvas3d!.setProps({ renderer: { backgroundColor: Color(parseInt(args.background.replace('#', ''), 16)) } });
+    }
+    return plugin;
+}
+
+/** Loads the file with the same data format providers and default visuals as the viewer */
+async function load(plugin: PluginContext, filename: string) {
+    const info = getFileInfo(filename);
+    const isBinary = plugin.dataFormats.binaryExtensions.has(info.ext);
+    let buffer = fs.readFileSync(filename);
+    if (/\.gz$/i.test(filename)) buffer = zlib.gunzipSync(buffer);
+
+    const data = await plugin.builders.data.rawData({ data: isBinary ? new Uint8Array(buffer) : buffer.toString('utf8'), label: info.name });
+    const provider = plugin.dataFormats.auto(info, data.cell?.obj!);
+    if (!provider) throw new Error(`no data provider for '${info.ext}'`);
+
+    const parsed = await provider.parse(plugin, data);
+    await provider.visuals?.(plugin, parsed);
+}
+
+async function run(args: Args) {
+    const plugin = await createPlugin(args);
+    const screenshot = new HeadlessScreenshotHelper(plugin);
+    fs.mkdirSync(args.out, { recursive: true });
+
+    let failed = 0;
+    for (const input of args.inputs) {
+        const outPath = path.join(args.out, `${getFileInfo(input).base}.png`);
+        try {
+            await plugin.clear();
+            await load(plugin, input);
+            plugin.canvas3d!.requestCameraReset({ durationMs: 0 });
+
+            const png = await screenshot.getPng({ width: args.width, height: args.height, transparent: args.transparent });
+            fs.writeFileSync(outPath, png);
+            console.log(`${input} -> ${outPath}`);
+        } catch (e) {
+            failed += 1;
+            console.error(`${input}: ${e}`);
+        }
+    }
+
+    plugin.dispose();
+    console.log(`Rendered ${args.inputs.length - failed} of ${args.inputs.length} images`);
+    if (failed > 0) process.exitCode = 1;
+}
+
+const parser = new argparse.ArgumentParser({
+    add_help: true,
+    description: 'Render PNG images of structure and volume files without a browser, using the default visuals of the viewer. Requires the "gl" package, install it with "npm install gl".'
+});
+parser.add_argument('inputs', {
+    nargs: '+',
+    help: 'Input file paths, optionally gzipped'
+});
+parser.add_argument('-o', '--out', {
+    required: true,
+    help: 'Output directory, images are named after the input files'
+});
+parser.add_argument('--width', {
+    type: 'int',
+    default: 800,
+    help: 'Image width in pixels'
+});
+parser.add_argument('--height', {
+    type: 'int',
+    default: 600,
+    help: 'Image height in pixels'
+});
+parser.add_argument('--transparent', {
+    action: 'store_true',
+    help: 'Render with a transparent background'
+});
+parser.add_argument('--background', {
+    help: 'Background color as hex string, e.g. "#ffffff"'
+});
+
+interface Args {
+    inputs: string[]
+    out: string
+    width: number
+    height: number
+    transparent: boolean
+    background?: string
+}
+const args: Args = parser.parse_args();
+
+if (args) {
+    run(args).catch(e => {
+        console.error(e);
+        process.exitCode = 1;
+    });
+}
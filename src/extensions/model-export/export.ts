@@ -4,15 +4,32 @@
  * @author David Sehnal <david.sehnal@gmail.com>
  */
 
+import { OrderedSet } from '../../mol-data/int';
 import { utf8ByteCount, utf8Write } from '../../mol-io/common/utf8';
-import { to_mmCIF, Unit } from '../../mol-model/structure';
+import { Structure, to_DCD, to_GRO, to_mmCIF, to_PDB, to_PQR, to_XTC, to_XYZ, TrajectoryExportParams, Unit } from '../../mol-model/structure';
 import { PluginContext } from '../../mol-plugin/context';
-import { Task } from '../../mol-task';
+import { RuntimeContext, Task } from '../../mol-task';
 import { getFormattedTime } from '../../mol-util/date';
 import { download } from '../../mol-util/download';
 import { zip } from '../../mol-util/zip/zip';
 
-export async function exportHierarchy(plugin: PluginContext, options?: { format?: 'cif' | 'bcif' }) {
+export type ModelExportFormat = 'cif' | 'bcif' | 'pdb' | 'pqr' | 'gro' | 'xyz'
+export type TrajectoryExportFormat = 'dcd' | 'xtc'
+
+/** Formats that support writing multiple models */
+const MultiModelFormats = new Set<ModelExportFormat>(['pdb', 'pqr', 'gro', 'xyz']);
+
+function encodeStructure(s: Structure, format: ModelExportFormat) {
+    switch (format) {
+        case 'pdb': return to_PDB(s);
+        case 'pqr': return to_PQR(s);
+        case 'gro': return to_GRO(s);
+        case 'xyz': return to_XYZ(s);
+        default: return to_mmCIF(s.model.entryId, s, format === 'bcif', { copyAllCategories: true });
+    }
+}
+
+export async function exportHierarchy(plugin: PluginContext, options?: { format?: ModelExportFormat }) {
     try {
         await plugin.runTask(_exportHierarchy(plugin, options), { useOverlay: true });
     } catch (e) {
@@ -21,7 +38,7 @@ export async function exportHierarchy(plugin: PluginContext, options?: { format?
     }
 }
 
-function _exportHierarchy(plugin: PluginContext, options?: { format?: 'cif' | 'bcif' }) {
+function _exportHierarchy(plugin: PluginContext, options?: { format?: ModelExportFormat }) {
     return Task.create('Export', async ctx => {
         await ctx.update({ message: 'Exporting...', isIndeterminate: true, canAbort: false });
 
@@ -34,7 +51,7 @@ function _exportHierarchy(plugin: PluginContext, options?: { format?: 'cif' | 'b
         for (const _s of structures) {
             const s = _s.transform?.cell.obj?.data ?? _s.cell.obj?.data;
             if (!s) continue;
-            if (s.models.length > 1) {
+            if (s.models.length > 1 && !MultiModelFormats.has(format)) {
                 plugin.log.warn(`[Export] Skipping ${_s.cell.obj?.label}: Multimodel exports not supported.`);
                 continue;
             }
@@ -55,7 +72,7 @@ function _exportHierarchy(plugin: PluginContext, options?: { format?: 'cif' | 'b
             }
 
             try {
-                files.push([name, to_mmCIF(s.model.entryId, s, format === 'bcif', { copyAllCategories: true })]);
+                files.push([name, encodeStructure(s, format)]);
             } catch (e) {
                 if (format === 'cif' && s.elementCount > 2000000) {
                     plugin.log.warn(`[Export] The structure might be too big to be exported as Text CIF, consider using the BinaryCIF format instead.`);
@@ -64,24 +81,98 @@ function _exportHierarchy(plugin: PluginContext, options?: { format?: 'cif' | 'b
             }
         }
 
-        if (files.length === 1) {
-            download(new Blob([files[0][1]]), files[0][0]);
-        } else if (files.length > 1) {
-            const zipData: Record<string, Uint8Array> = {};
-            for (const [fn, data] of files) {
-                if (data instanceof Uint8Array) {
-                    zipData[fn] = data;
-                } else {
-                    const bytes = new Uint8Array(utf8ByteCount(data));
-                    utf8Write(bytes, 0, data);
-                    zipData[fn] = bytes;
-                }
+        await downloadFiles(ctx, files, `structures_${getFormattedTime()}.zip`);
+
+        plugin.log.info(`[Export] Done.`);
+    });
+}
+
+async function downloadFiles(ctx: RuntimeContext, files: [name: string, data: string | Uint8Array][], zipName: string) {
+    if (files.length === 1) {
+        download(new Blob([files[0][1]]), files[0][0]);
+    } else if (files.length > 1) {
+        const zipData: Record<string, Uint8Array> = {};
+        for (const [fn, data] of files) {
+            if (data instanceof Uint8Array) {
+                zipData[fn] = data;
+            } else {
+                const bytes = new Uint8Array(utf8ByteCount(data));
+                utf8Write(bytes, 0, data);
+                zipData[fn] = bytes;
             }
-            await ctx.update({ message: `Compressing Data...`, isIndeterminate: true, canAbort: false });
-            const buffer = await zip(ctx, zipData);
-            download(new Blob([new Uint8Array(buffer, 0, buffer.byteLength)]), `structures_${getFormattedTime()}.zip`);
         }
+        await ctx.update({ message: `Compressing Data...`, isIndeterminate: true, canAbort: false });
+        const buffer = await zip(ctx, zipData);
+        download(new Blob([new Uint8Array(buffer, 0, buffer.byteLength)]), zipName);
+    }
+}
+
+/** Sorted indices of the atoms of the structure within its model */
+function getAtomIndices(structure: Structure) {
+    const mask = new Uint8Array(structure.model.atomicHierarchy.atoms._rowCount);
+    for (const unit of structure.units) {
+        if (!Unit.isAtomic(unit)) continue;
+        const { elements } = unit;
+        for (let i = 0, il = OrderedSet.size(elements); i < il; ++i) mask[OrderedSet.getAt(elements, i)] = 1;
+    }
+    const indices: number[] = [];
+    for (let i = 0, il = mask.length; i < il; ++i) {
+        if (mask[i]) indices.push(i);
+    }
+    return indices;
+}
+
+export interface TrajectoryExportOptions extends Omit<TrajectoryExportParams, 'atomIndices'> {
+    format?: TrajectoryExportFormat,
+    /** only export the atoms of the current selection */
+    selectionOnly?: boolean
+}
+
+export async function exportTrajectories(plugin: PluginContext, options?: TrajectoryExportOptions) {
+    try {
+        await plugin.runTask(_exportTrajectories(plugin, options), { useOverlay: true });
+    } catch (e) {
+        console.error(e);
+        plugin.log.error(`Trajectory export failed. See console for details.`);
+    }
+}
+
+function _exportTrajectories(plugin: PluginContext, options?: TrajectoryExportOptions) {
+    return Task.create('Export', async ctx => {
+        await ctx.update({ message: 'Exporting...', isIndeterminate: true, canAbort: false });
+
+        const format = options?.format ?? 'dcd';
+        const { structures } = plugin.managers.structure.hierarchy.current;
+
+        const files: [name: string, data: Uint8Array][] = [];
+        const entryMap = new Map<string, number>();
+
+        for (const _s of structures) {
+            const s = _s.cell.obj?.data;
+            const trajectory = _s.model?.trajectory?.cell.obj?.data;
+            if (!s || !trajectory) continue;
+
+            const atoms = options?.selectionOnly ? plugin.managers.structure.selection.getStructure(s) : s;
+            if (!atoms) {
+                plugin.log.warn(`[Export] Skipping ${_s.cell.obj?.label}: Nothing selected.`);
+                continue;
+            }
+
+            const name = entryMap.has(s.model.entryId)
+                ? `${s.model.entryId}_${entryMap.get(s.model.entryId)! + 1}.${format}`
+                : `${s.model.entryId}.${format}`;
+            entryMap.set(s.model.entryId, (entryMap.get(s.model.entryId) ?? 0) + 1);
+
+            await ctx.update({ message: `Exporting ${s.model.entryId}...`, isIndeterminate: true, canAbort: false });
+            const params: TrajectoryExportParams = { start: options?.start, end: options?.end, stride: options?.stride, atomIndices: getAtomIndices(atoms) };
+            const data = format === 'xtc'
+                ? await to_XTC(trajectory, params).runInContext(ctx)
+                : await to_DCD(trajectory, params).runInContext(ctx);
+            files.push([name, data]);
+        }
+
+        await downloadFiles(ctx, files, `trajectories_${getFormattedTime()}.zip`);
 
         plugin.log.info(`[Export] Done.`);
     });
-}
\ No newline at end of file
+}
@@ -12,7 +12,7 @@ import { ParameterControls } from '../../mol-plugin-ui/controls/parameters';
 import { useBehavior } from '../../mol-plugin-ui/hooks/use-behavior';
 import { PluginContext } from '../../mol-plugin/context';
 import { ParamDefinition as PD } from '../../mol-util/param-definition';
-import { exportHierarchy } from './export';
+import { exportHierarchy, exportTrajectories, ModelExportFormat, TrajectoryExportFormat } from './export';
 
 export class ModelExportUI extends CollapsableControls<{}, {}> {
     protected defaultState(): CollapsableState {
@@ -27,8 +27,18 @@ export class ModelExportUI extends CollapsableControls<{}, {}> {
     }
 }
 
+function isTrajectoryFormat(format: ModelExportFormat | TrajectoryExportFormat): format is TrajectoryExportFormat {
+    return format === 'dcd' || format === 'xtc';
+}
+
 const Params = {
-    format: PD.Select<'cif' | 'bcif'>('cif', [['cif', 'mmCIF'], ['bcif', 'Binary mmCIF']])
+    format: PD.Select<ModelExportFormat | TrajectoryExportFormat>('cif', [['cif', 'mmCIF'], ['bcif', 'Binary mmCIF'], ['pdb', 'PDB'], ['pqr', 'PQR'], ['gro', 'GRO'], ['xyz', 'XYZ'], ['dcd', 'DCD Trajectory'], ['xtc', 'XTC Trajectory']]),
+    trajectory: PD.Group({
+        start: PD.Numeric(1, { min: 1, step: 1 }, { description: 'First frame to export' }),
+        end: PD.Numeric(0, { min: 0, step: 1 }, { description: 'Last frame to export, 0 for the last frame of the trajectory' }),
+        stride: PD.Numeric(1, { min: 1, step: 1 }, { description: 'Export every n-th frame' }),
+        selectionOnly: PD.Boolean(false, { description: 'Only export the atoms of the current selection' }),
+    }, { isFlat: true, hideIf: p => !isTrajectoryFormat(p.format) })
 };
 const DefaultParams = PD.getDefaultValues(Params);
 
@@ -49,7 +59,13 @@ function ExportControls({ plugin }: { plugin: PluginContext }) {
     const onExport = async () => {
         setExporting(true);
         try {
-            await exportHierarchy(plugin, { format: params.format });
+            const { format, trajectory } = params;
+            if (isTrajectoryFormat(format)) {
+                const { start, end, stride, selectionOnly } = trajectory;
+                await exportTrajectories(plugin, { format, start: start - 1, end: end > 0 ? end : void 0, stride, selectionOnly });
+            } else {
+                await exportHierarchy(plugin, { format });
+            }
         } finally {
             setExporting(false);
         }
@@ -41,7 +41,11 @@ export class Mp4Controls extends PluginComponent {
         }
 
         const params = anim.params(this.plugin) as PD.Params;
-        const values = PD.getDefaultValues(params);
+        // start from the values set up in the animation panel, e.g. a camera path
+        const current = this.manager.current;
+        const values = current?.anim.name === anim.name
+            ? { ...PD.getDefaultValues(params), ...current.paramValues }
+            : PD.getDefaultValues(params);
 
         this.behaviors.current.next({ anim, params, values });
         this.behaviors.canApply.next(anim.canApply?.(this.plugin) ?? { canApply: true });
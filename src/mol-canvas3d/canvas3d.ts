@@ -14,6 +14,7 @@ import { GraphicsRenderObject } from '../mol-gl/render-object';
 import { TrackballControls, TrackballControlsParams } from './controls/trackball';
 import { Viewport } from './camera/util';
 import { createContext, WebGLContext, getGLContext } from '../mol-gl/webgl/context';
+import { GLRenderingContext } from '../mol-gl/webgl/compat';
 import { Representation } from '../mol-repr/representation';
 import { Scene } from '../mol-gl/scene';
 import { PickingId } from '../mol-geo/geometry/picking';
@@ -33,7 +34,7 @@ import { Sphere3D } from '../mol-math/geometry';
 import { isDebugMode, isTimingMode } from '../mol-util/debug';
 import { CameraHelperParams } from './helper/camera-helper';
 import { produce } from 'immer';
-import { HandleHelperParams } from './helper/handle-helper';
+import { HandleHelperParams, isHandleLoci } from './helper/handle-helper';
 import { StereoCamera, StereoCameraParams } from './camera/stereo';
 import { Helper } from './helper/helper';
 import { Passes } from './passes/passes';
@@ -99,7 +100,8 @@ export { Canvas3DContext };
 
 /** Can be used to create multiple Canvas3D objects */
 interface Canvas3DContext {
-    readonly canvas: HTMLCanvasElement
+    /** Not set for headless contexts, see `Canvas3DContext.fromGLContext` */
+    readonly canvas?: HTMLCanvasElement
     readonly webgl: WebGLContext
     readonly input: InputObserver
     readonly passes: Passes
@@ -201,6 +203,30 @@ namespace Canvas3DContext {
             }
         };
     }
+
+    /**
+     * Create a context without a canvas or DOM input, e.g. for headless rendering in Node
+     * with a `gl` instance provided by headless-gl. The size is fixed by the drawing buffer.
+     */
+    export function fromGLContext(gl: GLRenderingContext, attribs: Partial<Attribs> = {}): Canvas3DContext {
+        const a = { ...DefaultAttribs, ...attribs };
+        const input = InputObserver.create();
+        const webgl = createContext(gl, { pixelScale: a.pixelScale });
+        const passes = new Passes(webgl, attribs);
+
+        return {
+            webgl,
+            input,
+            passes,
+            attribs: a,
+            contextLost: new BehaviorSubject<now.Timestamp>(0 as now.Timestamp),
+            contextRestored: webgl.contextRestored,
+            dispose: (options?: Partial<{ doNotForceWebGLContextLoss: boolean }>) => {
+                input.dispose();
+                webgl.destroy(options);
+            }
+        };
+    }
 }
 
 export { Canvas3D };
@@ -262,6 +288,7 @@ interface Canvas3D {
     readonly input: InputObserver
     readonly stats: RendererStats
     readonly interaction: Canvas3dInteractionHelper['events']
+    readonly helper: Helper
 
     dispose(): void
 }
@@ -315,6 +342,13 @@ namespace Canvas3D {
         const interactionHelper = new Canvas3dInteractionHelper(identify, getLoci, input, camera, p.interaction);
         const multiSampleHelper = new MultiSampleHelper(passes.multiSample);
 
+        // drags that start on the handle move the handle, not the camera
+        const handleDragSub = input.drag.subscribe(({ x, y, isStart }) => {
+            if (!isStart || !helper.handle.isEnabled) return;
+            const pickData = identify(x, y);
+            if (pickData && isHandleLoci(helper.handle.getLoci(pickData.id))) controls.cancelDrag();
+        });
+
         let cameraResetRequested = false;
         let nextCameraResetDuration: number | undefined = void 0;
         let nextCameraResetSnapshot: Camera.SnapshotProvider | undefined = void 0;
@@ -843,8 +877,10 @@ namespace Canvas3D {
             get interaction() {
                 return interactionHelper.events;
             },
+            helper,
             dispose: () => {
                 contextRestoredSub.unsubscribe();
+                handleDragSub.unsubscribe();
 
                 markBuffer = [];
 
@@ -10,15 +10,17 @@
 
 import { Quat, Vec2, Vec3, EPSILON } from '../../mol-math/linear-algebra';
 import { Viewport } from '../camera/util';
-import { InputObserver, DragInput, WheelInput, PinchInput, ButtonsType, ModifiersKeys, GestureInput } from '../../mol-util/input/input-observer';
+import { InputObserver, DragInput, WheelInput, PinchInput, ButtonsType, ModifiersKeys, GestureInput, KeyInput } from '../../mol-util/input/input-observer';
 import { ParamDefinition as PD } from '../../mol-util/param-definition';
 import { Camera } from '../camera';
 import { absMax, degToRad } from '../../mol-math/misc';
 import { Binding } from '../../mol-util/binding';
+import { clamp } from '../../mol-math/interpolate';
 
 const B = ButtonsType;
 const M = ModifiersKeys;
 const Trigger = Binding.Trigger;
+const Key = Binding.TriggerKey;
 
 export const DefaultTrackballBindings = {
     dragRotate: Binding([Trigger(B.Flag.Primary, M.create())], 'Rotate', 'Drag using ${triggers}'),
@@ -31,14 +33,26 @@ export const DefaultTrackballBindings = {
     scrollZoom: Binding([Trigger(B.Flag.Auxilary, M.create())], 'Zoom', 'Scroll using ${triggers}'),
     scrollFocus: Binding([Trigger(B.Flag.Auxilary, M.create({ shift: true }))], 'Clip', 'Scroll using ${triggers}'),
     scrollFocusZoom: Binding.Empty,
+
+    keyMoveForward: Binding([Key('KeyW')], 'Move forward', 'Press ${triggers} in fly mode'),
+    keyMoveBack: Binding([Key('KeyS')], 'Move back', 'Press ${triggers} in fly mode'),
+    keyMoveLeft: Binding([Key('KeyA')], 'Move left', 'Press ${triggers} in fly mode'),
+    keyMoveRight: Binding([Key('KeyD')], 'Move right', 'Press ${triggers} in fly mode'),
+    keyMoveUp: Binding([Key('KeyR')], 'Move up', 'Press ${triggers} in fly mode'),
+    keyMoveDown: Binding([Key('KeyF')], 'Move down', 'Press ${triggers} in fly mode'),
 };
+type KeyMoveBinding = 'keyMoveForward' | 'keyMoveBack' | 'keyMoveLeft' | 'keyMoveRight' | 'keyMoveUp' | 'keyMoveDown'
+const KeyMoveBindings: KeyMoveBinding[] = ['keyMoveForward', 'keyMoveBack', 'keyMoveLeft', 'keyMoveRight', 'keyMoveUp', 'keyMoveDown'];
 
 export const TrackballControlsParams = {
     noScroll: PD.Boolean(true, { isHidden: true }),
 
+    mode: PD.Select('trackball', [['trackball', 'Trackball'], ['orbit', 'Orbit'], ['fly', 'Fly']], { description: 'Trackball rotates freely, orbit keeps the up direction fixed and fly moves the camera through the scene using the keyboard' }),
+
     rotateSpeed: PD.Numeric(5.0, { min: 1, max: 10, step: 1 }),
     zoomSpeed: PD.Numeric(7.0, { min: 1, max: 15, step: 1 }),
     panSpeed: PD.Numeric(1.0, { min: 0.1, max: 5, step: 0.1 }),
+    flySpeed: PD.Numeric(20, { min: 1, max: 100, step: 1 }, { description: 'Movement speed in percent of the scene radius per second', hideIf: p => p.mode !== 'fly' }),
 
     animate: PD.MappedStatic('off', {
         off: PD.EmptyGroup(),
@@ -89,6 +103,8 @@ interface TrackballControls {
     start: (t: number) => void
     update: (t: number) => void
     reset: () => void
+    /** Ignores the remaining events of the current drag interaction */
+    cancelDrag: () => void
     dispose: () => void
 }
 namespace TrackballControls {
@@ -104,6 +120,9 @@ namespace TrackballControls {
         const wheelSub = input.wheel.subscribe(onWheel);
         const pinchSub = input.pinch.subscribe(onPinch);
         const gestureSub = input.gesture.subscribe(onGesture);
+        const keyDownSub = input.keyDown.subscribe(onKeyDown);
+        const keyUpSub = input.keyUp.subscribe(onKeyUp);
+        const leaveSub = input.leave.subscribe(onLeave);
 
         let _isInteracting = false;
 
@@ -166,6 +185,11 @@ namespace TrackballControls {
         const rotMoveDir = Vec3();
 
         function rotateCamera() {
+            if (p.mode !== 'trackball') {
+                rotateCameraUpright();
+                return;
+            }
+
             const dx = _rotCurr[0] - _rotPrev[0];
             const dy = _rotCurr[1] - _rotPrev[1];
             Vec3.set(rotMoveDir, dx, dy, 0);
@@ -203,9 +227,50 @@ namespace TrackballControls {
             Vec2.copy(_rotPrev, _rotCurr);
         }
 
+        const uprightUp = Vec3();
+        const uprightEyeDir = Vec3();
+
+        /**
+         * Rotate around the up vector and the side axis while keeping the up vector fixed.
+         * Orbits around the target or, in fly mode, turns the view around the camera position.
+         */
+        function rotateCameraUpright() {
+            const dx = _rotCurr[0] - _rotPrev[0];
+            const dy = _rotCurr[1] - _rotPrev[1];
+            Vec2.copy(_rotPrev, _rotCurr);
+            if (!dx && !dy) return;
+
+            const factor = getRotateFactor();
+            // the scene follows the pointer, so in fly mode the view turns the other way
+            const sign = p.mode === 'fly' ? 1 : -1;
+
+            Vec3.normalize(uprightUp, camera.up);
+            Quat.setAxisAngle(rotQuat, uprightUp, sign * dx * factor);
+            Vec3.transformQuat(_eye, _eye, rotQuat);
+
+            // keep the elevation clear of the poles where the up vector becomes ambiguous
+            Vec3.normalize(uprightEyeDir, _eye);
+            Vec3.cross(rotAxis, uprightUp, uprightEyeDir);
+            if (Vec3.squaredMagnitude(rotAxis) > EPSILON) {
+                const polar = Math.acos(clamp(Vec3.dot(uprightEyeDir, uprightUp), -1, 1));
+                const newPolar = clamp(polar - sign * dy * factor, 0.01, Math.PI - 0.01);
+                Quat.setAxisAngle(rotQuat, Vec3.normalize(rotAxis, rotAxis), newPolar - polar);
+                Vec3.transformQuat(_eye, _eye, rotQuat);
+            }
+
+            if (p.mode === 'fly') {
+                Vec3.sub(camera.target, camera.position, _eye);
+            }
+        }
+
         const zRotQuat = Quat();
 
         function zRotateCamera() {
+            if (p.mode !== 'trackball') {
+                Vec2.copy(_zRotPrev, _zRotCurr);
+                return;
+            }
+
             const dx = _zRotCurr[0] - _zRotPrev[0];
             const dy = _zRotCurr[1] - _zRotPrev[1];
             const angle = p.rotateSpeed * (-dx + dy) * -0.05;
@@ -228,7 +293,12 @@ namespace TrackballControls {
         function zoomCamera() {
             const factor = 1.0 + (_zoomEnd[1] - _zoomStart[1]) * p.zoomSpeed;
             if (factor !== 1.0 && factor > 0.0) {
-                Vec3.scale(_eye, _eye, factor);
+                if (p.mode === 'fly') {
+                    // move along the view direction instead of towards the target
+                    Vec3.scaleAndAdd(camera.target, camera.target, _eye, factor - 1);
+                } else {
+                    Vec3.scale(_eye, _eye, factor);
+                }
             }
 
             if (p.staticMoving) {
@@ -283,6 +353,34 @@ namespace TrackballControls {
             }
         }
 
+        const activeKeyMoves = new Set<KeyMoveBinding>();
+        const flyDir = Vec3();
+        const flySide = Vec3();
+        const flyUp = Vec3();
+        const flyOffset = Vec3();
+
+        function flyCamera(deltaT: number) {
+            if (p.mode !== 'fly' || activeKeyMoves.size === 0) return;
+
+            Vec3.normalize(flyDir, Vec3.negate(flyDir, _eye));
+            Vec3.normalize(flyUp, camera.up);
+            Vec3.normalize(flySide, Vec3.cross(flySide, flyDir, flyUp));
+
+            Vec3.set(flyOffset, 0, 0, 0);
+            if (activeKeyMoves.has('keyMoveForward')) Vec3.add(flyOffset, flyOffset, flyDir);
+            if (activeKeyMoves.has('keyMoveBack')) Vec3.sub(flyOffset, flyOffset, flyDir);
+            if (activeKeyMoves.has('keyMoveRight')) Vec3.add(flyOffset, flyOffset, flySide);
+            if (activeKeyMoves.has('keyMoveLeft')) Vec3.sub(flyOffset, flyOffset, flySide);
+            if (activeKeyMoves.has('keyMoveUp')) Vec3.add(flyOffset, flyOffset, flyUp);
+            if (activeKeyMoves.has('keyMoveDown')) Vec3.sub(flyOffset, flyOffset, flyUp);
+            if (Vec3.squaredMagnitude(flyOffset) < EPSILON) return;
+
+            // limit the step after long frames, e.g. when the tab was in the background
+            const distance = p.flySpeed / 100 * camera.state.radiusMax * Math.min(Math.abs(deltaT), 100) / 1000;
+            Vec3.setMagnitude(flyOffset, flyOffset, distance);
+            Vec3.add(camera.target, camera.target, flyOffset);
+        }
+
         /**
          * Ensure the distance between object and target is within the min/max distance
          * and not too large compared to `camera.state.radiusMax`
@@ -331,6 +429,7 @@ namespace TrackballControls {
             zoomCamera();
             focusCamera();
             panCamera();
+            if (lastUpdated > 0) flyCamera(t - lastUpdated);
 
             Vec3.add(camera.position, camera.target, _eye);
             checkDistances();
@@ -438,6 +537,24 @@ namespace TrackballControls {
             _zoomEnd[1] += p.gestureScaleFactor * deltaScale;
         }
 
+        function onKeyDown({ code, modifiers }: KeyInput) {
+            if (p.mode !== 'fly') return;
+
+            for (const b of KeyMoveBindings) {
+                if (p.bindings[b] && Binding.matchKey(p.bindings[b], code, modifiers)) activeKeyMoves.add(b);
+            }
+        }
+
+        function onKeyUp({ code }: KeyInput) {
+            for (const b of KeyMoveBindings) {
+                if (p.bindings[b] && Binding.hasKey(p.bindings[b], code)) activeKeyMoves.delete(b);
+            }
+        }
+
+        function onLeave() {
+            activeKeyMoves.clear();
+        }
+
         function dispose() {
             if (disposed) return;
             disposed = true;
@@ -447,6 +564,9 @@ namespace TrackballControls {
             pinchSub.unsubscribe();
             gestureSub.unsubscribe();
             interactionEndSub.unsubscribe();
+            keyDownSub.unsubscribe();
+            keyUpSub.unsubscribe();
+            leaveSub.unsubscribe();
         }
 
         const _spinSpeed = Vec2.create(0.005, 0);
@@ -495,12 +615,16 @@ namespace TrackballControls {
                 if (props.animate?.name === 'rock' && p.animate.name !== 'rock') {
                     resetRock(); // start rocking from the center
                 }
+                if (props.mode !== undefined && props.mode !== 'fly') {
+                    activeKeyMoves.clear();
+                }
                 Object.assign(p, props);
             },
 
             start,
             update,
             reset,
+            cancelDrag: () => { _isInteracting = false; },
             dispose
         };
     }
@@ -26,7 +26,7 @@ import { Visual } from '../../mol-repr/visual';
 import { Interval } from '../../mol-data/int';
 import { GraphicsRenderVariantsBlended } from '../../mol-gl/webgl/render-item';
 
-const HandleParams = {
+export const HandleParams = {
     ...Mesh.Params,
     alpha: { ...Mesh.Params.alpha, defaultValue: 1 },
     ignoreLight: { ...Mesh.Params.ignoreLight, defaultValue: true },
@@ -35,7 +35,7 @@ const HandleParams = {
     colorZ: PD.Color(ColorNames.blue, { isEssential: true }),
     scale: PD.Numeric(0.33, { min: 0.1, max: 2, step: 0.1 }, { isEssential: true }),
 };
-type HandleParams = typeof HandleParams
+export type HandleParams = typeof HandleParams
 type HandleProps = PD.Values<HandleParams>
 
 export const HandleHelperParams = {
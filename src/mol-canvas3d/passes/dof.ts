@@ -0,0 +1,177 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { CopyRenderable, createCopyRenderable, QuadSchema, QuadValues } from '../../mol-gl/compute/util';
+import { ComputeRenderable, createComputeRenderable } from '../../mol-gl/renderable';
+import { TextureSpec, UniformSpec, DefineSpec, Values } from '../../mol-gl/renderable/schema';
+import { ShaderCode } from '../../mol-gl/shader-code';
+import { WebGLContext } from '../../mol-gl/webgl/context';
+import { createComputeRenderItem } from '../../mol-gl/webgl/render-item';
+import { Texture } from '../../mol-gl/webgl/texture';
+import { Vec2, Vec3 } from '../../mol-math/linear-algebra';
+import { ValueCell } from '../../mol-util';
+import { ParamDefinition as PD } from '../../mol-util/param-definition';
+import { quad_vert } from '../../mol-gl/shader/quad.vert';
+import { dof_frag } from '../../mol-gl/shader/dof.frag';
+import { Viewport } from '../camera/util';
+import { ICamera } from '../camera';
+import { RenderTarget } from '../../mol-gl/webgl/render-target';
+import { isTimingMode } from '../../mol-util/debug';
+
+export const DofParams = {
+    focus: PD.MappedStatic('camera-target', {
+        'camera-target': PD.Group({}),
+        'distance': PD.Group({
+            distance: PD.Numeric(100, { min: 1, max: 1000, step: 1 }, { description: 'Distance from the camera in Angstrom.' }),
+        }, { isFlat: true }),
+    }, { options: [['camera-target', 'Camera Target'], ['distance', 'Distance']], description: 'Where the image is in focus. The camera target is moved by focusing on a selection.' }),
+    aperture: PD.Numeric(1, { min: 0.1, max: 10, step: 0.1 }, { description: 'How quickly the blur increases away from the focal plane.' }),
+    blurSize: PD.Numeric(1, { min: 0.1, max: 5, step: 0.1 }, { description: 'Maximum blur radius in percent of the image height.' }),
+    samples: PD.Numeric(64, { min: 8, max: 256, step: 1 }, { description: 'Number of samples, more give a smoother blur.' }),
+};
+export type DofProps = PD.Values<typeof DofParams>
+
+function getDofFocalDistance(camera: ICamera, props: DofProps) {
+    return props.focus.name === 'distance'
+        ? props.focus.params.distance
+        : Vec3.distance(camera.state.position, camera.state.target);
+}
+
+/**
+ * Blurs the color of a target depending on the distance of its opaque depth
+ * to the focal plane and writes the result back into that target.
+ */
+export class DofPass {
+    private readonly target: RenderTarget;
+    private readonly renderable: DofRenderable;
+    private readonly copyRenderable: CopyRenderable;
+
+    constructor(private webgl: WebGLContext, input: Texture, depth: Texture) {
+        const width = input.getWidth();
+        const height = input.getHeight();
+
+        this.target = webgl.createRenderTarget(width, height, false);
+        this.renderable = getDofRenderable(webgl, input, depth);
+        this.copyRenderable = createCopyRenderable(webgl, this.target.texture);
+    }
+
+    private updateState(viewport: Viewport) {
+        const { gl, state } = this.webgl;
+
+        state.enable(gl.SCISSOR_TEST);
+        state.disable(gl.BLEND);
+        state.disable(gl.DEPTH_TEST);
+        state.depthMask(false);
+
+        const { x, y, width, height } = viewport;
+        gl.viewport(x, y, width, height);
+        gl.scissor(x, y, width, height);
+    }
+
+    setSize(width: number, height: number) {
+        const w = this.target.getWidth();
+        const h = this.target.getHeight();
+
+        if (width !== w || height !== h) {
+            this.target.setSize(width, height);
+            ValueCell.update(this.renderable.values.uTexSize, Vec2.set(this.renderable.values.uTexSize.ref.value, width, height));
+            ValueCell.update(this.copyRenderable.values.uTexSize, Vec2.set(this.copyRenderable.values.uTexSize.ref.value, width, height));
+        }
+    }
+
+    update(camera: ICamera, input: Texture, depth: Texture, props: DofProps) {
+        const { values } = this.renderable;
+        const orthographic = camera.state.mode === 'orthographic' ? 1 : 0;
+
+        let needsUpdate = false;
+
+        if (values.tColor.ref.value !== input) {
+            ValueCell.update(values.tColor, input);
+            needsUpdate = true;
+        }
+
+        if (values.tDepth.ref.value !== depth) {
+            ValueCell.update(values.tDepth, depth);
+            needsUpdate = true;
+        }
+
+        ValueCell.updateIfChanged(values.uNear, camera.near);
+        ValueCell.updateIfChanged(values.uFar, camera.far);
+        ValueCell.updateIfChanged(values.uFocalDistance, getDofFocalDistance(camera, props));
+        ValueCell.updateIfChanged(values.uAperture, props.aperture);
+        // relative to the viewport so that larger images, e.g. screenshots, look the same
+        ValueCell.updateIfChanged(values.uBlurRadius, props.blurSize / 100 * camera.viewport.height);
+
+        if (values.dOrthographic.ref.value !== orthographic) needsUpdate = true;
+        ValueCell.updateIfChanged(values.dOrthographic, orthographic);
+
+        if (values.dSamples.ref.value !== props.samples) needsUpdate = true;
+        ValueCell.updateIfChanged(values.dSamples, props.samples);
+
+        if (needsUpdate) {
+            this.renderable.update();
+        }
+    }
+
+    /** Expects `target` to hold the input texture given in `update` */
+    render(viewport: Viewport, target: RenderTarget) {
+        if (isTimingMode) this.webgl.timer.mark('DofPass.render');
+        this.target.bind();
+        this.updateState(viewport);
+        this.renderable.render();
+
+        target.bind();
+        this.updateState(viewport);
+        this.copyRenderable.render();
+        if (isTimingMode) this.webgl.timer.markEnd('DofPass.render');
+    }
+}
+
+//
+
+const DofSchema = {
+    ...QuadSchema,
+    tColor: TextureSpec('texture', 'rgba', 'ubyte', 'linear'),
+    tDepth: TextureSpec('texture', 'rgba', 'ubyte', 'nearest'),
+    uTexSize: UniformSpec('v2'),
+
+    uNear: UniformSpec('f'),
+    uFar: UniformSpec('f'),
+    uFocalDistance: UniformSpec('f'),
+    uAperture: UniformSpec('f'),
+    uBlurRadius: UniformSpec('f'),
+
+    dOrthographic: DefineSpec('number'),
+    dSamples: DefineSpec('number'),
+};
+const DofShaderCode = ShaderCode('dof', quad_vert, dof_frag);
+type DofRenderable = ComputeRenderable<Values<typeof DofSchema>>
+
+function getDofRenderable(ctx: WebGLContext, colorTexture: Texture, depthTexture: Texture): DofRenderable {
+    const width = colorTexture.getWidth();
+    const height = colorTexture.getHeight();
+
+    const values: Values<typeof DofSchema> = {
+        ...QuadValues,
+        tColor: ValueCell.create(colorTexture),
+        tDepth: ValueCell.create(depthTexture),
+        uTexSize: ValueCell.create(Vec2.create(width, height)),
+
+        uNear: ValueCell.create(1),
+        uFar: ValueCell.create(10000),
+        uFocalDistance: ValueCell.create(100),
+        uAperture: ValueCell.create(1),
+        uBlurRadius: ValueCell.create(10),
+
+        dOrthographic: ValueCell.create(0),
+        dSamples: ValueCell.create(64),
+    };
+
+    const schema = { ...DofSchema };
+    const renderItem = createComputeRenderItem(ctx, 'triangles', DofShaderCode, schema, values);
+
+    return createComputeRenderable(renderItem, values);
+}
@@ -19,6 +19,7 @@ import { StereoCamera } from '../camera/stereo';
 import { WboitPass } from './wboit';
 import { AntialiasingPass, PostprocessingPass, PostprocessingProps } from './postprocessing';
 import { MarkingPass, MarkingProps } from './marking';
+import { DofPass } from './dof';
 import { CopyRenderable, createCopyRenderable } from '../../mol-gl/compute/util';
 import { isTimingMode } from '../../mol-util/debug';
 
@@ -53,6 +54,7 @@ export class DrawPass {
     private wboit: WboitPass | undefined;
     private readonly marking: MarkingPass;
     readonly postprocessing: PostprocessingPass;
+    private readonly dof: DofPass;
     private readonly antialiasing: AntialiasingPass;
 
     get wboitEnabled() {
@@ -80,6 +82,7 @@ export class DrawPass {
         this.wboit = enableWboit ? new WboitPass(webgl, width, height) : undefined;
         this.marking = new MarkingPass(webgl, width, height);
         this.postprocessing = new PostprocessingPass(webgl, this);
+        this.dof = new DofPass(webgl, this.colorTarget.texture, this.depthTextureOpaque);
         this.antialiasing = new AntialiasingPass(webgl, this);
 
         this.copyFboTarget = createCopyRenderable(webgl, this.colorTarget.texture);
@@ -113,6 +116,7 @@ export class DrawPass {
 
             this.marking.setSize(width, height);
             this.postprocessing.setSize(width, height);
+            this.dof.setSize(width, height);
             this.antialiasing.setSize(width, height);
         }
     }
@@ -138,7 +142,7 @@ export class DrawPass {
                 }
             }
 
-            this.postprocessing.render(camera, false, transparentBackground, renderer.props.backgroundColor, postprocessingProps);
+            this.postprocessing.render(camera, false, transparentBackground, renderer.props.backgroundColor, renderer.props.light, postprocessingProps);
         }
 
         // render transparent primitives and volumes
@@ -199,7 +203,7 @@ export class DrawPass {
                     }
                 }
 
-                this.postprocessing.render(camera, false, transparentBackground, renderer.props.backgroundColor, postprocessingProps);
+                this.postprocessing.render(camera, false, transparentBackground, renderer.props.backgroundColor, renderer.props.light, postprocessingProps);
 
                 if (!this.packedDepth) {
                     this.depthTextureOpaque.attachFramebuffer(this.postprocessing.target.framebuffer, 'depth');
@@ -238,6 +242,7 @@ export class DrawPass {
     private _render(renderer: Renderer, camera: ICamera, scene: Scene, helper: Helper, toDrawingBuffer: boolean, props: Props) {
         const volumeRendering = scene.volumes.renderables.length > 0;
         const postprocessingEnabled = PostprocessingPass.isEnabled(props.postprocessing);
+        const dofEnabled = PostprocessingPass.isDofEnabled(props.postprocessing);
         const antialiasingEnabled = AntialiasingPass.isEnabled(props.postprocessing);
         const markingEnabled = MarkingPass.isEnabled(props.marking);
 
@@ -253,12 +258,19 @@ export class DrawPass {
         if (this.wboitEnabled) {
             this._renderWboit(renderer, camera, scene, props.transparentBackground, props.postprocessing);
         } else {
-            this._renderBlended(renderer, camera, scene, !volumeRendering && !postprocessingEnabled && !antialiasingEnabled && toDrawingBuffer, props.transparentBackground, props.postprocessing);
+            this._renderBlended(renderer, camera, scene, !volumeRendering && !postprocessingEnabled && !dofEnabled && !antialiasingEnabled && toDrawingBuffer, props.transparentBackground, props.postprocessing);
+        }
+
+        if (props.postprocessing.dof.name === 'on') {
+            // before marking and helpers, so that those stay sharp
+            const target = postprocessingEnabled ? this.postprocessing.target : this.colorTarget;
+            this.dof.update(camera, target.texture, this.depthTextureOpaque, props.postprocessing.dof.params);
+            this.dof.render(camera.viewport, target);
         }
 
         if (postprocessingEnabled) {
             this.postprocessing.target.bind();
-        } else if (!toDrawingBuffer || volumeRendering || this.wboitEnabled) {
+        } else if (!toDrawingBuffer || volumeRendering || dofEnabled || this.wboitEnabled) {
             this.colorTarget.bind();
         } else {
             this.drawTarget.bind();
@@ -303,7 +315,7 @@ export class DrawPass {
             this.webgl.state.disable(this.webgl.gl.DEPTH_TEST);
             if (postprocessingEnabled) {
                 this.copyFboPostprocessing.render();
-            } else if (volumeRendering || this.wboitEnabled) {
+            } else if (volumeRendering || dofEnabled || this.wboitEnabled) {
                 this.copyFboTarget.render();
             }
         }
@@ -93,7 +93,8 @@ export class ImagePass {
         }
     }
 
-    getImageData(width: number, height: number, viewport?: Viewport) {
+    /** Render and read back the pixels, flipped and with alpha divided out; does not require a DOM */
+    getPixelData(width: number, height: number, viewport?: Viewport) {
         this.setSize(width, height);
         this.render();
         this.colorTarget.bind();
@@ -109,6 +110,11 @@ export class ImagePass {
         const pixelData = PixelData.create(array, w, h);
         PixelData.flipY(pixelData);
         PixelData.divideByAlpha(pixelData);
+        return pixelData;
+    }
+
+    getImageData(width: number, height: number, viewport?: Viewport) {
+        const { array, width: w, height: h } = this.getPixelData(width, height, viewport);
         return new ImageData(new Uint8ClampedArray(array), w, h);
     }
 }
\ No newline at end of file
@@ -27,6 +27,9 @@ import { Framebuffer } from '../../mol-gl/webgl/framebuffer';
 import { Color } from '../../mol-util/color';
 import { FxaaParams, FxaaPass } from './fxaa';
 import { SmaaParams, SmaaPass } from './smaa';
+import { DofParams } from './dof';
+import { RendererProps } from '../../mol-gl/renderer';
+import { degToRad } from '../../mol-math/misc';
 import { isTimingMode } from '../../mol-util/debug';
 
 const OutlinesSchema = {
@@ -211,6 +214,16 @@ const PostprocessingSchema = {
     dOutlineEnable: DefineSpec('boolean'),
     dOutlineScale: DefineSpec('number'),
     uOutlineThreshold: UniformSpec('f'),
+
+    dShadowEnable: DefineSpec('boolean'),
+    dShadowSteps: DefineSpec('number'),
+    uProjection: UniformSpec('m4'),
+    uInvProjection: UniformSpec('m4'),
+    uLightDirection: UniformSpec('v3'),
+    uShadowMaxDistance: UniformSpec('f'),
+    uShadowTolerance: UniformSpec('f'),
+    uShadowSoftness: UniformSpec('f'),
+    uShadowStrength: UniformSpec('f'),
 };
 type PostprocessingRenderable = ComputeRenderable<Values<typeof PostprocessingSchema>>
 
@@ -241,6 +254,16 @@ function getPostprocessingRenderable(ctx: WebGLContext, colorTexture: Texture, d
         dOutlineEnable: ValueCell.create(false),
         dOutlineScale: ValueCell.create(1),
         uOutlineThreshold: ValueCell.create(0.33),
+
+        dShadowEnable: ValueCell.create(false),
+        dShadowSteps: ValueCell.create(16),
+        uProjection: ValueCell.create(Mat4.identity()),
+        uInvProjection: ValueCell.create(Mat4.identity()),
+        uLightDirection: ValueCell.create(Vec3.create(0, 0, 1)),
+        uShadowMaxDistance: ValueCell.create(5),
+        uShadowTolerance: ValueCell.create(1),
+        uShadowSoftness: ValueCell.create(0.5),
+        uShadowStrength: ValueCell.create(0.6),
     };
 
     const schema = { ...PostprocessingSchema };
@@ -261,6 +284,15 @@ export const PostprocessingParams = {
         }),
         off: PD.Group({})
     }, { cycle: true, description: 'Darken occluded crevices with the ambient occlusion effect' }),
+    shadow: PD.MappedStatic('off', {
+        on: PD.Group({
+            steps: PD.Numeric(16, { min: 1, max: 64, step: 1 }, { description: 'Number of ray marching steps towards the light' }),
+            maxDistance: PD.Numeric(5, { min: 0.1, max: 20, step: 0.1 }, { description: 'Maximum distance towards the light to look for occluders' }),
+            tolerance: PD.Numeric(1, { min: 0.1, max: 10, step: 0.1 }, { description: 'Assumed thickness of occluders' }),
+            softness: PD.Numeric(0.5, { min: 0, max: 1, step: 0.01 }, { description: 'Lighten shadows of occluders further away' }),
+        }),
+        off: PD.Group({})
+    }, { cycle: true, description: 'Cast shadows from the first directional light using screen-space ray marching' }),
     outline: PD.MappedStatic('off', {
         on: PD.Group({
             scale: PD.Numeric(1, { min: 1, max: 5, step: 1 }),
@@ -269,6 +301,10 @@ export const PostprocessingParams = {
         }),
         off: PD.Group({})
     }, { cycle: true, description: 'Draw outline around 3D objects' }),
+    dof: PD.MappedStatic('off', {
+        on: PD.Group(DofParams),
+        off: PD.Group({})
+    }, { cycle: true, description: 'Blur the image away from the focal plane with a depth-of-field effect' }),
     antialiasing: PD.MappedStatic('smaa', {
         fxaa: PD.Group(FxaaParams),
         smaa: PD.Group(SmaaParams),
@@ -279,13 +315,17 @@ export type PostprocessingProps = PD.Values<typeof PostprocessingParams>
 
 export class PostprocessingPass {
     static isEnabled(props: PostprocessingProps) {
-        return props.occlusion.name === 'on' || props.outline.name === 'on';
+        return props.occlusion.name === 'on' || props.shadow.name === 'on' || props.outline.name === 'on';
     }
 
     static isOutlineEnabled(props: PostprocessingProps) {
         return props.outline.name === 'on';
     }
 
+    static isDofEnabled(props: PostprocessingProps) {
+        return props.dof.name === 'on';
+    }
+
     readonly target: RenderTarget;
 
     private readonly outlinesTarget: RenderTarget;
@@ -394,7 +434,7 @@ export class PostprocessingPass {
         }
     }
 
-    private updateState(camera: ICamera, transparentBackground: boolean, backgroundColor: Color, props: PostprocessingProps) {
+    private updateState(camera: ICamera, transparentBackground: boolean, backgroundColor: Color, light: RendererProps['light'], props: PostprocessingProps) {
         let needsUpdateMain = false;
         let needsUpdateSsao = false;
         let needsUpdateSsaoBlur = false;
@@ -402,6 +442,8 @@ export class PostprocessingPass {
         const orthographic = camera.state.mode === 'orthographic' ? 1 : 0;
         const outlinesEnabled = props.outline.name === 'on';
         const occlusionEnabled = props.occlusion.name === 'on';
+        // shadows are cast from the first light only
+        const shadowEnabled = props.shadow.name === 'on' && light.length > 0;
 
         const invProjection = Mat4.identity();
         Mat4.invert(invProjection, camera.projection);
@@ -484,6 +526,26 @@ export class PostprocessingPass {
             }
         }
 
+        if (props.shadow.name === 'on' && shadowEnabled) {
+            const { steps, maxDistance, tolerance, softness } = props.shadow.params;
+            const { inclination, azimuth, intensity } = light[0];
+
+            ValueCell.update(this.renderable.values.uProjection, camera.projection);
+            ValueCell.update(this.renderable.values.uInvProjection, invProjection);
+
+            // light directions are in view space, a negative radius points towards the light
+            const lightDirection = this.renderable.values.uLightDirection.ref.value;
+            Vec3.directionFromSpherical(lightDirection, degToRad(inclination), degToRad(azimuth), -1);
+            ValueCell.update(this.renderable.values.uLightDirection, lightDirection);
+
+            ValueCell.updateIfChanged(this.renderable.values.uShadowMaxDistance, maxDistance);
+            ValueCell.updateIfChanged(this.renderable.values.uShadowTolerance, tolerance);
+            ValueCell.updateIfChanged(this.renderable.values.uShadowSoftness, softness);
+            ValueCell.updateIfChanged(this.renderable.values.uShadowStrength, intensity);
+            if (this.renderable.values.dShadowSteps.ref.value !== steps) { needsUpdateMain = true; }
+            ValueCell.updateIfChanged(this.renderable.values.dShadowSteps, steps);
+        }
+
         if (props.outline.name === 'on') {
             let { threshold } = props.outline.params;
             // orthographic needs lower threshold
@@ -516,6 +578,8 @@ export class PostprocessingPass {
         ValueCell.updateIfChanged(this.renderable.values.dOutlineEnable, outlinesEnabled);
         if (this.renderable.values.dOcclusionEnable.ref.value !== occlusionEnabled) { needsUpdateMain = true; }
         ValueCell.updateIfChanged(this.renderable.values.dOcclusionEnable, occlusionEnabled);
+        if (this.renderable.values.dShadowEnable.ref.value !== shadowEnabled) { needsUpdateMain = true; }
+        ValueCell.updateIfChanged(this.renderable.values.dShadowEnable, shadowEnabled);
 
         if (needsUpdateSsao) {
             this.ssaoRenderable.update();
@@ -549,9 +613,9 @@ export class PostprocessingPass {
         ValueCell.update(this.renderable.values.uOcclusionOffset, Vec2.set(this.renderable.values.uOcclusionOffset.ref.value, x, y));
     }
 
-    render(camera: ICamera, toDrawingBuffer: boolean, transparentBackground: boolean, backgroundColor: Color, props: PostprocessingProps) {
+    render(camera: ICamera, toDrawingBuffer: boolean, transparentBackground: boolean, backgroundColor: Color, light: RendererProps['light'], props: PostprocessingProps) {
         if (isTimingMode) this.webgl.timer.mark('PostprocessingPass.render');
-        this.updateState(camera, transparentBackground, backgroundColor, props);
+        this.updateState(camera, transparentBackground, backgroundColor, light, props);
 
         if (props.outline.name === 'on') {
             this.outlinesTarget.bind();
@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+/**
+ * Single pass gather depth-of-field, the sampling and weighting follows
+ * Dennis Gustafsson, "Bokeh depth of field in a single pass"
+ */
+export const dof_frag = `
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+
+uniform sampler2D tColor;
+uniform sampler2D tDepth;
+uniform vec2 uTexSize;
+
+uniform float uNear;
+uniform float uFar;
+
+uniform float uFocalDistance;
+uniform float uAperture;
+uniform float uBlurRadius;
+
+#include common
+
+const float goldenAngle = 2.39996323;
+
+float getViewZ(const in float depth) {
+    #if dOrthographic == 1
+        return orthographicDepthToViewZ(depth, uNear, uFar);
+    #else
+        return perspectiveDepthToViewZ(depth, uNear, uFar);
+    #endif
+}
+
+float getDepth(const in vec2 coords) {
+    #ifdef depthTextureSupport
+        return texture2D(tDepth, coords).r;
+    #else
+        return unpackRGBAToDepth(texture2D(tDepth, coords));
+    #endif
+}
+
+bool isBackground(const in float depth) {
+    return depth == 1.0;
+}
+
+// radius of the circle of confusion in pixels
+float getBlurRadius(const in float depth) {
+    float viewDist = isBackground(depth) ? uFar : -getViewZ(depth);
+    float coc = uAperture * abs(viewDist - uFocalDistance) / max(viewDist, uNear);
+    return clamp(coc, 0.0, 1.0) * uBlurRadius;
+}
+
+void main(void) {
+    vec2 coords = gl_FragCoord.xy / uTexSize;
+    vec2 invTexSize = 1.0 / uTexSize;
+
+    float centerDepth = getDepth(coords);
+    float centerRadius = getBlurRadius(centerDepth);
+
+    // colors are premultiplied, averaging them keeps transparent backgrounds intact
+    vec4 color = texture2D(tColor, coords);
+    float total = 1.0;
+
+    for (int i = 1; i < dSamples; ++i) {
+        float fi = float(i);
+        float radius = uBlurRadius * sqrt(fi / float(dSamples));
+        float angle = fi * goldenAngle;
+        vec2 sampleCoords = coords + vec2(cos(angle), sin(angle)) * radius * invTexSize;
+
+        vec4 sampleColor = texture2D(tColor, sampleCoords);
+        float sampleDepth = getDepth(sampleCoords);
+        float sampleRadius = getBlurRadius(sampleDepth);
+
+        // keep blurry background from bleeding into sharper foreground
+        if (sampleDepth > centerDepth) {
+            sampleRadius = min(sampleRadius, centerRadius * 2.0);
+        }
+
+        // samples only contribute when their circle of confusion reaches the center
+        float m = smoothstep(radius - 0.5, radius + 0.5, sampleRadius);
+        color += mix(color / total, sampleColor, m);
+        total += 1.0;
+    }
+
+    gl_FragColor = color / total;
+}
+`;
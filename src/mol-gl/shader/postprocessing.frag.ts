@@ -29,6 +29,14 @@ uniform vec2 uOcclusionOffset;
 
 uniform float uMaxPossibleViewZDiff;
 
+uniform mat4 uProjection;
+uniform mat4 uInvProjection;
+uniform vec3 uLightDirection;
+uniform float uShadowMaxDistance;
+uniform float uShadowTolerance;
+uniform float uShadowSoftness;
+uniform float uShadowStrength;
+
 const vec3 occlusionColor = vec3(0.0);
 
 #include common
@@ -99,6 +107,40 @@ float getSsao(vec2 coords) {
     return 1.0;
 }
 
+#ifdef dShadowEnable
+    // march from the surface towards the light and look for opaque
+    // surfaces in front of the ray, within the assumed occluder thickness
+    float getShadow(const in vec2 coords, const in float opaqueDepth) {
+        vec3 viewPos = screenSpaceToViewSpace(vec3(coords, opaqueDepth), uInvProjection);
+        float stepLength = uShadowMaxDistance / float(dShadowSteps);
+        float bias = 0.1 * stepLength;
+
+        float shadow = 0.0;
+        for (int i = 1; i <= dShadowSteps; i++) {
+            float t = float(i) / float(dShadowSteps);
+            vec3 samplePos = viewPos + uLightDirection * (uShadowMaxDistance * t);
+
+            vec4 p = uProjection * vec4(samplePos, 1.0);
+            vec2 sampleCoords = (p.xy / p.w) * 0.5 + 0.5;
+            if (sampleCoords.x < 0.0 || sampleCoords.y < 0.0 || sampleCoords.x > 1.0 || sampleCoords.y > 1.0) {
+                break;
+            }
+
+            float sampleDepth = getDepthOpaque(sampleCoords);
+            if (isBackground(sampleDepth)) {
+                continue;
+            }
+
+            float viewZDiff = getViewZ(sampleDepth) - samplePos.z;
+            if (viewZDiff > bias && viewZDiff < uShadowTolerance) {
+                // occluders further along the ray give softer shadows
+                shadow = max(shadow, 1.0 - uShadowSoftness * t);
+            }
+        }
+        return shadow;
+    }
+#endif
+
 void main(void) {
     vec2 coords = gl_FragCoord.xy / uTexSize;
     vec4 color = texture2D(tColor, coords);
@@ -107,6 +149,15 @@ void main(void) {
     float fogFactor;
     float opaqueDepth = getDepthOpaque(coords);
 
+    #ifdef dShadowEnable
+        if (!isBackground(opaqueDepth)) {
+            viewDist = abs(getViewZ(opaqueDepth));
+            fogFactor = smoothstep(uFogNear, uFogFar, viewDist);
+            float shadow = getShadow(coords, opaqueDepth);
+            color.rgb *= 1.0 - uShadowStrength * shadow * (1.0 - fogFactor);
+        }
+    #endif
+
     #ifdef dOcclusionEnable
         if (!isBackground(opaqueDepth)) {
             viewDist = abs(getViewZ(opaqueDepth));
@@ -81,4 +81,36 @@ export namespace FileHandle {
             close: noop
         };
     }
+
+    /** Only the requested byte ranges of the blob are read, e.g. of a `File` selected by the user */
+    export function fromBlob(blob: Blob, name: string): FileHandle {
+        return {
+            name,
+            readBuffer: async (position: number, sizeOrBuffer: SimpleBuffer | number, size?: number, byteOffset?: number) => {
+                size = defaults(size, typeof sizeOrBuffer === 'number' ? sizeOrBuffer : sizeOrBuffer.length);
+                const data = new Uint8Array(await blob.slice(position, position + size).arrayBuffer());
+                const bytesRead = data.length;
+                let outBuffer: SimpleBuffer;
+                if (typeof sizeOrBuffer === 'number') {
+                    outBuffer = SimpleBuffer.fromUint8Array(data);
+                } else {
+                    sizeOrBuffer.set(data, byteOffset);
+                    outBuffer = sizeOrBuffer;
+                }
+                if (size !== bytesRead) {
+                    console.warn(`byteCount ${size} and bytesRead ${bytesRead} differ`);
+                }
+                return { bytesRead, buffer: outBuffer };
+            },
+            writeBuffer: (position: number, buffer: SimpleBuffer, length?: number) => {
+                console.error('.writeBuffer not implemented for FileHandle.fromBlob');
+                return Promise.resolve(0);
+            },
+            writeBufferSync: (position: number, buffer: SimpleBuffer, length?: number) => {
+                console.error('.writeSync not implemented for FileHandle.fromBlob');
+                return 0;
+            },
+            close: noop
+        };
+    }
 }
\ No newline at end of file
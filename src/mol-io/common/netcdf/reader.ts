@@ -413,8 +413,9 @@ function variablesList(buffer: IOBuffer, recordId: number, version: number) {
                 offset = buffer.readUint32();
             }
 
-            // Count amount of record variables
-            if (dimensionsIds[0] === recordId) {
+            // Count amount of record variables, scalars are never record variables
+            const isRecord = dimensionality > 0 && dimensionsIds[0] === recordId;
+            if (isRecord) {
                 recordStep += varSize;
             }
 
@@ -425,7 +426,7 @@ function variablesList(buffer: IOBuffer, recordId: number, version: number) {
                 type: num2str(type),
                 size: varSize,
                 offset: offset,
-                record: (dimensionsIds[0] === recordId)
+                record: isRecord
             };
         }
     }
@@ -1,10 +1,12 @@
 /**
- * Copyright (c) 2019 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ * Copyright (c) 2019-2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
  *
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
 
-import { parseDcd } from '../dcd/parser';
+import { FileHandle } from '../../common/file-handle';
+import { DcdWriter } from '../../writer/dcd';
+import { indexDcd, parseDcd, readDcdFrameFromFile } from '../dcd/parser';
 
 function createDcdData() {
     const data = new Uint8Array(4 * 128);
@@ -71,4 +73,27 @@ describe('dcd reader', () => {
         expect(frames[0].y[0]).toBeCloseTo(0.2, 0.0001);
         expect(frames[0].z[0]).toBeCloseTo(0.3, 0.0001);
     });
+
+    it('index', async () => {
+        const encoder = DcdWriter.createEncoder();
+        const x = new Float32Array([1, 2, 3]), y = new Float32Array([4, 5, 6]), z = new Float32Array([7, 8, 9]);
+        for (let i = 0; i < 3; ++i) {
+            encoder.writeFrame(x.map(v => v + i), y, z, 3);
+        }
+        const data = encoder.getData();
+
+        // frames are read from byte ranges of the blob
+        const blob = new Blob([data]);
+        const file = FileHandle.fromBlob(blob, 'test.dcd');
+        const indexed = await indexDcd(file, blob.size).run();
+        if (indexed.isError) throw new Error(indexed.message);
+
+        const index = indexed.result;
+        expect(index.header.NSET).toBe(3);
+        expect(index.frameOffset + 3 * index.frameSize).toBe(data.length);
+
+        const frame = await readDcdFrameFromFile(file, index, 2);
+        expect(Array.from(frame.x)).toEqual([3, 4, 5]);
+        expect(Array.from(frame.z)).toEqual([7, 8, 9]);
+    });
 });
@@ -0,0 +1,170 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { parseLammpsData } from '../lammps/data/parser';
+import { parseLammpsDump } from '../lammps/dump/parser';
+
+const dataString = `LAMMPS data file for water
+
+6 atoms
+4 bonds
+2 atom types
+1 bond types
+
+0.0 20.0 xlo xhi
+-5.0 15.0 ylo yhi
+0.0 30.0 zlo zhi
+1.0 0.0 0.5 xy xz yz
+
+Masses
+
+1 15.9994 # O
+2 1.008
+
+Pair Coeffs # lj/cut
+
+1 0.1553 3.166
+2 0.0 0.0
+
+Atoms # full
+
+4 2 1 -0.8476 5.0 5.0 5.0 0 0 0
+5 2 2 0.4238 5.8 5.6 5.0 0 0 0
+6 2 2 0.4238 4.2 5.6 5.0 0 0 0
+1 1 1 -0.8476 1.0 1.0 1.0 0 0 0
+2 1 2 0.4238 1.8 1.6 1.0 0 0 0
+3 1 2 0.4238 0.2 1.6 1.0 0 0 0
+
+Velocities
+
+1 0.0 0.0 0.0
+
+Bonds
+
+1 1 1 2
+2 1 1 3
+3 1 4 5
+4 1 4 6
+`;
+
+const atomicDataString = `LAMMPS data file
+
+2 atoms
+1 atom types
+0 10 xlo xhi
+0 10 ylo yhi
+0 10 zlo zhi
+
+Atoms
+
+1 1 0.5 0.5 0.5
+2 1 1.5 0.5 0.5
+`;
+
+const dumpString = `ITEM: TIMESTEP
+100
+ITEM: NUMBER OF ATOMS
+3
+ITEM: BOX BOUNDS pp pp pp
+0.0 10.0
+0.0 20.0
+-5.0 5.0
+ITEM: ATOMS id type xs ys zs
+3 1 0.5 0.5 0.5
+1 1 0.0 0.0 0.0
+2 2 1.0 0.25 0.1
+ITEM: TIMESTEP
+200
+ITEM: NUMBER OF ATOMS
+3
+ITEM: BOX BOUNDS xy xz yz pp pp pp
+-1.0 12.0 2.0
+0.0 20.0 -1.0
+-5.0 5.0 0.0
+ITEM: ATOMS id type xu yu zu vx
+1 1 1.0 2.0 3.0 0.1
+2 2 4.0 5.0 6.0 0.1
+3 1 7.0 8.0 9.0 0.1
+`;
+
+describe('lammps data reader', () => {
+    it('full style', async () => {
+        const parsed = await parseLammpsData(dataString).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { title, atomStyle, box, atoms, bonds, masses } = parsed.result;
+        expect(title).toBe('LAMMPS data file for water');
+        expect(atomStyle).toBe('full');
+        expect(box.lower).toEqual([0, -5, 0]);
+        expect(box.length).toEqual([20, 20, 30]);
+        expect(box.tilt).toEqual([1, 0, 0.5]);
+
+        expect(atoms.count).toBe(6);
+        expect(atoms.atomId.value(0)).toBe(4);
+        expect(atoms.moleculeId.value(0)).toBe(2);
+        expect(atoms.atomType.value(1)).toBe(2);
+        expect(atoms.charge.value(0)).toBeCloseTo(-0.8476, 4);
+        expect(atoms.x.value(1)).toBeCloseTo(5.8, 4);
+        expect(atoms.z.value(5)).toBeCloseTo(1.0, 4);
+
+        expect(bonds.count).toBe(4);
+        expect(bonds.atomIdA.value(3)).toBe(4);
+        expect(bonds.atomIdB.value(3)).toBe(6);
+
+        expect(masses.count).toBe(2);
+        expect(masses.mass.value(0)).toBeCloseTo(15.9994, 4);
+    });
+
+    it('guessed atomic style', async () => {
+        const parsed = await parseLammpsData(atomicDataString).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { atomStyle, atoms, bonds } = parsed.result;
+        expect(atomStyle).toBe('atomic');
+        expect(atoms.count).toBe(2);
+        expect(atoms.moleculeId.value(1)).toBe(0);
+        expect(atoms.x.value(1)).toBeCloseTo(1.5, 4);
+        expect(bonds.count).toBe(0);
+    });
+
+    it('unsupported style', async () => {
+        const parsed = await parseLammpsData(atomicDataString.replace('Atoms', 'Atoms # ellipsoid')).run();
+        expect(parsed.isError).toBe(true);
+    });
+});
+
+describe('lammps dump reader', () => {
+    it('scaled and unscaled frames', async () => {
+        const parsed = await parseLammpsDump(dumpString).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { frames } = parsed.result;
+        expect(frames.length).toBe(2);
+
+        const [a, b] = frames;
+        expect(a.timestep).toBe(100);
+        expect(a.count).toBe(3);
+        expect(Array.from(a.atomId)).toEqual([3, 1, 2]);
+        expect(a.box.length).toEqual([10, 20, 10]);
+        expect(a.x[0]).toBeCloseTo(5, 5);
+        expect(a.y[0]).toBeCloseTo(10, 5);
+        expect(a.z[0]).toBeCloseTo(0, 5);
+        expect(a.x[2]).toBeCloseTo(10, 5);
+        expect(a.z[2]).toBeCloseTo(-4, 5);
+
+        expect(b.timestep).toBe(200);
+        expect(b.box.tilt).toEqual([2, -1, 0]);
+        // xlo_bound = xlo + min(0, xy, xz, xy + xz), xhi_bound = xhi + max(0, xy, xz, xy + xz)
+        expect(b.box.lower).toEqual([0, 0, -5]);
+        expect(b.box.length).toEqual([10, 20, 10]);
+        expect(b.y[1]).toBeCloseTo(5, 5);
+    });
+
+    it('missing coordinates', async () => {
+        const parsed = await parseLammpsDump(dumpString.replace('xs ys zs', 'vx vy vz')).run();
+        expect(parsed.isError).toBe(true);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { parsePqr } from '../pqr/parser';
+
+const pqrString = `REMARK   1 PQR file
+ATOM      1  N   ALA A   1      -1.234   2.345  -3.456 -0.3000 1.8240
+ATOM      2  CA  ALA A   1       0.000   1.000   2.000  0.0337 1.9080
+ATOM      3  O   ALA A   2B      1.000   2.000   3.000 -0.5679 1.6612
+HETATM    4 ZN    ZN   101       8.000   2.000   0.000  2.0000 1.1000
+END`;
+
+const pqrStringModels = `MODEL        1
+ATOM      1  O   HOH     1       0.000   0.000   0.000 -0.8340 1.7683
+ENDMDL
+MODEL        2
+ATOM      1  O   HOH     1       1.000   0.000   0.000 -0.8340 1.7683
+ENDMDL
+END`;
+
+describe('pqr reader', () => {
+    it('basic', async () => {
+        const parsed = await parsePqr(pqrString).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { models } = parsed.result;
+        expect(models.length).toBe(1);
+
+        const atoms = models[0];
+        expect(atoms.count).toBe(4);
+        expect(atoms.isHetero.toArray()).toEqual([0, 0, 0, 1]);
+        expect(atoms.atomName.value(1)).toBe('CA');
+        expect(atoms.residueName.value(3)).toBe('ZN');
+        expect(atoms.chainId.value(0)).toBe('A');
+        expect(atoms.chainId.value(3)).toBe('');
+        expect(atoms.residueNumber.value(2)).toBe(2);
+        expect(atoms.insertionCode.value(2)).toBe('B');
+        expect(atoms.residueNumber.value(3)).toBe(101);
+        expect(atoms.x.value(0)).toBeCloseTo(-1.234);
+        expect(atoms.z.value(2)).toBeCloseTo(3.0);
+        expect(atoms.charge.value(0)).toBeCloseTo(-0.3);
+        expect(atoms.charge.value(3)).toBeCloseTo(2.0);
+        expect(atoms.radius.value(2)).toBeCloseTo(1.6612);
+    });
+
+    it('models', async () => {
+        const parsed = await parsePqr(pqrStringModels).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { models } = parsed.result;
+        expect(models.length).toBe(2);
+        expect(models[1].x.value(0)).toBeCloseTo(1.0);
+    });
+
+    it('invalid record', async () => {
+        const parsed = await parsePqr('ATOM      1  N   ALA A   1      -1.234   2.345').run();
+        expect(parsed.isError).toBe(true);
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { parseNcrst } from '../ncrst/parser';
+import { parseRst7 } from '../rst7/parser';
+
+const inpcrdString = `ACE
+     5
+   2.0000000   1.0000000  -0.0000000   2.0000000   2.0900000   0.0000000
+   1.4862640   2.4538490   0.8898000   1.4862640   2.4538490  -0.8898000
+   3.4274200   2.6407950  -0.0000000`;
+
+const rst7String = `ACE restart
+     2  0.1000000E+02
+   2.0000000   1.0000000  -0.0000000-102.0000000   2.0900000   0.0000000
+   0.1000000   0.2000000  -0.3000000   0.0000000   0.0000000   1.0000000
+  30.0000000  40.0000000  50.0000000  90.0000000 109.4712190  90.0000000
+`;
+
+describe('rst7 reader', () => {
+    it('inpcrd', async () => {
+        const parsed = await parseRst7(inpcrdString).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const f = parsed.result;
+        expect(f.title).toBe('ACE');
+        expect(f.atomCount).toBe(5);
+        expect(f.time).toBeUndefined();
+        expect(f.velocities).toBeUndefined();
+        expect(f.box).toBeUndefined();
+        expect(f.x[4]).toBeCloseTo(3.42742, 5);
+        expect(f.y[2]).toBeCloseTo(2.453849, 5);
+        expect(f.z[3]).toBeCloseTo(-0.8898, 5);
+    });
+
+    it('restart with velocities and box', async () => {
+        const parsed = await parseRst7(rst7String).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const f = parsed.result;
+        expect(f.atomCount).toBe(2);
+        expect(f.time).toBe(10);
+        expect(f.x[1]).toBeCloseTo(-102, 5);
+        expect(f.velocities!.vx[0]).toBeCloseTo(0.1 * 20.455, 5);
+        expect(f.velocities!.vz[1]).toBeCloseTo(20.455, 5);
+        expect(f.box!.lengths).toEqual([30, 40, 50]);
+        expect(f.box!.angles[1]).toBeCloseTo(109.471219, 5);
+    });
+
+    it('invalid', async () => {
+        const parsed = await parseRst7(`ACE\n     3\n   1.0000000   2.0000000\n`).run();
+        expect(parsed.isError).toBe(true);
+    });
+});
+
+//
+
+type NcType = 2 | 5 | 6 // char, float, double
+type NcValue = { type: NcType, values: string | number[] }
+
+/** Minimal NetCDF classic format writer, without record variables */
+function createNetcdf(dims: [string, number][], attributes: [string, NcValue][], variables: [string, string[], NcValue][]) {
+    const bytes: number[] = [];
+    const int = (v: number) => bytes.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff);
+    const pad = () => { while (bytes.length % 4 !== 0) bytes.push(0); };
+    const name = (n: string) => { int(n.length); for (let i = 0; i < n.length; ++i) bytes.push(n.charCodeAt(i)); pad(); };
+    const values = (v: NcValue) => {
+        if (typeof v.values === 'string') {
+            for (let i = 0; i < v.values.length; ++i) bytes.push(v.values.charCodeAt(i));
+        } else {
+            const dv = new DataView(new ArrayBuffer(8));
+            for (const x of v.values) {
+                if (v.type === 6) dv.setFloat64(0, x); else dv.setFloat32(0, x);
+                for (let i = 0; i < (v.type === 6 ? 8 : 4); ++i) bytes.push(dv.getUint8(i));
+            }
+        }
+        pad();
+    };
+    const attributeList = (list: [string, NcValue][]) => {
+        if (list.length === 0) { int(0); int(0); return; }
+        int(12); int(list.length);
+        for (const [n, v] of list) {
+            name(n);
+            int(v.type);
+            int(v.values.length);
+            values(v);
+        }
+    };
+    const size = (v: NcValue) => Math.ceil(v.values.length * (v.type === 6 ? 8 : v.type === 5 ? 4 : 1) / 4) * 4;
+
+    for (const c of 'CDF') bytes.push(c.charCodeAt(0));
+    bytes.push(1);
+    int(0); // numrecs
+    int(10); int(dims.length);
+    for (const [n, s] of dims) { name(n); int(s); }
+    attributeList(attributes);
+
+    int(11); int(variables.length);
+    const beginOffsets: number[] = [];
+    for (const [n, d, v] of variables) {
+        name(n);
+        int(d.length);
+        for (const dn of d) int(dims.findIndex(x => x[0] === dn));
+        attributeList(n === 'velocities' ? [['scale_factor', { type: 5, values: [20.455] }]] : []);
+        int(v.type);
+        int(size(v));
+        beginOffsets.push(bytes.length);
+        int(0); // begin, patched below
+    }
+    for (let i = 0; i < variables.length; ++i) {
+        const begin = bytes.length;
+        const o = beginOffsets[i];
+        bytes[o] = (begin >>> 24) & 0xff; bytes[o + 1] = (begin >>> 16) & 0xff;
+        bytes[o + 2] = (begin >>> 8) & 0xff; bytes[o + 3] = begin & 0xff;
+        values(variables[i][2]);
+    }
+
+    return new Uint8Array(bytes);
+}
+
+describe('ncrst reader', () => {
+    it('basic', async () => {
+        const data = createNetcdf(
+            [['spatial', 3], ['atom', 2], ['cell_spatial', 3], ['cell_angular', 3], ['label', 5]],
+            [['title', { type: 2, values: 'ACE restart' }], ['Conventions', { type: 2, values: 'AMBERRESTART' }]],
+            [
+                ['time', [], { type: 6, values: [12.5] }],
+                ['coordinates', ['atom', 'spatial'], { type: 6, values: [1, 2, 3, 4, 5, 6] }],
+                ['velocities', ['atom', 'spatial'], { type: 6, values: [0.1, 0, 0, 0, 0, 1] }],
+                ['cell_lengths', ['cell_spatial'], { type: 6, values: [30, 40, 50] }],
+                ['cell_angles', ['cell_angular'], { type: 6, values: [90, 100, 90] }],
+            ]
+        );
+
+        const parsed = await parseNcrst(data).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const f = parsed.result;
+        expect(f.title).toBe('ACE restart');
+        expect(f.atomCount).toBe(2);
+        expect(f.time).toBe(12.5);
+        expect(Array.from(f.x)).toEqual([1, 4]);
+        expect(Array.from(f.z)).toEqual([3, 6]);
+        expect(f.velocities!.vx[0]).toBeCloseTo(0.1 * 20.455, 4);
+        expect(f.box!.lengths).toEqual([30, 40, 50]);
+        expect(f.box!.angles).toEqual([90, 100, 90]);
+    });
+});
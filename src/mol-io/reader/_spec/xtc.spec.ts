@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { lazyCoordinatesFromXtc } from '../../../mol-model-formats/structure/xtc';
+import { Frame, Model } from '../../../mol-model/structure';
+import { LazyTrajectory } from '../../../mol-model/structure/trajectory';
+import { Task } from '../../../mol-task';
+import { FileHandle } from '../../common/file-handle';
+import { SimpleBuffer } from '../../common/simple-buffer';
+import { XtcWriter } from '../../writer/xtc';
+import { indexXtc, parseXtc, readXtcFrame } from '../xtc/parser';
+
+function createXtcData(frameCount: number, atomCount: number) {
+    const encoder = XtcWriter.createEncoder();
+    const x = new Float32Array(atomCount), y = new Float32Array(atomCount), z = new Float32Array(atomCount);
+    for (let f = 0; f < frameCount; ++f) {
+        for (let i = 0; i < atomCount; ++i) {
+            x[i] = i * 1.5 + f;
+            y[i] = Math.sin(i) * 10;
+            z[i] = -f;
+        }
+        encoder.writeFrame(f * 10, f * 2, [30, 0, 0, 0, 40, 0, 0, 0, 50], x, y, z, atomCount);
+    }
+    return encoder.getData();
+}
+
+function fileFromData(data: Uint8Array) {
+    return FileHandle.fromBuffer(SimpleBuffer.fromUint8Array(data), 'test.xtc');
+}
+
+describe('xtc reader', () => {
+    it('index', async () => {
+        const data = createXtcData(4, 20);
+        const parsed = await parseXtc(data).run();
+        const indexed = await indexXtc(fileFromData(data), data.length).run();
+        if (parsed.isError) throw new Error(parsed.message);
+        if (indexed.isError) throw new Error(indexed.message);
+
+        const file = parsed.result, index = indexed.result;
+        expect(index.offsets.length).toBe(4);
+        expect(index.offsets[0]).toBe(0);
+        expect(index.offsets[3] + index.sizes[3]).toBe(data.length);
+        expect(index.times).toEqual(file.times);
+        expect(index.deltaTime).toBe(file.deltaTime);
+        expect(index.boxes[3]).toEqual(file.boxes[3]);
+
+        for (let i = 0; i < 4; ++i) {
+            const frame = readXtcFrame(data, index.offsets[i]);
+            expect(frame.count).toBe(20);
+            expect(Array.from(frame.x)).toEqual(Array.from(file.frames[i].x));
+            expect(Array.from(frame.z)).toEqual(Array.from(file.frames[i].z));
+        }
+    });
+
+    it('truncated', async () => {
+        const data = createXtcData(2, 20);
+        const indexed = await indexXtc(fileFromData(data), data.length - 8).run();
+        expect(indexed.isError).toBe(true);
+    });
+
+    it('lazy coordinates', async () => {
+        const data = createXtcData(5, 12);
+        // frames are read from byte ranges of the blob
+        const blob = new Blob([data]);
+        const file = FileHandle.fromBlob(blob, 'test.xtc');
+        const indexed = await indexXtc(file, blob.size).run();
+        if (indexed.isError) throw new Error(indexed.message);
+
+        const coordinates = await lazyCoordinatesFromXtc(file, indexed.result).run();
+        expect(coordinates.frames).toBeUndefined();
+        expect(coordinates.frameCount).toBe(5);
+        expect(coordinates.hasCell).toBe(true);
+
+        const task = coordinates.getFrameAtIndex(3);
+        expect(Task.is(task)).toBe(true);
+        const frame = await Task.resolveInContext(task);
+        expect(frame.time.value).toBeCloseTo(6, 5);
+        expect(frame.x[1]).toBeCloseTo(4.5, 2);
+        expect(frame.z[0]).toBeCloseTo(-3, 2);
+        expect(frame.cell!.size[1]).toBeCloseTo(40, 5);
+        // cached frames are reused
+        expect(coordinates.getFrameAtIndex(3)).toBe(frame);
+        // the first frame is always available
+        expect((coordinates.getFrameAtIndex(0) as Frame).z[0]).toBeCloseTo(0, 2);
+    });
+
+    it('index in chunks', async () => {
+        // the frames span several chunks
+        const data = createXtcData(40, 100000);
+        expect(data.length).toBeGreaterThan(2 * 4 * 1024 * 1024);
+        const indexed = await indexXtc(fileFromData(data), data.length).run();
+        if (indexed.isError) throw new Error(indexed.message);
+
+        const index = indexed.result;
+        expect(index.offsets.length).toBe(40);
+        expect(index.times[39]).toBe(78);
+        expect(index.offsets[39] + index.sizes[39]).toBe(data.length);
+    });
+
+    it('lazy trajectory', async () => {
+        const created: number[] = [];
+        const trajectory = new LazyTrajectory(10, i => {
+            created.push(i);
+            const model = { id: `${i}` } as Model;
+            return i % 2 === 0 ? model : Task.create('Create Model', async () => model);
+        }, 2);
+
+        const model = await Task.resolveInContext(trajectory.getFrameAtIndex(3));
+        expect(trajectory.getFrameAtIndex(0)).toBe(trajectory.representative);
+        expect(trajectory.getFrameAtIndex(3)).toBe(model);
+        await Task.resolveInContext(trajectory.getFrameAtIndex(4));
+        await Task.resolveInContext(trajectory.getFrameAtIndex(5));
+        // evicted from the cache
+        expect(await Task.resolveInContext(trajectory.getFrameAtIndex(3))).not.toBe(model);
+        expect(created).toEqual([0, 3, 4, 5, 3]);
+    });
+});
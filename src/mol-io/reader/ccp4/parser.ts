@@ -126,7 +126,7 @@ function getCcp4DataType(mode: number) {
         case 2: return TypedArrayValueType.Float32;
         case 3: throw new Error('mode 3 unsupported, complex 16-bit integers');
         case 4: throw new Error('mode 4 unsupported, complex 32-bit reals');
-        case 6: TypedArrayValueType.Uint16;
+        case 6: return TypedArrayValueType.Uint16;
         case 16: throw new Error('mode 16 unsupported, unsigned char * 3 (for rgb data, non-standard)');
     }
     throw new Error(`unknown mode '${mode}'`);
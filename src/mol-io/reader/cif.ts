@@ -13,7 +13,7 @@ import { mmCIF_Schema, mmCIF_Database } from './cif/schema/mmcif';
 import { CCD_Schema, CCD_Database } from './cif/schema/ccd';
 import { BIRD_Schema, BIRD_Database } from './cif/schema/bird';
 import { dic_Schema, dic_Database } from './cif/schema/dic';
-import { DensityServer_Data_Schema, DensityServer_Data_Database } from './cif/schema/density-server';
+import { DensityServer_Data_Schema, DensityServer_Data_Database, DensityServer_Mesh_Schema, DensityServer_Mesh_Database } from './cif/schema/density-server';
 import { CifCore_Database, CifCore_Schema, CifCore_Aliases } from './cif/schema/cif-core';
 
 export const CIF = {
@@ -29,6 +29,7 @@ export const CIF = {
         dic: (frame: CifFrame) => toDatabase<dic_Schema, dic_Database>(dic_Schema, frame),
         cifCore: (frame: CifFrame) => toDatabase<CifCore_Schema, CifCore_Database>(CifCore_Schema, frame, CifCore_Aliases),
         densityServer: (frame: CifFrame) => toDatabase<DensityServer_Data_Schema, DensityServer_Data_Database>(DensityServer_Data_Schema, frame),
+        densityServerMesh: (frame: CifFrame) => toDatabase<DensityServer_Mesh_Schema, DensityServer_Mesh_Database>(DensityServer_Mesh_Schema, frame),
     }
 };
 
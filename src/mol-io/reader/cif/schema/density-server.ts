@@ -24,7 +24,7 @@ export const DensityServer_Header_Schema = {
         'has_error': Aliased<'no' | 'n' | 'yes' | 'y'>(str),
         'error': str,
         'query_source_id': str,
-        'query_type': Aliased<'box' | 'cell'>(str),
+        'query_type': Aliased<'box' | 'cell' | 'mesh'>(str),
         'query_box_type': Aliased<'cartesian' | 'fractional'>(str),
         'query_box_a': Vector(3),
         'query_box_b': Vector(3)
@@ -61,8 +61,37 @@ export const DensityServer_Data_Schema = {
     }
 };
 
+export const DensityServer_Mesh_Schema = {
+    volume_data_3d_info: DensityServer_Data_Schema.volume_data_3d_info,
+    volume_mesh_3d_info: {
+        'name': str,
+        // absolute isovalue the mesh was computed at
+        'iso_value': float,
+        'iso_value_kind': Aliased<'absolute' | 'relative'>(str),
+        // isovalue as given in the query
+        'iso_value_query': float,
+        'vertex_count': int,
+        'triangle_count': int
+    },
+    // vertex positions in cartesian coords
+    volume_mesh_3d_vertex: {
+        'x': float,
+        'y': float,
+        'z': float
+    },
+    // zero indexed vertices of each triangle
+    volume_mesh_3d_triangle: {
+        'vertex_1': int,
+        'vertex_2': int,
+        'vertex_3': int
+    }
+};
+
 export type DensityServer_Header_Schema = typeof DensityServer_Header_Schema;
 export interface DensityServer_Header_Database extends Database<DensityServer_Header_Schema> {}
 
 export type DensityServer_Data_Schema = typeof DensityServer_Data_Schema;
-export interface DensityServer_Data_Database extends Database<DensityServer_Data_Schema> {}
\ No newline at end of file
+export interface DensityServer_Data_Database extends Database<DensityServer_Data_Schema> {}
+
+export type DensityServer_Mesh_Schema = typeof DensityServer_Mesh_Schema;
+export interface DensityServer_Mesh_Database extends Database<DensityServer_Mesh_Schema> {}
\ No newline at end of file
@@ -1,5 +1,5 @@
 /**
- * Copyright (c) 2019-2020 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ * Copyright (c) 2019-2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
  *
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
@@ -8,6 +8,8 @@ import { ReaderResult as Result } from '../result';
 import { Task } from '../../../mol-task';
 import { Mutable, FiniteArray } from '../../../mol-util/type-helpers';
 import { uint8ToString } from '../../common/binary';
+import { FileHandle } from '../../common/file-handle';
+import { SimpleBuffer } from '../../common/simple-buffer';
 
 export interface DcdHeader {
     readonly NSET: number,
@@ -36,7 +38,25 @@ export interface DcdFile {
     readonly frames: DcdFrame[]
 }
 
-export function _parseDcd(data: Uint8Array): DcdFile {
+/** Header and frame layout that allow reading individual frames on demand */
+export interface DcdFrameIndex {
+    readonly header: DcdHeader
+    /** byte offset of the first frame */
+    readonly frameOffset: number
+    /** byte size of each frame */
+    readonly frameSize: number
+    readonly extraBlock: boolean
+    /** endianess flag */
+    readonly ef: boolean
+}
+
+type DcdHeaderInfo = Omit<DcdFrameIndex, 'frameSize'> & {
+    /** byte size of each frame, without the fourth dimension block */
+    readonly frameSize: number,
+    readonly fourDims: boolean
+}
+
+function readHeader(data: Uint8Array): DcdHeaderInfo {
     // http://www.ks.uiuc.edu/Research/vmd/plugins/molfile/dcdplugin.html
 
     // The DCD format is structured as follows
@@ -59,16 +79,15 @@ export function _parseDcd(data: Uint8Array): DcdFile {
     // Z(I), I=1,NATOM
     // ==========================================================================
 
-    const dv = new DataView(data.buffer);
+    const dv = new DataView(data.buffer, data.byteOffset);
 
     const header: Mutable<DcdHeader> = Object.create(null);
-    const frames: DcdFrame[] = [];
 
     let nextPos = 0;
 
     // header block
 
-    const intView = new Int32Array(data.buffer, 0, 23);
+    const intView = new Int32Array(data.buffer, data.byteOffset, 23);
     const ef = intView[0] !== dv.getInt32(0); // endianess flag
     // swap byte order when big endian (84 indicates little endian)
     if (intView[0] !== 84) {
@@ -117,12 +136,12 @@ export function _parseDcd(data: Uint8Array): DcdFile {
     // title block
 
     const titleEnd = dv.getInt32(nextPos, ef);
-    const titleStart = nextPos + 1;
     if ((titleEnd - 4) % 80 !== 0) {
         throw new Error('dcd bad format, title block start');
     }
-    header.TITLE = uint8ToString(data.subarray(titleStart, titleEnd));
-    if (dv.getInt32(titleStart + titleEnd + 4 - 1, ef) !== titleEnd) {
+    // skip block start and NTITLE
+    header.TITLE = uint8ToString(data.subarray(nextPos + 8, nextPos + 4 + titleEnd));
+    if (dv.getInt32(nextPos + titleEnd + 4, ef) !== titleEnd) {
         throw new Error('dcd bad format, title block end');
     }
 
@@ -146,54 +165,131 @@ export function _parseDcd(data: Uint8Array): DcdFile {
         throw new Error('dcd format with fixed atoms unsupported, aborting');
     }
 
-    // frames
+    const natom4 = header.NATOM * 4;
+    const frameSize = (extraBlock ? 4 + 48 + 4 : 0) + 3 * (4 + natom4 + 4);
+    return { header, frameOffset: nextPos, frameSize, extraBlock, ef, fourDims };
+}
+
+/** Byte size of the fourth dimension block given the block start, see `readHeader` */
+function getFourDimsSize(info: DcdHeaderInfo, blockStart: Uint8Array) {
+    return 4 + new DataView(blockStart.buffer, blockStart.byteOffset).getInt32(0, info.ef) + 4;
+}
+
+function getFrameIndex(info: DcdHeaderInfo, fourDimsSize: number): DcdFrameIndex {
+    const { header, frameOffset, frameSize, extraBlock, ef } = info;
+    return { header, frameOffset, frameSize: frameSize + fourDimsSize, extraBlock, ef };
+}
+
+export function _indexDcd(data: Uint8Array): DcdFrameIndex {
+    const info = readHeader(data);
+    if (!info.fourDims || info.header.NSET === 0) return getFrameIndex(info, 0);
+    // the size of the fourth dimension block is only known from the data
+    return getFrameIndex(info, getFourDimsSize(info, data.subarray(info.frameOffset + info.frameSize)));
+}
+
+/** Byte size of the header, given at least its first 96 bytes */
+function getHeaderSize(data: Uint8Array) {
+    const dv = new DataView(data.buffer, data.byteOffset);
+    // 84 indicates the endianess, followed by the header block and the title block size
+    const littleEndian = dv.getInt32(0, true) === 84;
+    return 4 + 84 + 4 + 4 + dv.getInt32(92, littleEndian) + 4 + 12;
+}
+
+async function indexFile(file: FileHandle, size: number): Promise<DcdFrameIndex> {
+    if (size < 96) throw new Error('dcd bad format, header too short');
+    const { buffer: start } = await file.readBuffer(0, 96);
+    const headerSize = getHeaderSize(start);
+    if (headerSize > size) throw new Error('dcd bad format, header too short');
+
+    // copy because the header may get byte-swapped
+    const headerData = new Uint8Array(headerSize);
+    await file.readBuffer(0, SimpleBuffer.fromUint8Array(headerData));
+    const info = readHeader(headerData);
+    if (!info.fourDims || info.header.NSET === 0) return getFrameIndex(info, 0);
+
+    const { buffer: blockStart } = await file.readBuffer(info.frameOffset + info.frameSize, 4);
+    return getFrameIndex(info, getFourDimsSize(info, blockStart));
+}
+
+/**
+ * Read the frame with the given index. The coordinates are views into `data`
+ * unless `copy` is set, which is needed when the frame may be modified.
+ */
+export function readDcdFrame(data: Uint8Array, index: DcdFrameIndex, frameIndex: number, copy = false): DcdFrame {
+    return readFrame(data, index, index.frameOffset + frameIndex * index.frameSize, frameIndex, copy);
+}
+
+/** Read the frame with the given index, only the bytes of that frame are read from the file */
+export async function readDcdFrameFromFile(file: FileHandle, index: DcdFrameIndex, frameIndex: number): Promise<DcdFrame> {
+    // copy because the frame may get byte-swapped and its coordinates reordered in-place
+    const data = new Uint8Array(index.frameSize);
+    await file.readBuffer(index.frameOffset + frameIndex * index.frameSize, SimpleBuffer.fromUint8Array(data));
+
+    // swap byte order when big endian, the frame starts with the size of its first block
+    const blockSize = index.extraBlock ? 48 : index.header.NATOM * 4;
+    if (new Int32Array(data.buffer, 0, 1)[0] !== blockSize) {
+        const dv = new DataView(data.buffer);
+        for (let i = 0, il = data.byteLength; i < il; i += 4) {
+            dv.setFloat32(i, dv.getFloat32(i), true);
+        }
+    }
+    return readFrame(data, index, 0, frameIndex, false);
+}
+
+function readFrame(data: Uint8Array, index: DcdFrameIndex, position: number, frameIndex: number, copy: boolean): DcdFrame {
+    const { header, extraBlock, ef } = index;
+    const dv = new DataView(data.buffer, data.byteOffset);
     const natom = header.NATOM;
     const natom4 = natom * 4;
 
-    for (let i = 0, n = header.NSET; i < n; ++i) {
-        const frame: Mutable<DcdFrame> = Object.create(null);
-        frame.elementCount = natom;
-
-        if (extraBlock) {
-            nextPos += 4; // block start
-            frame.cell = [
-                dv.getFloat64(nextPos, ef),
-                dv.getFloat64(nextPos + 1, ef),
-                dv.getFloat64(nextPos + 2 * 8, ef),
-                dv.getFloat64(nextPos + 3 * 8, ef),
-                dv.getFloat64(nextPos + 4 * 8, ef),
-                dv.getFloat64(nextPos + 5 * 8, ef)
-            ] as const;
-            nextPos += 48;
-            nextPos += 4; // block end
-        }
+    let nextPos = position;
+
+    const frame: Mutable<DcdFrame> = Object.create(null);
+    frame.elementCount = natom;
 
-        // xyz coordinates
-        for (let j = 0; j < 3; ++j) {
-            if (dv.getInt32(nextPos, ef) !== natom4) {
-                throw new Error(`dcd bad format, coord block start: ${i}, ${j}`);
-            }
-            nextPos += 4; // block start
-            const c = new Float32Array(data.buffer, nextPos, natom);
-            if (j === 0) frame.x = c;
-            else if (j === 1) frame.y = c;
-            else frame.z = c;
-
-            nextPos += natom4;
-            if (dv.getInt32(nextPos, ef) !== natom4) {
-                throw new Error(`dcd bad format, coord block end: ${i}, ${j}`);
-            }
-            nextPos += 4; // block end
+    if (extraBlock) {
+        nextPos += 4; // block start
+        frame.cell = [
+            dv.getFloat64(nextPos, ef),
+            dv.getFloat64(nextPos + 8, ef),
+            dv.getFloat64(nextPos + 2 * 8, ef),
+            dv.getFloat64(nextPos + 3 * 8, ef),
+            dv.getFloat64(nextPos + 4 * 8, ef),
+            dv.getFloat64(nextPos + 5 * 8, ef)
+        ] as const;
+        nextPos += 48;
+        nextPos += 4; // block end
+    }
+
+    // xyz coordinates
+    for (let j = 0; j < 3; ++j) {
+        if (dv.getInt32(nextPos, ef) !== natom4) {
+            throw new Error(`dcd bad format, coord block start: ${frameIndex}, ${j}`);
         }
+        nextPos += 4; // block start
+        const view = new Float32Array(data.buffer, data.byteOffset + nextPos, natom);
+        const c = copy ? view.slice() : view;
+        if (j === 0) frame.x = c;
+        else if (j === 1) frame.y = c;
+        else frame.z = c;
 
-        if (fourDims) {
-            const bytes = dv.getInt32(nextPos, ef);
-            nextPos += 4 + bytes + 4; // block start + skip + block end
+        nextPos += natom4;
+        if (dv.getInt32(nextPos, ef) !== natom4) {
+            throw new Error(`dcd bad format, coord block end: ${frameIndex}, ${j}`);
         }
+        nextPos += 4; // block end
+    }
 
-        frames.push(frame);
+    return frame;
+}
+
+export function _parseDcd(data: Uint8Array): DcdFile {
+    const index = _indexDcd(data);
+    const frames: DcdFrame[] = [];
+    for (let i = 0, n = index.header.NSET; i < n; ++i) {
+        frames.push(readDcdFrame(data, index, i));
     }
-    return { header, frames };
+    return { header: index.header, frames };
 }
 
 export function parseDcd(data: Uint8Array) {
@@ -205,4 +301,16 @@ export function parseDcd(data: Uint8Array) {
             return Result.error(e);
         }
     });
-}
\ No newline at end of file
+}
+
+/** Index the frames of the file, only its header is read */
+export function indexDcd(file: FileHandle, size: number) {
+    return Task.create<Result<DcdFrameIndex>>('Index DCD', async ctx => {
+        try {
+            const index = await indexFile(file, size);
+            return Result.success(index);
+        } catch (e) {
+            return Result.error(e);
+        }
+    });
+}
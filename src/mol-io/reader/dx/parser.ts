@@ -70,6 +70,14 @@ function readHeader(tokenizer: Tokenizer): { header: DxFile.Header, headerByteCo
     return { header: header as DxFile.Header, headerByteCount };
 }
 
+/** Reads the header from the start of a DX file, `data` must include the "object 3" line */
+export function readDxHeader(data: string) {
+    if (!/^object 3/m.test(data)) {
+        throw new Error('dx format error, missing "object 3" line');
+    }
+    return readHeader(Tokenizer(data));
+}
+
 function readValuesText(ctx: RuntimeContext, tokenizer: Tokenizer, header: DxFile.Header) {
     const N = header.dim[0] * header.dim[1] * header.dim[2];
     const chunkSize = 100 * 100 * 100;
@@ -0,0 +1,215 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Column } from '../../../../mol-data/db';
+import { RuntimeContext, Task } from '../../../../mol-task';
+import { Tokenizer } from '../../common/text/tokenizer';
+import { ReaderResult as Result } from '../../result';
+
+// format description: https://docs.lammps.org/read_data.html
+
+export interface LammpsBox {
+    /** xlo, ylo, zlo */
+    readonly lower: [number, number, number],
+    /** xhi - xlo, yhi - ylo, zhi - zlo */
+    readonly length: [number, number, number],
+    /** xy, xz, yz tilt factors of triclinic boxes, zero otherwise */
+    readonly tilt: [number, number, number]
+}
+
+export interface LammpsDataFile {
+    readonly title: string,
+    readonly atomStyle: LammpsAtomStyle,
+    readonly box: LammpsBox,
+    readonly atoms: {
+        readonly count: number,
+        readonly atomId: Column<number>,
+        /** zero if not given by the atom style */
+        readonly moleculeId: Column<number>,
+        readonly atomType: Column<number>,
+        /** zero if not given by the atom style */
+        readonly charge: Column<number>,
+        readonly x: Column<number>,
+        readonly y: Column<number>,
+        readonly z: Column<number>
+    },
+    readonly bonds: {
+        readonly count: number,
+        readonly bondId: Column<number>,
+        readonly bondType: Column<number>,
+        readonly atomIdA: Column<number>,
+        readonly atomIdB: Column<number>
+    },
+    readonly masses: {
+        readonly count: number,
+        readonly atomType: Column<number>,
+        readonly mass: Column<number>
+    }
+}
+
+/** Column layouts of the supported atom styles */
+const AtomStyles = {
+    atomic: ['atomId', 'atomType', 'x', 'y', 'z'],
+    charge: ['atomId', 'atomType', 'charge', 'x', 'y', 'z'],
+    bond: ['atomId', 'moleculeId', 'atomType', 'x', 'y', 'z'],
+    angle: ['atomId', 'moleculeId', 'atomType', 'x', 'y', 'z'],
+    molecular: ['atomId', 'moleculeId', 'atomType', 'x', 'y', 'z'],
+    full: ['atomId', 'moleculeId', 'atomType', 'charge', 'x', 'y', 'z'],
+} as const;
+export type LammpsAtomStyle = keyof typeof AtomStyles
+
+function isAtomStyle(style: string): style is LammpsAtomStyle {
+    return style in AtomStyles;
+}
+
+/** Guess the atom style from the number of columns, trailing image flags are optional */
+function guessAtomStyle(columnCount: number): LammpsAtomStyle | undefined {
+    switch (columnCount) {
+        case 5: case 8: return 'atomic';
+        case 6: case 9: return 'molecular';
+        case 7: case 10: return 'full';
+    }
+}
+
+const numberRe = /^[-+]?(\d|\.\d)/;
+
+class AtomsBuilder {
+    atomId: number[] = [];
+    moleculeId: number[] = [];
+    atomType: number[] = [];
+    charge: number[] = [];
+    x: number[] = [];
+    y: number[] = [];
+    z: number[] = [];
+
+    add(fields: string[], style: LammpsAtomStyle) {
+        const columns = AtomStyles[style];
+        if (fields.length < columns.length) return `Expected ${columns.length} columns for atom style '${style}'.`;
+
+        this.moleculeId.push(0);
+        this.charge.push(0);
+        const i = this.atomId.length;
+        for (let j = 0, jl = columns.length; j < jl; ++j) {
+            const v = +fields[j];
+            if (isNaN(v)) return `Invalid value '${fields[j]}'.`;
+            const c = columns[j];
+            if (c === 'moleculeId' || c === 'charge') this[c][i] = v;
+            else this[c].push(v);
+        }
+    }
+
+    getAtoms(): LammpsDataFile['atoms'] {
+        return {
+            count: this.atomId.length,
+            atomId: Column.ofIntArray(this.atomId),
+            moleculeId: Column.ofIntArray(this.moleculeId),
+            atomType: Column.ofIntArray(this.atomType),
+            charge: Column.ofFloatArray(this.charge),
+            x: Column.ofFloatArray(this.x),
+            y: Column.ofFloatArray(this.y),
+            z: Column.ofFloatArray(this.z),
+        };
+    }
+}
+
+async function parseInternal(data: string, ctx: RuntimeContext): Promise<Result<LammpsDataFile>> {
+    const tokenizer = Tokenizer(data);
+
+    const title = Tokenizer.readLine(tokenizer).trim();
+    const lower: [number, number, number] = [0, 0, 0];
+    const length: [number, number, number] = [0, 0, 0];
+    const tilt: [number, number, number] = [0, 0, 0];
+
+    let atomStyle: LammpsAtomStyle | undefined;
+    const atoms = new AtomsBuilder();
+    const bonds = { bondId: [] as number[], bondType: [] as number[], atomIdA: [] as number[], atomIdB: [] as number[] };
+    const masses = { atomType: [] as number[], mass: [] as number[] };
+
+    let section = '';
+    let lineNumber = 1;
+
+    await ctx.update({ message: 'Parsing...', current: 0, max: data.length });
+    while (tokenizer.position < data.length) {
+        const rawLine = Tokenizer.readLine(tokenizer);
+        lineNumber += 1;
+
+        const commentIndex = rawLine.indexOf('#');
+        const line = (commentIndex === -1 ? rawLine : rawLine.substring(0, commentIndex)).trim();
+        if (!line) continue;
+
+        if (!numberRe.test(line)) {
+            section = line;
+            if (section === 'Atoms' && commentIndex !== -1) {
+                const style = rawLine.substring(commentIndex + 1).trim();
+                if (!isAtomStyle(style)) return Result.error(`Unsupported atom style '${style}'.`, lineNumber);
+                atomStyle = style;
+            }
+            continue;
+        }
+
+        const fields = line.split(/\s+/);
+        if (!section) {
+            // header
+            const keyword = fields.slice(2, 4).join(' ');
+            if (keyword === 'xlo xhi' || keyword === 'ylo yhi' || keyword === 'zlo zhi') {
+                const d = keyword[0] === 'x' ? 0 : keyword[0] === 'y' ? 1 : 2;
+                lower[d] = +fields[0];
+                length[d] = +fields[1] - lower[d];
+            } else if (fields[3] === 'xy' && fields[4] === 'xz' && fields[5] === 'yz') {
+                tilt[0] = +fields[0];
+                tilt[1] = +fields[1];
+                tilt[2] = +fields[2];
+            }
+        } else if (section === 'Atoms') {
+            if (!atomStyle) {
+                atomStyle = guessAtomStyle(fields.length);
+                if (!atomStyle) return Result.error('Unable to guess atom style.', lineNumber);
+            }
+            const error = atoms.add(fields, atomStyle);
+            if (error) return Result.error(error, lineNumber);
+        } else if (section === 'Bonds') {
+            if (fields.length < 4) return Result.error('Expected 4 columns for bonds.', lineNumber);
+            bonds.bondId.push(+fields[0]);
+            bonds.bondType.push(+fields[1]);
+            bonds.atomIdA.push(+fields[2]);
+            bonds.atomIdB.push(+fields[3]);
+        } else if (section === 'Masses') {
+            masses.atomType.push(+fields[0]);
+            masses.mass.push(+fields[1]);
+        }
+
+        if (ctx.shouldUpdate && (lineNumber % 10000) === 0) {
+            await ctx.update({ current: tokenizer.position });
+        }
+    }
+
+    if (atoms.atomId.length === 0) return Result.error('No atoms found.');
+
+    return Result.success({
+        title,
+        atomStyle: atomStyle!,
+        box: { lower, length, tilt },
+        atoms: atoms.getAtoms(),
+        bonds: {
+            count: bonds.bondType.length,
+            bondId: Column.ofIntArray(bonds.bondId),
+            bondType: Column.ofIntArray(bonds.bondType),
+            atomIdA: Column.ofIntArray(bonds.atomIdA),
+            atomIdB: Column.ofIntArray(bonds.atomIdB),
+        },
+        masses: {
+            count: masses.atomType.length,
+            atomType: Column.ofIntArray(masses.atomType),
+            mass: Column.ofFloatArray(masses.mass),
+        }
+    });
+}
+
+export function parseLammpsData(data: string) {
+    return Task.create<Result<LammpsDataFile>>('Parse LAMMPS Data', async ctx => {
+        return await parseInternal(data, ctx);
+    });
+}
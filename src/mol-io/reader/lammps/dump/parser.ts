@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { RuntimeContext, Task } from '../../../../mol-task';
+import { Tokenizer } from '../../common/text/tokenizer';
+import { ReaderResult as Result } from '../../result';
+import { LammpsBox } from '../data/parser';
+
+// format description: https://docs.lammps.org/dump.html
+
+export interface LammpsDumpFrame {
+    readonly timestep: number,
+    readonly count: number,
+    readonly box: LammpsBox,
+    /** atom ids, sequential if not part of the dump */
+    readonly atomId: Int32Array,
+    /** unscaled, in the units of the simulation */
+    readonly x: Float32Array,
+    readonly y: Float32Array,
+    readonly z: Float32Array
+}
+
+export interface LammpsDumpFile {
+    readonly frames: LammpsDumpFrame[]
+}
+
+/** Coordinate column names in order of preference, `s` denotes scaled (fractional) coordinates */
+const CoordinateColumns = [
+    { names: ['x', 'y', 'z'], scaled: false },
+    { names: ['xu', 'yu', 'zu'], scaled: false },
+    { names: ['xs', 'ys', 'zs'], scaled: true },
+    { names: ['xsu', 'ysu', 'zsu'], scaled: true },
+];
+
+function getCoordinateColumns(columns: string[]) {
+    for (const { names, scaled } of CoordinateColumns) {
+        const indices = names.map(n => columns.indexOf(n));
+        if (indices.every(i => i !== -1)) return { indices, scaled };
+    }
+}
+
+/**
+ * Triclinic dump files give the bounding box of the tilted cell,
+ * convert back to the lower and upper bounds of the cell itself.
+ */
+function getBox(bounds: number[][], tilt: [number, number, number]): LammpsBox {
+    const [xy, xz, yz] = tilt;
+    const xloBound = bounds[0][0] - Math.min(0, xy, xz, xy + xz);
+    const xhiBound = bounds[0][1] - Math.max(0, xy, xz, xy + xz);
+    const yloBound = bounds[1][0] - Math.min(0, yz);
+    const yhiBound = bounds[1][1] - Math.max(0, yz);
+    return {
+        lower: [xloBound, yloBound, bounds[2][0]],
+        length: [xhiBound - xloBound, yhiBound - yloBound, bounds[2][1] - bounds[2][0]],
+        tilt
+    };
+}
+
+function readItem(tokenizer: Tokenizer, name: string) {
+    const line = Tokenizer.readLineTrim(tokenizer);
+    if (!line.startsWith('ITEM: ' + name)) throw new Error(`Expected 'ITEM: ${name}', got '${line}'.`);
+    return line.substring(6 + name.length).trim();
+}
+
+function readNumbers(tokenizer: Tokenizer) {
+    return Tokenizer.readLineTrim(tokenizer).split(/\s+/).map(v => +v);
+}
+
+function readFrame(tokenizer: Tokenizer): LammpsDumpFrame {
+    readItem(tokenizer, 'TIMESTEP');
+    const timestep = readNumbers(tokenizer)[0];
+
+    readItem(tokenizer, 'NUMBER OF ATOMS');
+    const count = readNumbers(tokenizer)[0];
+    if (isNaN(count)) throw new Error('Invalid number of atoms.');
+
+    const boxFlags = readItem(tokenizer, 'BOX BOUNDS').split(/\s+/);
+    const isTriclinic = boxFlags[0] === 'xy';
+    const bounds = [readNumbers(tokenizer), readNumbers(tokenizer), readNumbers(tokenizer)];
+    const tilt: [number, number, number] = isTriclinic ? [bounds[0][2], bounds[1][2], bounds[2][2]] : [0, 0, 0];
+    const box = getBox(bounds, tilt);
+
+    const columns = readItem(tokenizer, 'ATOMS').split(/\s+/);
+    const coordinateColumns = getCoordinateColumns(columns);
+    if (!coordinateColumns) throw new Error(`No coordinate columns in '${columns.join(' ')}'.`);
+    const [ix, iy, iz] = coordinateColumns.indices;
+    const iId = columns.indexOf('id');
+
+    const atomId = new Int32Array(count);
+    const x = new Float32Array(count);
+    const y = new Float32Array(count);
+    const z = new Float32Array(count);
+
+    const [lx, ly, lz] = box.length;
+    const [xlo, ylo, zlo] = box.lower;
+    for (let i = 0; i < count; ++i) {
+        const values = readNumbers(tokenizer);
+        if (values.length < columns.length) throw new Error(`Expected ${columns.length} values per atom.`);
+
+        atomId[i] = iId === -1 ? i + 1 : values[iId];
+        if (coordinateColumns.scaled) {
+            const sx = values[ix], sy = values[iy], sz = values[iz];
+            x[i] = xlo + sx * lx + sy * tilt[0] + sz * tilt[1];
+            y[i] = ylo + sy * ly + sz * tilt[2];
+            z[i] = zlo + sz * lz;
+        } else {
+            x[i] = values[ix];
+            y[i] = values[iy];
+            z[i] = values[iz];
+        }
+    }
+
+    return { timestep, count, box, atomId, x, y, z };
+}
+
+async function parseInternal(data: string, ctx: RuntimeContext): Promise<Result<LammpsDumpFile>> {
+    const tokenizer = Tokenizer(data);
+    const frames: LammpsDumpFrame[] = [];
+
+    await ctx.update({ message: 'Parsing...', current: 0, max: data.length });
+    try {
+        while (tokenizer.position < data.length) {
+            Tokenizer.skipWhitespace(tokenizer);
+            if (tokenizer.position >= data.length) break;
+            frames.push(readFrame(tokenizer));
+
+            if (ctx.shouldUpdate) {
+                await ctx.update({ current: tokenizer.position });
+            }
+        }
+    } catch (e) {
+        return Result.error(e instanceof Error ? e.message : '' + e, tokenizer.lineNumber);
+    }
+
+    if (frames.length === 0) return Result.error('No frames found.');
+    return Result.success({ frames });
+}
+
+export function parseLammpsDump(data: string) {
+    return Task.create<Result<LammpsDumpFile>>('Parse LAMMPS Dump', async ctx => {
+        return await parseInternal(data, ctx);
+    });
+}
@@ -0,0 +1,77 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Task } from '../../../mol-task';
+import { Mutable } from '../../../mol-util/type-helpers';
+import { NetcdfReader } from '../../common/netcdf/reader';
+import { ReaderResult as Result } from '../result';
+import { Rst7File } from '../rst7/parser';
+
+function getScaleFactor(nc: NetcdfReader, name: string, defaultValue: number) {
+    const variable = nc.variables?.find(v => v.name === name);
+    const attribute = variable?.attributes.find(a => a.name === 'scale_factor');
+    return typeof attribute?.value === 'number' ? attribute.value : defaultValue;
+}
+
+function splitXyz(values: number[], count: number, scale: number) {
+    const x = new Float32Array(count);
+    const y = new Float32Array(count);
+    const z = new Float32Array(count);
+    for (let i = 0; i < count; ++i) {
+        x[i] = values[i * 3] * scale;
+        y[i] = values[i * 3 + 1] * scale;
+        z[i] = values[i * 3 + 2] * scale;
+    }
+    return { x, y, z };
+}
+
+function parseInternal(data: Uint8Array): Rst7File {
+    // https://ambermd.org/netcdf/nctraj.xhtml, restart convention
+
+    const nc = new NetcdfReader(data);
+    const conventions = nc.globalAttributes?.find(a => a.name === 'Conventions')?.value;
+    if (typeof conventions === 'string' && !conventions.includes('AMBERRESTART')) {
+        throw new Error(`unexpected conventions '${conventions}', expected 'AMBERRESTART'`);
+    }
+
+    const coordinates: number[] = nc.getDataVariable('coordinates');
+    const atomCount = coordinates.length / 3;
+    const { x, y, z } = splitXyz(coordinates, atomCount, getScaleFactor(nc, 'coordinates', 1));
+
+    const title = nc.globalAttributes?.find(a => a.name === 'title')?.value;
+    const f: Mutable<Rst7File> = {
+        title: typeof title === 'string' ? title : '',
+        atomCount,
+        time: nc.hasDataVariable('time') ? nc.getDataVariable('time')[0] : void 0,
+        x, y, z
+    };
+
+    if (nc.hasDataVariable('velocities')) {
+        // the scale factor converts to Angstrom per picosecond
+        const v = splitXyz(nc.getDataVariable('velocities'), atomCount, getScaleFactor(nc, 'velocities', 1));
+        f.velocities = { vx: v.x, vy: v.y, vz: v.z };
+    }
+
+    if (nc.hasDataVariable('cell_lengths')) {
+        const l = nc.getDataVariable('cell_lengths');
+        const a = nc.hasDataVariable('cell_angles') ? nc.getDataVariable('cell_angles') : [90, 90, 90];
+        f.box = { lengths: [l[0], l[1], l[2]], angles: [a[0], a[1], a[2]] };
+    }
+
+    return f;
+}
+
+export function parseNcrst(data: Uint8Array) {
+    return Task.create<Result<Rst7File>>('Parse NCRST', async ctx => {
+        try {
+            ctx.update({ canAbort: true, message: 'Parsing coordinates...' });
+            const file = parseInternal(data);
+            return Result.success(file);
+        } catch (e) {
+            return Result.error('' + e);
+        }
+    });
+}
@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Column } from '../../../mol-data/db';
+import { RuntimeContext, Task } from '../../../mol-task';
+import { Tokenizer } from '../common/text/tokenizer';
+import { ReaderResult as Result } from '../result';
+
+// format description: https://apbs.readthedocs.io/en/latest/file-formats.html#pqr-molecular-structure-format
+
+export interface PqrAtoms {
+    readonly count: number,
+    readonly isHetero: Column<number>,
+    readonly serial: Column<number>,
+    readonly atomName: Column<string>,
+    readonly residueName: Column<string>,
+    /** empty if not given */
+    readonly chainId: Column<string>,
+    readonly residueNumber: Column<number>,
+    readonly insertionCode: Column<string>,
+    readonly x: Column<number>,
+    readonly y: Column<number>,
+    readonly z: Column<number>,
+    readonly charge: Column<number>,
+    readonly radius: Column<number>
+}
+
+export interface PqrFile {
+    readonly id?: string,
+    readonly models: PqrAtoms[]
+}
+
+const recordRe = /^(ATOM|HETATM)/;
+const residueNumberRe = /^(-?\d+)([A-Za-z]?)$/;
+
+class AtomsBuilder {
+    isHetero: number[] = [];
+    serial: number[] = [];
+    atomName: string[] = [];
+    residueName: string[] = [];
+    chainId: string[] = [];
+    residueNumber: number[] = [];
+    insertionCode: string[] = [];
+    x: number[] = [];
+    y: number[] = [];
+    z: number[] = [];
+    charge: number[] = [];
+    radius: number[] = [];
+
+    get count() {
+        return this.serial.length;
+    }
+
+    /**
+     * Fields are whitespace separated, the chain identifier is optional:
+     * `ATOM serial name resName [chainId] resSeq x y z charge radius`
+     *
+     * Returns an error message for invalid records.
+     */
+    add(line: string, isHetero: boolean): string | undefined {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length !== 9 && fields.length !== 10) return 'Invalid PQR atom record.';
+
+        const hasChain = fields.length === 10;
+        const o = hasChain ? 1 : 0;
+        const resSeq = fields[3 + o].match(residueNumberRe);
+        if (!resSeq) return `Invalid residue number '${fields[3 + o]}'.`;
+
+        this.isHetero.push(isHetero ? 1 : 0);
+        this.serial.push(+fields[0]);
+        this.atomName.push(fields[1]);
+        this.residueName.push(fields[2]);
+        this.chainId.push(hasChain ? fields[3] : '');
+        this.residueNumber.push(+resSeq[1]);
+        this.insertionCode.push(resSeq[2]);
+        this.x.push(+fields[4 + o]);
+        this.y.push(+fields[5 + o]);
+        this.z.push(+fields[6 + o]);
+        this.charge.push(+fields[7 + o]);
+        this.radius.push(+fields[8 + o]);
+    }
+
+    getAtoms(): PqrAtoms {
+        return {
+            count: this.count,
+            isHetero: Column.ofIntArray(this.isHetero),
+            serial: Column.ofIntArray(this.serial),
+            atomName: Column.ofStringArray(this.atomName),
+            residueName: Column.ofStringArray(this.residueName),
+            chainId: Column.ofStringArray(this.chainId),
+            residueNumber: Column.ofIntArray(this.residueNumber),
+            insertionCode: Column.ofStringArray(this.insertionCode),
+            x: Column.ofFloatArray(this.x),
+            y: Column.ofFloatArray(this.y),
+            z: Column.ofFloatArray(this.z),
+            charge: Column.ofFloatArray(this.charge),
+            radius: Column.ofFloatArray(this.radius)
+        };
+    }
+}
+
+async function parseInternal(data: string, id: string | undefined, ctx: RuntimeContext): Promise<Result<PqrFile>> {
+    const tokenizer = Tokenizer(data);
+    const models: PqrAtoms[] = [];
+    let builder = new AtomsBuilder();
+    let lineNumber = 0;
+
+    await ctx.update({ message: 'Parsing...', current: 0, max: data.length });
+    while (tokenizer.position < data.length) {
+        const line = Tokenizer.readLine(tokenizer);
+        lineNumber += 1;
+
+        const record = line.match(recordRe);
+        if (record) {
+            const error = builder.add(line.substring(record[1].length), record[1] === 'HETATM');
+            if (error) return Result.error(error, lineNumber);
+        } else if (line.startsWith('END')) {
+            // ENDMDL or END
+            if (builder.count > 0) models.push(builder.getAtoms());
+            builder = new AtomsBuilder();
+        }
+
+        if (ctx.shouldUpdate && (lineNumber % 10000) === 0) {
+            await ctx.update({ current: tokenizer.position });
+        }
+    }
+    if (builder.count > 0) models.push(builder.getAtoms());
+
+    return Result.success({ id, models });
+}
+
+export function parsePqr(data: string, id?: string) {
+    return Task.create<Result<PqrFile>>('Parse PQR', async ctx => {
+        return await parseInternal(data, id, ctx);
+    });
+}
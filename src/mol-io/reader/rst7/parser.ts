@@ -0,0 +1,131 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { RuntimeContext, Task } from '../../../mol-task';
+import { Tokenizer } from '../common/text/tokenizer';
+import { parseFloatSkipLeadingWhitespace } from '../common/text/number-parser';
+import { ReaderResult as Result } from '../result';
+
+// format description: https://ambermd.org/FileFormats.php#restart
+
+/** factor to convert AMBER velocities to Angstrom per picosecond */
+export const AmberVelocityScaleFactor = 20.455;
+
+export interface Rst7File {
+    readonly title: string,
+    readonly atomCount: number,
+    /** in picoseconds */
+    readonly time?: number,
+
+    /** in Angstrom */
+    readonly x: Float32Array,
+    readonly y: Float32Array,
+    readonly z: Float32Array,
+
+    /** in Angstrom per picosecond */
+    readonly velocities?: {
+        readonly vx: Float32Array,
+        readonly vy: Float32Array,
+        readonly vz: Float32Array
+    },
+
+    readonly box?: {
+        /** in Angstrom */
+        readonly lengths: [number, number, number],
+        /** in degrees */
+        readonly angles: [number, number, number]
+    }
+}
+
+/** Fields have a width of 12 characters (6F12.7), values of adjacent fields may touch. */
+const FieldWidth = 12;
+
+function isWhitespace(c: number) {
+    return c === 32 || c === 9 || c === 10 || c === 13;
+}
+
+function splitXyz(values: ArrayLike<number>, offset: number, count: number, scale = 1) {
+    const x = new Float32Array(count);
+    const y = new Float32Array(count);
+    const z = new Float32Array(count);
+    for (let i = 0; i < count; ++i) {
+        x[i] = values[offset + i * 3] * scale;
+        y[i] = values[offset + i * 3 + 1] * scale;
+        z[i] = values[offset + i * 3 + 2] * scale;
+    }
+    return { x, y, z };
+}
+
+async function parseInternal(data: string, ctx: RuntimeContext): Promise<Result<Rst7File>> {
+    const tokenizer = Tokenizer(data);
+
+    const title = Tokenizer.readLine(tokenizer).trim();
+    const countLine = Tokenizer.readLineTrim(tokenizer).split(/\s+/);
+    const atomCount = parseInt(countLine[0]);
+    if (isNaN(atomCount) || atomCount <= 0) return Result.error('Invalid atom count.', 2);
+    const time = countLine.length > 1 ? parseFloat(countLine[1]) : void 0;
+
+    await ctx.update({ message: 'Parsing...', current: 0, max: data.length });
+
+    const values: number[] = [];
+    /** offset into `values` for each non-empty line */
+    const lineOffsets: number[] = [];
+    let lineNumber = 2;
+    while (tokenizer.position < data.length) {
+        Tokenizer.markLine(tokenizer);
+        lineNumber += 1;
+
+        const { tokenStart } = tokenizer;
+        let end = tokenizer.tokenEnd;
+        while (end > tokenStart && isWhitespace(data.charCodeAt(end - 1))) --end;
+
+        if (end > tokenStart) lineOffsets.push(values.length);
+        for (let s = tokenStart; s < end; s += FieldWidth) {
+            values.push(parseFloatSkipLeadingWhitespace(data, s, Math.min(s + FieldWidth, end)));
+        }
+
+        if (ctx.shouldUpdate && (lineNumber % 10000) === 0) {
+            await ctx.update({ current: tokenizer.position });
+        }
+    }
+
+    // six values per line, velocities and box start on a new line
+    const n3 = atomCount * 3;
+    const xyzLineCount = Math.ceil(n3 / 6);
+    if (lineOffsets.length < xyzLineCount || values.length < n3) {
+        return Result.error(`Expected ${n3} coordinate values, got ${values.length}.`);
+    }
+    const { x, y, z } = splitXyz(values, 0, atomCount);
+    let lineIndex = xyzLineCount;
+
+    let velocities: Rst7File['velocities'];
+    const remainingLines = lineOffsets.length - lineIndex;
+    if (remainingLines > xyzLineCount || (remainingLines === xyzLineCount && xyzLineCount > 1)) {
+        const v = splitXyz(values, lineOffsets[lineIndex], atomCount, AmberVelocityScaleFactor);
+        velocities = { vx: v.x, vy: v.y, vz: v.z };
+        lineIndex += xyzLineCount;
+    }
+
+    let box: Rst7File['box'];
+    if (lineIndex < lineOffsets.length) {
+        const b = values.slice(lineOffsets[lineIndex]);
+        if (b.length !== 3 && b.length !== 6) {
+            return Result.error(`Expected 3 or 6 box values, got ${b.length}.`);
+        }
+        box = {
+            lengths: [b[0], b[1], b[2]],
+            angles: b.length === 6 ? [b[3], b[4], b[5]] : [90, 90, 90]
+        };
+    }
+
+    return Result.success({ title, atomCount, time, x, y, z, velocities, box });
+}
+
+export function parseRst7(data: string) {
+    return Task.create<Result<Rst7File>>('Parse RST7', async ctx => {
+        return await parseInternal(data, ctx);
+    });
+}
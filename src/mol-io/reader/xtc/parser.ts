@@ -1,5 +1,5 @@
 /**
- * Copyright (c) 2020 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ * Copyright (c) 2020-2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
  *
  * Adapted from NGL.
  *
@@ -9,16 +9,36 @@
 
 import { RuntimeContext, Task } from '../../../mol-task';
 import { ReaderResult as Result } from '../result';
+import { FileHandle } from '../../common/file-handle';
+
+export interface XtcFrame {
+    count: number,
+    x: Float32Array,
+    y: Float32Array,
+    z: Float32Array
+}
 
 export interface XtcFile {
-    frames: { count: number, x: Float32Array, y: Float32Array, z: Float32Array }[],
+    frames: XtcFrame[],
     boxes: number[][],
     times: number[],
     timeOffset: number,
     deltaTime: number
 }
 
-const MagicInts = new Uint32Array([
+/** Frame offsets and headers that allow decoding individual frames on demand */
+export interface XtcFrameIndex {
+    /** byte offset of each frame */
+    offsets: number[],
+    /** byte size of each frame */
+    sizes: number[],
+    boxes: number[][],
+    times: number[],
+    timeOffset: number,
+    deltaTime: number
+}
+
+export const MagicInts = new Uint32Array([
     0, 0, 0, 0, 0, 0, 0, 0, 0, 8, 10, 12, 16, 20, 25, 32, 40, 50, 64,
     80, 101, 128, 161, 203, 256, 322, 406, 512, 645, 812, 1024, 1290,
     1625, 2048, 2580, 3250, 4096, 5060, 6501, 8192, 10321, 13003,
@@ -27,7 +47,7 @@ const MagicInts = new Uint32Array([
     832255, 1048576, 1321122, 1664510, 2097152, 2642245, 3329021,
     4194304, 5284491, 6658042, 8388607, 10568983, 13316085, 16777216
 ]);
-const FirstIdx = 9;
+export const FirstIdx = 9;
 // const LastIdx = MagicInts.length
 
 namespace Decoder {
@@ -163,228 +183,234 @@ function undefinedError() {
     throw new Error('(xdrfile error) Undefined error.');
 }
 
-async function parseInternal(ctx: RuntimeContext, data: Uint8Array) {
-    // https://github.com/gromacs/gromacs/blob/master/src/gromacs/fileio/xtcio.cpp
-    // https://github.com/gromacs/gromacs/blob/master/src/gromacs/fileio/libxdrf.cpp
+/** Size of the frame header with magic number, atom count, step, time and box */
+const FrameHeaderSize = 52;
 
-    const dv = new DataView(data.buffer, data.byteOffset);
+function readFrameHeader(dv: DataView, offset: number) {
+    // const magicnum = dv.getInt32(offset)
+    const natoms = dv.getInt32(offset + 4);
+    // const step = dv.getInt32(offset + 8)
+    const time = dv.getFloat32(offset + 12);
 
-    const f: XtcFile = {
-        frames: [],
-        boxes: [],
-        times: [],
-        timeOffset: 0,
-        deltaTime: 0
-    };
-    const coordinates = f.frames;
-    const boxes = f.boxes;
-    const times = f.times;
+    const box = new Float32Array(9);
+    for (let i = 0; i < 9; ++i) {
+        box[i] = dv.getFloat32(offset + 16 + i * 4) * 10;
+    }
+    return { natoms, time, box: box as unknown as number[] };
+}
 
-    const minMaxInt = [0, 0, 0, 0, 0, 0];
-    const sizeint = [0, 0, 0];
-    const bitsizeint = [0, 0, 0];
-    const sizesmall = [0, 0, 0];
-    const thiscoord = [0.1, 0.1, 0.1];
-    const prevcoord = [0.1, 0.1, 0.1];
+/** Byte size of the frame starting at `offset` */
+function getFrameSize(dv: DataView, offset: number, natoms: number) {
+    if (natoms <= 9) return FrameHeaderSize + 4 + natoms * 12;
+    // lsize, precision, min/max ints, smallidx and byte count followed by the padded bytes
+    return FrameHeaderSize + 40 + Math.ceil(dv.getInt32(offset + FrameHeaderSize + 36) / 4) * 4;
+}
 
-    let offset = 0;
-    const buf = Decoder.buf;
-    // const buf2 = new Uint32Array(buf.buffer);
+function decodeCoordinates(data: Uint8Array, dv: DataView, offset: number, natoms: number): XtcFrame {
+    const frameCoords: XtcFrame = { count: natoms, x: new Float32Array(natoms), y: new Float32Array(natoms), z: new Float32Array(natoms) };
 
-    while (true) {
-        let frameCoords: XtcFile['frames'][0];
+    if (natoms <= 9) { // no compression
+        offset += 4; // lsize
+        for (let i = 0; i < natoms; ++i) {
+            frameCoords.x[i] = dv.getFloat32(offset);
+            frameCoords.y[i] = dv.getFloat32(offset + 4);
+            frameCoords.z[i] = dv.getFloat32(offset + 8);
+            offset += 12;
+        }
+    } else {
+        const minMaxInt = [0, 0, 0, 0, 0, 0];
+        const sizeint = [0, 0, 0];
+        const bitsizeint = [0, 0, 0];
+        const sizesmall = [0, 0, 0];
+        const thiscoord = [0.1, 0.1, 0.1];
+        const prevcoord = [0.1, 0.1, 0.1];
+        const buf = Decoder.buf;
+
+        buf[0] = buf[1] = buf[2] = 0;
 
-        // const magicnum = dv.getInt32(offset)
-        const natoms = dv.getInt32(offset + 4);
-        // const step = dv.getInt32(offset + 8)
-        offset += 12;
+        let lfp = 0;
 
-        times.push(dv.getFloat32(offset));
+        const lsize = dv.getInt32(offset);
+        offset += 4;
+        const precision = dv.getFloat32(offset);
         offset += 4;
 
-        const box = new Float32Array(9);
-        for (let i = 0; i < 9; ++i) {
-            box[i] = dv.getFloat32(offset) * 10;
-            offset += 4;
-        }
-        boxes.push(box as unknown as number[]);
-
-        if (natoms <= 9) { // no compression
-            frameCoords = { count: natoms / 3, x: new Float32Array(natoms / 3), y: new Float32Array(natoms / 3), z: new Float32Array(natoms / 3) };
-            for (let i = 0; i < natoms / 3; ++i) {
-                frameCoords.x[i] = dv.getFloat32(offset);
-                frameCoords.y[i] = dv.getFloat32(offset);
-                frameCoords.z[i] = dv.getFloat32(offset);
-                offset += 4;
-            }
+        minMaxInt[0] = dv.getInt32(offset);
+        minMaxInt[1] = dv.getInt32(offset + 4);
+        minMaxInt[2] = dv.getInt32(offset + 8);
+        minMaxInt[3] = dv.getInt32(offset + 12);
+        minMaxInt[4] = dv.getInt32(offset + 16);
+        minMaxInt[5] = dv.getInt32(offset + 20);
+        sizeint[0] = minMaxInt[3] - minMaxInt[0] + 1;
+        sizeint[1] = minMaxInt[4] - minMaxInt[1] + 1;
+        sizeint[2] = minMaxInt[5] - minMaxInt[2] + 1;
+        offset += 24;
+
+        let bitsize;
+        if ((sizeint[0] | sizeint[1] | sizeint[2]) > 0xffffff) {
+            bitsizeint[0] = Decoder.sizeOfInt(sizeint[0]);
+            bitsizeint[1] = Decoder.sizeOfInt(sizeint[1]);
+            bitsizeint[2] = Decoder.sizeOfInt(sizeint[2]);
+            bitsize = 0; // flag the use of large sizes
         } else {
-            buf[0] = buf[1] = buf[2] = 0;
-            sizeint[0] = sizeint[1] = sizeint[2] = 0;
-            sizesmall[0] = sizesmall[1] = sizesmall[2] = 0;
-            bitsizeint[0] = bitsizeint[1] = bitsizeint[2] = 0;
-            thiscoord[0] = thiscoord[1] = thiscoord[2] = 0;
-            prevcoord[0] = prevcoord[1] = prevcoord[2] = 0;
-
-            frameCoords = { count: natoms, x: new Float32Array(natoms), y: new Float32Array(natoms), z: new Float32Array(natoms) };
-            let lfp = 0;
-
-            const lsize = dv.getInt32(offset);
-            offset += 4;
-            const precision = dv.getFloat32(offset);
-            offset += 4;
-
-            minMaxInt[0] = dv.getInt32(offset);
-            minMaxInt[1] = dv.getInt32(offset + 4);
-            minMaxInt[2] = dv.getInt32(offset + 8);
-            minMaxInt[3] = dv.getInt32(offset + 12);
-            minMaxInt[4] = dv.getInt32(offset + 16);
-            minMaxInt[5] = dv.getInt32(offset + 20);
-            sizeint[0] = minMaxInt[3] - minMaxInt[0] + 1;
-            sizeint[1] = minMaxInt[4] - minMaxInt[1] + 1;
-            sizeint[2] = minMaxInt[5] - minMaxInt[2] + 1;
-            offset += 24;
-
-            let bitsize;
-            if ((sizeint[0] | sizeint[1] | sizeint[2]) > 0xffffff) {
-                bitsizeint[0] = Decoder.sizeOfInt(sizeint[0]);
-                bitsizeint[1] = Decoder.sizeOfInt(sizeint[1]);
-                bitsizeint[2] = Decoder.sizeOfInt(sizeint[2]);
-                bitsize = 0; // flag the use of large sizes
+            bitsize = Decoder.sizeOfInts(3, sizeint);
+        }
+
+        let smallidx = dv.getInt32(offset);
+        offset += 4;
+
+        let tmpIdx = smallidx - 1;
+        tmpIdx = (FirstIdx > tmpIdx) ? FirstIdx : tmpIdx;
+        let smaller = (MagicInts[tmpIdx] / 2) | 0;
+        let smallnum = (MagicInts[smallidx] / 2) | 0;
+
+        sizesmall[0] = sizesmall[1] = sizesmall[2] = MagicInts[smallidx];
+
+        offset += 4; // byte count
+
+        const invPrecision = 1.0 / precision;
+        let run = 0;
+        let i = 0;
+
+        // const buf8 = new Uint8Array(data.buffer, data.byteOffset + offset, 32 * 4); // 229...
+
+        thiscoord[0] = thiscoord[1] = thiscoord[2] = 0;
+
+        while (i < lsize) {
+            if (bitsize === 0) {
+                thiscoord[0] = Decoder.decodeBits(data, offset, bitsizeint[0]);
+                thiscoord[1] = Decoder.decodeBits(data, offset, bitsizeint[1]);
+                thiscoord[2] = Decoder.decodeBits(data, offset, bitsizeint[2]);
             } else {
-                bitsize = Decoder.sizeOfInts(3, sizeint);
+                Decoder.decodeInts(data, offset, bitsize, sizeint, thiscoord);
             }
 
-            let smallidx = dv.getInt32(offset);
-            offset += 4;
-
-            let tmpIdx = smallidx - 1;
-            tmpIdx = (FirstIdx > tmpIdx) ? FirstIdx : tmpIdx;
-            let smaller = (MagicInts[tmpIdx] / 2) | 0;
-            let smallnum = (MagicInts[smallidx] / 2) | 0;
+            i++;
 
-            sizesmall[0] = sizesmall[1] = sizesmall[2] = MagicInts[smallidx];
+            thiscoord[0] += minMaxInt[0];
+            thiscoord[1] += minMaxInt[1];
+            thiscoord[2] += minMaxInt[2];
 
-            const adz = Math.ceil(dv.getInt32(offset) / 4) * 4;
-            offset += 4;
+            prevcoord[0] = thiscoord[0];
+            prevcoord[1] = thiscoord[1];
+            prevcoord[2] = thiscoord[2];
 
-            const invPrecision = 1.0 / precision;
-            let run = 0;
-            let i = 0;
+            const flag = Decoder.decodeBits(data, offset, 1);
+            let isSmaller = 0;
 
-            // const buf8 = new Uint8Array(data.buffer, data.byteOffset + offset, 32 * 4); // 229...
+            if (flag === 1) {
+                run = Decoder.decodeBits(data, offset, 5);
+                isSmaller = run % 3;
+                run -= isSmaller;
+                isSmaller--;
+            }
 
-            thiscoord[0] = thiscoord[1] = thiscoord[2] = 0;
+            // if ((lfp-ptrstart)+run > size3){
+            //   fprintf(stderr, "(xdrfile error) Buffer overrun during decompression.\n");
+            //   return 0;
+            // }
 
-            while (i < lsize) {
-                if (bitsize === 0) {
-                    thiscoord[0] = Decoder.decodeBits(data, offset, bitsizeint[0]);
-                    thiscoord[1] = Decoder.decodeBits(data, offset, bitsizeint[1]);
-                    thiscoord[2] = Decoder.decodeBits(data, offset, bitsizeint[2]);
-                } else {
-                    Decoder.decodeInts(data, offset, bitsize, sizeint, thiscoord);
-                }
+            if (run > 0) {
+                thiscoord[0] = thiscoord[1] = thiscoord[2] = 0;
 
-                i++;
+                for (let k = 0; k < run; k += 3) {
+                    Decoder.decodeInts(data, offset, smallidx, sizesmall, thiscoord);
+                    i++;
 
-                thiscoord[0] += minMaxInt[0];
-                thiscoord[1] += minMaxInt[1];
-                thiscoord[2] += minMaxInt[2];
+                    thiscoord[0] += prevcoord[0] - smallnum;
+                    thiscoord[1] += prevcoord[1] - smallnum;
+                    thiscoord[2] += prevcoord[2] - smallnum;
 
-                prevcoord[0] = thiscoord[0];
-                prevcoord[1] = thiscoord[1];
-                prevcoord[2] = thiscoord[2];
+                    if (k === 0) {
+                        // interchange first with second atom for
+                        // better compression of water molecules
+                        let tmpSwap = thiscoord[0];
+                        thiscoord[0] = prevcoord[0];
+                        prevcoord[0] = tmpSwap;
 
-                const flag = Decoder.decodeBits(data, offset, 1);
-                let isSmaller = 0;
+                        tmpSwap = thiscoord[1];
+                        thiscoord[1] = prevcoord[1];
+                        prevcoord[1] = tmpSwap;
 
-                if (flag === 1) {
-                    run = Decoder.decodeBits(data, offset, 5);
-                    isSmaller = run % 3;
-                    run -= isSmaller;
-                    isSmaller--;
-                }
+                        tmpSwap = thiscoord[2];
+                        thiscoord[2] = prevcoord[2];
+                        prevcoord[2] = tmpSwap;
 
-                // if ((lfp-ptrstart)+run > size3){
-                //   fprintf(stderr, "(xdrfile error) Buffer overrun during decompression.\n");
-                //   return 0;
-                // }
-
-                if (run > 0) {
-                    thiscoord[0] = thiscoord[1] = thiscoord[2] = 0;
-
-                    for (let k = 0; k < run; k += 3) {
-                        Decoder.decodeInts(data, offset, smallidx, sizesmall, thiscoord);
-                        i++;
-
-                        thiscoord[0] += prevcoord[0] - smallnum;
-                        thiscoord[1] += prevcoord[1] - smallnum;
-                        thiscoord[2] += prevcoord[2] - smallnum;
-
-                        if (k === 0) {
-                            // interchange first with second atom for
-                            // better compression of water molecules
-                            let tmpSwap = thiscoord[0];
-                            thiscoord[0] = prevcoord[0];
-                            prevcoord[0] = tmpSwap;
-
-                            tmpSwap = thiscoord[1];
-                            thiscoord[1] = prevcoord[1];
-                            prevcoord[1] = tmpSwap;
-
-                            tmpSwap = thiscoord[2];
-                            thiscoord[2] = prevcoord[2];
-                            prevcoord[2] = tmpSwap;
-
-                            frameCoords.x[lfp] = prevcoord[0] * invPrecision;
-                            frameCoords.y[lfp] = prevcoord[1] * invPrecision;
-                            frameCoords.z[lfp] = prevcoord[2] * invPrecision;
-                            lfp++;
-                        } else {
-                            prevcoord[0] = thiscoord[0];
-                            prevcoord[1] = thiscoord[1];
-                            prevcoord[2] = thiscoord[2];
-                        }
-                        frameCoords.x[lfp] = thiscoord[0] * invPrecision;
-                        frameCoords.y[lfp] = thiscoord[1] * invPrecision;
-                        frameCoords.z[lfp] = thiscoord[2] * invPrecision;
+                        frameCoords.x[lfp] = prevcoord[0] * invPrecision;
+                        frameCoords.y[lfp] = prevcoord[1] * invPrecision;
+                        frameCoords.z[lfp] = prevcoord[2] * invPrecision;
                         lfp++;
+                    } else {
+                        prevcoord[0] = thiscoord[0];
+                        prevcoord[1] = thiscoord[1];
+                        prevcoord[2] = thiscoord[2];
                     }
-                } else {
                     frameCoords.x[lfp] = thiscoord[0] * invPrecision;
                     frameCoords.y[lfp] = thiscoord[1] * invPrecision;
                     frameCoords.z[lfp] = thiscoord[2] * invPrecision;
                     lfp++;
                 }
+            } else {
+                frameCoords.x[lfp] = thiscoord[0] * invPrecision;
+                frameCoords.y[lfp] = thiscoord[1] * invPrecision;
+                frameCoords.z[lfp] = thiscoord[2] * invPrecision;
+                lfp++;
+            }
 
-                smallidx += isSmaller;
+            smallidx += isSmaller;
 
-                if (isSmaller < 0) {
-                    smallnum = smaller;
-                    if (smallidx > FirstIdx) {
-                        smaller = (MagicInts[smallidx - 1] / 2) | 0;
-                    } else {
-                        smaller = 0;
-                    }
-                } else if (isSmaller > 0) {
-                    smaller = smallnum;
-                    smallnum = (MagicInts[smallidx] / 2) | 0;
+            if (isSmaller < 0) {
+                smallnum = smaller;
+                if (smallidx > FirstIdx) {
+                    smaller = (MagicInts[smallidx - 1] / 2) | 0;
+                } else {
+                    smaller = 0;
                 }
-                sizesmall[0] = sizesmall[1] = sizesmall[2] = MagicInts[smallidx];
+            } else if (isSmaller > 0) {
+                smaller = smallnum;
+                smallnum = (MagicInts[smallidx] / 2) | 0;
+            }
+            sizesmall[0] = sizesmall[1] = sizesmall[2] = MagicInts[smallidx];
 
-                if (sizesmall[0] === 0 || sizesmall[1] === 0 || sizesmall[2] === 0) {
-                    undefinedError();
-                }
+            if (sizesmall[0] === 0 || sizesmall[1] === 0 || sizesmall[2] === 0) {
+                undefinedError();
             }
-            offset += adz;
         }
+    }
 
-        for (let c = 0; c < natoms; c++) {
-            frameCoords.x[c] *= 10;
-            frameCoords.y[c] *= 10;
-            frameCoords.z[c] *= 10;
-        }
+    for (let c = 0; c < natoms; c++) {
+        frameCoords.x[c] *= 10;
+        frameCoords.y[c] *= 10;
+        frameCoords.z[c] *= 10;
+    }
+
+    return frameCoords;
+}
+
+function getTimeOffsetAndDelta(times: number[]) {
+    return {
+        timeOffset: times.length >= 1 ? times[0] : 0,
+        deltaTime: times.length >= 2 ? times[1] - times[0] : 0
+    };
+}
+
+async function parseInternal(ctx: RuntimeContext, data: Uint8Array): Promise<XtcFile> {
+    // https://github.com/gromacs/gromacs/blob/master/src/gromacs/fileio/xtcio.cpp
+    // https://github.com/gromacs/gromacs/blob/master/src/gromacs/fileio/libxdrf.cpp
+
+    const dv = new DataView(data.buffer, data.byteOffset);
 
-        coordinates.push(frameCoords);
+    const frames: XtcFrame[] = [];
+    const boxes: number[][] = [];
+    const times: number[] = [];
+
+    let offset = 0;
+    while (true) {
+        const { natoms, time, box } = readFrameHeader(dv, offset);
+        times.push(time);
+        boxes.push(box);
+        frames.push(decodeCoordinates(data, dv, offset + FrameHeaderSize, natoms));
+        offset += getFrameSize(dv, offset, natoms);
 
         if (ctx.shouldUpdate) {
             await ctx.update({ current: offset, max: data.length });
@@ -393,14 +419,47 @@ async function parseInternal(ctx: RuntimeContext, data: Uint8Array) {
         if (offset >= data.length) break;
     }
 
-    if (times.length >= 1) {
-        f.timeOffset = times[0];
-    }
-    if (times.length >= 2) {
-        f.deltaTime = times[1] - times[0];
+    return { frames, boxes, times, ...getTimeOffsetAndDelta(times) };
+}
+
+/** Bytes read at once while indexing, frames are not decoded so only their headers are needed */
+const IndexChunkSize = 4 * 1024 * 1024;
+
+async function indexInternal(ctx: RuntimeContext, file: FileHandle, size: number): Promise<XtcFrameIndex> {
+    const offsets: number[] = [];
+    const sizes: number[] = [];
+    const boxes: number[][] = [];
+    const times: number[] = [];
+
+    let offset = 0;
+    while (offset < size) {
+        const { buffer } = await file.readBuffer(offset, Math.min(IndexChunkSize, size - offset));
+        const dv = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+        const chunkOffset = offset;
+
+        while (offset < size) {
+            const position = offset - chunkOffset;
+            // the frame header and, for compressed frames, the byte count of the coordinates
+            if (position + FrameHeaderSize > buffer.length) break;
+            const { natoms, time, box } = readFrameHeader(dv, position);
+            if (natoms > 9 && position + FrameHeaderSize + 40 > buffer.length) break;
+
+            const frameSize = getFrameSize(dv, position, natoms);
+            offsets.push(offset);
+            sizes.push(frameSize);
+            times.push(time);
+            boxes.push(box);
+            offset += frameSize;
+        }
+        if (offset === chunkOffset) throw new Error('unexpected end of data');
+
+        if (ctx.shouldUpdate) {
+            await ctx.update({ current: Math.min(offset, size), max: size });
+        }
     }
+    if (offset !== size) throw new Error('unexpected end of data');
 
-    return f;
+    return { offsets, sizes, boxes, times, ...getTimeOffsetAndDelta(times) };
 }
 
 export function parseXtc(data: Uint8Array) {
@@ -413,4 +472,30 @@ export function parseXtc(data: Uint8Array) {
             return Result.error('' + e);
         }
     });
-}
\ No newline at end of file
+}
+
+/** Index the frames of the file, reading it in chunks instead of loading all of it */
+export function indexXtc(file: FileHandle, size: number) {
+    return Task.create<Result<XtcFrameIndex>>('Index XTC', async ctx => {
+        try {
+            ctx.update({ canAbort: true, message: 'Indexing trajectory...' });
+            const index = await indexInternal(ctx, file, size);
+            return Result.success(index);
+        } catch (e) {
+            return Result.error('' + e);
+        }
+    });
+}
+
+/** Decode the frame starting at the given byte offset, see `XtcFrameIndex.offsets` */
+export function readXtcFrame(data: Uint8Array, offset: number): XtcFrame {
+    const dv = new DataView(data.buffer, data.byteOffset);
+    const natoms = dv.getInt32(offset + 4);
+    return decodeCoordinates(data, dv, offset + FrameHeaderSize, natoms);
+}
+
+/** Decode the frame with the given index, only the bytes of that frame are read from the file */
+export async function readXtcFrameFromFile(file: FileHandle, index: XtcFrameIndex, frameIndex: number): Promise<XtcFrame> {
+    const { buffer } = await file.readBuffer(index.offsets[frameIndex], index.sizes[frameIndex]);
+    return readXtcFrame(buffer, 0);
+}
@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Box3D } from '../../../mol-math/geometry';
+import { Mat4, Tensor, Vec3 } from '../../../mol-math/linear-algebra';
+import { Grid, to_CCP4, Volume } from '../../../mol-model/volume';
+import { volumeFromCcp4 } from '../../../mol-model-formats/volume/ccp4';
+import { CustomProperties } from '../../../mol-model/custom-property';
+import { parse } from '../../reader/ccp4/parser';
+
+const dim = [4, 5, 6];
+
+function createVolume(): Volume {
+    const space = Tensor.Space(dim, [2, 1, 0], Float32Array);
+    const data = space.create();
+    for (let k = 0; k < dim[2]; ++k) {
+        for (let j = 0; j < dim[1]; ++j) {
+            for (let i = 0; i < dim[0]; ++i) {
+                space.set(data, i, j, k, i + 10 * j + 100 * k);
+            }
+        }
+    }
+    const matrix = Mat4.mul(Mat4(), Mat4.fromTranslation(Mat4(), Vec3.create(10, 20, 30)), Mat4.fromUniformScaling(Mat4(), 0.5));
+    return {
+        grid: {
+            transform: { kind: 'matrix', matrix },
+            cells: Tensor.create(space, data),
+            stats: { min: 0, max: 543, mean: 0, sigma: 0 },
+        },
+        sourceData: { kind: '', name: '', data: {} },
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+}
+
+async function roundtrip(volume: Volume, box?: Box3D) {
+    const parsed = await parse(to_CCP4(volume, { box }), 'test.mrc').run();
+    if (parsed.isError) throw new Error(parsed.message);
+    return { header: parsed.result.header, volume: await volumeFromCcp4(parsed.result).run() };
+}
+
+function getCartesianValue(volume: Volume, p: Vec3) {
+    const { space, data } = volume.grid.cells;
+    const c = Vec3.transformMat4(Vec3(), p, Mat4.invert(Mat4(), Grid.getGridToCartesianTransform(volume.grid)));
+    return space.get(data, Math.round(c[0]), Math.round(c[1]), Math.round(c[2]));
+}
+
+describe('ccp4 writer', () => {
+    it('full', async () => {
+        const volume = createVolume();
+        const { header, volume: read } = await roundtrip(volume);
+
+        expect([header.NC, header.NR, header.NS]).toEqual(dim);
+        expect([header.MAPC, header.MAPR, header.MAPS]).toEqual([1, 2, 3]);
+        expect(header.xLength).toBeCloseTo(2);
+        expect(header.AMIN).toBe(0);
+        expect(header.AMAX).toBe(543);
+        expect(header.ARMS).toBeGreaterThan(0);
+
+        expect(Array.from(read.grid.cells.data)).toEqual(Array.from(volume.grid.cells.data));
+        const a = Grid.getGridToCartesianTransform(volume.grid);
+        const b = Grid.getGridToCartesianTransform(read.grid);
+        for (let i = 0; i < 16; ++i) expect(b[i]).toBeCloseTo(a[i], 5);
+    });
+
+    it('box', async () => {
+        const volume = createVolume();
+        // cells 1..2, 2..3 and 3..4 in grid coordinates
+        const box = Box3D.create(Vec3.create(10.6, 21.1, 31.5), Vec3.create(11.0, 21.4, 32.0));
+        const { header, volume: read } = await roundtrip(volume, box);
+
+        expect([header.NC, header.NR, header.NS]).toEqual([2, 2, 2]);
+        const p = Vec3.create(10.5, 21, 31.5);
+        expect(getCartesianValue(read, p)).toBe(getCartesianValue(volume, p));
+        expect(getCartesianValue(read, p)).toBe(1 + 20 + 300);
+
+        // crop again, now from a grid with a spacegroup transform
+        const { volume: cropped } = await roundtrip(read, Box3D.create(Vec3.create(11, 21.5, 32), Vec3.create(11, 21.5, 32)));
+        expect(cropped.grid.cells.data.length).toBe(1);
+        expect(cropped.grid.cells.data[0]).toBe(2 + 30 + 400);
+    });
+
+    it('empty box', () => {
+        const volume = createVolume();
+        const box = Box3D.create(Vec3.create(100, 100, 100), Vec3.create(110, 110, 110));
+        expect(() => to_CCP4(volume, { box })).toThrow();
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { trajectoryFromPDB } from '../../../mol-model-formats/structure/pdb';
+import { Structure, StructureElement, StructureProperties as P, to_PDB } from '../../../mol-model/structure';
+import { parsePDB } from '../../reader/pdb/parser';
+import { encodeHybrid36, PdbEncoder } from '../pdb/encoder';
+
+const pdb = `CRYST1   20.000   30.000   40.000  90.00  90.00  90.00 P 21 21 21    4
+ATOM      1  N   CYS A   1       0.000   0.000   0.000  1.00 10.00           N
+ATOM      2  CA  CYS A   1       1.458   0.000   0.000  1.00 20.00           C
+ATOM      3  C   CYS A   1       2.009   1.420   0.000  1.00 30.00           C
+ATOM      4  O   CYS A   1       1.251   2.390   0.000  1.00 40.00           O
+ATOM      5  CB  CYS A   1       1.988  -0.773  -1.199  1.00 50.00           C
+ATOM      6  SG  CYS A   1       3.788  -0.773  -1.199  1.00 50.00           S
+ATOM      7  N   CYS A   2       3.332   1.536   0.000  1.00 60.00           N
+ATOM      8  CA  CYS A   2       3.970   2.845   0.000  1.00 70.00           C
+ATOM      9  C   CYS A   2       5.486   2.700   0.000  1.00 80.00           C
+ATOM     10  O   CYS A   2       6.009   1.580   0.000  0.50 90.00           O
+ATOM     11  CB  CYS A   2       3.500   3.600  -1.250  1.00 50.00           C
+ATOM     12  SG  CYS A   2       3.800   1.280  -1.200  1.00 50.00           S
+TER      13      CYS A   2
+HETATM   14  C1  LIG B 101       8.000   2.000   0.000  1.00 10.00           C
+HETATM   15  O1  LIG B 101       9.430   2.000   0.000  1.00 10.00           O
+HETATM   16  O   HOH B 201      12.500   2.000   0.000  1.00 10.00           O
+END
+`;
+
+async function getStructure(data: string) {
+    const parsed = await parsePDB(data).run();
+    if (parsed.isError) throw parsed;
+    const trajectory = await trajectoryFromPDB(parsed.result).run();
+    return Structure.ofModel(trajectory.representative);
+}
+
+function getAtoms(structure: Structure) {
+    const atoms: string[] = [];
+    const l = StructureElement.Location.create(structure);
+    for (const unit of structure.units) {
+        l.unit = unit;
+        for (let i = 0, il = unit.elements.length; i < il; ++i) {
+            l.element = unit.elements[i];
+            atoms.push([
+                P.residue.group_PDB(l), P.atom.auth_atom_id(l), P.atom.auth_comp_id(l), P.chain.auth_asym_id(l),
+                P.residue.auth_seq_id(l), P.atom.type_symbol(l), P.atom.x(l), P.atom.y(l), P.atom.z(l),
+                P.atom.occupancy(l), P.atom.B_iso_or_equiv(l)
+            ].join(' '));
+        }
+    }
+    return atoms;
+}
+
+describe('pdb-writer', () => {
+    it('hybrid-36', () => {
+        expect(encodeHybrid36(0, 5)).toBe('0');
+        expect(encodeHybrid36(99999, 5)).toBe('99999');
+        expect(encodeHybrid36(100000, 5)).toBe('A0000');
+        expect(encodeHybrid36(100001, 5)).toBe('A0001');
+        expect(encodeHybrid36(10000, 4)).toBe('A000');
+        expect(encodeHybrid36(10000 + 26 * 36 * 36 * 36, 4)).toBe('a000');
+        expect(encodeHybrid36(-999, 4)).toBe('-999');
+        expect(() => encodeHybrid36(10000 + 2 * 26 * 36 * 36 * 36, 4)).toThrow();
+    });
+
+    it('atom record columns', () => {
+        const encoder = new PdbEncoder();
+        encoder.writeAtom({
+            hetero: true, serial: 100000, name: 'FE', altLoc: 'A', resName: 'HEM', chainId: 'A', resSeq: 12, iCode: '',
+            x: -1.5, y: 22.25, z: 333.125, occupancy: 0.5, tempFactor: 12.3, element: 'Fe', charge: 3
+        });
+        encoder.writeAtom({
+            hetero: false, serial: 1, name: 'CA', altLoc: '', resName: 'GLY', chainId: 'B', resSeq: 1, iCode: 'A',
+            x: 0, y: 0, z: 0, occupancy: 1, tempFactor: 0, element: 'C', charge: 0
+        });
+        const [hetatm, atom] = encoder.getData().split('\n');
+        expect(hetatm).toBe('HETATMA0000 FE  AHEM A  12      -1.500  22.250 333.125  0.50 12.30          FE3+');
+        expect(atom).toBe('ATOM      1  CA  GLY B   1A      0.000   0.000   0.000  1.00  0.00           C  ');
+    });
+
+    it('round-trip', async () => {
+        const structure = await getStructure(pdb);
+        const data = to_PDB(structure);
+
+        expect(data).toContain('CRYST1   20.000   30.000   40.000  90.00  90.00  90.00 P 21 21 21    4');
+        expect(data).toContain('SEQRES   1 A    2  CYS CYS');
+        expect(data).toContain('TER      13      CYS A   2');
+        expect(data).toContain('CONECT   14   15');
+        expect(data).toContain('CONECT   15   14');
+        expect(data.endsWith('END\n')).toBe(true);
+
+        expect(getAtoms(await getStructure(data))).toEqual(getAtoms(structure));
+    });
+
+    it('models', async () => {
+        const structure = await getStructure(pdb);
+        const data = to_PDB([structure, structure]);
+        expect(data.match(/^MODEL/gm)?.length).toBe(2);
+        expect(data.match(/^ENDMDL/gm)?.length).toBe(2);
+        expect(data.match(/^ATOM/gm)?.length).toBe(24);
+    });
+
+    it('unique model numbers', async () => {
+        const structure = await getStructure(pdb);
+        const data = to_PDB([structure, structure, structure]);
+        expect(data.match(/^MODEL.*$/gm)).toEqual(['MODEL        1', 'MODEL        2', 'MODEL        3']);
+
+        const parsed = await parsePDB(data).run();
+        if (parsed.isError) throw parsed;
+        const trajectory = await trajectoryFromPDB(parsed.result).run();
+        expect(trajectory.frameCount).toBe(3);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { trajectoryFromGRO } from '../../../mol-model-formats/structure/gro';
+import { trajectoryFromPQR } from '../../../mol-model-formats/structure/pqr';
+import { trajectoryFromXyz } from '../../../mol-model-formats/structure/xyz';
+import { AtomPartialCharge } from '../../../mol-model-formats/structure/property/partial-charge';
+import { Structure, StructureElement, StructureProperties as P, to_GRO, to_PQR, to_XYZ } from '../../../mol-model/structure';
+import { parseGRO } from '../../reader/gro/parser';
+import { parsePqr } from '../../reader/pqr/parser';
+import { parseXyz } from '../../reader/xyz/parser';
+
+const pqr = `ATOM      1  N   GLY A   1       0.000   0.000   0.000 -0.3000 1.8240
+ATOM      2  CA  GLY A   1       1.458   0.000   0.000  0.0337 1.9080
+ATOM      3  C   GLY A   1       2.009   1.420   0.000  0.5973 1.9080
+ATOM      4  O   GLY A   1       1.251   2.390   0.000 -0.5679 1.6612
+TER
+HETATM    5  O   HOH B 201      10.500   2.000   0.000 -0.8340 1.7683
+END`;
+
+async function getStructure(data: string) {
+    const parsed = await parsePqr(data).run();
+    if (parsed.isError) throw new Error(parsed.message);
+    const trajectory = await trajectoryFromPQR(parsed.result).run();
+    return Structure.ofModel(trajectory.representative);
+}
+
+function getValues(structure: Structure, props: ((l: StructureElement.Location) => any)[]) {
+    const values: any[][] = [];
+    const l = StructureElement.Location.create(structure);
+    for (const unit of structure.units) {
+        l.unit = unit;
+        for (let i = 0, il = unit.elements.length; i < il; ++i) {
+            l.element = unit.elements[i];
+            values.push(props.map(p => p(l)));
+        }
+    }
+    return values;
+}
+
+const x = (l: StructureElement.Location) => +P.atom.x(l).toFixed(3);
+const y = (l: StructureElement.Location) => +P.atom.y(l).toFixed(3);
+const z = (l: StructureElement.Location) => +P.atom.z(l).toFixed(3);
+const charge = (l: StructureElement.Location) => AtomPartialCharge.Provider.get(l.unit.model)!.data.value(l.element);
+
+describe('coordinate writers', () => {
+    it('pqr round-trip', async () => {
+        const structure = await getStructure(pqr);
+        const data = to_PQR(structure);
+        expect(data).toContain('ATOM      2  CA  GLY A   1       1.458   0.000   0.000  0.0337 1.9080');
+        expect(data).toContain('HETATM    6  O   HOH B 201      10.500   2.000   0.000 -0.8340 1.7683');
+
+        const props = [P.residue.group_PDB, P.atom.auth_atom_id, P.atom.auth_comp_id, P.chain.auth_asym_id, P.residue.auth_seq_id, x, y, z, charge];
+        expect(getValues(await getStructure(data), props)).toEqual(getValues(structure, props));
+    });
+
+    it('pqr fields stay separated', async () => {
+        const structure = await getStructure(`HETATM 1 C1 LIG1 B 1000 -1000.000 2.000 0.000 -10.1234 1.7000
+HETATM 2 HG21 LIG1 B 1000 8.000 2.000 0.000 0.1000 1.2000`);
+        const data = to_PQR(structure);
+        expect(data).toContain('HETATM    1  C1  LIG1 B 1000     -1000.000   2.000   0.000 -10.1234 1.7000');
+
+        const props = [P.atom.auth_atom_id, P.atom.auth_comp_id, P.chain.auth_asym_id, P.residue.auth_seq_id, x, y, z, charge];
+        expect(getValues(await getStructure(data), props)).toEqual(getValues(structure, props));
+    });
+
+    it('gro round-trip', async () => {
+        const structure = await getStructure(pqr);
+        const data = to_GRO(structure);
+        expect(data.split('\n')[1]).toBe('    5');
+        expect(data).toContain('    1GLY     CA    2   0.146   0.000   0.000');
+
+        const parsed = await parseGRO(data).run();
+        if (parsed.isError) throw new Error(parsed.message);
+        const trajectory = await trajectoryFromGRO(parsed.result).run();
+        const props = [P.atom.auth_atom_id, P.atom.auth_comp_id, P.residue.auth_seq_id, x, y, z];
+        expect(getValues(Structure.ofModel(trajectory.representative), props)).toEqual(getValues(structure, props).map(v => [v[0], v[1], v[2], ...v.slice(3).map(c => +c.toFixed(2))]));
+    });
+
+    it('xyz round-trip', async () => {
+        const structure = await getStructure(pqr);
+        const data = to_XYZ([structure, structure]);
+
+        const parsed = await parseXyz(data).run();
+        if (parsed.isError) throw new Error(parsed.message);
+        expect(parsed.result.molecules.length).toBe(2);
+
+        const trajectory = await trajectoryFromXyz(parsed.result).run();
+        const props = [P.atom.type_symbol, x, y, z];
+        expect(getValues(Structure.ofModel(trajectory.representative), props)).toEqual(getValues(structure, props));
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Cell } from '../../../mol-math/geometry/spacegroup/cell';
+import { Vec3 } from '../../../mol-math/linear-algebra';
+import { Coordinates, Frame, Time } from '../../../mol-model/structure/coordinates';
+import { to_DCD, to_XTC } from '../../../mol-model/structure';
+import { parseDcd } from '../../reader/dcd/parser';
+import { parseXtc } from '../../reader/xtc/parser';
+import { DcdWriter } from '../dcd';
+import { XtcWriter } from '../xtc';
+
+function createFrame(count: number, seed: number): { x: Float32Array, y: Float32Array, z: Float32Array } {
+    const x = new Float32Array(count), y = new Float32Array(count), z = new Float32Array(count);
+    for (let i = 0; i < count; ++i) {
+        // pairs of close atoms, like in water, interleaved with larger jumps
+        const j = Math.floor(i / 2);
+        x[i] = 10 * Math.sin(j + seed) + (i % 2) * 0.95;
+        y[i] = 20 * Math.cos(j * 0.7 + seed) - (i % 2) * 0.3;
+        z[i] = -5 + j * 0.37 + seed;
+    }
+    return { x, y, z };
+}
+
+function createCoordinates(frameCount: number, count: number) {
+    const frames: Frame[] = [];
+    for (let i = 0; i < frameCount; ++i) {
+        frames.push({
+            elementCount: count,
+            time: Time(i * 2, 'ps'),
+            ...createFrame(count, i),
+            cell: Cell.create(Vec3.create(40, 50, 60), Vec3.create(Math.PI / 2, Math.PI / 2, Math.PI / 2)),
+            xyzOrdering: { isIdentity: true }
+        });
+    }
+    return Coordinates.create(frames, Time(2, 'ps'), Time(0, 'ps'));
+}
+
+function expectCoords(actual: { x: ArrayLike<number>, y: ArrayLike<number>, z: ArrayLike<number> }, expected: { x: ArrayLike<number>, y: ArrayLike<number>, z: ArrayLike<number> }, digits: number) {
+    expect(actual.x.length).toBe(expected.x.length);
+    for (let i = 0, il = expected.x.length; i < il; ++i) {
+        expect(actual.x[i]).toBeCloseTo(expected.x[i], digits);
+        expect(actual.y[i]).toBeCloseTo(expected.y[i], digits);
+        expect(actual.z[i]).toBeCloseTo(expected.z[i], digits);
+    }
+}
+
+describe('dcd writer', () => {
+    it('round-trip', async () => {
+        const encoder = DcdWriter.createEncoder({ title: 'test trajectory' });
+        const a = createFrame(5, 0), b = createFrame(5, 1);
+        const cell = Cell.create(Vec3.create(10, 20, 30), Vec3.create(Math.PI / 2, Math.PI / 2, Math.PI / 2));
+        encoder.writeFrame(a.x, a.y, a.z, 5, cell);
+        encoder.writeFrame(b.x, b.y, b.z, 5, cell);
+
+        const parsed = await parseDcd(encoder.getData()).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { header, frames } = parsed.result;
+        expect(header.NSET).toBe(2);
+        expect(header.NATOM).toBe(5);
+        expect(header.TITLE.trim()).toBe('test trajectory');
+        expect(frames.length).toBe(2);
+        expectCoords(frames[0], a, 5);
+        expectCoords(frames[1], b, 5);
+        expect(frames[1].cell).toEqual([10, 0, 20, 0, 0, 30].map(v => expect.closeTo(v, 10)));
+    });
+
+    it('frame checks', () => {
+        const encoder = DcdWriter.createEncoder();
+        const a = createFrame(5, 0);
+        encoder.writeFrame(a.x, a.y, a.z, 5);
+        expect(() => encoder.writeFrame(a.x, a.y, a.z, 4)).toThrow();
+    });
+
+    it('coordinates subset', async () => {
+        const coordinates = createCoordinates(5, 20);
+        const data = await to_DCD(coordinates, { start: 1, stride: 2, atomIndices: [3, 7, 11] }).run();
+
+        const parsed = await parseDcd(data).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { header, frames } = parsed.result;
+        expect(header.NATOM).toBe(3);
+        expect(header.ISTART).toBe(2);
+        expect(header.NSAVC).toBe(2);
+        expect(frames.length).toBe(2);
+        expect(frames[1].x[2]).toBeCloseTo(coordinates.frames![3].x[11], 5);
+        expect(frames[1].z[0]).toBeCloseTo(coordinates.frames![3].z[3], 5);
+    });
+});
+
+describe('xtc writer', () => {
+    it('round-trip compressed', async () => {
+        const encoder = XtcWriter.createEncoder();
+        const a = createFrame(200, 0), b = createFrame(200, 1);
+        const box = [30, 0, 0, 0, 40, 0, 0, 0, 50];
+        encoder.writeFrame(0, 0, box, a.x, a.y, a.z, 200);
+        encoder.writeFrame(10, 5, box, b.x, b.y, b.z, 200);
+
+        const data = encoder.getData();
+        expect(data.length).toBeLessThan(2 * 200 * 12);
+
+        const parsed = await parseXtc(data).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { frames, boxes, times } = parsed.result;
+        expect(frames.length).toBe(2);
+        expect(times).toEqual([0, 5]);
+        expect(boxes[1][4]).toBeCloseTo(40, 5);
+        // default precision of 0.001 nm
+        expectCoords(frames[0], a, 1);
+        expectCoords(frames[1], b, 1);
+        for (let i = 0; i < 200; ++i) {
+            expect(Math.abs(frames[1].x[i] - b.x[i])).toBeLessThanOrEqual(0.005 + 1e-5);
+        }
+    });
+
+    it('round-trip precision', async () => {
+        const encoder = XtcWriter.createEncoder();
+        const a = createFrame(50, 0);
+        encoder.writeFrame(0, 0, new Array(9).fill(0), a.x, a.y, a.z, 50, 100000);
+
+        const parsed = await parseXtc(encoder.getData()).run();
+        if (parsed.isError) throw new Error(parsed.message);
+        expectCoords(parsed.result.frames[0], a, 3);
+    });
+
+    it('round-trip uncompressed', async () => {
+        const encoder = XtcWriter.createEncoder();
+        const a = createFrame(4, 0);
+        encoder.writeFrame(0, 0, new Array(9).fill(0), a.x, a.y, a.z, 4);
+        encoder.writeFrame(1, 1, new Array(9).fill(0), a.x, a.y, a.z, 4);
+
+        const parsed = await parseXtc(encoder.getData()).run();
+        if (parsed.isError) throw new Error(parsed.message);
+        expect(parsed.result.frames.length).toBe(2);
+        expectCoords(parsed.result.frames[1], a, 5);
+    });
+
+    it('coordinates range', async () => {
+        const coordinates = createCoordinates(6, 30);
+        const data = await to_XTC(coordinates, { start: 2, end: 5, atomIndices: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 29] }).run();
+
+        const parsed = await parseXtc(data).run();
+        if (parsed.isError) throw new Error(parsed.message);
+
+        const { frames, boxes, times } = parsed.result;
+        expect(frames.length).toBe(3);
+        expect(times).toEqual([4, 6, 8]);
+        expect(boxes[0][8]).toBeCloseTo(60, 5);
+        expect(frames[2].x[11]).toBeCloseTo(coordinates.frames![4].x[29], 1);
+    });
+});
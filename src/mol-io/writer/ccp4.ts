@@ -0,0 +1,13 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Ccp4Encoder } from './ccp4/encoder';
+
+export namespace Ccp4Writer {
+    export function createEncoder() {
+        return new Ccp4Encoder();
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Ccp4Header } from '../../reader/ccp4/schema';
+import { Encoder } from '../encoder';
+import { Writer } from '../writer';
+
+// format description: https://www.ccpem.ac.uk/mrc_format/mrc2014.php
+
+const HeaderSize = 1024;
+const Label = 'Created by Mol*';
+
+/** Header fields describing the grid, the remaining fields are set by the encoder */
+export type Ccp4GridHeader = Pick<Ccp4Header, Ccp4GridHeaderField>
+
+type Ccp4GridHeaderField =
+    | 'NC' | 'NR' | 'NS' | 'NCSTART' | 'NRSTART' | 'NSSTART' | 'NX' | 'NY' | 'NZ'
+    | 'xLength' | 'yLength' | 'zLength' | 'alpha' | 'beta' | 'gamma'
+    | 'MAPC' | 'MAPR' | 'MAPS' | 'ISPG' | 'originX' | 'originY' | 'originZ'
+
+function getStats(values: ArrayLike<number>) {
+    const n = values.length;
+    let min = Number.MAX_VALUE, max = -Number.MAX_VALUE, sum = 0;
+    for (let i = 0; i < n; ++i) {
+        const v = values[i];
+        if (v < min) min = v;
+        if (v > max) max = v;
+        sum += v;
+    }
+    const mean = sum / n;
+    let sumSq = 0;
+    for (let i = 0; i < n; ++i) {
+        const d = values[i] - mean;
+        sumSq += d * d;
+    }
+    return { min, max, mean, rms: Math.sqrt(sumSq / n) };
+}
+
+/**
+ * Encoder for CCP4/MRC maps, written little endian in mode 2 (32-bit reals)
+ * with min, max, mean and rms deviation computed from the values.
+ */
+export class Ccp4Encoder implements Encoder {
+    private data: Uint8Array | undefined = void 0;
+
+    writeMap(header: Ccp4GridHeader, values: ArrayLike<number>) {
+        const count = header.NC * header.NR * header.NS;
+        if (values.length !== count) {
+            throw new Error(`Value count mismatch, got ${values.length} but expected ${count}.`);
+        }
+
+        const data = new Uint8Array(HeaderSize + count * 4);
+        const dv = new DataView(data.buffer);
+        const setInt = (i: number, v: number) => dv.setInt32(i * 4, v, true);
+        const setFloat = (i: number, v: number) => dv.setFloat32(i * 4, v, true);
+
+        setInt(0, header.NC);
+        setInt(1, header.NR);
+        setInt(2, header.NS);
+        setInt(3, 2); // MODE
+        setInt(4, header.NCSTART);
+        setInt(5, header.NRSTART);
+        setInt(6, header.NSSTART);
+        setInt(7, header.NX);
+        setInt(8, header.NY);
+        setInt(9, header.NZ);
+        setFloat(10, header.xLength);
+        setFloat(11, header.yLength);
+        setFloat(12, header.zLength);
+        setFloat(13, header.alpha);
+        setFloat(14, header.beta);
+        setFloat(15, header.gamma);
+        setInt(16, header.MAPC);
+        setInt(17, header.MAPR);
+        setInt(18, header.MAPS);
+
+        const stats = getStats(values);
+        setFloat(19, stats.min);
+        setFloat(20, stats.max);
+        setFloat(21, stats.mean);
+        setInt(22, header.ISPG);
+        setInt(23, 0); // NSYMBT
+
+        setFloat(49, header.originX);
+        setFloat(50, header.originY);
+        setFloat(51, header.originZ);
+
+        // MAP and MACHST for little endian
+        for (let i = 0; i < 4; ++i) data[52 * 4 + i] = 'MAP '.charCodeAt(i);
+        data[53 * 4] = 68;
+        data[53 * 4 + 1] = 65;
+
+        setFloat(54, stats.rms);
+        setInt(55, 1); // NLABL
+        for (let i = 0; i < Label.length; ++i) data[56 * 4 + i] = Label.charCodeAt(i);
+        for (let i = Label.length; i < 80; ++i) data[56 * 4 + i] = 32;
+
+        for (let i = 0; i < count; ++i) {
+            dv.setFloat32(HeaderSize + i * 4, values[i], true);
+        }
+
+        this.data = data;
+    }
+
+    getData() {
+        if (!this.data) throw new Error('No map written.');
+        return this.data;
+    }
+
+    encode() { }
+
+    writeTo(writer: Writer) {
+        writer.writeBinary(this.getData());
+    }
+
+    getSize() {
+        return this.data?.length ?? 0;
+    }
+}
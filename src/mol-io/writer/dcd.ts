@@ -0,0 +1,13 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { DcdEncoder, DcdHeaderParams } from './dcd/encoder';
+
+export namespace DcdWriter {
+    export function createEncoder(params?: DcdHeaderParams) {
+        return new DcdEncoder(params);
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Cell } from '../../../mol-math/geometry/spacegroup/cell';
+import { Encoder } from '../encoder';
+import { Writer } from '../writer';
+
+// format description: http://www.ks.uiuc.edu/Research/vmd/plugins/molfile/dcdplugin.html
+
+/** conversion factor between picoseconds and the AKMA time unit used by CHARMM */
+const charmmTimeUnitFactor = 20.45482949774598;
+const charmmVersion = 24;
+
+export interface DcdHeaderParams {
+    /** defaults to 'Created by Mol*' */
+    title?: string,
+    /** step of the first frame, defaults to 1 */
+    firstStep?: number,
+    /** number of steps between frames, defaults to 1 */
+    stepInterval?: number,
+    /** time between steps in picoseconds, defaults to 0 */
+    timeStep?: number
+}
+
+/**
+ * Encoder for the CHARMM/NAMD DCD format, written little endian without fixed atoms.
+ * Coordinates are in Angstrom. All or none of the frames must have a unit cell, it is
+ * stored as `[a, cos(gamma), b, cos(beta), cos(alpha), c]` like done by NAMD and VMD.
+ */
+export class DcdEncoder implements Encoder {
+    private chunks: Uint8Array[] = [];
+    private data: Uint8Array | undefined = void 0;
+    private frameCount = 0;
+    private atomCount = 0;
+    private hasCell = false;
+
+    writeFrame(x: ArrayLike<number>, y: ArrayLike<number>, z: ArrayLike<number>, count: number, cell?: Cell) {
+        if (this.frameCount > 0) {
+            if (count !== this.atomCount) {
+                throw new Error(`Frame atom count mismatch, got ${count} but expected ${this.atomCount}.`);
+            }
+            if (this.hasCell !== !!cell) {
+                throw new Error(`Frame unit cell ${cell ? 'not expected' : 'missing'}.`);
+            }
+        }
+        this.atomCount = count;
+        this.hasCell = !!cell;
+
+        const blockSize = count * 4;
+        const size = (cell ? 56 : 0) + 3 * (blockSize + 8);
+        const chunk = new Uint8Array(size);
+        const dv = new DataView(chunk.buffer);
+
+        let o = 0;
+        if (cell) {
+            const [a, b, c] = cell.size;
+            const [alpha, beta, gamma] = cell.anglesInRadians;
+            dv.setInt32(o, 48, true);
+            dv.setFloat64(o + 4, a, true);
+            dv.setFloat64(o + 12, Math.cos(gamma), true);
+            dv.setFloat64(o + 20, b, true);
+            dv.setFloat64(o + 28, Math.cos(beta), true);
+            dv.setFloat64(o + 36, Math.cos(alpha), true);
+            dv.setFloat64(o + 44, c, true);
+            dv.setInt32(o + 52, 48, true);
+            o += 56;
+        }
+
+        for (const xs of [x, y, z]) {
+            dv.setInt32(o, blockSize, true);
+            o += 4;
+            for (let i = 0; i < count; ++i) {
+                dv.setFloat32(o, xs[i], true);
+                o += 4;
+            }
+            dv.setInt32(o, blockSize, true);
+            o += 4;
+        }
+
+        this.chunks.push(chunk);
+        this.frameCount += 1;
+        this.data = void 0;
+    }
+
+    private getHeader() {
+        const { title = 'Created by Mol*', firstStep = 1, stepInterval = 1, timeStep = 0 } = this.header;
+
+        const titleLines: string[] = [];
+        for (const l of title.split(/\r?\n/)) {
+            for (let i = 0; i < Math.max(1, l.length); i += 80) titleLines.push(l.substring(i, i + 80));
+        }
+        const titleSize = 4 + titleLines.length * 80;
+
+        const header = new Uint8Array(92 + titleSize + 8 + 12);
+        const dv = new DataView(header.buffer);
+
+        dv.setInt32(0, 84, true);
+        for (let i = 0; i < 4; ++i) dv.setUint8(4 + i, 'CORD'.charCodeAt(i));
+        dv.setInt32(8, this.frameCount, true); // NSET
+        dv.setInt32(12, firstStep, true); // ISTART
+        dv.setInt32(16, stepInterval, true); // NSAVC
+        dv.setInt32(20, firstStep + (this.frameCount - 1) * stepInterval, true); // NSTEP
+        dv.setFloat32(44, timeStep / charmmTimeUnitFactor, true); // DELTA
+        dv.setInt32(48, this.hasCell ? 1 : 0, true);
+        dv.setInt32(84, charmmVersion, true);
+        dv.setInt32(88, 84, true);
+
+        let o = 92;
+        dv.setInt32(o, titleSize, true);
+        dv.setInt32(o + 4, titleLines.length, true);
+        o += 8;
+        for (const l of titleLines) {
+            for (let i = 0; i < 80; ++i) dv.setUint8(o + i, i < l.length ? l.charCodeAt(i) & 0xff : 32);
+            o += 80;
+        }
+        dv.setInt32(o, titleSize, true);
+        o += 4;
+
+        dv.setInt32(o, 4, true);
+        dv.setInt32(o + 4, this.atomCount, true);
+        dv.setInt32(o + 8, 4, true);
+
+        return header;
+    }
+
+    encode() {
+        if (this.data) return;
+
+        const header = this.getHeader();
+        let size = header.length;
+        for (const c of this.chunks) size += c.length;
+        const data = new Uint8Array(size);
+        data.set(header);
+        let offset = header.length;
+        for (const c of this.chunks) {
+            data.set(c, offset);
+            offset += c.length;
+        }
+        this.data = data;
+    }
+
+    writeTo(stream: Writer) {
+        stream.writeBinary(this.getHeader());
+        for (const c of this.chunks) stream.writeBinary(c);
+    }
+
+    getSize() {
+        let size = this.getHeader().length;
+        for (const c of this.chunks) size += c.length;
+        return size;
+    }
+
+    getData() {
+        this.encode();
+        return this.data!;
+    }
+
+    constructor(private header: DcdHeaderParams = {}) {
+
+    }
+}
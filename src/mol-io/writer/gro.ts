@@ -0,0 +1,13 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { GroEncoder } from './gro/encoder';
+
+export namespace GroWriter {
+    export function createEncoder() {
+        return new GroEncoder();
+    }
+}
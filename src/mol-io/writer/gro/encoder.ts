@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { StringBuilder } from '../../../mol-util';
+import { Encoder } from '../encoder';
+import { Writer } from '../writer';
+
+// specification: http://manual.gromacs.org/current/reference-manual/file-formats.html#gro
+
+export interface GroAtomRecord {
+    residueNumber: number,
+    residueName: string,
+    atomName: string,
+    atomNumber: number,
+    /** in nanometers */
+    x: number,
+    y: number,
+    z: number
+}
+
+/**
+ * Encoder for the GROMACS GRO format. Each frame is written as a title line,
+ * the atom count, the atoms and the box vector. Coordinates are in nanometers,
+ * residue and atom numbers wrap around after 99,999 as done by GROMACS.
+ */
+export class GroEncoder implements Encoder {
+    private builder = StringBuilder.create();
+
+    /**
+     * Title line with the time in ps, if given, and the number of atoms of the frame.
+     * Empty titles are replaced as readers skip blank lines.
+     */
+    writeHeader(title: string, atomCount: number, timeInPs?: number) {
+        StringBuilder.writeSafe(this.builder, title.replace(/[\r\n]/g, ' ').trim() || 'Generated by Mol*');
+        if (timeInPs !== void 0) StringBuilder.writeSafe(this.builder, `, t= ${timeInPs.toFixed(5)}`);
+        StringBuilder.newline(this.builder);
+        StringBuilder.writeIntegerPadLeft(this.builder, atomCount, 5);
+        StringBuilder.newline(this.builder);
+    }
+
+    writeAtom(atom: GroAtomRecord) {
+        const { builder } = this;
+        StringBuilder.writeIntegerPadLeft(builder, atom.residueNumber % 100000, 5);
+        StringBuilder.writePadRight(builder, atom.residueName.substring(0, 5), 5);
+        StringBuilder.writePadLeft(builder, atom.atomName.substring(0, 5), 5);
+        StringBuilder.writeIntegerPadLeft(builder, atom.atomNumber % 100000, 5);
+        StringBuilder.writePadLeft(builder, atom.x.toFixed(3), 8);
+        StringBuilder.writePadLeft(builder, atom.y.toFixed(3), 8);
+        StringBuilder.writePadLeft(builder, atom.z.toFixed(3), 8);
+        StringBuilder.newline(builder);
+    }
+
+    /** Box lengths of a rectangular box in nanometers */
+    writeBox(x: number, y: number, z: number) {
+        StringBuilder.writePadLeft(this.builder, x.toFixed(5), 10);
+        StringBuilder.writePadLeft(this.builder, y.toFixed(5), 10);
+        StringBuilder.writePadLeft(this.builder, z.toFixed(5), 10);
+        StringBuilder.newline(this.builder);
+    }
+
+    encode() { }
+
+    writeTo(stream: Writer) {
+        const chunks = StringBuilder.getChunks(this.builder);
+        for (let i = 0, _i = chunks.length; i < _i; i++) {
+            stream.writeString(chunks[i]);
+        }
+    }
+
+    getSize() {
+        return StringBuilder.getSize(this.builder);
+    }
+
+    getData() {
+        return StringBuilder.getString(this.builder);
+    }
+}
@@ -0,0 +1,252 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { StringBuilder } from '../../../mol-util';
+import { Encoder } from '../encoder';
+import { Writer } from '../writer';
+
+// specification: https://www.wwpdb.org/documentation/file-format-content/format33/v3.3.html
+
+export interface PdbAtomRecord {
+    hetero: boolean,
+    serial: number,
+    name: string,
+    altLoc: string,
+    resName: string,
+    chainId: string,
+    resSeq: number,
+    iCode: string,
+    x: number,
+    y: number,
+    z: number,
+    occupancy: number,
+    tempFactor: number,
+    element: string,
+    charge: number
+}
+
+export interface PdbResidueRecord {
+    resName: string,
+    chainId: string,
+    resSeq: number,
+    iCode: string
+}
+
+const Hybrid36Digits = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+function toBase36(value: number, width: number) {
+    let s = '';
+    for (let i = 0; i < width; ++i) {
+        s = Hybrid36Digits[value % 36] + s;
+        value = Math.floor(value / 36);
+    }
+    return s;
+}
+
+/**
+ * Encodes integers that do not fit into a fixed width decimal column using the
+ * hybrid-36 scheme, i.e., `99999` is followed by `A0000`, `A0001`, ..., `ZZZZZ`,
+ * `a0000`, ..., `zzzzz` for a width of 5.
+ */
+export function encodeHybrid36(value: number, width: number) {
+    const decimalLimit = Math.pow(10, width);
+    if (value < decimalLimit) {
+        const s = `${value}`;
+        if (s.length > width) throw new Error(`Value ${value} does not fit into ${width} columns.`);
+        return s;
+    }
+
+    const blockSize = 26 * Math.pow(36, width - 1);
+    let v = value - decimalLimit;
+    if (v < blockSize) {
+        return toBase36(v + 10 * Math.pow(36, width - 1), width);
+    }
+    v -= blockSize;
+    if (v < blockSize) {
+        return toBase36(v + 10 * Math.pow(36, width - 1), width).toLowerCase();
+    }
+    throw new Error(`Value ${value} does not fit into ${width} hybrid-36 columns.`);
+}
+
+/** Atom names starting in column 14 unless they take all four columns or have a two letter element */
+export function formatAtomName(name: string, element: string) {
+    if (name.length >= 4 || element.length === 2) return name.substring(0, 4);
+    return ` ${name}`;
+}
+
+function formatCharge(charge: number) {
+    if (!charge) return '';
+    return charge > 0 ? `${charge}+` : `${-charge}-`;
+}
+
+function writeStr(builder: StringBuilder, val: string, width: number) {
+    StringBuilder.writePadRight(builder, val.substring(0, width), width);
+}
+
+function writeStrRight(builder: StringBuilder, val: string, width: number) {
+    StringBuilder.writePadLeft(builder, val.substring(0, width), width);
+}
+
+function writeFixed(builder: StringBuilder, val: number, digits: number, width: number) {
+    StringBuilder.writePadLeft(builder, val.toFixed(digits), width);
+}
+
+/**
+ * Encoder for the legacy PDB format. Records are written in the order the
+ * `write*` methods are called, `encode` adds the final `END` record.
+ *
+ * Atom serial numbers above 99,999 and residue numbers above 9,999 are written
+ * using the hybrid-36 scheme (see `encodeHybrid36`). Chain ids are limited to a
+ * single character, longer ids are cut, see `encode_PDB` for how they are mapped.
+ */
+export class PdbEncoder implements Encoder {
+    protected builder = StringBuilder.create();
+    private encoded = false;
+
+    protected checkEncoded() {
+        if (this.encoded) {
+            throw new Error('The writer contents have already been encoded, no more writing.');
+        }
+    }
+
+    /** HEADER record with the id code in columns 63-66 */
+    writeHeader(idCode: string) {
+        this.checkEncoded();
+        StringBuilder.writeSafe(this.builder, 'HEADER');
+        StringBuilder.whitespace(this.builder, 56);
+        writeStr(this.builder, idCode.toUpperCase(), 4);
+        StringBuilder.newline(this.builder);
+    }
+
+    /** Unit cell with lengths in Angstrom and angles in degrees */
+    writeCryst1(a: number, b: number, c: number, alpha: number, beta: number, gamma: number, spacegroup: string, z?: number) {
+        this.checkEncoded();
+        StringBuilder.writeSafe(this.builder, 'CRYST1');
+        writeFixed(this.builder, a, 3, 9);
+        writeFixed(this.builder, b, 3, 9);
+        writeFixed(this.builder, c, 3, 9);
+        writeFixed(this.builder, alpha, 2, 7);
+        writeFixed(this.builder, beta, 2, 7);
+        writeFixed(this.builder, gamma, 2, 7);
+        StringBuilder.whitespace1(this.builder);
+        writeStr(this.builder, spacegroup, 11);
+        if (z !== void 0) StringBuilder.writeIntegerPadLeft(this.builder, z, 4);
+        StringBuilder.newline(this.builder);
+    }
+
+    /** SEQRES records with 13 residue names per line */
+    writeSeqres(chainId: string, resNames: ArrayLike<string>) {
+        this.checkEncoded();
+        const count = resNames.length;
+        for (let i = 0, serNum = 1; i < count; i += 13, ++serNum) {
+            StringBuilder.writeSafe(this.builder, 'SEQRES ');
+            StringBuilder.writeIntegerPadLeft(this.builder, serNum, 3);
+            StringBuilder.whitespace1(this.builder);
+            writeStr(this.builder, chainId, 1);
+            StringBuilder.whitespace1(this.builder);
+            StringBuilder.writeIntegerPadLeft(this.builder, count, 4);
+            StringBuilder.whitespace1(this.builder);
+            for (let j = i, jl = Math.min(i + 13, count); j < jl; ++j) {
+                StringBuilder.whitespace1(this.builder);
+                writeStrRight(this.builder, resNames[j], 3);
+            }
+            StringBuilder.newline(this.builder);
+        }
+    }
+
+    writeModel(serial: number) {
+        this.checkEncoded();
+        StringBuilder.writeSafe(this.builder, 'MODEL     ');
+        StringBuilder.writeIntegerPadLeft(this.builder, serial, 4);
+        StringBuilder.newline(this.builder);
+    }
+
+    writeEndmdl() {
+        this.checkEncoded();
+        StringBuilder.writeSafe(this.builder, 'ENDMDL\n');
+    }
+
+    /** Columns 1-30 of ATOM and HETATM records */
+    protected writeAtomId(atom: PdbAtomRecord) {
+        const { builder } = this;
+        StringBuilder.writeSafe(builder, atom.hetero ? 'HETATM' : 'ATOM  ');
+        writeStrRight(builder, encodeHybrid36(atom.serial, 5), 5);
+        StringBuilder.whitespace1(builder);
+        writeStr(builder, formatAtomName(atom.name, atom.element), 4);
+        writeStr(builder, atom.altLoc, 1);
+        // residue names with four characters extend into column 21
+        writeStr(builder, atom.resName.length > 3 ? atom.resName : atom.resName.padStart(3), 4);
+        writeStr(builder, atom.chainId, 1);
+        writeStrRight(builder, encodeHybrid36(atom.resSeq, 4), 4);
+        writeStr(builder, atom.iCode, 1);
+        StringBuilder.whitespace(builder, 3);
+    }
+
+    writeAtom(atom: PdbAtomRecord) {
+        this.checkEncoded();
+        const { builder } = this;
+        this.writeAtomId(atom);
+        writeFixed(builder, atom.x, 3, 8);
+        writeFixed(builder, atom.y, 3, 8);
+        writeFixed(builder, atom.z, 3, 8);
+        writeFixed(builder, atom.occupancy, 2, 6);
+        writeFixed(builder, atom.tempFactor, 2, 6);
+        StringBuilder.whitespace(builder, 10);
+        writeStrRight(builder, atom.element.toUpperCase(), 2);
+        writeStr(builder, formatCharge(atom.charge), 2);
+        StringBuilder.newline(builder);
+    }
+
+    /** Chain termination record, takes a serial number like an atom */
+    writeTer(serial: number, residue: PdbResidueRecord) {
+        this.checkEncoded();
+        const { builder } = this;
+        StringBuilder.writeSafe(builder, 'TER   ');
+        writeStrRight(builder, encodeHybrid36(serial, 5), 5);
+        StringBuilder.whitespace(builder, 6);
+        writeStr(builder, residue.resName.length > 3 ? residue.resName : residue.resName.padStart(3), 4);
+        writeStr(builder, residue.chainId, 1);
+        writeStrRight(builder, encodeHybrid36(residue.resSeq, 4), 4);
+        writeStr(builder, residue.iCode, 1);
+        StringBuilder.newline(builder);
+    }
+
+    /** CONECT records with at most four bonded atoms per line */
+    writeConect(serial: number, bonded: ArrayLike<number>) {
+        this.checkEncoded();
+        const { builder } = this;
+        for (let i = 0, il = bonded.length; i < il; i += 4) {
+            StringBuilder.writeSafe(builder, 'CONECT');
+            writeStrRight(builder, encodeHybrid36(serial, 5), 5);
+            for (let j = i, jl = Math.min(i + 4, il); j < jl; ++j) {
+                writeStrRight(builder, encodeHybrid36(bonded[j], 5), 5);
+            }
+            StringBuilder.newline(builder);
+        }
+    }
+
+    encode() {
+        if (this.encoded) return;
+        StringBuilder.writeSafe(this.builder, 'END\n');
+        this.encoded = true;
+    }
+
+    writeTo(stream: Writer) {
+        const chunks = StringBuilder.getChunks(this.builder);
+        for (let i = 0, _i = chunks.length; i < _i; i++) {
+            stream.writeString(chunks[i]);
+        }
+    }
+
+    getSize() {
+        return StringBuilder.getSize(this.builder);
+    }
+
+    getData() {
+        this.encode();
+        return StringBuilder.getString(this.builder);
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { StringBuilder } from '../../../mol-util';
+import { formatAtomName, PdbAtomRecord, PdbEncoder } from '../pdb/encoder';
+
+export interface PqrAtomRecord extends PdbAtomRecord {
+    partialCharge: number,
+    radius: number
+}
+
+/** Right aligned in `width` columns, longer values still get a space in front */
+function writeField(builder: StringBuilder, val: string, width: number) {
+    StringBuilder.whitespace1(builder);
+    StringBuilder.writePadLeft(builder, val, width - 1);
+}
+
+/**
+ * Encoder for the PQR format, i.e., PDB records where occupancy and temperature
+ * factor are replaced by the partial charge and radius of the atom. Readers
+ * split the fields by whitespace, so the PDB columns are kept where possible but
+ * every field is separated by a space. Alternate locations are not written.
+ */
+export class PqrEncoder extends PdbEncoder {
+    writeAtom(atom: PqrAtomRecord) {
+        this.checkEncoded();
+        const { builder } = this;
+        StringBuilder.writeSafe(builder, atom.hetero ? 'HETATM' : 'ATOM  ');
+        writeField(builder, `${atom.serial}`, 5);
+        StringBuilder.whitespace1(builder);
+        StringBuilder.writePadRight(builder, formatAtomName(atom.name, atom.element), 4);
+        StringBuilder.whitespace1(builder);
+        StringBuilder.writePadLeft(builder, atom.resName, 3);
+        StringBuilder.whitespace1(builder);
+        StringBuilder.writePadRight(builder, atom.chainId, 1);
+        writeField(builder, `${atom.resSeq}`, 4);
+        StringBuilder.writePadRight(builder, atom.iCode, 1);
+        StringBuilder.whitespace(builder, 3);
+        writeField(builder, atom.x.toFixed(3), 8);
+        writeField(builder, atom.y.toFixed(3), 8);
+        writeField(builder, atom.z.toFixed(3), 8);
+        writeField(builder, atom.partialCharge.toFixed(4), 8);
+        writeField(builder, atom.radius.toFixed(4), 7);
+        StringBuilder.newline(builder);
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { XtcEncoder } from './xtc/encoder';
+
+export namespace XtcWriter {
+    export function createEncoder() {
+        return new XtcEncoder();
+    }
+}
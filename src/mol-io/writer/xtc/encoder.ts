@@ -0,0 +1,400 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * Adapted from libxdrf.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { FirstIdx, MagicInts } from '../../reader/xtc/parser';
+import { Encoder } from '../encoder';
+import { Writer } from '../writer';
+
+// https://github.com/gromacs/gromacs/blob/master/src/gromacs/fileio/xtcio.cpp
+// https://github.com/gromacs/gromacs/blob/master/src/gromacs/fileio/libxdrf.cpp
+
+const XtcMagic = 1995;
+const LastIdx = MagicInts.length;
+const MaxAbs = 2147483647 - 2;
+
+namespace BitWriter {
+    /** [byteCount, lastBits, lastByte] */
+    export const state = new Int32Array(3);
+
+    export function reset() {
+        state[0] = state[1] = state[2] = 0;
+    }
+
+    export function sendBits(buf: Uint8Array, numOfBits: number, num: number) {
+        let cnt = state[0];
+        let lastBits = state[1];
+        let lastByte = state[2];
+        while (numOfBits >= 8) {
+            lastByte = (lastByte << 8) | ((num >> (numOfBits - 8)) & 0xff);
+            buf[cnt++] = lastByte >> lastBits;
+            numOfBits -= 8;
+        }
+        if (numOfBits > 0) {
+            lastByte = (lastByte << numOfBits) | num;
+            lastBits += numOfBits;
+            if (lastBits >= 8) {
+                lastBits -= 8;
+                buf[cnt++] = lastByte >> lastBits;
+            }
+        }
+        state[0] = cnt;
+        state[1] = lastBits;
+        state[2] = lastByte & 0xffff;
+        if (lastBits > 0) {
+            buf[cnt] = lastByte << (8 - lastBits);
+        }
+    }
+
+    const _bytes = new Uint8Array(32);
+
+    export function sendInts(buf: Uint8Array, numOfBits: number, sizes: ArrayLike<number>, nums: ArrayLike<number>, offset: number) {
+        let tmp = nums[offset];
+        let numOfBytes = 0;
+        do {
+            _bytes[numOfBytes++] = tmp & 0xff;
+            tmp = Math.floor(tmp / 256);
+        } while (tmp !== 0);
+
+        for (let i = 1; i < 3; i++) {
+            if (nums[offset + i] >= sizes[i]) {
+                throw new Error(`(xdrfile error) major breakdown in sendInts num ${nums[offset + i]} doesn't match size ${sizes[i]}`);
+            }
+            // use one step multiply
+            tmp = nums[offset + i];
+            let byteCnt = 0;
+            for (; byteCnt < numOfBytes; byteCnt++) {
+                tmp = _bytes[byteCnt] * sizes[i] + tmp;
+                _bytes[byteCnt] = tmp & 0xff;
+                tmp = Math.floor(tmp / 256);
+            }
+            while (tmp !== 0) {
+                _bytes[byteCnt++] = tmp & 0xff;
+                tmp = Math.floor(tmp / 256);
+            }
+            numOfBytes = byteCnt;
+        }
+
+        if (numOfBits >= numOfBytes * 8) {
+            for (let i = 0; i < numOfBytes; i++) {
+                sendBits(buf, 8, _bytes[i]);
+            }
+            sendBits(buf, numOfBits - numOfBytes * 8, 0);
+        } else {
+            for (let i = 0; i < numOfBytes - 1; i++) {
+                sendBits(buf, 8, _bytes[i]);
+            }
+            sendBits(buf, numOfBits - (numOfBytes - 1) * 8, _bytes[numOfBytes - 1]);
+        }
+    }
+
+    export function sizeOfInt(size: number) {
+        let num = 1;
+        let numOfBits = 0;
+        while (size >= num && numOfBits < 32) {
+            numOfBits++;
+            num *= 2;
+        }
+        return numOfBits;
+    }
+
+    export function sizeOfInts(sizes: ArrayLike<number>) {
+        let numOfBytes = 1;
+        let numOfBits = 0;
+        _bytes[0] = 1;
+        for (let i = 0; i < 3; i++) {
+            let tmp = 0;
+            let byteCnt = 0;
+            for (; byteCnt < numOfBytes; byteCnt++) {
+                tmp = _bytes[byteCnt] * sizes[i] + tmp;
+                _bytes[byteCnt] = tmp & 0xff;
+                tmp = Math.floor(tmp / 256);
+            }
+            while (tmp !== 0) {
+                _bytes[byteCnt++] = tmp & 0xff;
+                tmp = Math.floor(tmp / 256);
+            }
+            numOfBytes = byteCnt;
+        }
+        let num = 1;
+        numOfBytes--;
+        while (_bytes[numOfBytes] >= num) {
+            numOfBits++;
+            num *= 2;
+        }
+        return numOfBits + numOfBytes * 8;
+    }
+}
+
+function sqr(x: number) {
+    return x * x;
+}
+
+/**
+ * Writes the compressed coordinates of a frame as done by `xdr3dfcoord`,
+ * returns the number of bytes written to `out`.
+ */
+function compressCoords(out: DataView, offset: number, ints: Int32Array, count: number, precision: number) {
+    const minInt = [MaxAbs, MaxAbs, MaxAbs];
+    const maxInt = [-MaxAbs, -MaxAbs, -MaxAbs];
+    let minDiff = MaxAbs;
+    let oldLint1 = 0, oldLint2 = 0, oldLint3 = 0;
+
+    for (let i = 0; i < count; ++i) {
+        const lint1 = ints[i * 3], lint2 = ints[i * 3 + 1], lint3 = ints[i * 3 + 2];
+        if (lint1 < minInt[0]) minInt[0] = lint1;
+        if (lint1 > maxInt[0]) maxInt[0] = lint1;
+        if (lint2 < minInt[1]) minInt[1] = lint2;
+        if (lint2 > maxInt[1]) maxInt[1] = lint2;
+        if (lint3 < minInt[2]) minInt[2] = lint3;
+        if (lint3 > maxInt[2]) maxInt[2] = lint3;
+
+        const diff = Math.abs(oldLint1 - lint1) + Math.abs(oldLint2 - lint2) + Math.abs(oldLint3 - lint3);
+        if (diff < minDiff && i > 0) minDiff = diff;
+        oldLint1 = lint1;
+        oldLint2 = lint2;
+        oldLint3 = lint3;
+    }
+
+    const sizeInt = [0, 0, 0];
+    for (let d = 0; d < 3; ++d) {
+        if (maxInt[d] - minInt[d] >= MaxAbs) {
+            throw new Error('(xdrfile error) Internal overflow compressing coordinates.');
+        }
+        sizeInt[d] = maxInt[d] - minInt[d] + 1;
+    }
+
+    const bitSizeInt = [0, 0, 0];
+    let bitSize = 0;
+    // check if one of the sizes is too big to be multiplied
+    if ((sizeInt[0] | sizeInt[1] | sizeInt[2]) > 0xffffff) {
+        bitSizeInt[0] = BitWriter.sizeOfInt(sizeInt[0]);
+        bitSizeInt[1] = BitWriter.sizeOfInt(sizeInt[1]);
+        bitSizeInt[2] = BitWriter.sizeOfInt(sizeInt[2]);
+        bitSize = 0; // flag the use of large sizes
+    } else {
+        bitSize = BitWriter.sizeOfInts(sizeInt);
+    }
+
+    let smallIdx = FirstIdx;
+    while (smallIdx < LastIdx - 1 && MagicInts[smallIdx] < minDiff) smallIdx++;
+
+    const maxIdx = Math.min(LastIdx - 1, smallIdx + 8);
+    const minIdx = maxIdx - 8; // often this equal smallIdx
+    let smaller = (MagicInts[Math.max(FirstIdx, smallIdx - 1)] / 2) | 0;
+    let smallNum = (MagicInts[smallIdx] / 2) | 0;
+    const sizeSmall = [MagicInts[smallIdx], MagicInts[smallIdx], MagicInts[smallIdx]];
+    const larger = (MagicInts[maxIdx] / 2) | 0;
+
+    let o = offset;
+    out.setFloat32(o, precision);
+    for (let d = 0; d < 3; ++d) out.setInt32(o + 4 + d * 4, minInt[d]);
+    for (let d = 0; d < 3; ++d) out.setInt32(o + 16 + d * 4, maxInt[d]);
+    out.setInt32(o + 28, smallIdx);
+    o += 32;
+
+    // the bit stream follows its byte count
+    const buf = new Uint8Array(out.buffer, out.byteOffset + o + 4, out.byteLength - o - 4);
+    BitWriter.reset();
+
+    const prevCoord = [0, 0, 0];
+    const tmpCoord = new Int32Array(8 * 3);
+    let prevRun = -1;
+
+    let i = 0;
+    while (i < count) {
+        let isSmall = 0;
+        let isSmaller = 0;
+        let tc = i * 3;
+
+        if (smallIdx < maxIdx && i >= 1 &&
+            Math.abs(ints[tc] - prevCoord[0]) < larger &&
+            Math.abs(ints[tc + 1] - prevCoord[1]) < larger &&
+            Math.abs(ints[tc + 2] - prevCoord[2]) < larger) {
+            isSmaller = 1;
+        } else if (smallIdx > minIdx) {
+            isSmaller = -1;
+        }
+
+        if (i + 1 < count) {
+            if (Math.abs(ints[tc] - ints[tc + 3]) < smallNum &&
+                Math.abs(ints[tc + 1] - ints[tc + 4]) < smallNum &&
+                Math.abs(ints[tc + 2] - ints[tc + 5]) < smallNum) {
+                // interchange first with second atom for better compression of water molecules
+                for (let d = 0; d < 3; ++d) {
+                    const tmp = ints[tc + d];
+                    ints[tc + d] = ints[tc + 3 + d];
+                    ints[tc + 3 + d] = tmp;
+                }
+                isSmall = 1;
+            }
+        }
+
+        tmpCoord[0] = ints[tc] - minInt[0];
+        tmpCoord[1] = ints[tc + 1] - minInt[1];
+        tmpCoord[2] = ints[tc + 2] - minInt[2];
+        if (bitSize === 0) {
+            BitWriter.sendBits(buf, bitSizeInt[0], tmpCoord[0]);
+            BitWriter.sendBits(buf, bitSizeInt[1], tmpCoord[1]);
+            BitWriter.sendBits(buf, bitSizeInt[2], tmpCoord[2]);
+        } else {
+            BitWriter.sendInts(buf, bitSize, sizeInt, tmpCoord, 0);
+        }
+        prevCoord[0] = ints[tc];
+        prevCoord[1] = ints[tc + 1];
+        prevCoord[2] = ints[tc + 2];
+        tc += 3;
+        i++;
+
+        let run = 0;
+        if (isSmall === 0 && isSmaller === -1) isSmaller = 0;
+
+        while (isSmall && run < 8 * 3) {
+            if (isSmaller === -1 && (
+                sqr(ints[tc] - prevCoord[0]) +
+                sqr(ints[tc + 1] - prevCoord[1]) +
+                sqr(ints[tc + 2] - prevCoord[2]) >= smaller * smaller)) {
+                isSmaller = 0;
+            }
+
+            tmpCoord[run++] = ints[tc] - prevCoord[0] + smallNum;
+            tmpCoord[run++] = ints[tc + 1] - prevCoord[1] + smallNum;
+            tmpCoord[run++] = ints[tc + 2] - prevCoord[2] + smallNum;
+
+            prevCoord[0] = ints[tc];
+            prevCoord[1] = ints[tc + 1];
+            prevCoord[2] = ints[tc + 2];
+
+            i++;
+            tc += 3;
+            isSmall = 0;
+            if (i < count &&
+                Math.abs(ints[tc] - prevCoord[0]) < smallNum &&
+                Math.abs(ints[tc + 1] - prevCoord[1]) < smallNum &&
+                Math.abs(ints[tc + 2] - prevCoord[2]) < smallNum) {
+                isSmall = 1;
+            }
+        }
+
+        if (run !== prevRun || isSmaller !== 0) {
+            prevRun = run;
+            BitWriter.sendBits(buf, 1, 1); // flag the change in run-length
+            BitWriter.sendBits(buf, 5, run + isSmaller + 1);
+        } else {
+            BitWriter.sendBits(buf, 1, 0); // flag the fact that runlength did not change
+        }
+        for (let k = 0; k < run; k += 3) {
+            BitWriter.sendInts(buf, smallIdx, sizeSmall, tmpCoord, k);
+        }
+
+        if (isSmaller !== 0) {
+            smallIdx += isSmaller;
+            if (isSmaller < 0) {
+                smallNum = smaller;
+                smaller = smallIdx > FirstIdx ? (MagicInts[smallIdx - 1] / 2) | 0 : 0;
+            } else {
+                smaller = smallNum;
+                smallNum = (MagicInts[smallIdx] / 2) | 0;
+            }
+            sizeSmall[0] = sizeSmall[1] = sizeSmall[2] = MagicInts[smallIdx];
+        }
+    }
+
+    const byteCount = BitWriter.state[1] !== 0 ? BitWriter.state[0] + 1 : BitWriter.state[0];
+    out.setInt32(o, byteCount);
+    o += 4 + Math.ceil(byteCount / 4) * 4;
+
+    return o - offset;
+}
+
+/**
+ * Encoder for the GROMACS XTC format. Coordinates are given in Angstrom and
+ * stored lossy compressed in nanometers with the given precision, frames with
+ * up to nine atoms are stored uncompressed.
+ */
+export class XtcEncoder implements Encoder {
+    private chunks: Uint8Array[] = [];
+    private data: Uint8Array | undefined = void 0;
+
+    /**
+     * @param box basis vectors of the box in Angstrom as `[x0, x1, x2, y0, y1, y2, z0, z1, z2]`
+     * @param precision inverse of the precision in nanometers, `1000` keeps three decimals
+     */
+    writeFrame(step: number, timeInPs: number, box: ArrayLike<number>, x: ArrayLike<number>, y: ArrayLike<number>, z: ArrayLike<number>, count: number, precision = 1000) {
+        if (precision <= 0) throw new Error('precision must be positive');
+
+        const isCompressed = count > 9;
+        // the bit stream takes at most 1.2 times the bytes of the uncompressed ints, as assumed by libxdrf
+        const size = 56 + (isCompressed ? 36 + Math.ceil(count * 3 * 4 * 1.2) + 4 : count * 12);
+        const chunk = new Uint8Array(size);
+        const dv = new DataView(chunk.buffer);
+
+        dv.setInt32(0, XtcMagic);
+        dv.setInt32(4, count);
+        dv.setInt32(8, step);
+        dv.setFloat32(12, timeInPs);
+        for (let i = 0; i < 9; ++i) dv.setFloat32(16 + i * 4, box[i] / 10);
+        dv.setInt32(52, count);
+
+        if (!isCompressed) {
+            for (let i = 0; i < count; ++i) {
+                dv.setFloat32(56 + i * 12, x[i] / 10);
+                dv.setFloat32(56 + i * 12 + 4, y[i] / 10);
+                dv.setFloat32(56 + i * 12 + 8, z[i] / 10);
+            }
+            this.chunks.push(chunk);
+        } else {
+            const ints = new Int32Array(count * 3);
+            const f = precision / 10;
+            for (let i = 0; i < count; ++i) {
+                ints[i * 3] = toInt(x[i] * f);
+                ints[i * 3 + 1] = toInt(y[i] * f);
+                ints[i * 3 + 2] = toInt(z[i] * f);
+            }
+            const byteCount = compressCoords(dv, 56, ints, count, precision);
+            this.chunks.push(chunk.subarray(0, 56 + byteCount));
+        }
+        this.data = void 0;
+    }
+
+    encode() {
+        if (this.data) return;
+
+        let size = 0;
+        for (const c of this.chunks) size += c.length;
+        const data = new Uint8Array(size);
+        let offset = 0;
+        for (const c of this.chunks) {
+            data.set(c, offset);
+            offset += c.length;
+        }
+        this.data = data;
+    }
+
+    writeTo(stream: Writer) {
+        for (const c of this.chunks) stream.writeBinary(c);
+    }
+
+    getSize() {
+        let size = 0;
+        for (const c of this.chunks) size += c.length;
+        return size;
+    }
+
+    getData() {
+        this.encode();
+        return this.data!;
+    }
+}
+
+function toInt(v: number) {
+    const lf = v >= 0 ? v + 0.5 : v - 0.5;
+    if (Math.abs(lf) > MaxAbs) {
+        throw new Error('(xdrfile error) Internal overflow compressing coordinates.');
+    }
+    return lf | 0;
+}
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { StringBuilder } from '../../../mol-util';
+import { Encoder } from '../encoder';
+import { Writer } from '../writer';
+
+/**
+ * Encoder for the XYZ format. Each frame is written as the atom count,
+ * a comment line and one line per atom with element symbol and coordinates
+ * in Angstrom.
+ */
+export class XyzEncoder implements Encoder {
+    private builder = StringBuilder.create();
+
+    writeHeader(atomCount: number, comment: string) {
+        StringBuilder.writeInteger(this.builder, atomCount);
+        StringBuilder.newline(this.builder);
+        StringBuilder.writeSafe(this.builder, comment.replace(/[\r\n]/g, ' '));
+        StringBuilder.newline(this.builder);
+    }
+
+    writeAtom(element: string, x: number, y: number, z: number) {
+        const { builder } = this;
+        StringBuilder.writePadRight(builder, element, 3);
+        StringBuilder.writePadLeft(builder, x.toFixed(5), 12);
+        StringBuilder.writePadLeft(builder, y.toFixed(5), 12);
+        StringBuilder.writePadLeft(builder, z.toFixed(5), 12);
+        StringBuilder.newline(builder);
+    }
+
+    encode() { }
+
+    writeTo(stream: Writer) {
+        const chunks = StringBuilder.getChunks(this.builder);
+        for (let i = 0, _i = chunks.length; i < _i; i++) {
+            stream.writeString(chunks[i]);
+        }
+    }
+
+    getSize() {
+        return StringBuilder.getSize(this.builder);
+    }
+
+    getData() {
+        return StringBuilder.getString(this.builder);
+    }
+}
@@ -41,4 +41,18 @@ namespace Cell {
             return create(Vec3.create(a, b, c), Vec3.create(alpha, beta, gamma));
         }
     }
+
+    /** Basis vectors with `x` along the x-axis and `y` in the xy-plane, inverse of `fromBasis` */
+    export function getBasis(cell: Cell, x: Vec3, y: Vec3, z: Vec3) {
+        const [a, b, c] = cell.size;
+        const [alpha, beta, gamma] = cell.anglesInRadians;
+
+        const cosAlpha = Math.cos(alpha), cosBeta = Math.cos(beta);
+        const cosGamma = Math.cos(gamma), sinGamma = Math.sin(gamma);
+        const cy = sinGamma === 0 ? 0 : (cosAlpha - cosBeta * cosGamma) / sinGamma;
+
+        Vec3.set(x, a, 0, 0);
+        Vec3.set(y, b * cosGamma, b * sinGamma, 0);
+        Vec3.set(z, c * cosBeta, c * cy, c * Math.sqrt(Math.max(0, 1 - cosBeta * cosBeta - cy * cy)));
+    }
 }
\ No newline at end of file
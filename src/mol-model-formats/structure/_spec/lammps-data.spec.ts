@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { parseLammpsData } from '../../../mol-io/reader/lammps/data/parser';
+import { topologyFromLammpsData } from '../lammps-data';
+
+function getDataString(bonds: string[]) {
+    return `LAMMPS data file
+
+3 atoms
+${bonds.length} bonds
+2 atom types
+1 bond types
+
+0 10 xlo xhi
+0 10 ylo yhi
+0 10 zlo zhi
+
+Atoms # full
+
+3 1 2 0.4238 0.2 1.6 1.0
+1 1 1 -0.8476 1.0 1.0 1.0
+2 1 2 0.4238 1.8 1.6 1.0
+
+Bonds
+
+${bonds.join('\n')}
+`;
+}
+
+async function getTopology(bonds: string[]) {
+    const parsed = await parseLammpsData(getDataString(bonds)).run();
+    if (parsed.isError) throw new Error(parsed.message);
+    return topologyFromLammpsData(parsed.result).run();
+}
+
+describe('lammps-data', () => {
+    it('bonds', async () => {
+        const { bonds } = await getTopology(['1 1 1 2', '2 1 1 3']);
+        expect(bonds.indexA.toArray()).toEqual(new Int32Array([0, 0]));
+        expect(bonds.indexB.toArray()).toEqual(new Int32Array([1, 2]));
+    });
+
+    it('bond to missing atom', async () => {
+        await expect(getTopology(['1 1 1 2', '2 1 1 9'])).rejects.toThrow(`Bond '2 1 1 9' refers to atom 9`);
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Column, Table } from '../../mol-data/db';
+import { LammpsDataFile } from '../../mol-io/reader/lammps/data/parser';
+import { MoleculeType } from '../../mol-model/structure/model/types';
+import { Topology } from '../../mol-model/structure/topology/topology';
+import { Task } from '../../mol-task';
+import { ModelFormat } from '../format';
+import { BasicSchema, createBasic } from './basic/schema';
+import { ComponentBuilder } from './common/component';
+import { EntityBuilder } from './common/entity';
+import { getChainId } from './common/util';
+
+/** Standard atomic weights of elements common in simulations */
+const ElementMasses: [string, number][] = [
+    ['H', 1.008], ['He', 4.003], ['Li', 6.94], ['B', 10.81], ['C', 12.011], ['N', 14.007],
+    ['O', 15.999], ['F', 18.998], ['Ne', 20.180], ['Na', 22.990], ['Mg', 24.305], ['Al', 26.982],
+    ['Si', 28.085], ['P', 30.974], ['S', 32.06], ['Cl', 35.45], ['Ar', 39.948], ['K', 39.098],
+    ['Ca', 40.078], ['Fe', 55.845], ['Cu', 63.546], ['Zn', 65.38], ['Br', 79.904], ['Ag', 107.87],
+    ['I', 126.90], ['Au', 196.97],
+];
+
+function findElementSymbol(mass: number, tolerance: number) {
+    for (const [symbol, elementMass] of ElementMasses) {
+        if (Math.abs(mass - elementMass) < tolerance) return symbol;
+    }
+}
+
+/** Guess the element from the mass, united atoms like CH2 are assigned to their heavy atom */
+function guessElementSymbol(mass: number) {
+    for (let hydrogens = 0; hydrogens <= 3; ++hydrogens) {
+        const symbol = findElementSymbol(mass - hydrogens * 1.008, 0.01);
+        if (symbol) return symbol;
+    }
+    return findElementSymbol(mass, 0.5) ?? 'X';
+}
+
+/** Indices of the atoms sorted by atom-id, coordinates are expected in this order */
+export function getLammpsSortedIndices(atomId: ArrayLike<number>) {
+    const indices = new Int32Array(atomId.length);
+    for (let i = 0, il = atomId.length; i < il; ++i) indices[i] = i;
+    return indices.sort((a, b) => atomId[a] - atomId[b]);
+}
+
+function getBasic(data: LammpsDataFile, sortedIndices: ArrayLike<number>) {
+    const { atoms, masses } = data;
+    const count = atoms.count;
+
+    const typeMass = new Map<number, number>();
+    for (let i = 0; i < masses.count; ++i) {
+        typeMass.set(masses.atomType.value(i), masses.mass.value(i));
+    }
+    const typeSymbol = new Map<number, string>();
+    typeMass.forEach((mass, type) => typeSymbol.set(type, guessElementSymbol(mass)));
+
+    const ids = new Int32Array(count);
+    const asymIds = new Array<string>(count);
+    const atomNames = new Array<string>(count);
+    const typeSymbols = new Array<string>(count);
+    const moleculeIds = new Int32Array(count);
+    const x = new Float32Array(count);
+    const y = new Float32Array(count);
+    const z = new Float32Array(count);
+
+    const entityBuilder = new EntityBuilder();
+    entityBuilder.setNames([['MOL', 'Unknown Entity']]);
+
+    let currentAsymIndex = -1;
+    let currentAsymId = '';
+    let prevMoleculeId = -1;
+
+    for (let i = 0; i < count; ++i) {
+        const k = sortedIndices[i];
+        const moleculeId = atoms.moleculeId.value(k);
+        if (moleculeId !== prevMoleculeId) {
+            currentAsymIndex += 1;
+            currentAsymId = getChainId(currentAsymIndex);
+            entityBuilder.getEntityId('MOL', MoleculeType.Unknown, currentAsymId);
+            prevMoleculeId = moleculeId;
+        }
+
+        const atomType = atoms.atomType.value(k);
+        ids[i] = atoms.atomId.value(k);
+        asymIds[i] = currentAsymId;
+        atomNames[i] = `${atomType}`;
+        typeSymbols[i] = typeSymbol.get(atomType) ?? 'X';
+        moleculeIds[i] = moleculeId;
+        x[i] = atoms.x.value(k);
+        y[i] = atoms.y.value(k);
+        z[i] = atoms.z.value(k);
+    }
+
+    const MOL = Column.ofConst('MOL', count, Column.Schema.str);
+    const seqId = Column.ofConst(1, count, Column.Schema.int);
+    const atomName = Column.ofStringArray(atomNames);
+    const asymId = Column.ofStringArray(asymIds);
+
+    const componentBuilder = new ComponentBuilder(seqId, atomName);
+    componentBuilder.setNames([['MOL', 'Unknown Molecule']]);
+    componentBuilder.add('MOL', 0);
+
+    const atom_site = Table.ofPartialColumns(BasicSchema.atom_site, {
+        auth_asym_id: asymId,
+        auth_atom_id: atomName,
+        auth_comp_id: MOL,
+        auth_seq_id: Column.ofIntArray(moleculeIds),
+        Cartn_x: Column.ofFloatArray(x),
+        Cartn_y: Column.ofFloatArray(y),
+        Cartn_z: Column.ofFloatArray(z),
+        id: Column.ofIntArray(ids),
+
+        label_asym_id: asymId,
+        label_atom_id: atomName,
+        label_comp_id: MOL,
+        label_seq_id: seqId,
+        label_entity_id: Column.ofConst('1', count, Column.Schema.str),
+
+        occupancy: Column.ofConst(1, count, Column.Schema.float),
+        type_symbol: Column.ofStringArray(typeSymbols),
+
+        pdbx_PDB_model_num: Column.ofConst(1, count, Column.Schema.int),
+    }, count);
+
+    return createBasic({
+        entity: entityBuilder.getEntityTable(),
+        chem_comp: componentBuilder.getChemCompTable(),
+        atom_site
+    });
+}
+
+//
+
+export { LammpsDataFormat };
+
+type LammpsDataFormat = ModelFormat<LammpsDataFile>
+
+namespace LammpsDataFormat {
+    export function is(x?: ModelFormat): x is LammpsDataFormat {
+        return x?.kind === 'lammps-data';
+    }
+
+    export function fromLammpsData(data: LammpsDataFile): LammpsDataFormat {
+        return { kind: 'lammps-data', name: data.title, data };
+    }
+}
+
+export function topologyFromLammpsData(data: LammpsDataFile): Task<Topology> {
+    return Task.create('Parse LAMMPS Data', async ctx => {
+        const format = LammpsDataFormat.fromLammpsData(data);
+        const sortedIndices = getLammpsSortedIndices(data.atoms.atomId.toArray());
+        const basic = getBasic(data, sortedIndices);
+
+        const atomIndex = new Map<number, number>();
+        for (let i = 0, il = sortedIndices.length; i < il; ++i) {
+            atomIndex.set(data.atoms.atomId.value(sortedIndices[i]), i);
+        }
+
+        const { count, bondId, bondType, atomIdA, atomIdB } = data.bonds;
+        const indexA = new Int32Array(count);
+        const indexB = new Int32Array(count);
+        for (let i = 0; i < count; ++i) {
+            const a = atomIndex.get(atomIdA.value(i));
+            const b = atomIndex.get(atomIdB.value(i));
+            if (a === undefined || b === undefined) {
+                const missing = a === undefined ? atomIdA.value(i) : atomIdB.value(i);
+                const line = `${bondId.value(i)} ${bondType.value(i)} ${atomIdA.value(i)} ${atomIdB.value(i)}`;
+                throw new Error(`Bond '${line}' refers to atom ${missing}, which is missing from the Atoms section.`);
+            }
+            indexA[i] = a;
+            indexB[i] = b;
+        }
+
+        const bonds = {
+            indexA: Column.ofIntArray(indexA),
+            indexB: Column.ofIntArray(indexB),
+            order: Column.ofConst(1, count, Column.Schema.int)
+        };
+
+        return Topology.create(data.title, basic, bonds, format);
+    });
+}
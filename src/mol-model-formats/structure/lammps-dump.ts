@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Task } from '../../mol-task';
+import { LammpsDumpFile } from '../../mol-io/reader/lammps/dump/parser';
+import { Coordinates, Frame, Time } from '../../mol-model/structure/coordinates';
+import { Cell } from '../../mol-math/geometry/spacegroup/cell';
+import { Vec3 } from '../../mol-math/linear-algebra';
+import { getLammpsSortedIndices } from './lammps-data';
+
+/** Coordinates from a LAMMPS dump file, atoms are ordered by atom-id to match the topology */
+export function coordinatesFromLammpsDump(file: LammpsDumpFile): Task<Coordinates> {
+    return Task.create('Parse LAMMPS Dump', async ctx => {
+        await ctx.update('Converting to coordinates');
+
+        const frames: Frame[] = [];
+        for (const f of file.frames) {
+            const sortedIndices = getLammpsSortedIndices(f.atomId);
+            const x = new Float32Array(f.count);
+            const y = new Float32Array(f.count);
+            const z = new Float32Array(f.count);
+            for (let i = 0; i < f.count; ++i) {
+                const k = sortedIndices[i];
+                x[i] = f.x[k];
+                y[i] = f.y[k];
+                z[i] = f.z[k];
+            }
+
+            const [lx, ly, lz] = f.box.length;
+            const [xy, xz, yz] = f.box.tilt;
+            frames.push({
+                elementCount: f.count,
+                time: Time(f.timestep, 'step'),
+                x, y, z,
+                cell: Cell.fromBasis(Vec3.create(lx, 0, 0), Vec3.create(xy, ly, 0), Vec3.create(xz, yz, lz)),
+                xyzOrdering: { isIdentity: true }
+            });
+        }
+
+        const offset = frames[0].time.value;
+        const delta = frames.length > 1 ? frames[1].time.value - offset : 1;
+        return Coordinates.create(frames, Time(delta, 'step'), Time(offset, 'step'));
+    });
+}
@@ -0,0 +1,153 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Column, Table } from '../../mol-data/db';
+import { PqrAtoms, PqrFile } from '../../mol-io/reader/pqr/parser';
+import { Model } from '../../mol-model/structure/model';
+import { Trajectory } from '../../mol-model/structure';
+import { ArrayTrajectory } from '../../mol-model/structure/trajectory';
+import { getMoleculeType, MoleculeType } from '../../mol-model/structure/model/types';
+import { Task } from '../../mol-task';
+import { ModelFormat } from '../format';
+import { createModels } from './basic/parser';
+import { BasicData, BasicSchema, createBasic } from './basic/schema';
+import { ComponentBuilder } from './common/component';
+import { EntityBuilder } from './common/entity';
+import { getChainId } from './common/util';
+import { AtomPartialCharge } from './property/partial-charge';
+import { guessElementSymbolString } from './util';
+
+function getBasic(atoms: PqrAtoms, modelNum: number): BasicData {
+    const { count } = atoms;
+
+    const entityIds = new Array<string>(count);
+    const asymIds = new Array<string>(count);
+    const authAsymIds = new Array<string>(count);
+    const seqIds = new Uint32Array(count);
+    const typeSymbol = new Array<string>(count);
+    const groupPdb = new Array<string>(count);
+
+    const entityBuilder = new EntityBuilder();
+    const componentBuilder = new ComponentBuilder(atoms.residueNumber, atoms.atomName);
+
+    let currentEntityId = '';
+    let currentAsymIndex = 0;
+    let currentAsymId = '';
+    let currentSeqId = 0;
+    let prevChainId = '';
+    let prevMoleculeType = MoleculeType.Unknown;
+    let prevResidueNumber = -1;
+    let prevInsertionCode = '';
+
+    for (let i = 0; i < count; ++i) {
+        const chainId = atoms.chainId.value(i);
+        const residueNumber = atoms.residueNumber.value(i);
+        const insertionCode = atoms.insertionCode.value(i);
+        if (i === 0 || residueNumber !== prevResidueNumber || insertionCode !== prevInsertionCode || chainId !== prevChainId) {
+            const compId = atoms.residueName.value(i);
+            const moleculeType = getMoleculeType(componentBuilder.add(compId, i).type, compId);
+
+            // a new chain starts with a new chain id, without chain ids like for GRO
+            if (i === 0 || chainId !== prevChainId || moleculeType !== prevMoleculeType || (!chainId && residueNumber !== prevResidueNumber + 1)) {
+                currentAsymId = getChainId(currentAsymIndex);
+                currentAsymIndex += 1;
+                currentSeqId = 0;
+            }
+
+            currentEntityId = entityBuilder.getEntityId(compId, moleculeType, currentAsymId);
+            currentSeqId += 1;
+
+            prevChainId = chainId;
+            prevResidueNumber = residueNumber;
+            prevInsertionCode = insertionCode;
+            prevMoleculeType = moleculeType;
+        }
+
+        entityIds[i] = currentEntityId;
+        asymIds[i] = currentAsymId;
+        authAsymIds[i] = chainId || currentAsymId;
+        seqIds[i] = currentSeqId;
+        groupPdb[i] = atoms.isHetero.value(i) ? 'HETATM' : 'ATOM';
+        typeSymbol[i] = guessElementSymbolString(atoms.atomName.value(i), atoms.residueName.value(i));
+    }
+
+    const label_asym_id = Column.ofStringArray(asymIds);
+
+    const atom_site = Table.ofPartialColumns(BasicSchema.atom_site, {
+        group_PDB: Column.ofStringArray(groupPdb) as Column<'ATOM' | 'HETATM'>,
+        auth_asym_id: Column.ofStringArray(authAsymIds),
+        auth_atom_id: atoms.atomName,
+        auth_comp_id: atoms.residueName,
+        auth_seq_id: atoms.residueNumber,
+        Cartn_x: atoms.x,
+        Cartn_y: atoms.y,
+        Cartn_z: atoms.z,
+        id: atoms.serial,
+
+        label_asym_id,
+        label_atom_id: atoms.atomName,
+        label_comp_id: atoms.residueName,
+        label_seq_id: Column.ofIntArray(seqIds),
+        label_entity_id: Column.ofStringArray(entityIds),
+
+        occupancy: Column.ofConst(1, count, Column.Schema.float),
+        type_symbol: Column.ofStringArray(typeSymbol),
+
+        pdbx_PDB_ins_code: atoms.insertionCode,
+        pdbx_PDB_model_num: Column.ofConst(modelNum, count, Column.Schema.int),
+    }, count);
+
+    return createBasic({
+        entity: entityBuilder.getEntityTable(),
+        chem_comp: componentBuilder.getChemCompTable(),
+        atom_site
+    });
+}
+
+//
+
+export { PqrFormat };
+
+type PqrFormat = ModelFormat<PqrFile>
+
+namespace PqrFormat {
+    export function is(x?: ModelFormat): x is PqrFormat {
+        return x?.kind === 'pqr';
+    }
+
+    export function fromPqr(pqr: PqrFile): PqrFormat {
+        return { kind: 'pqr', name: pqr.id || '', data: pqr };
+    }
+
+    /** Radius of the given source atom of the model as given in the PQR file */
+    export function getRadius(model: Model, sourceIndex: number): number | undefined {
+        if (!is(model.sourceData)) return;
+        const atoms = model.sourceData.data.models[model.modelNum - 1];
+        return atoms?.radius.value(sourceIndex);
+    }
+}
+
+export function trajectoryFromPQR(pqr: PqrFile): Task<Trajectory> {
+    return Task.create('Parse PQR', async ctx => {
+        const format = PqrFormat.fromPqr(pqr);
+        const models: Model[] = [];
+        for (let i = 0, il = pqr.models.length; i < il; ++i) {
+            const atoms = pqr.models[i];
+            const basic = getBasic(atoms, i + 1);
+            const m = await createModels(basic, format, ctx);
+            if (m.frameCount !== 1) continue;
+
+            const model = m.representative;
+            const srcIndex = model.atomicHierarchy.atomSourceIndex;
+            const partialCharge = Column.isIdentity(srcIndex)
+                ? atoms.charge
+                : Column.ofFloatArray(Column.mapToArray(srcIndex, j => atoms.charge.value(j), Float32Array));
+            AtomPartialCharge.Provider.set(model, { data: partialCharge, type: 'PQR' });
+            models.push(model);
+        }
+        return new ArrayTrajectory(models);
+    });
+}
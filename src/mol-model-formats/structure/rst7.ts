@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Task } from '../../mol-task';
+import { Rst7File } from '../../mol-io/reader/rst7/parser';
+import { Coordinates, Frame, Time } from '../../mol-model/structure/coordinates';
+import { Cell } from '../../mol-math/geometry/spacegroup/cell';
+import { Vec3 } from '../../mol-math/linear-algebra';
+import { degToRad } from '../../mol-math/misc';
+import { Mutable } from '../../mol-util/type-helpers';
+
+/** Coordinates with a single frame from an AMBER ASCII or NetCDF restart file */
+export function coordinatesFromRst7(file: Rst7File): Task<Coordinates> {
+    return Task.create('Parse RST7', async ctx => {
+        await ctx.update('Converting to coordinates');
+
+        const time = Time(file.time ?? 0, 'ps');
+        const frame: Mutable<Frame> = {
+            elementCount: file.atomCount,
+            time,
+            x: file.x,
+            y: file.y,
+            z: file.z,
+            xyzOrdering: { isIdentity: true }
+        };
+
+        if (file.velocities) {
+            frame.velocities = file.velocities;
+        }
+
+        if (file.box) {
+            const [a, b, c] = file.box.lengths;
+            const [alpha, beta, gamma] = file.box.angles;
+            frame.cell = Cell.create(
+                Vec3.create(a, b, c),
+                Vec3.create(degToRad(alpha), degToRad(beta), degToRad(gamma))
+            );
+        }
+
+        return Coordinates.create([frame], Time(0, 'ps'), time);
+    });
+}
@@ -1,16 +1,32 @@
 /**
- * Copyright (c) 2020 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ * Copyright (c) 2020-2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
  *
  * @author David Sehnal <david.sehnal@gmail.com>
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
 
 import { Task } from '../../mol-task';
-import { XtcFile } from '../../mol-io/reader/xtc/parser';
+import { readXtcFrameFromFile, XtcFile, XtcFrame, XtcFrameIndex } from '../../mol-io/reader/xtc/parser';
+import { FileHandle } from '../../mol-io/common/file-handle';
 import { Coordinates, Frame, Time } from '../../mol-model/structure/coordinates';
 import { Cell } from '../../mol-math/geometry/spacegroup/cell';
 import { Vec3 } from '../../mol-math/linear-algebra';
 
+function getFrame(coords: XtcFrame, box: number[], time: Time): Frame {
+    const x = Vec3.fromArray(Vec3(), box, 0);
+    const y = Vec3.fromArray(Vec3(), box, 3);
+    const z = Vec3.fromArray(Vec3(), box, 6);
+    return {
+        elementCount: coords.count,
+        cell: Cell.fromBasis(x, y, z),
+        x: coords.x,
+        y: coords.y,
+        z: coords.z,
+        xyzOrdering: { isIdentity: true },
+        time
+    };
+}
+
 export function coordinatesFromXtc(file: XtcFile): Task<Coordinates> {
     return Task.create('Parse XTC', async ctx => {
         await ctx.update('Converting to coordinates');
@@ -20,21 +36,28 @@ export function coordinatesFromXtc(file: XtcFile): Task<Coordinates> {
 
         const frames: Frame[] = [];
         for (let i = 0, il = file.frames.length; i < il; ++i) {
-            const box = file.boxes[i];
-            const x = Vec3.fromArray(Vec3(), box, 0);
-            const y = Vec3.fromArray(Vec3(), box, 3);
-            const z = Vec3.fromArray(Vec3(), box, 6);
-            frames.push({
-                elementCount: file.frames[i].count,
-                cell: Cell.fromBasis(x, y, z),
-                x: file.frames[i].x,
-                y: file.frames[i].y,
-                z: file.frames[i].z,
-                xyzOrdering: { isIdentity: true },
-                time: Time(offsetTime.value + deltaTime.value * i, deltaTime.unit)
-            });
+            const time = Time(offsetTime.value + deltaTime.value * i, deltaTime.unit);
+            frames.push(getFrame(file.frames[i], file.boxes[i], time));
         }
 
         return Coordinates.create(frames, deltaTime, offsetTime);
     });
 }
+
+/** Coordinates with frames read from the file and decoded on demand */
+export function lazyCoordinatesFromXtc(file: FileHandle, index: XtcFrameIndex): Task<Coordinates> {
+    return Task.create('Parse XTC', async ctx => {
+        await ctx.update('Converting to coordinates');
+
+        const deltaTime = Time(index.deltaTime, 'step');
+        const offsetTime = Time(index.timeOffset, deltaTime.unit);
+
+        return Coordinates.createLazy({
+            frameCount: index.offsets.length,
+            readFrame: async (i: number) => {
+                const time = Time(offsetTime.value + deltaTime.value * i, deltaTime.unit);
+                return getFrame(await readXtcFrameFromFile(file, index, i), index.boxes[i], time);
+            }
+        }, deltaTime, offsetTime);
+    });
+}
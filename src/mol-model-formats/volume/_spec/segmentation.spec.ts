@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Color } from '../../../mol-util/color';
+import { parseSegmentAnnotations } from '../segmentation';
+
+describe('segment annotations', () => {
+    it('table', () => {
+        const annotations = parseSegmentAnnotations([
+            'id,label,color',
+            '# ribosomes',
+            '1,Ribosome',
+            '',
+            '2\tMembrane, inner\t#00ff00',
+            '12 "Actin filament" #FF0000',
+            '13',
+        ].join('\r\n'));
+
+        expect(annotations.map(a => a.id)).toEqual([1, 2, 12, 13]);
+        expect(annotations.map(a => a.label)).toEqual(['Ribosome', 'Membrane, inner', 'Actin filament', '']);
+        expect(annotations.map(a => a.color)).toEqual([undefined, Color(0x00ff00), Color(0xff0000), undefined]);
+    });
+
+    it('malformed row', () => {
+        expect(() => parseSegmentAnnotations('1,Ribosome\nMembrane')).toThrow('line 2');
+    });
+});
@@ -4,13 +4,14 @@
  * @author David Sehnal <david.sehnal@gmail.com>
  */
 
-import { DensityServer_Data_Database } from '../../mol-io/reader/cif/schema/density-server';
+import { DensityServer_Data_Database, DensityServer_Mesh_Database } from '../../mol-io/reader/cif/schema/density-server';
 import { Volume } from '../../mol-model/volume';
 import { Task } from '../../mol-task';
 import { SpacegroupCell, Box3D } from '../../mol-math/geometry';
 import { Tensor, Vec3 } from '../../mol-math/linear-algebra';
 import { ModelFormat } from '../format';
 import { CustomProperties } from '../../mol-model/custom-property';
+import { Mesh } from '../../mol-geo/geometry/mesh/mesh';
 
 export function volumeFromDensityServerData(source: DensityServer_Data_Database, params?: Partial<{ label: string, entryId: string }>): Task<Volume> {
     return Task.create<Volume>('Create Volume', async ctx => {
@@ -55,6 +56,37 @@ export function volumeFromDensityServerData(source: DensityServer_Data_Database,
     });
 }
 
+/** Creates a mesh from the isosurface computed by the volume server, vertices are in cartesian coords */
+export function meshFromDensityServerData(source: DensityServer_Mesh_Database, mesh?: Mesh): Task<Mesh> {
+    return Task.create<Mesh>('Create Mesh', async ctx => {
+        const { volume_mesh_3d_vertex: vertex, volume_mesh_3d_triangle: triangle } = source;
+        const vertexCount = vertex._rowCount;
+        const triangleCount = triangle._rowCount;
+
+        const vertices = new Float32Array(vertexCount * 3);
+        const { x, y, z } = vertex;
+        for (let i = 0; i < vertexCount; ++i) {
+            vertices[3 * i] = x.value(i);
+            vertices[3 * i + 1] = y.value(i);
+            vertices[3 * i + 2] = z.value(i);
+        }
+
+        const indices = new Uint32Array(triangleCount * 3);
+        const { vertex_1, vertex_2, vertex_3 } = triangle;
+        for (let i = 0; i < triangleCount; ++i) {
+            indices[3 * i] = vertex_1.value(i);
+            indices[3 * i + 1] = vertex_2.value(i);
+            indices[3 * i + 2] = vertex_3.value(i);
+        }
+
+        const normals = new Float32Array(vertexCount * 3);
+        const groups = new Float32Array(vertexCount);
+        const m = Mesh.create(vertices, indices, normals, groups, vertexCount, triangleCount, mesh);
+        Mesh.computeNormals(m);
+        return m;
+    });
+}
+
 //
 
 export { DscifFormat };
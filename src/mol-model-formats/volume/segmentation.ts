@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Volume } from '../../mol-model/volume/volume';
+import { Color } from '../../mol-util/color';
+
+const reRow = /^(\d+)\s*[,;\t]?\s*(.*)$/;
+const reColor = /^(.*?)[\s,;]+#([0-9a-f]{6})$/i;
+
+function unquote(str: string) {
+    return str.length > 1 && str[0] === '"' && str[str.length - 1] === '"' ? str.substring(1, str.length - 1) : str;
+}
+
+/**
+ * Reads segment annotations from a table with one `id label` row per segment, separated by
+ * comma, semicolon, tab or spaces, e.g. exported from a spreadsheet. An optional trailing
+ * `#rrggbb` column sets the color. Empty lines, `#` comments and a header row are skipped.
+ */
+export function parseSegmentAnnotations(data: string): Volume.SegmentAnnotation[] {
+    const annotations: Volume.SegmentAnnotation[] = [];
+    const lines = data.split(/\r?\n/);
+    for (let i = 0, il = lines.length; i < il; ++i) {
+        const line = lines[i].trim();
+        if (!line || line[0] === '#') continue;
+
+        const row = line.match(reRow);
+        if (!row) {
+            if (annotations.length === 0) continue; // header
+            throw new Error(`Segment annotations, line ${i + 1}: expected a segment id followed by a label`);
+        }
+
+        let label = row[2];
+        let color: Color | undefined = void 0;
+        const withColor = label.match(reColor);
+        if (withColor) {
+            label = withColor[1];
+            color = Color(parseInt(withColor[2], 16));
+        }
+        annotations.push({ id: parseInt(row[1]), label: unquote(label), color });
+    }
+    return annotations;
+}
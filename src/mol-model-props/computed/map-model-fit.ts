@@ -0,0 +1,40 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { ParamDefinition as PD } from '../../mol-util/param-definition';
+import { MapModelFitComputationParams, MapModelFit } from './map-model-fit/map-model-fit';
+import { Structure } from '../../mol-model/structure';
+import { Volume } from '../../mol-model/volume';
+import { CustomStructureProperty } from '../common/custom-structure-property';
+import { CustomProperty } from '../common/custom-property';
+import { CustomPropertyDescriptor } from '../../mol-model/custom-property';
+
+export const MapModelFitParams = {
+    /** Set when computing the fit for a given map, e.g. by the `ComputeMapModelFit` action */
+    volume: PD.Value<Volume | undefined>(undefined, { isHidden: true }),
+    ...MapModelFitComputationParams
+};
+export type MapModelFitParams = typeof MapModelFitParams
+export type MapModelFitProps = PD.Values<MapModelFitParams>
+
+export type MapModelFitValue = MapModelFit
+
+export const MapModelFitProvider: CustomStructureProperty.Provider<MapModelFitParams, MapModelFitValue> = CustomStructureProperty.createProvider({
+    label: 'Map-Model Fit',
+    descriptor: CustomPropertyDescriptor({
+        name: 'molstar_map_model_fit',
+        // TODO `cifExport`
+    }),
+    type: 'root',
+    defaultParams: MapModelFitParams,
+    getParams: (data: Structure) => MapModelFitParams,
+    isApplicable: (data: Structure) => data.models.some(m => m.atomicHierarchy.atoms._rowCount > 0),
+    obtain: async (ctx: CustomProperty.Context, data: Structure, props: Partial<MapModelFitProps>) => {
+        const p = { ...PD.getDefaultValues(MapModelFitParams), ...props };
+        if (!p.volume) return { value: MapModelFit.Empty };
+        return { value: await MapModelFit.compute(data, p.volume, p).runInContext(ctx.runtime) };
+    }
+});
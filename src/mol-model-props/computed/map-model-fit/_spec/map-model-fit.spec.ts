@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { parsePDB } from '../../../../mol-io/reader/pdb/parser';
+import { Mat4, Tensor, Vec3 } from '../../../../mol-math/linear-algebra';
+import { trajectoryFromPDB } from '../../../../mol-model-formats/structure/pdb';
+import { CustomProperties } from '../../../../mol-model/custom-property';
+import { Structure, StructureElement, Unit } from '../../../../mol-model/structure';
+import { Volume } from '../../../../mol-model/volume';
+import { arrayMean, arrayRms } from '../../../../mol-util/array';
+import { MapModelFit } from '../map-model-fit';
+
+const pdb = `ATOM      1  N   ALA A   1       3.000   3.000   3.000  1.00 10.00           N
+ATOM      2  CA  ALA A   1       4.458   3.000   3.000  1.00 10.00           C
+ATOM      3  C   ALA A   1       5.009   4.420   3.000  1.00 10.00           C
+ATOM      4  N   ALA A   2       6.332   4.536   3.000  1.00 10.00           N
+ATOM      5  CA  ALA A   2       6.970   5.845   3.000  1.00 10.00           C
+ATOM      6  C   ALA A   2       8.486   5.700   3.000  1.00 10.00           C
+END
+`;
+
+async function getStructure() {
+    const parsed = await parsePDB(pdb).run();
+    if (parsed.isError) throw parsed;
+    const trajectory = await trajectoryFromPDB(parsed.result).run();
+    return Structure.ofModel(trajectory.representative);
+}
+
+/** Map with density only around the atoms of the first residue */
+function createVolume(structure: Structure): Volume {
+    const unit = structure.units[0];
+    const positions = [0, 1, 2].map(i => unit.conformation.position(unit.elements[i], Vec3()));
+
+    const dim = [24, 24, 12];
+    const voxelSize = 0.5;
+    const space = Tensor.Space(dim, [2, 1, 0], Float32Array);
+    const data = space.create();
+    const p = Vec3();
+    for (let k = 0; k < dim[2]; ++k) {
+        for (let j = 0; j < dim[1]; ++j) {
+            for (let i = 0; i < dim[0]; ++i) {
+                Vec3.set(p, i * voxelSize, j * voxelSize, k * voxelSize);
+                let v = 0;
+                for (const a of positions) v += Math.exp(-Vec3.squaredDistance(p, a) / (2 * 0.7 * 0.7));
+                space.set(data, i, j, k, v);
+            }
+        }
+    }
+
+    return {
+        grid: {
+            transform: { kind: 'matrix', matrix: Mat4.fromUniformScaling(Mat4(), voxelSize) },
+            cells: Tensor.create(space, data),
+            stats: { min: 0, max: 1, mean: arrayMean(data), sigma: arrayRms(data) },
+        },
+        sourceData: { kind: '', name: '', data: {} },
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+}
+
+function getResidueScores(structure: Structure, fit: MapModelFit) {
+    const unit = structure.units[0] as Unit.Atomic;
+    const l = StructureElement.Location.create(structure, unit);
+    return [0, 3].map(i => {
+        l.element = unit.elements[i];
+        return MapModelFit.getValue(l, fit);
+    });
+}
+
+describe('map-model-fit', () => {
+    it('atom-inclusion', async () => {
+        const structure = await getStructure();
+        const fit = await MapModelFit.compute(structure, createVolume(structure), {
+            metric: { name: 'atom-inclusion', params: { threshold: 1 } }
+        }).run();
+
+        const [a, b] = getResidueScores(structure, fit);
+        expect(a).toBe(1);
+        expect(b).toBeLessThan(1);
+    });
+
+    it('density-correlation', async () => {
+        const structure = await getStructure();
+        const fit = await MapModelFit.compute(structure, createVolume(structure), {
+            metric: { name: 'density-correlation', params: { resolution: 3, radius: 2 } }
+        }).run();
+
+        const [a, b] = getResidueScores(structure, fit);
+        expect(a).toBeGreaterThan(0.9);
+        expect(b).toBeLessThan(a);
+    });
+});
@@ -0,0 +1,208 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Segmentation } from '../../../mol-data/int';
+import { Mat4, Vec3 } from '../../../mol-math/linear-algebra';
+import { ResidueIndex, Structure, StructureElement, Unit } from '../../../mol-model/structure';
+import { Grid, Volume } from '../../../mol-model/volume';
+import { RuntimeContext, Task } from '../../../mol-task';
+import { ParamDefinition as PD } from '../../../mol-util/param-definition';
+
+export const MapModelFitComputationParams = {
+    metric: PD.MappedStatic('atom-inclusion', {
+        'atom-inclusion': PD.Group({
+            threshold: PD.Numeric(1, { min: -5, max: 10, step: 0.1 }, { description: 'Map value, in units of the map RMS, above which an atom counts as inside the density.' }),
+        }, { isFlat: true }),
+        'density-correlation': PD.Group({
+            resolution: PD.Numeric(3, { min: 0.5, max: 20, step: 0.1 }, { description: 'Resolution in Å used to simulate the model density.' }),
+            radius: PD.Numeric(2, { min: 0.5, max: 5, step: 0.1 }, { description: 'Distance in Å around the residue atoms within which map and model density are compared.' }),
+        }, { isFlat: true }),
+    }, { options: [['atom-inclusion', 'Atom Inclusion'], ['density-correlation', 'Density Correlation']] }),
+};
+export type MapModelFitComputationParams = typeof MapModelFitComputationParams
+export type MapModelFitComputationProps = PD.Values<MapModelFitComputationParams>
+
+export type MapModelFitMetric = MapModelFitComputationProps['metric']['name']
+
+export { MapModelFit };
+
+interface MapModelFit {
+    readonly metric: MapModelFitMetric
+    /**
+     * Per-residue score for each atomic unit, keyed by `unit.id` and indexed by
+     * the residue index of the unit's model, NaN for residues that were not scored
+     */
+    readonly residueScore: ReadonlyMap<number, Float32Array>
+}
+
+namespace MapModelFit {
+    export const Empty: MapModelFit = { metric: 'atom-inclusion', residueScore: new Map() };
+
+    /**
+     * Scores how well each residue fits the map, either as the fraction of its heavy atoms
+     * within the density (atom inclusion) or as the correlation between the map and a model
+     * density simulated from the residue atoms alone (density correlation).
+     */
+    export function compute(structure: Structure, volume: Volume, props: Partial<MapModelFitComputationProps> = {}) {
+        const p = { ...PD.getDefaultValues(MapModelFitComputationParams), ...props };
+        return Task.create('Compute Map-Model Fit', async runtime => {
+            return await calculate(runtime, structure, volume, p);
+        });
+    }
+
+    const updateChunk = 1000;
+    async function calculate(runtime: RuntimeContext, structure: Structure, volume: Volume, props: MapModelFitComputationProps): Promise<MapModelFit> {
+        const sampler = createSampler(volume);
+        const residueScore = new Map<number, Float32Array>();
+        const positions: Vec3[] = [];
+
+        let processed = 0;
+        for (const unit of structure.units) {
+            if (!Unit.isAtomic(unit)) continue;
+
+            const { model, elements } = unit;
+            const { residueAtomSegments, atoms } = model.atomicHierarchy;
+            const { type_symbol } = atoms;
+            const scores = new Float32Array(residueAtomSegments.count).fill(NaN);
+            const pos = unit.conformation.position;
+
+            const residuesIt = Segmentation.transientSegments(residueAtomSegments, elements);
+            while (residuesIt.hasNext) {
+                const { index, start, end } = residuesIt.move();
+
+                let count = 0;
+                for (let i = start; i < end; ++i) {
+                    const eI = elements[i];
+                    if (type_symbol.value(eI) === 'H') continue;
+                    if (count === positions.length) positions.push(Vec3());
+                    pos(eI, positions[count++]);
+                }
+                if (count === 0) continue;
+
+                scores[index] = props.metric.name === 'atom-inclusion'
+                    ? atomInclusion(sampler, positions, count, props.metric.params.threshold)
+                    : densityCorrelation(sampler, positions, count, props.metric.params.resolution, props.metric.params.radius);
+
+                if (++processed % updateChunk === 0 && runtime.shouldUpdate) {
+                    await runtime.update({ message: 'Computing per residue map-model fit...', current: processed, max: structure.polymerResidueCount });
+                }
+            }
+            residueScore.set(unit.id, scores);
+        }
+
+        return { metric: props.metric.name, residueScore };
+    }
+
+    export function getValue(location: StructureElement.Location, mapModelFit: MapModelFit) {
+        if (!Unit.isAtomic(location.unit)) return NaN;
+        const scores = mapModelFit.residueScore.get(location.unit.id);
+        if (!scores) return NaN;
+        return scores[location.unit.residueIndex[location.element] as ResidueIndex];
+    }
+
+    //
+
+    interface Sampler {
+        readonly volume: Volume
+        readonly cartnToGrid: Mat4
+        readonly gridToCartn: Mat4
+    }
+
+    function createSampler(volume: Volume): Sampler {
+        const gridToCartn = Grid.getGridToCartesianTransform(volume.grid);
+        const cartnToGrid = Mat4.invert(Mat4(), gridToCartn);
+        return { volume, cartnToGrid, gridToCartn };
+    }
+
+    const tmpGrid = Vec3();
+    /** Trilinear interpolation of the map at a cartesian position, NaN outside of the grid */
+    function sample({ volume, cartnToGrid }: Sampler, p: Vec3) {
+        return Grid.getInterpolatedValue(volume.grid, Vec3.transformMat4(tmpGrid, p, cartnToGrid));
+    }
+
+    function atomInclusion(sampler: Sampler, positions: Vec3[], count: number, threshold: number) {
+        const { stats } = sampler.volume.grid;
+        const level = Volume.IsoValue.toAbsolute(Volume.IsoValue.relative(threshold), stats).absoluteValue;
+
+        let inside = 0;
+        for (let i = 0; i < count; ++i) {
+            // NaN, i.e. outside of the map, never counts as inside
+            if (sample(sampler, positions[i]) >= level) inside += 1;
+        }
+        return inside / count;
+    }
+
+    const tmpMin = Vec3();
+    const tmpMax = Vec3();
+    const tmpCorner = Vec3();
+    const tmpCell = Vec3();
+    function densityCorrelation(sampler: Sampler, positions: Vec3[], count: number, resolution: number, radius: number) {
+        const { volume, cartnToGrid, gridToCartn } = sampler;
+        const { space, data } = volume.grid.cells;
+        const [nx, ny, nz] = space.dimensions;
+
+        // gaussian width commonly used to simulate a map at a given resolution
+        const sigma = 0.225 * resolution;
+        const invTwoSigmaSq = 1 / (2 * sigma * sigma);
+        const radiusSq = radius * radius;
+
+        // grid cells within the radius of any residue atom and their simulated density
+        const model = new Map<number, number>();
+        for (let a = 0; a < count; ++a) {
+            const p = positions[a];
+            Vec3.set(tmpMin, Infinity, Infinity, Infinity);
+            Vec3.set(tmpMax, -Infinity, -Infinity, -Infinity);
+            for (let c = 0; c < 8; ++c) {
+                Vec3.set(tmpCorner, p[0] + (c & 1 ? radius : -radius), p[1] + (c & 2 ? radius : -radius), p[2] + (c & 4 ? radius : -radius));
+                Vec3.transformMat4(tmpCorner, tmpCorner, cartnToGrid);
+                Vec3.min(tmpMin, tmpMin, tmpCorner);
+                Vec3.max(tmpMax, tmpMax, tmpCorner);
+            }
+            const i0 = Math.max(0, Math.ceil(tmpMin[0])), i1 = Math.min(nx - 1, Math.floor(tmpMax[0]));
+            const j0 = Math.max(0, Math.ceil(tmpMin[1])), j1 = Math.min(ny - 1, Math.floor(tmpMax[1]));
+            const k0 = Math.max(0, Math.ceil(tmpMin[2])), k1 = Math.min(nz - 1, Math.floor(tmpMax[2]));
+
+            for (let k = k0; k <= k1; ++k) {
+                for (let j = j0; j <= j1; ++j) {
+                    for (let i = i0; i <= i1; ++i) {
+                        Vec3.transformMat4(tmpCell, Vec3.set(tmpCell, i, j, k), gridToCartn);
+                        if (Vec3.squaredDistance(tmpCell, p) > radiusSq) continue;
+                        const o = space.dataOffset(i, j, k);
+                        if (!model.has(o)) model.set(o, 0);
+                    }
+                }
+            }
+        }
+        if (model.size < 2) return NaN;
+
+        model.forEach((_, o) => {
+            space.getCoords(o, tmpCell);
+            Vec3.transformMat4(tmpCell, tmpCell, gridToCartn);
+            let v = 0;
+            for (let a = 0; a < count; ++a) {
+                v += Math.exp(-Vec3.squaredDistance(tmpCell, positions[a]) * invTwoSigmaSq);
+            }
+            model.set(o, v);
+        });
+
+        let sumM = 0, sumO = 0;
+        model.forEach((m, o) => {
+            sumM += m;
+            sumO += data[o];
+        });
+        const meanM = sumM / model.size, meanO = sumO / model.size;
+
+        let cov = 0, varM = 0, varO = 0;
+        model.forEach((m, o) => {
+            const dm = m - meanM, dO = data[o] - meanO;
+            cov += dm * dO;
+            varM += dm * dm;
+            varO += dO * dO;
+        });
+        if (varM === 0 || varO === 0) return NaN;
+        return cov / Math.sqrt(varM * varO);
+    }
+}
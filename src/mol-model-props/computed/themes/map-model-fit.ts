@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { ParamDefinition as PD } from '../../../mol-util/param-definition';
+import { Color, ColorScale } from '../../../mol-util/color';
+import { ThemeDataContext } from '../../../mol-theme/theme';
+import { ColorTheme, LocationColor } from '../../../mol-theme/color';
+import { Bond, StructureElement, Unit } from '../../../mol-model/structure';
+import { MapModelFitProvider } from '../map-model-fit';
+import { MapModelFit } from '../map-model-fit/map-model-fit';
+import { CustomProperty } from '../../common/custom-property';
+import { Location } from '../../../mol-model/location';
+import { hash2 } from '../../../mol-data/util';
+
+const DefaultColor = Color(0xFAFAFA);
+const Description = 'Assigns a color based on how well a residue fits the map the fit was computed for.';
+
+export const MapModelFitColorThemeParams = {
+    list: PD.ColorList('red-yellow-green', { presetKind: 'scale' }),
+    domain: PD.Interval([0, 1], { step: 0.01 }, { description: 'Scores mapped to the ends of the color list.' }),
+};
+export type MapModelFitColorThemeParams = typeof MapModelFitColorThemeParams
+export function getMapModelFitColorThemeParams(ctx: ThemeDataContext) {
+    return MapModelFitColorThemeParams; // TODO return copy
+}
+export function MapModelFitColorTheme(ctx: ThemeDataContext, props: PD.Values<MapModelFitColorThemeParams>): ColorTheme<MapModelFitColorThemeParams> {
+    let color: LocationColor;
+
+    const scale = ColorScale.create({
+        listOrName: props.list.colors,
+        minLabel: 'poor fit',
+        maxLabel: 'good fit',
+        domain: props.domain
+    });
+
+    const mapModelFit = ctx.structure && MapModelFitProvider.get(ctx.structure);
+    const contextHash = mapModelFit ? hash2(mapModelFit.id, mapModelFit.version) : -1;
+
+    if (mapModelFit?.value && ctx.structure) {
+        const l = StructureElement.Location.create(ctx.structure);
+        const fit = mapModelFit.value;
+        const getColor = (location: StructureElement.Location) => {
+            const value = MapModelFit.getValue(location, fit);
+            return isNaN(value) ? DefaultColor : scale.color(value);
+        };
+
+        color = (location: Location): Color => {
+            if (StructureElement.Location.is(location) && Unit.isAtomic(location.unit)) {
+                return getColor(location);
+            } else if (Bond.isLocation(location)) {
+                l.unit = location.aUnit;
+                l.element = location.aUnit.elements[location.aIndex];
+                return getColor(l);
+            }
+            return DefaultColor;
+        };
+    } else {
+        color = () => DefaultColor;
+    }
+
+    return {
+        factory: MapModelFitColorTheme,
+        granularity: 'group',
+        preferSmoothing: true,
+        color,
+        props,
+        contextHash,
+        description: Description,
+        legend: scale ? scale.legend : undefined
+    };
+}
+
+export const MapModelFitColorThemeProvider: ColorTheme.Provider<MapModelFitColorThemeParams, 'map-model-fit'> = {
+    name: 'map-model-fit',
+    label: 'Map-Model Fit',
+    category: ColorTheme.Category.Validation,
+    factory: MapModelFitColorTheme,
+    getParams: getMapModelFitColorThemeParams,
+    defaultValues: PD.getDefaultValues(MapModelFitColorThemeParams),
+    isApplicable: (ctx: ThemeDataContext) => !!ctx.structure && MapModelFitProvider.isApplicable(ctx.structure),
+    ensureCustomProperties: {
+        attach: (ctx: CustomProperty.Context, data: ThemeDataContext) => data.structure ? MapModelFitProvider.attach(ctx, data.structure, void 0, true) : Promise.resolve(),
+        detach: (data) => data.structure && MapModelFitProvider.ref(data.structure, false)
+    }
+};
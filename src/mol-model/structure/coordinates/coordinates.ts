@@ -1,5 +1,5 @@
 /**
- * Copyright (c) 2019-2021 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ * Copyright (c) 2019-2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
  *
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  * @author David Sehnal <david.sehnal@gmail.com>
@@ -9,6 +9,8 @@ import { arrayEqual, UUID } from '../../../mol-util';
 import { Cell } from '../../../mol-math/geometry/spacegroup/cell';
 import { AtomicConformation } from '../model/properties/atomic';
 import { Column } from '../../../mol-data/db';
+import { LRUCache } from '../../../mol-util/lru-cache';
+import { Task } from '../../../mol-task';
 
 export interface Frame {
     readonly elementCount: number
@@ -69,7 +71,14 @@ export { Coordinates };
 interface Coordinates {
     readonly id: UUID
 
-    readonly frames: Frame[]
+    /** All frames, only available when eagerly loaded, use `getFrameAtIndex` for general access */
+    readonly frames?: Frame[]
+    readonly frameCount: number
+    /**
+     * Lazy coordinates read the frame on demand and return a task unless it is cached,
+     * the first frame is always available
+     */
+    getFrameAtIndex(index: number): Task<Frame> | Frame
 
     readonly hasCell: boolean
     readonly hasVelocities: boolean
@@ -88,6 +97,8 @@ namespace Coordinates {
         return {
             id: UUID.create22(),
             frames,
+            frameCount: frames.length,
+            getFrameAtIndex: (index: number) => frames[index],
             hasCell,
             hasVelocities,
             hasForces,
@@ -96,6 +107,44 @@ namespace Coordinates {
         };
     }
 
+    export interface FrameSource {
+        readonly frameCount: number
+        readFrame(index: number): Promise<Frame> | Frame
+    }
+
+    /**
+     * Frames are read from the source on demand and the most recently
+     * used ones are kept in a cache of the given size.
+     */
+    export async function createLazy(source: FrameSource, deltaTime: Time, timeOffset: Time, cacheSize = 16): Promise<Coordinates> {
+        const first = await source.readFrame(0);
+        const cache = LRUCache.create<Frame>(cacheSize);
+        const getFrameAtIndex = (index: number): Task<Frame> | Frame => {
+            if (index === 0) return first;
+
+            const key = `${index}`;
+            const frame = LRUCache.get(cache, key);
+            if (frame) return frame;
+
+            return Task.create('Read Frame', async () => {
+                const frame = await source.readFrame(index);
+                LRUCache.set(cache, key, frame);
+                return frame;
+            });
+        };
+
+        return {
+            id: UUID.create22(),
+            frameCount: source.frameCount,
+            getFrameAtIndex,
+            hasCell: !!first.cell,
+            hasVelocities: !!first.velocities,
+            hasForces: !!first.forces,
+            deltaTime,
+            timeOffset,
+        };
+    }
+
     /**
      * Only use ordering if it's not identity.
      */
@@ -0,0 +1,26 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Model } from '../model';
+import { Structure, Unit } from '../structure';
+
+export interface ExportFrame {
+    structure: Structure,
+    model: Model,
+    units: Unit.Atomic[]
+}
+
+/** Frames of the structures to be written as separate models, one per structure and model */
+export function getFrames(structures: Structure | Structure[]) {
+    const frames: ExportFrame[] = [];
+    for (const structure of Array.isArray(structures) ? structures : [structures]) {
+        for (const model of structure.models) {
+            const units = structure.units.filter(u => u.model === model && Unit.isAtomic(u)) as Unit.Atomic[];
+            if (units.length) frames.push({ structure, model, units });
+        }
+    }
+    return frames;
+}
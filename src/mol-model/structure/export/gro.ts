@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Box3D, SpacegroupCell } from '../../../mol-math/geometry';
+import { Vec3 } from '../../../mol-math/linear-algebra';
+import { GroWriter } from '../../../mol-io/writer/gro';
+import { GroAtomRecord, GroEncoder } from '../../../mol-io/writer/gro/encoder';
+import { ModelSymmetry } from '../../../mol-model-formats/structure/property/symmetry';
+import { StructureElement, Structure, StructureProperties as P } from '../structure';
+import { ExportFrame, getFrames } from './frames';
+
+/** Rectangular unit cells are used as box, otherwise the bounding box of the structure */
+function getBoxSize(frame: ExportFrame) {
+    const symmetry = ModelSymmetry.Provider.get(frame.model);
+    const cell = symmetry?.spacegroup.cell;
+    if (cell && !SpacegroupCell.isZero(cell) && cell.anglesInRadians.every(a => Math.abs(a - Math.PI / 2) < 1e-4)) {
+        return Vec3.clone(cell.size);
+    }
+    return Box3D.size(Vec3(), frame.structure.boundary.box);
+}
+
+/**
+ * Writes the atomic units of the structures into the GRO encoder, one frame per
+ * structure and model. Coordinates are converted from Angstrom to nanometers.
+ */
+export function encode_GRO(encoder: GroEncoder, structures: Structure | Structure[]) {
+    const l = StructureElement.Location.create();
+    const atom: GroAtomRecord = { residueNumber: 0, residueName: '', atomName: '', atomNumber: 0, x: 0, y: 0, z: 0 };
+
+    for (const frame of getFrames(structures)) {
+        let count = 0;
+        for (const unit of frame.units) count += unit.elements.length;
+        encoder.writeHeader(frame.model.entryId, count);
+
+        l.structure = frame.structure;
+        let atomNumber = 1;
+        for (const unit of frame.units) {
+            l.unit = unit;
+            for (let i = 0, il = unit.elements.length; i < il; ++i) {
+                l.element = unit.elements[i];
+                atom.residueNumber = P.residue.auth_seq_id(l);
+                atom.residueName = P.atom.auth_comp_id(l);
+                atom.atomName = P.atom.auth_atom_id(l);
+                atom.atomNumber = atomNumber++;
+                atom.x = P.atom.x(l) / 10;
+                atom.y = P.atom.y(l) / 10;
+                atom.z = P.atom.z(l) / 10;
+                encoder.writeAtom(atom);
+            }
+        }
+
+        const box = getBoxSize(frame);
+        encoder.writeBox(box[0] / 10, box[1] / 10, box[2] / 10);
+    }
+}
+
+export function to_GRO(structures: Structure | Structure[]) {
+    const encoder = GroWriter.createEncoder();
+    encode_GRO(encoder, structures);
+    return encoder.getData();
+}
@@ -0,0 +1,301 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { SortedArray } from '../../../mol-data/int';
+import { radToDeg } from '../../../mol-math/misc';
+import { SpacegroupCell } from '../../../mol-math/geometry';
+import { MmcifFormat } from '../../../mol-model-formats/structure/mmcif';
+import { ModelSymmetry } from '../../../mol-model-formats/structure/property/symmetry';
+import { PdbWriter } from '../../../mol-io/writer/pdb';
+import { PdbAtomRecord, PdbEncoder, PdbResidueRecord } from '../../../mol-io/writer/pdb/encoder';
+import { PqrWriter } from '../../../mol-io/writer/pqr';
+import { PqrAtomRecord, PqrEncoder } from '../../../mol-io/writer/pqr/encoder';
+import { AtomPartialCharge } from '../../../mol-model-formats/structure/property/partial-charge';
+import { PqrFormat } from '../../../mol-model-formats/structure/pqr';
+import { BondType } from '../model/types';
+import { StructureElement, Structure, StructureProperties as P, Unit } from '../structure';
+import { getFrames } from './frames';
+
+const ChainIdCharacters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+function getChainKey(l: StructureElement.Location) {
+    const suffix = l.unit.conformation.operator.suffix;
+    return suffix ? P.chain.auth_asym_id(l) + suffix : P.chain.auth_asym_id(l);
+}
+
+/**
+ * Single character chain ids are kept. Longer ids, including those of symmetry
+ * copies, get the first unused character out of `A-Z`, `a-z` and `0-9`. When all
+ * are taken they are reused, chains stay separated by `TER` records.
+ */
+function getChainIdMap(structures: Structure[]) {
+    const keys: string[] = [];
+    const seen = new Set<string>();
+    const l = StructureElement.Location.create();
+    for (const s of structures) {
+        for (const unit of s.units) {
+            if (!Unit.isAtomic(unit)) continue;
+            const { elements } = unit;
+            l.unit = unit;
+            let prevChain = -1;
+            for (let i = 0, il = elements.length; i < il; ++i) {
+                l.element = elements[i];
+                const chainIndex = unit.chainIndex[l.element];
+                if (chainIndex === prevChain) continue;
+                prevChain = chainIndex;
+                const key = getChainKey(l);
+                if (seen.has(key)) continue;
+                seen.add(key);
+                keys.push(key);
+            }
+        }
+    }
+
+    const map = new Map<string, string>();
+    const used = new Set<string>();
+    for (const key of keys) {
+        if (key.length === 1) {
+            map.set(key, key);
+            used.add(key);
+        }
+    }
+
+    let next = 0;
+    for (const key of keys) {
+        if (map.has(key)) continue;
+        let id = '';
+        while (next < ChainIdCharacters.length) {
+            const c = ChainIdCharacters[next++];
+            if (!used.has(c)) {
+                id = c;
+                break;
+            }
+        }
+        if (!id) id = ChainIdCharacters[(map.size - used.size) % ChainIdCharacters.length];
+        else used.add(id);
+        map.set(key, id);
+    }
+    return map;
+}
+
+function isWithoutSymmetry(structure: Structure) {
+    return structure.units.every(u => u.conformation.operator.isIdentity);
+}
+
+function encodeCryst1(encoder: PdbEncoder, structure: Structure) {
+    if (!isWithoutSymmetry(structure)) return;
+    const model = structure.models[0];
+    const symmetry = ModelSymmetry.Provider.get(model);
+    if (!symmetry || SpacegroupCell.isZero(symmetry.spacegroup.cell)) return;
+
+    const { size, anglesInRadians } = symmetry.spacegroup.cell;
+    const cell = MmcifFormat.is(model.sourceData) ? model.sourceData.data.db.cell : void 0;
+    const z = cell && cell.Z_PDB.isDefined ? cell.Z_PDB.value(0) : void 0;
+    encoder.writeCryst1(size[0], size[1], size[2], radToDeg(anglesInRadians[0]), radToDeg(anglesInRadians[1]), radToDeg(anglesInRadians[2]), symmetry.spacegroup.name, z);
+}
+
+function encodeSeqres(encoder: PdbEncoder, structure: Structure, chainIdMap: Map<string, string>) {
+    const written = new Set<string>();
+    const l = StructureElement.Location.create(structure);
+    for (const unit of structure.units) {
+        if (!Unit.isAtomic(unit)) continue;
+        l.unit = unit;
+        l.element = unit.elements[0];
+        if (P.entity.type(l) !== 'polymer') continue;
+
+        const chainId = chainIdMap.get(getChainKey(l))!;
+        if (written.has(chainId)) continue;
+        written.add(chainId);
+
+        const entity = unit.model.sequence.byEntityKey[P.entity.key(l)];
+        if (!entity || entity.sequence.length === 0) continue;
+        const { compId } = entity.sequence;
+        const resNames: string[] = [];
+        for (let i = 0, il = compId.rowCount; i < il; ++i) resNames[i] = compId.value(i);
+        encoder.writeSeqres(chainId, resNames);
+    }
+}
+
+/**
+ * Bonds involving a hetero atom or disulfide bonds, i.e., the bonds
+ * not implied by standard residue templates and polymer links
+ */
+function getConect(structure: Structure, units: Unit.Atomic[], serials: Map<number, Int32Array>, heteros: Map<number, Uint8Array>) {
+    const conect = new Map<number, number[]>();
+    const add = (serialA: number, serialB: number) => {
+        if (serialA < 0 || serialB < 0) return;
+        const bonded = conect.get(serialA);
+        if (bonded) {
+            if (bonded.indexOf(serialB) === -1) bonded.push(serialB);
+        } else {
+            conect.set(serialA, [serialB]);
+        }
+    };
+
+    for (const unit of units) {
+        const serialsA = serials.get(unit.id)!, heterosA = heteros.get(unit.id)!;
+        const { offset, b, edgeProps: { flags } } = unit.bonds;
+        for (let i = 0 as StructureElement.UnitIndex, il = unit.elements.length; i < il; ++i) {
+            for (let j = offset[i], jl = offset[i + 1]; j < jl; ++j) {
+                if (heterosA[i] || heterosA[b[j]] || BondType.is(flags[j], BondType.Flag.Disulfide)) {
+                    add(serialsA[i], serialsA[b[j]]);
+                }
+            }
+            for (const edgeIndex of structure.interUnitBonds.getEdgeIndices(i, unit.id)) {
+                const edge = structure.interUnitBonds.edges[edgeIndex];
+                const serialsB = serials.get(edge.unitB);
+                if (!serialsB) continue;
+                if (heterosA[i] || heteros.get(edge.unitB)![edge.indexB] || BondType.is(edge.props.flag, BondType.Flag.Disulfide)) {
+                    add(serialsA[i], serialsB[edge.indexB]);
+                }
+            }
+        }
+    }
+    return conect;
+}
+
+type encode_PDB_Params = {
+    /** whether to write CONECT records, defaults to true */
+    conect?: boolean
+}
+
+function createAtomRecord(): PdbAtomRecord {
+    return {
+        hetero: false, serial: 0, name: '', altLoc: '', resName: '', chainId: '', resSeq: 0, iCode: '',
+        x: 0, y: 0, z: 0, occupancy: 0, tempFactor: 0, element: '', charge: 0
+    };
+}
+
+function encodeRecords<A extends PdbAtomRecord>(encoder: PdbEncoder & { writeAtom(atom: A): void }, structures: Structure | Structure[], params: encode_PDB_Params | undefined, atom: A, setAtom?: (atom: A, l: StructureElement.Location) => void) {
+    const structureArray = Array.isArray(structures) ? structures : [structures];
+    const frames = getFrames(structureArray);
+    if (frames.length === 0) return;
+
+    const chainIdMap = getChainIdMap(structureArray);
+    encodeCryst1(encoder, frames[0].structure);
+    encodeSeqres(encoder, frames[0].structure, chainIdMap);
+
+    const isMultiModel = frames.length > 1;
+    const l = StructureElement.Location.create();
+    const lastResidue: PdbResidueRecord = { resName: '', chainId: '', resSeq: 0, iCode: '' };
+    let conect: Map<number, number[]> | undefined = void 0;
+
+    for (let f = 0, fl = frames.length; f < fl; ++f) {
+        const { structure, units } = frames[f];
+        // numbered by position, the same model may be written more than once
+        if (isMultiModel) encoder.writeModel(f + 1);
+
+        const serials = new Map<number, Int32Array>();
+        const heteros = new Map<number, Uint8Array>();
+        let serial = 1;
+        let lastChainKey = '';
+        let lastIsPolymer = false;
+
+        l.structure = structure;
+        for (const unit of units) {
+            const { elements } = unit;
+            const unitSerials = new Int32Array(elements.length);
+            const unitHeteros = new Uint8Array(elements.length);
+            serials.set(unit.id, unitSerials);
+            heteros.set(unit.id, unitHeteros);
+
+            l.unit = unit;
+            for (let i = 0, il = elements.length; i < il; ++i) {
+                l.element = elements[i];
+                const chainKey = getChainKey(l);
+                if (chainKey !== lastChainKey) {
+                    if (lastIsPolymer) encoder.writeTer(serial++, lastResidue);
+                    lastChainKey = chainKey;
+                }
+
+                const group = P.residue.group_PDB(l);
+                atom.hetero = group ? group === 'HETATM' : P.entity.type(l) !== 'polymer';
+                atom.serial = serial;
+                atom.name = P.atom.auth_atom_id(l);
+                atom.altLoc = P.atom.label_alt_id(l);
+                atom.resName = P.atom.auth_comp_id(l);
+                atom.chainId = chainIdMap.get(chainKey)!;
+                atom.resSeq = P.residue.auth_seq_id(l);
+                atom.iCode = P.residue.pdbx_PDB_ins_code(l);
+                atom.x = P.atom.x(l);
+                atom.y = P.atom.y(l);
+                atom.z = P.atom.z(l);
+                atom.occupancy = P.atom.occupancy(l);
+                atom.tempFactor = P.atom.B_iso_or_equiv(l);
+                atom.element = P.atom.type_symbol(l);
+                atom.charge = P.atom.pdbx_formal_charge(l);
+                if (setAtom) setAtom(atom, l);
+                encoder.writeAtom(atom);
+
+                unitSerials[i] = serial++;
+                unitHeteros[i] = atom.hetero ? 1 : 0;
+                lastIsPolymer = !atom.hetero;
+                lastResidue.resName = atom.resName;
+                lastResidue.chainId = atom.chainId;
+                lastResidue.resSeq = atom.resSeq;
+                lastResidue.iCode = atom.iCode;
+            }
+        }
+        if (lastIsPolymer) encoder.writeTer(serial++, lastResidue);
+
+        if (f === 0 && params?.conect !== false) conect = getConect(structure, units, serials, heteros);
+        if (isMultiModel) encoder.writeEndmdl();
+    }
+
+    if (conect) {
+        const serials = SortedArray.ofUnsortedArray(Array.from(conect.keys()));
+        for (let i = 0, il = serials.length; i < il; ++i) {
+            const bonded = conect.get(serials[i])!;
+            encoder.writeConect(serials[i], bonded.sort((a, b) => a - b));
+        }
+    }
+}
+
+/**
+ * Writes the atomic units of the structures into the PDB encoder. Each model of each
+ * structure is written as a separate MODEL, numbered from 1, when there is more than one.
+ * SEQRES, CRYST1 and CONECT records are taken from the first model.
+ *
+ * Chain ids longer than one character are mapped to unused single characters,
+ * atom and residue numbers exceeding the columns use the hybrid-36 scheme.
+ */
+export function encode_PDB(encoder: PdbEncoder, structures: Structure | Structure[], params?: encode_PDB_Params) {
+    encodeRecords(encoder, structures, params, createAtomRecord());
+}
+
+function setPqrAtom(atom: PqrAtomRecord, l: StructureElement.Location) {
+    const { model } = l.unit;
+    const partialCharge = AtomPartialCharge.Provider.get(model);
+    atom.partialCharge = partialCharge ? partialCharge.data.value(l.element) : atom.charge;
+    const radius = PqrFormat.getRadius(model, model.atomicHierarchy.atomSourceIndex.value(l.element));
+    atom.radius = radius ?? P.atom.vdw_radius(l);
+}
+
+/**
+ * Like `encode_PDB` but with partial charges and radii instead of occupancy and
+ * temperature factor. Charges are taken from the `AtomPartialCharge` property when
+ * available, otherwise the formal charge is used. Radii come from the source PQR
+ * file when available, otherwise the van der Waals radius is used.
+ */
+export function encode_PQR(encoder: PqrEncoder, structures: Structure | Structure[], params?: encode_PDB_Params) {
+    encodeRecords(encoder, structures, params, { ...createAtomRecord(), partialCharge: 0, radius: 0 }, setPqrAtom);
+}
+
+export function to_PDB(structures: Structure | Structure[], params?: encode_PDB_Params) {
+    const encoder = PdbWriter.createEncoder();
+    const first = Array.isArray(structures) ? structures[0] : structures;
+    if (first) encoder.writeHeader(first.model.entryId);
+    encode_PDB(encoder, structures, params);
+    return encoder.getData();
+}
+
+export function to_PQR(structures: Structure | Structure[], params?: encode_PDB_Params) {
+    const encoder = PqrWriter.createEncoder();
+    const first = Array.isArray(structures) ? structures[0] : structures;
+    if (first) encoder.writeHeader(first.model.entryId);
+    encode_PQR(encoder, structures, params);
+    return encoder.getData();
+}
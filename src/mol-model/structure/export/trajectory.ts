@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { DcdWriter } from '../../../mol-io/writer/dcd';
+import { DcdEncoder } from '../../../mol-io/writer/dcd/encoder';
+import { XtcWriter } from '../../../mol-io/writer/xtc';
+import { XtcEncoder } from '../../../mol-io/writer/xtc/encoder';
+import { SpacegroupCell } from '../../../mol-math/geometry';
+import { Cell } from '../../../mol-math/geometry/spacegroup/cell';
+import { Vec3 } from '../../../mol-math/linear-algebra';
+import { ModelSymmetry } from '../../../mol-model-formats/structure/property/symmetry';
+import { RuntimeContext, Task } from '../../../mol-task';
+import { Coordinates, Time } from '../coordinates';
+import { Model } from '../model';
+import { Trajectory } from '../trajectory';
+
+export interface TrajectoryExportParams {
+    /** index of the first frame, defaults to 0 */
+    start?: number,
+    /** index after the last frame, defaults to the frame count */
+    end?: number,
+    /** defaults to 1 */
+    stride?: number,
+    /**
+     * Subset of atoms to write, defaults to all atoms. Indices refer to the elements of
+     * the frames of `Coordinates` or to the atoms of the models of a `Trajectory`.
+     */
+    atomIndices?: ArrayLike<number>
+}
+
+interface ExportFrame {
+    readonly index: number,
+    readonly count: number,
+    readonly x: ArrayLike<number>,
+    readonly y: ArrayLike<number>,
+    readonly z: ArrayLike<number>,
+    readonly cell?: Cell,
+    readonly time: Time
+}
+
+function isCoordinates(x: Coordinates | Trajectory): x is Coordinates {
+    return 'hasCell' in x;
+}
+
+function getFrameRange(source: Coordinates | Trajectory, params: TrajectoryExportParams) {
+    const { frameCount } = source;
+    const start = Math.max(0, params.start ?? 0);
+    const end = Math.min(frameCount, params.end ?? frameCount);
+    const stride = Math.max(1, Math.round(params.stride ?? 1));
+    return { start, end, stride };
+}
+
+function getModelCell(model: Model): Cell | undefined {
+    const cell = ModelSymmetry.Provider.get(model)?.spacegroup.cell;
+    return cell && !SpacegroupCell.isZero(cell) ? cell : void 0;
+}
+
+function getSubset(xs: ArrayLike<number>, indices: ArrayLike<number>) {
+    const subset = new Float32Array(indices.length);
+    for (let i = 0, il = indices.length; i < il; ++i) subset[i] = xs[indices[i]];
+    return subset;
+}
+
+async function eachFrame(ctx: RuntimeContext, source: Coordinates | Trajectory, params: TrajectoryExportParams, f: (frame: ExportFrame) => void) {
+    const { start, end, stride } = getFrameRange(source, params);
+    const { atomIndices } = params;
+
+    for (let i = start; i < end; i += stride) {
+        let frame: ExportFrame;
+        if (isCoordinates(source)) {
+            const { x, y, z, elementCount, cell, time } = await Task.resolveInContext(source.getFrameAtIndex(i), ctx);
+            frame = { index: i, count: elementCount, x, y, z, cell, time };
+        } else {
+            const model = await Task.resolveInContext(source.getFrameAtIndex(i), ctx);
+            const { x, y, z } = model.atomicConformation;
+            const count = model.atomicHierarchy.atoms._rowCount;
+            frame = { index: i, count, x, y, z, cell: getModelCell(model), time: Time(i, 'step') };
+        }
+
+        if (atomIndices) {
+            const { x, y, z } = frame;
+            frame = { ...frame, count: atomIndices.length, x: getSubset(x, atomIndices), y: getSubset(y, atomIndices), z: getSubset(z, atomIndices) };
+        }
+        f(frame);
+
+        if (ctx.shouldUpdate) {
+            await ctx.update({ message: 'Exporting frames...', current: i - start, max: end - start });
+        }
+    }
+}
+
+export function encode_DCD(ctx: RuntimeContext, encoder: DcdEncoder, source: Coordinates | Trajectory, params: TrajectoryExportParams = {}) {
+    return eachFrame(ctx, source, params, frame => {
+        encoder.writeFrame(frame.x, frame.y, frame.z, frame.count, frame.cell);
+    });
+}
+
+export function to_DCD(source: Coordinates | Trajectory, params: TrajectoryExportParams = {}) {
+    return Task.create('Export DCD', async ctx => {
+        const { start, stride } = getFrameRange(source, params);
+        const deltaTime = isCoordinates(source) && source.deltaTime.unit === 'ps' ? source.deltaTime.value : 0;
+        const encoder = DcdWriter.createEncoder({ firstStep: start + 1, stepInterval: stride, timeStep: deltaTime });
+        await encode_DCD(ctx, encoder, source, params);
+        return encoder.getData();
+    });
+}
+
+export interface XtcExportParams extends TrajectoryExportParams {
+    /** inverse of the precision in nanometers, defaults to 1000 */
+    precision?: number
+}
+
+export function encode_XTC(ctx: RuntimeContext, encoder: XtcEncoder, source: Coordinates | Trajectory, params: XtcExportParams = {}) {
+    const box = new Array<number>(9).fill(0);
+    const x = Vec3(), y = Vec3(), z = Vec3();
+
+    return eachFrame(ctx, source, params, frame => {
+        if (frame.cell) {
+            Cell.getBasis(frame.cell, x, y, z);
+            Vec3.toArray(x, box, 0);
+            Vec3.toArray(y, box, 3);
+            Vec3.toArray(z, box, 6);
+        } else {
+            box.fill(0);
+        }
+        encoder.writeFrame(frame.index, frame.time.value, box, frame.x, frame.y, frame.z, frame.count, params.precision);
+    });
+}
+
+export function to_XTC(source: Coordinates | Trajectory, params: XtcExportParams = {}) {
+    return Task.create('Export XTC', async ctx => {
+        const encoder = XtcWriter.createEncoder();
+        await encode_XTC(ctx, encoder, source, params);
+        return encoder.getData();
+    });
+}
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { XyzWriter } from '../../../mol-io/writer/xyz';
+import { XyzEncoder } from '../../../mol-io/writer/xyz/encoder';
+import { StructureElement, Structure, StructureProperties as P } from '../structure';
+import { getFrames } from './frames';
+
+/** Writes the atomic units of the structures into the XYZ encoder, one frame per structure and model */
+export function encode_XYZ(encoder: XyzEncoder, structures: Structure | Structure[]) {
+    const l = StructureElement.Location.create();
+
+    for (const frame of getFrames(structures)) {
+        let count = 0;
+        for (const unit of frame.units) count += unit.elements.length;
+        encoder.writeHeader(count, frame.model.entryId);
+
+        l.structure = frame.structure;
+        for (const unit of frame.units) {
+            l.unit = unit;
+            for (let i = 0, il = unit.elements.length; i < il; ++i) {
+                l.element = unit.elements[i];
+                encoder.writeAtom(P.atom.type_symbol(l), P.atom.x(l), P.atom.y(l), P.atom.z(l));
+            }
+        }
+    }
+}
+
+export function to_XYZ(structures: Structure | Structure[]) {
+    const encoder = XyzWriter.createEncoder();
+    encode_XYZ(encoder, structures);
+    return encoder.getData();
+}
@@ -15,7 +15,7 @@ import { SaccharideComponentMap } from '../structure/carbohydrates/constants';
 import { ModelFormat } from '../../../mol-model-formats/format';
 import { calcModelCenter, getAsymIdCount } from './util';
 import { Vec3 } from '../../../mol-math/linear-algebra';
-import { Coordinates } from '../coordinates';
+import { Coordinates, Frame } from '../coordinates';
 import { Topology } from '../topology';
 import { Task } from '../../../mol-task';
 import { IndexPairBonds } from '../../../mol-model-formats/structure/property/bonds/index-pair';
@@ -26,7 +26,7 @@ import { SymmetryOperator } from '../../../mol-math/geometry';
 import { ModelSymmetry } from '../../../mol-model-formats/structure/property/symmetry';
 import { Column } from '../../../mol-data/db';
 import { CustomModelProperty } from '../../../mol-model-props/common/custom-model-property';
-import { Trajectory, ArrayTrajectory } from '../trajectory';
+import { Trajectory, ArrayTrajectory, LazyTrajectory } from '../trajectory';
 import { Unit } from '../structure';
 import { SortedArray } from '../../../mol-data/int/sorted-array';
 import { PolymerType } from './types';
@@ -92,9 +92,8 @@ export interface Model extends Readonly<{
 } { }
 
 export namespace Model {
-    function _trajectoryFromModelAndCoordinates(model: Model, coordinates: Coordinates) {
-        const trajectory: Model[] = [];
-        const { frames } = coordinates;
+    function _trajectoryFromModelAndCoordinates(model: Model, coordinates: Coordinates, setup?: (m: Model) => void): Trajectory {
+        const { frameCount } = coordinates;
 
         const srcIndex = model.atomicHierarchy.atomSourceIndex;
         const isIdentity = Column.isIdentity(srcIndex);
@@ -102,8 +101,7 @@ export namespace Model {
         const coarseGrained = isCoarseGrained(model);
         const elementCount = model.atomicHierarchy.atoms._rowCount;
 
-        for (let i = 0, il = frames.length; i < il; ++i) {
-            const f = frames[i];
+        const createModel = (i: number, f: Frame): Model => {
             if (f.elementCount !== elementCount) {
                 throw new Error(`Frame element count mismatch, got ${f.elementCount} but expected ${elementCount}.`);
             }
@@ -125,16 +123,31 @@ export namespace Model {
                 ModelSymmetry.Provider.set(m, symmetry);
             }
 
-            TrajectoryInfo.set(m, { index: i, size: frames.length });
+            TrajectoryInfo.set(m, { index: i, size: frameCount });
             CoarseGrained.set(m, coarseGrained);
+            setup?.(m);
+
+            return m;
+        };
+
+        // lazily loaded coordinates get models created on demand
+        if (!coordinates.frames) {
+            return new LazyTrajectory(frameCount, i => {
+                const f = coordinates.getFrameAtIndex(i);
+                if (!Task.is(f)) return createModel(i, f);
+                return Task.create('Create Model', async ctx => createModel(i, await f.runInContext(ctx)));
+            });
+        }
 
-            trajectory.push(m);
+        const trajectory: Model[] = [];
+        for (let i = 0; i < frameCount; ++i) {
+            trajectory.push(createModel(i, coordinates.frames[i]));
         }
-        return { trajectory, srcIndexArray };
+        return new ArrayTrajectory(trajectory);
     }
 
     export function trajectoryFromModelAndCoordinates(model: Model, coordinates: Coordinates): Trajectory {
-        return new ArrayTrajectory(_trajectoryFromModelAndCoordinates(model, coordinates).trajectory);
+        return _trajectoryFromModelAndCoordinates(model, coordinates);
     }
 
     export function trajectoryFromTopologyAndCoordinates(topology: Topology, coordinates: Coordinates): Task<Trajectory> {
@@ -142,19 +155,13 @@ export namespace Model {
             const models = await createModels(topology.basic, topology.sourceData, ctx);
             if (models.frameCount === 0) throw new Error('found no model');
             const model = models.representative;
-            const { trajectory } = _trajectoryFromModelAndCoordinates(model, coordinates);
 
             const bondData = { pairs: topology.bonds, count: model.atomicHierarchy.atoms._rowCount };
             const indexPairBonds = IndexPairBonds.fromData(bondData);
-            const coarseGrained = isCoarseGrained(model);
 
-            let index = 0;
-            for (const m of trajectory) {
+            return _trajectoryFromModelAndCoordinates(model, coordinates, m => {
                 IndexPairBonds.Provider.set(m, indexPairBonds);
-                TrajectoryInfo.set(m, { index: index++, size: trajectory.length });
-                CoarseGrained.set(m, coarseGrained);
-            }
-            return new ArrayTrajectory(trajectory);
+            });
         });
     }
 
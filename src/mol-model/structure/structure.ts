@@ -13,4 +13,8 @@ import { StructureProperties } from './structure/properties';
 
 export { StructureElement, Bond, Structure, Unit, StructureSymmetry, StructureProperties };
 export * from './structure/unit/rings';
-export * from './export/mmcif';
\ No newline at end of file
+export * from './export/mmcif';
+export * from './export/pdb';
+export * from './export/gro';
+export * from './export/xyz';
+export * from './export/trajectory';
\ No newline at end of file
@@ -1,10 +1,11 @@
 /**
- * Copyright (c) 2020 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ * Copyright (c) 2020-2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
  *
  * @author David Sehnal <david.sehnal@gmail.com>
  */
 
 import { Task } from '../../mol-task';
+import { LRUCache } from '../../mol-util/lru-cache';
 import { Model } from '../structure';
 
 export type TrajectoryFrameType =
@@ -42,4 +43,43 @@ export class ArrayTrajectory implements Trajectory {
         this.representative = frames[0];
         this.duration = frames.length;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Trajectory with models created on demand, e.g. from lazily loaded coordinates.
+ * Recently used models are kept so that going back and forth returns the same
+ * model, including its id and computed properties.
+ */
+export class LazyTrajectory implements Trajectory {
+    readonly duration: number;
+    readonly representative: Model;
+    private readonly cache: LRUCache<Model>;
+
+    getFrameAtIndex(i: number): Task<Model> | Model {
+        if (i === 0) return this.representative;
+
+        const key = `${i}`;
+        const model = LRUCache.get(this.cache, key);
+        if (model) return model;
+
+        const frame = this.createFrame(i);
+        if (!Task.is(frame)) {
+            LRUCache.set(this.cache, key, frame);
+            return frame;
+        }
+        return Task.create('Create Frame', async ctx => {
+            const model = await frame.runInContext(ctx);
+            LRUCache.set(this.cache, key, model);
+            return model;
+        });
+    }
+
+    /** The first frame must be available synchronously, it is used as the representative */
+    constructor(readonly frameCount: number, private createFrame: (index: number) => Task<Model> | Model, cacheSize = 16) {
+        const representative = createFrame(0);
+        if (Task.is(representative)) throw new Error('The first frame must be available synchronously.');
+        this.representative = representative;
+        this.duration = frameCount;
+        this.cache = LRUCache.create(cacheSize);
+    }
+}
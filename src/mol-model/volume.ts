@@ -6,4 +6,8 @@
  */
 
 export * from './volume/volume';
-export * from './volume/grid';
\ No newline at end of file
+export * from './volume/grid';
+export * from './volume/export/ccp4';
+export * from './volume/operations';
+export * from './volume/trajectory';
+export * from './volume/simulate';
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Mat4, Tensor, Vec3 } from '../../../mol-math/linear-algebra';
+import { Box3D } from '../../../mol-math/geometry';
+import { Grid } from '../grid';
+
+function createGrid(dim: [number, number, number], f: (i: number, j: number, k: number) => number): Grid {
+    const space = Tensor.Space(dim, [2, 1, 0], Float32Array);
+    const data = space.create();
+    for (let i = 0; i < dim[0]; ++i) {
+        for (let j = 0; j < dim[1]; ++j) {
+            for (let k = 0; k < dim[2]; ++k) space.set(data, i, j, k, f(i, j, k));
+        }
+    }
+    return {
+        transform: { kind: 'matrix', matrix: Mat4.identity() },
+        cells: Tensor.create(space, data),
+        stats: { min: 0, max: 0, mean: 0, sigma: 0 }
+    };
+}
+
+describe('grid', () => {
+    it('interpolated value', () => {
+        // trilinear interpolation reproduces linear functions
+        const grid = createGrid([4, 5, 6], (i, j, k) => i + 2 * j - 3 * k);
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(1, 2, 3))).toBeCloseTo(-4, 6);
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(0.5, 1.25, 2.75))).toBeCloseTo(0.5 + 2.5 - 8.25, 6);
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(3, 4, 5))).toBeCloseTo(3 + 8 - 15, 6);
+
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(-0.1, 0, 0))).toBeNaN();
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(0, 0, 5.1))).toBeNaN();
+    });
+
+    it('interpolated value of single layer', () => {
+        const grid = createGrid([3, 1, 3], (i, j, k) => i * k);
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(2, 0, 2))).toBe(4);
+        expect(Grid.getInterpolatedValue(grid, Vec3.create(1.2, 0, 1.9))).toBe(2);
+    });
+
+    it('region stats', () => {
+        const grid = createGrid([4, 4, 4], (i, j, k) => i);
+        expect(Grid.getRegionStats(grid)).toEqual({ min: 0, max: 3, mean: 1.5, rms: Math.sqrt(3.5), count: 64 });
+
+        // cells with 1 <= i <= 2 and 0 <= j, k <= 1
+        const stats = Grid.getRegionStats(grid, Box3D.create(Vec3.create(0.5, -1, -1), Vec3.create(2.5, 1.5, 1)));
+        expect(stats).toEqual({ min: 1, max: 2, mean: 1.5, rms: Math.sqrt(2.5), count: 8 });
+
+        expect(Grid.getRegionStats(grid, Box3D.create(Vec3.create(5, 5, 5), Vec3.create(6, 6, 6))).count).toBe(0);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Box3D, SpacegroupCell } from '../../../mol-math/geometry';
+import { Mat4, Tensor, Vec3 } from '../../../mol-math/linear-algebra';
+import { degToRad } from '../../../mol-math/misc';
+import { to_CCP4 } from '../export/ccp4';
+import { CustomProperties } from '../../custom-property';
+import { combineVolumes, maskVolume, normalizeVolume, resampleVolume, smoothVolume } from '../operations';
+import { Volume } from '../volume';
+
+function createVolume(dim: number[], f: (i: number, j: number, k: number) => number, voxelSize = 1): Volume {
+    // z fastest, to check that results do not depend on the source axis order
+    const space = Tensor.Space(dim, [0, 1, 2], Float32Array);
+    const data = space.create();
+    for (let i = 0; i < dim[0]; ++i) {
+        for (let j = 0; j < dim[1]; ++j) {
+            for (let k = 0; k < dim[2]; ++k) {
+                space.set(data, i, j, k, f(i, j, k));
+            }
+        }
+    }
+    return {
+        grid: {
+            transform: { kind: 'matrix', matrix: Mat4.fromUniformScaling(Mat4(), voxelSize) },
+            cells: Tensor.create(space, data),
+            stats: { min: 0, max: 0, mean: 0, sigma: 0 },
+        },
+        sourceData: { kind: '', name: '', data: {} },
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+}
+
+function get(volume: Volume, i: number, j: number, k: number) {
+    const { space, data } = volume.grid.cells;
+    return space.get(data, i, j, k);
+}
+
+describe('volume operations', () => {
+    it('combine', async () => {
+        const a = createVolume([3, 4, 5], (i, j, k) => i + 10 * j + 100 * k);
+        const b = createVolume([3, 4, 5], () => 1);
+
+        const diff = await combineVolumes(a, b, 'difference').run();
+        expect(get(diff, 2, 3, 4)).toBe(431);
+        expect(diff.grid.stats.min).toBe(-1);
+
+        const sum = await combineVolumes(a, b, 'sum').run();
+        expect(get(sum, 1, 0, 2)).toBe(202);
+
+        const c = createVolume([3, 4, 5], () => 1, 2);
+        await expect(combineVolumes(a, c, 'sum').run()).rejects.toThrow();
+    });
+
+    it('smooth', async () => {
+        const a = createVolume([9, 9, 9], (i, j, k) => i === 4 && j === 4 && k === 4 ? 1 : 0);
+        const s = await smoothVolume(a, 1).run();
+
+        let sum = 0;
+        for (let i = 0; i < s.grid.cells.data.length; ++i) sum += s.grid.cells.data[i];
+        expect(sum).toBeCloseTo(1, 4);
+        expect(get(s, 4, 4, 4)).toBeLessThan(1);
+        expect(get(s, 4, 4, 4)).toBeGreaterThan(get(s, 5, 4, 4));
+        expect(get(s, 5, 4, 4)).toBeCloseTo(get(s, 4, 3, 4), 6);
+    });
+
+    it('resample', async () => {
+        const a = createVolume([5, 5, 5], (i, j, k) => i + j + k);
+        const r = await resampleVolume(a, 0.5).run();
+
+        expect(r.grid.cells.space.dimensions).toEqual([9, 9, 9]);
+        expect(get(r, 1, 0, 0)).toBeCloseTo(0.5);
+        expect(get(r, 8, 8, 8)).toBeCloseTo(12);
+        expect(r.grid.transform.kind === 'matrix' && r.grid.transform.matrix[0]).toBe(0.5);
+    });
+
+    it('resample spacegroup', async () => {
+        const a = createVolume([10, 12, 14], (i, j, k) => i + j + k);
+        const cell = SpacegroupCell.create('P 1', Vec3.create(10, 12, 14), Vec3.create(degToRad(70), degToRad(80), degToRad(100)));
+        const volume: Volume = { ...a, grid: { ...a.grid, transform: { kind: 'spacegroup', cell, fractionalBox: Box3D.create(Vec3.create(0, 0, 0), Vec3.create(1, 1, 1)) } } };
+
+        // 1.1 does not divide the cell edges, the steps become 10 / 9, 12 / 11 and 14 / 13
+        const r = await resampleVolume(volume, 1.1).run();
+        expect(r.grid.cells.space.dimensions).toEqual([9, 11, 13]);
+        if (r.grid.transform.kind !== 'spacegroup') throw new Error('expected spacegroup transform');
+        expect(r.grid.transform.cell).toBe(cell);
+        for (let i = 0; i < 3; ++i) expect(r.grid.transform.fractionalBox.max[i]).toBeCloseTo(1);
+        expect(get(r, 1, 0, 0)).toBeCloseTo(10 / 9);
+
+        // skewed cells can be written as CCP4
+        expect(() => to_CCP4(r)).not.toThrow();
+    });
+
+    it('mask', async () => {
+        const a = createVolume([10, 10, 10], () => 1);
+        const positions = { x: [2], y: [2], z: [2] };
+
+        const m = await maskVolume(a, positions, 1.5).run();
+        expect(get(m, 2, 2, 2)).toBe(1);
+        expect(get(m, 3, 3, 2)).toBe(1);
+        expect(get(m, 3, 3, 3)).toBe(0);
+        expect(get(m, 8, 8, 8)).toBe(0);
+
+        const inv = await maskVolume(a, positions, 1.5, true).run();
+        expect(get(inv, 2, 2, 2)).toBe(0);
+        expect(get(inv, 8, 8, 8)).toBe(1);
+    });
+
+    it('normalize', async () => {
+        const a = createVolume([4, 4, 4], (i, j, k) => 5 + 2 * ((i + j + k) % 2));
+        const n = await normalizeVolume(a).run();
+
+        expect(n.grid.stats.mean).toBeCloseTo(0);
+        expect(n.grid.stats.sigma).toBeCloseTo(1);
+        expect(get(n, 0, 0, 0)).toBeCloseTo(-1);
+    });
+});
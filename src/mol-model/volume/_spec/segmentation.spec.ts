@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { OrderedSet } from '../../../mol-data/int';
+import { Mat4, Tensor, Vec3 } from '../../../mol-math/linear-algebra';
+import { Color } from '../../../mol-util/color';
+import { CustomProperties } from '../../custom-property';
+import { Volume } from '../volume';
+
+function createLabelMap(): Volume {
+    const dim = [6, 5, 4];
+    const space = Tensor.Space(dim, [2, 1, 0], Float32Array);
+    const data = space.create();
+    // segment 7 is a single cell, segment 3 a 2x3x1 block touching the grid boundary
+    space.set(data, 1, 1, 1, 7);
+    for (let i = 4; i < 6; ++i) {
+        for (let j = 2; j < 5; ++j) space.set(data, i, j, 3, 3);
+    }
+    return {
+        grid: {
+            transform: { kind: 'matrix', matrix: Mat4.fromUniformScaling(Mat4(), 2) },
+            cells: Tensor.create(space, data),
+            stats: { min: 0, max: 7, mean: 0, sigma: 0 },
+        },
+        sourceData: { kind: '', name: '', data: {} },
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+}
+
+describe('volume segmentation', () => {
+    it('create', () => {
+        const volume = createLabelMap();
+        const { segments, index, bounds } = Volume.Segmentation.create(volume.grid, [
+            { id: 7, label: 'Ribosome', color: Color(0xff0000) },
+            { id: 9, label: 'Missing' },
+        ]);
+
+        expect(segments.map(s => s.id)).toEqual([3, 7]);
+        expect(segments[0].label).toBe('Segment 3');
+        expect(segments[1].label).toBe('Ribosome');
+        expect(segments[1].color).toBe(Color(0xff0000));
+        expect(index.get(7)).toBe(1);
+        expect(index.has(9)).toBe(false);
+
+        expect(Vec3.exactEquals(bounds[0].min, Vec3.create(4, 2, 3))).toBe(true);
+        expect(Vec3.exactEquals(bounds[0].max, Vec3.create(5, 4, 3))).toBe(true);
+        expect(Vec3.exactEquals(bounds[1].min, bounds[1].max)).toBe(true);
+    });
+
+    it('loci', () => {
+        const volume = createLabelMap();
+        const segmented: Volume = { ...volume, segmentation: Volume.Segmentation.create(volume.grid) };
+
+        const loci = Volume.Segment.Loci(segmented, OrderedSet.ofSingleton(1));
+        expect(Volume.Segment.isLoci(loci)).toBe(true);
+        expect(Volume.Segment.isLociEmpty(loci)).toBe(false);
+        expect(Volume.Segment.areLociEqual(loci, Volume.Segment.Loci(segmented, OrderedSet.ofSingleton(1)))).toBe(true);
+
+        // single cell at (1, 1, 1) is enclosed by (1, 1, 1) to (3, 3, 3) in cartesian space
+        const sphere = Volume.Segment.getBoundingSphere(segmented, loci.segments);
+        expect(Vec3.exactEquals(sphere.center, Vec3.create(2, 2, 2))).toBe(true);
+        expect(sphere.radius).toBeCloseTo(Math.sqrt(3));
+    });
+});
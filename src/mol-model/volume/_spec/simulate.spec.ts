@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Mat4, Vec3 } from '../../../mol-math/linear-algebra';
+import { Grid } from '../grid';
+import { simulateDensity } from '../simulate';
+import { Volume } from '../volume';
+
+function getValueAt(volume: Volume, p: Vec3) {
+    const { space, data } = volume.grid.cells;
+    const c = Vec3.transformMat4(Vec3(), p, Mat4.invert(Mat4(), Grid.getGridToCartesianTransform(volume.grid)));
+    return space.get(data, Math.round(c[0]), Math.round(c[1]), Math.round(c[2]));
+}
+
+function getSum(volume: Volume) {
+    let sum = 0;
+    for (let i = 0, il = volume.grid.cells.data.length; i < il; ++i) sum += volume.grid.cells.data[i];
+    return sum;
+}
+
+describe('simulate density', () => {
+    const carbon = { x: [1], y: [2], z: [3], element: ['C'] };
+
+    it('electron count', async () => {
+        const voxelSize = 0.5;
+        const volume = await simulateDensity(carbon, { resolution: 3, voxelSize }).run();
+
+        // f(0) of carbon, slightly less due to the cutoff
+        const electrons = getSum(volume) * Math.pow(voxelSize, 3);
+        expect(electrons).toBeGreaterThan(5.5);
+        expect(electrons).toBeLessThan(6.01);
+
+        expect(volume.grid.stats.max).toBe(getValueAt(volume, Vec3.create(1, 2, 3)));
+        expect(getValueAt(volume, Vec3.create(2, 2, 3))).toBeCloseTo(getValueAt(volume, Vec3.create(1, 2, 2)), 6);
+    });
+
+    it('resolution', async () => {
+        const high = await simulateDensity(carbon, { resolution: 2, voxelSize: 0.5 }).run();
+        const low = await simulateDensity(carbon, { resolution: 6, voxelSize: 0.5 }).run();
+
+        expect(high.grid.stats.max).toBeGreaterThan(low.grid.stats.max);
+        expect(low.grid.cells.data.length).toBeGreaterThan(high.grid.cells.data.length);
+    });
+
+    it('elements', async () => {
+        const sulfur = await simulateDensity({ ...carbon, element: ['S'] }, { resolution: 3, voxelSize: 0.5 }).run();
+        const iron = await simulateDensity({ ...carbon, element: ['Fe'] }, { resolution: 3, voxelSize: 0.5 }).run();
+
+        expect(getSum(sulfur) * Math.pow(0.5, 3)).toBeGreaterThan(14);
+        expect(getSum(iron) * Math.pow(0.5, 3)).toBeGreaterThan(24);
+    });
+});
@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Mat4, Tensor } from '../../../mol-math/linear-algebra';
+import { CustomProperties } from '../../custom-property';
+import { ArrayVolumeTrajectory } from '../trajectory';
+import { Volume } from '../volume';
+
+function createVolume(label: string): Volume {
+    const space = Tensor.Space([2, 2, 2], [0, 1, 2], Float32Array);
+    return {
+        label,
+        grid: {
+            transform: { kind: 'matrix', matrix: Mat4.identity() },
+            cells: Tensor.create(space, space.create()),
+            stats: { min: 0, max: 0, mean: 0, sigma: 0 },
+        },
+        sourceData: { kind: '', name: '', data: {} },
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+}
+
+describe('volume trajectory', () => {
+    it('array', () => {
+        const frames = ['a', 'b', 'c'].map(createVolume);
+        const trajectory = new ArrayVolumeTrajectory(frames);
+        expect(trajectory.frameCount).toBe(3);
+        expect(trajectory.representative).toBe(frames[0]);
+        expect(trajectory.getFrameAtIndex(2)).toBe(frames[2]);
+    });
+
+    it('empty array', () => {
+        expect(() => new ArrayVolumeTrajectory([])).toThrow();
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Ccp4Writer } from '../../../mol-io/writer/ccp4';
+import { Ccp4Encoder, Ccp4GridHeader } from '../../../mol-io/writer/ccp4/encoder';
+import { Box3D } from '../../../mol-math/geometry';
+import { SpacegroupNumber } from '../../../mol-math/geometry/spacegroup/tables';
+import { Mat4, Vec3 } from '../../../mol-math/linear-algebra';
+import { radToDeg } from '../../../mol-math/misc';
+import { Grid } from '../grid';
+import { Volume } from '../volume';
+
+export interface Ccp4ExportParams {
+    /** Cartesian box to cut out of the grid, the whole grid is written when not given */
+    box?: Box3D
+}
+
+/** Returns the `[start, end)` cell index range along each axis that covers the cartesian box */
+export function getGridRegion(grid: Grid, box?: Box3D) {
+    const dim = grid.cells.space.dimensions;
+    const start = Vec3.create(0, 0, 0);
+    const end = Vec3.create(dim[0], dim[1], dim[2]);
+    if (!box) return { start, end };
+
+    const cartnToGrid = Mat4.invert(Mat4(), Grid.getGridToCartesianTransform(grid));
+    const min = Vec3.create(Infinity, Infinity, Infinity);
+    const max = Vec3.create(-Infinity, -Infinity, -Infinity);
+    const p = Vec3();
+    for (let i = 0; i < 8; ++i) {
+        Vec3.set(p,
+            i & 1 ? box.max[0] : box.min[0],
+            i & 2 ? box.max[1] : box.min[1],
+            i & 4 ? box.max[2] : box.min[2]
+        );
+        Vec3.transformMat4(p, p, cartnToGrid);
+        Vec3.min(min, min, p);
+        Vec3.max(max, max, p);
+    }
+
+    // tolerance for box corners that are on grid points up to round-off
+    const eps = 1e-3;
+    for (let i = 0; i < 3; ++i) {
+        start[i] = Math.min(dim[i], Math.max(0, Math.floor(min[i] + eps)));
+        end[i] = Math.max(start[i], Math.min(dim[i], Math.ceil(max[i] - eps) + 1));
+    }
+    return { start, end };
+}
+
+function getHeader(grid: Grid, start: Vec3, end: Vec3): Ccp4GridHeader {
+    const extent = Vec3.sub(Vec3(), end, start);
+    const axisOrder = { MAPC: 1, MAPR: 2, MAPS: 3 };
+
+    if (grid.transform.kind === 'spacegroup') {
+        const { cell, fractionalBox } = grid.transform;
+        const dim = grid.cells.space.dimensions;
+        const fracSize = Box3D.size(Vec3(), fractionalBox);
+        const n = Vec3.create(
+            Math.round(dim[0] / fracSize[0]),
+            Math.round(dim[1] / fracSize[1]),
+            Math.round(dim[2] / fracSize[2])
+        );
+        const origin = Vec3.create(
+            fractionalBox.min[0] * n[0] + start[0],
+            fractionalBox.min[1] * n[1] + start[1],
+            fractionalBox.min[2] * n[2] + start[2]
+        );
+        const angles = cell.anglesInRadians;
+        // fractional grid origins can only be expressed with the MRC origin records
+        const isIntegral = Vec3.equals(origin, Vec3.round(Vec3(), origin));
+        return {
+            NC: extent[0], NR: extent[1], NS: extent[2],
+            NCSTART: Math.round(origin[0]), NRSTART: Math.round(origin[1]), NSSTART: Math.round(origin[2]),
+            NX: n[0], NY: n[1], NZ: n[2],
+            xLength: cell.size[0], yLength: cell.size[1], zLength: cell.size[2],
+            alpha: radToDeg(angles[0]), beta: radToDeg(angles[1]), gamma: radToDeg(angles[2]),
+            ...axisOrder,
+            ISPG: SpacegroupNumber[cell.index],
+            originX: isIntegral ? 0 : origin[0] * cell.size[0] / n[0],
+            originY: isIntegral ? 0 : origin[1] * cell.size[1] / n[1],
+            originZ: isIntegral ? 0 : origin[2] * cell.size[2] / n[2],
+        };
+    }
+
+    const { matrix } = grid.transform;
+    if (matrix[1] !== 0 || matrix[2] !== 0 || matrix[4] !== 0 || matrix[6] !== 0 || matrix[8] !== 0 || matrix[9] !== 0) {
+        throw new Error('Only grids with axis-aligned transforms can be written as CCP4.');
+    }
+
+    const origin = Vec3.transformMat4(Vec3(), start, matrix);
+    return {
+        NC: extent[0], NR: extent[1], NS: extent[2],
+        NCSTART: 0, NRSTART: 0, NSSTART: 0,
+        NX: extent[0], NY: extent[1], NZ: extent[2],
+        xLength: matrix[0] * extent[0], yLength: matrix[5] * extent[1], zLength: matrix[10] * extent[2],
+        alpha: 90, beta: 90, gamma: 90,
+        ...axisOrder,
+        ISPG: 1,
+        originX: origin[0], originY: origin[1], originZ: origin[2],
+    };
+}
+
+/**
+ * Writes the volume grid, or the part of it within `params.box`, with x as the fastest axis.
+ * Throws when the box does not overlap the grid.
+ */
+export function encode_CCP4(encoder: Ccp4Encoder, volume: Volume, params?: Ccp4ExportParams) {
+    const { grid } = volume;
+    const { start, end } = getGridRegion(grid, params?.box);
+    if (start[0] === end[0] || start[1] === end[1] || start[2] === end[2]) {
+        throw new Error('The export region does not overlap the volume.');
+    }
+    const header = getHeader(grid, start, end);
+
+    const { space, data } = grid.cells;
+    const values = new Float32Array(header.NC * header.NR * header.NS);
+    let o = 0;
+    for (let k = start[2]; k < end[2]; ++k) {
+        for (let j = start[1]; j < end[1]; ++j) {
+            for (let i = start[0]; i < end[0]; ++i) {
+                values[o++] = space.get(data, i, j, k);
+            }
+        }
+    }
+
+    encoder.writeMap(header, values);
+}
+
+export function to_CCP4(volume: Volume, params?: Ccp4ExportParams) {
+    const encoder = Ccp4Writer.createEncoder();
+    encode_CCP4(encoder, volume, params);
+    return encoder.getData();
+}
@@ -62,6 +62,26 @@ namespace Grid {
         return Sphere3D.fromDimensionsAndTransform(boundingSphere, dimensions, transform);
     }
 
+    /** Trilinear interpolation of the cell values at the given grid coordinates, NaN outside of the grid */
+    export function getInterpolatedValue(grid: Grid, coords: Vec3) {
+        const { space, data } = grid.cells;
+        const [nx, ny, nz] = space.dimensions;
+
+        const x = coords[0], y = coords[1], z = coords[2];
+        if (x < 0 || y < 0 || z < 0 || x > nx - 1 || y > ny - 1 || z > nz - 1) return NaN;
+
+        const x0 = Math.min(Math.floor(x), nx - 2), y0 = Math.min(Math.floor(y), ny - 2), z0 = Math.min(Math.floor(z), nz - 2);
+        // grids with a single layer along an axis
+        if (x0 < 0 || y0 < 0 || z0 < 0) return space.get(data, Math.round(x), Math.round(y), Math.round(z));
+
+        const fx = x - x0, fy = y - y0, fz = z - z0;
+        const c00 = space.get(data, x0, y0, z0) * (1 - fx) + space.get(data, x0 + 1, y0, z0) * fx;
+        const c10 = space.get(data, x0, y0 + 1, z0) * (1 - fx) + space.get(data, x0 + 1, y0 + 1, z0) * fx;
+        const c01 = space.get(data, x0, y0, z0 + 1) * (1 - fx) + space.get(data, x0 + 1, y0, z0 + 1) * fx;
+        const c11 = space.get(data, x0, y0 + 1, z0 + 1) * (1 - fx) + space.get(data, x0 + 1, y0 + 1, z0 + 1) * fx;
+        return (c00 * (1 - fy) + c10 * fy) * (1 - fz) + (c01 * (1 - fy) + c11 * fy) * fz;
+    }
+
     /**
      * Compute histogram with given bin count.
      * Cached on the Grid object.
@@ -76,6 +96,61 @@ namespace Grid {
         }
         return histograms[binCount];
     }
+
+    export interface RegionStats {
+        min: number,
+        max: number,
+        mean: number,
+        rms: number,
+        /** Number of cells in the region */
+        count: number
+    }
+
+    function calcRegionStats(grid: Grid, min: Vec3, max: Vec3): RegionStats {
+        const { space, data } = grid.cells;
+        let count = 0, sum = 0, sumSq = 0;
+        let vMin = Number.MAX_VALUE, vMax = -Number.MAX_VALUE;
+        for (let i = min[0]; i <= max[0]; ++i) {
+            for (let j = min[1]; j <= max[1]; ++j) {
+                for (let k = min[2]; k <= max[2]; ++k) {
+                    const v = space.get(data, i, j, k);
+                    if (v < vMin) vMin = v;
+                    if (v > vMax) vMax = v;
+                    sum += v;
+                    sumSq += v * v;
+                    count += 1;
+                }
+            }
+        }
+        if (count === 0) return { min: 0, max: 0, mean: 0, rms: 0, count };
+        return { min: vMin, max: vMax, mean: sum / count, rms: Math.sqrt(sumSq / count), count };
+    }
+
+    const _corner = Vec3();
+    /**
+     * Compute min, max, mean and RMS of the cells within the given cartesian box
+     * or of all cells if no box is given.
+     * The latter is cached on the Grid object.
+     */
+    export function getRegionStats(grid: Grid, box?: Box3D): RegionStats {
+        const [nx, ny, nz] = grid.cells.space.dimensions;
+        if (!box) {
+            if (!(grid as any)._regionStats) {
+                (grid as any)._regionStats = calcRegionStats(grid, Vec3.create(0, 0, 0), Vec3.create(nx - 1, ny - 1, nz - 1));
+            }
+            return (grid as any)._regionStats;
+        }
+
+        const cartnToGrid = Mat4.invert(Mat4(), getGridToCartesianTransform(grid));
+        const gridBox = Box3D.setEmpty(Box3D());
+        for (let i = 0; i < 8; ++i) {
+            Vec3.set(_corner, i & 1 ? box.max[0] : box.min[0], i & 2 ? box.max[1] : box.min[1], i & 4 ? box.max[2] : box.min[2]);
+            Box3D.add(gridBox, Vec3.transformMat4(_corner, _corner, cartnToGrid));
+        }
+        const min = Vec3.create(Math.max(0, Math.ceil(gridBox.min[0])), Math.max(0, Math.ceil(gridBox.min[1])), Math.max(0, Math.ceil(gridBox.min[2])));
+        const max = Vec3.create(Math.min(nx - 1, Math.floor(gridBox.max[0])), Math.min(ny - 1, Math.floor(gridBox.max[1])), Math.min(nz - 1, Math.floor(gridBox.max[2])));
+        return calcRegionStats(grid, min, max);
+    }
 }
 
 export { Grid };
\ No newline at end of file
@@ -0,0 +1,294 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Box3D } from '../../mol-math/geometry';
+import { Mat4, Tensor, Vec3 } from '../../mol-math/linear-algebra';
+import { RuntimeContext, Task } from '../../mol-task';
+import { arrayMax, arrayMean, arrayMin, arrayRms } from '../../mol-util/array';
+import { CustomProperties } from '../custom-property';
+import { Grid } from './grid';
+import { Volume } from './volume';
+
+const updateChunk = 100000;
+
+function getStats(values: ArrayLike<number>): Grid['stats'] {
+    return { min: arrayMin(values), max: arrayMax(values), mean: arrayMean(values), sigma: arrayRms(values) };
+}
+
+function createVolume(source: Volume, transform: Grid.Transform, cells: Tensor): Volume {
+    return {
+        label: source.label,
+        entryId: source.entryId,
+        grid: { transform, cells, stats: getStats(cells.data) },
+        sourceData: source.sourceData,
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+}
+
+/** Voxel size along each grid axis, i.e. the lengths of the grid-to-cartesian basis vectors */
+function getVoxelSize(gridToCartn: Mat4) {
+    return Vec3.create(
+        Math.hypot(gridToCartn[0], gridToCartn[1], gridToCartn[2]),
+        Math.hypot(gridToCartn[4], gridToCartn[5], gridToCartn[6]),
+        Math.hypot(gridToCartn[8], gridToCartn[9], gridToCartn[10])
+    );
+}
+
+/** Copies the cells into an array with x as the fastest and z as the slowest axis */
+function getCanonicalValues(grid: Grid) {
+    const { space, data } = grid.cells;
+    const [nx, ny, nz] = space.dimensions;
+    const values = new Float32Array(nx * ny * nz);
+    let o = 0;
+    for (let k = 0; k < nz; ++k) {
+        for (let j = 0; j < ny; ++j) {
+            for (let i = 0; i < nx; ++i) {
+                values[o++] = space.get(data, i, j, k);
+            }
+        }
+    }
+    return values;
+}
+
+function createCanonicalTensor(dim: ArrayLike<number>, values: Float32Array) {
+    return Tensor.create(Tensor.Space([dim[0], dim[1], dim[2]], [2, 1, 0], Float32Array), Tensor.Data1(values));
+}
+
+export function areGridsCompatible(a: Grid, b: Grid) {
+    const dimA = a.cells.space.dimensions, dimB = b.cells.space.dimensions;
+    if (dimA[0] !== dimB[0] || dimA[1] !== dimB[1] || dimA[2] !== dimB[2]) return false;
+    return Mat4.areEqual(Grid.getGridToCartesianTransform(a), Grid.getGridToCartesianTransform(b), 1e-3);
+}
+
+export type VolumeArithmeticOperation = 'sum' | 'difference'
+
+/** Cell-wise sum or difference (`a - b`) of two volumes on the same grid */
+export function combineVolumes(a: Volume, b: Volume, operation: VolumeArithmeticOperation): Task<Volume> {
+    return Task.create('Combine Volumes', async ctx => {
+        if (!areGridsCompatible(a.grid, b.grid)) {
+            throw new Error('Volumes must be defined on the same grid.');
+        }
+
+        const { space, data } = a.grid.cells;
+        const [nx, ny, nz] = space.dimensions;
+        const sign = operation === 'sum' ? 1 : -1;
+        const values = new Float32Array(nx * ny * nz);
+        let o = 0;
+        for (let k = 0; k < nz; ++k) {
+            for (let j = 0; j < ny; ++j) {
+                for (let i = 0; i < nx; ++i) {
+                    values[o++] = space.get(data, i, j, k) + sign * b.grid.cells.space.get(b.grid.cells.data, i, j, k);
+                }
+            }
+            if (ctx.shouldUpdate) await ctx.update({ message: 'Combining volumes', current: k, max: nz });
+        }
+
+        return createVolume(a, a.grid.transform, createCanonicalTensor(space.dimensions, values));
+    });
+}
+
+function getGaussianKernel(sigma: number) {
+    const radius = Math.max(1, Math.ceil(3 * sigma));
+    const kernel = new Float32Array(2 * radius + 1);
+    let sum = 0;
+    for (let i = -radius; i <= radius; ++i) {
+        const v = Math.exp(-(i * i) / (2 * sigma * sigma));
+        kernel[i + radius] = v;
+        sum += v;
+    }
+    for (let i = 0; i < kernel.length; ++i) kernel[i] /= sum;
+    return { kernel, radius };
+}
+
+async function convolveAxis(ctx: RuntimeContext, src: Float32Array, dst: Float32Array, dim: ArrayLike<number>, axis: number, sigma: number) {
+    const nx = dim[0], ny = dim[1], nz = dim[2];
+    const stride = axis === 0 ? 1 : axis === 1 ? nx : nx * ny;
+    const n = dim[axis];
+    const { kernel, radius } = getGaussianKernel(sigma);
+
+    let o = 0;
+    for (let k = 0; k < nz; ++k) {
+        for (let j = 0; j < ny; ++j) {
+            for (let i = 0; i < nx; ++i) {
+                const p = axis === 0 ? i : axis === 1 ? j : k;
+                let v = 0;
+                for (let l = -radius; l <= radius; ++l) {
+                    // clamp to the border cells
+                    const q = Math.min(n - 1, Math.max(0, p + l));
+                    v += kernel[l + radius] * src[o + (q - p) * stride];
+                }
+                dst[o++] = v;
+            }
+        }
+        if (ctx.shouldUpdate) await ctx.update({ message: 'Smoothing volume', current: axis * nz + k, max: 3 * nz });
+    }
+}
+
+/** Gaussian smoothing with the standard deviation given in Angstrom */
+export function smoothVolume(volume: Volume, sigma: number): Task<Volume> {
+    return Task.create('Smooth Volume', async ctx => {
+        const { grid } = volume;
+        const dim = grid.cells.space.dimensions;
+        const voxelSize = getVoxelSize(Grid.getGridToCartesianTransform(grid));
+
+        let src = getCanonicalValues(grid);
+        let dst = new Float32Array(src.length);
+        for (let axis = 0; axis < 3; ++axis) {
+            const s = sigma / voxelSize[axis];
+            if (s <= 0) continue;
+            await convolveAxis(ctx, src, dst, dim, axis, s);
+            [src, dst] = [dst, src];
+        }
+
+        return createVolume(volume, grid.transform, createCanonicalTensor(dim, src));
+    });
+}
+
+function getResampledTransform(grid: Grid, step: Vec3, dim: Vec3): Grid.Transform {
+    if (grid.transform.kind === 'spacegroup') {
+        const { cell, fractionalBox } = grid.transform;
+        const fracSize = Box3D.size(Vec3(), fractionalBox);
+        const max = Vec3();
+        for (let i = 0; i < 3; ++i) {
+            max[i] = fractionalBox.min[i] + dim[i] * step[i] * fracSize[i] / grid.cells.space.dimensions[i];
+        }
+        return { kind: 'spacegroup', cell, fractionalBox: Box3D.create(Vec3.clone(fractionalBox.min), max) };
+    }
+
+    const matrix = Mat4.mul(Mat4(), Grid.getGridToCartesianTransform(grid), Mat4.fromScaling(Mat4(), step));
+    return { kind: 'matrix', matrix };
+}
+
+/**
+ * Trilinear resampling of the grid to the given voxel size in Angstrom. Grids with a
+ * spacegroup transform keep it, with the voxel size adjusted to fit a whole number of
+ * voxels into the unit cell, so that skewed cells can still be written as CCP4.
+ */
+export function resampleVolume(volume: Volume, voxelSize: number): Task<Volume> {
+    return Task.create('Resample Volume', async ctx => {
+        if (voxelSize <= 0) throw new Error('Voxel size must be positive.');
+
+        const { grid } = volume;
+        const { space, data } = grid.cells;
+        const [nx, ny, nz] = space.dimensions;
+        const gridToCartn = Grid.getGridToCartesianTransform(grid);
+        const oldVoxelSize = getVoxelSize(gridToCartn);
+
+        // step in old grid units per new cell
+        const step = Vec3.create(voxelSize / oldVoxelSize[0], voxelSize / oldVoxelSize[1], voxelSize / oldVoxelSize[2]);
+        if (grid.transform.kind === 'spacegroup') {
+            const fracSize = Box3D.size(Vec3(), grid.transform.fractionalBox);
+            for (let i = 0; i < 3; ++i) {
+                const cellCount = space.dimensions[i] / fracSize[i];
+                step[i] = cellCount / Math.max(1, Math.round(cellCount / step[i]));
+            }
+        }
+        const dim = Vec3.create(
+            Math.floor((nx - 1) / step[0]) + 1,
+            Math.floor((ny - 1) / step[1]) + 1,
+            Math.floor((nz - 1) / step[2]) + 1
+        );
+
+        const get = (i: number, j: number, k: number) => space.get(data, Math.min(i, nx - 1), Math.min(j, ny - 1), Math.min(k, nz - 1));
+        const values = new Float32Array(dim[0] * dim[1] * dim[2]);
+        let o = 0;
+        for (let k = 0; k < dim[2]; ++k) {
+            const z = k * step[2], z0 = Math.floor(z), tz = z - z0;
+            for (let j = 0; j < dim[1]; ++j) {
+                const y = j * step[1], y0 = Math.floor(y), ty = y - y0;
+                for (let i = 0; i < dim[0]; ++i) {
+                    const x = i * step[0], x0 = Math.floor(x), tx = x - x0;
+                    const c00 = get(x0, y0, z0) * (1 - tx) + get(x0 + 1, y0, z0) * tx;
+                    const c10 = get(x0, y0 + 1, z0) * (1 - tx) + get(x0 + 1, y0 + 1, z0) * tx;
+                    const c01 = get(x0, y0, z0 + 1) * (1 - tx) + get(x0 + 1, y0, z0 + 1) * tx;
+                    const c11 = get(x0, y0 + 1, z0 + 1) * (1 - tx) + get(x0 + 1, y0 + 1, z0 + 1) * tx;
+                    values[o++] = (c00 * (1 - ty) + c10 * ty) * (1 - tz) + (c01 * (1 - ty) + c11 * ty) * tz;
+                }
+            }
+            if (ctx.shouldUpdate) await ctx.update({ message: 'Resampling volume', current: k, max: dim[2] });
+        }
+
+        return createVolume(volume, getResampledTransform(grid, step, dim), createCanonicalTensor(dim, values));
+    });
+}
+
+export interface VolumeMaskPositions {
+    readonly x: ArrayLike<number>
+    readonly y: ArrayLike<number>
+    readonly z: ArrayLike<number>
+}
+
+/** Sets all cells further than `radius` Angstrom from any of the positions to zero, or the ones within when inverted */
+export function maskVolume(volume: Volume, positions: VolumeMaskPositions, radius: number, invert = false): Task<Volume> {
+    return Task.create('Mask Volume', async ctx => {
+        const { grid } = volume;
+        const dim = grid.cells.space.dimensions;
+        const [nx, ny, nz] = dim;
+        const gridToCartn = Grid.getGridToCartesianTransform(grid);
+        const cartnToGrid = Mat4.invert(Mat4(), gridToCartn);
+
+        // extent of a sphere along each grid axis is the radius times the length of the inverse matrix rows
+        const extent = Vec3.create(
+            radius * Math.hypot(cartnToGrid[0], cartnToGrid[4], cartnToGrid[8]),
+            radius * Math.hypot(cartnToGrid[1], cartnToGrid[5], cartnToGrid[9]),
+            radius * Math.hypot(cartnToGrid[2], cartnToGrid[6], cartnToGrid[10])
+        );
+
+        const mask = new Uint8Array(nx * ny * nz);
+        const p = Vec3(), g = Vec3(), c = Vec3();
+        const r2 = radius * radius;
+        const { x, y, z } = positions;
+        for (let a = 0, al = x.length; a < al; ++a) {
+            Vec3.set(p, x[a], y[a], z[a]);
+            Vec3.transformMat4(g, p, cartnToGrid);
+            const i0 = Math.max(0, Math.ceil(g[0] - extent[0])), i1 = Math.min(nx - 1, Math.floor(g[0] + extent[0]));
+            const j0 = Math.max(0, Math.ceil(g[1] - extent[1])), j1 = Math.min(ny - 1, Math.floor(g[1] + extent[1]));
+            const k0 = Math.max(0, Math.ceil(g[2] - extent[2])), k1 = Math.min(nz - 1, Math.floor(g[2] + extent[2]));
+            for (let k = k0; k <= k1; ++k) {
+                for (let j = j0; j <= j1; ++j) {
+                    for (let i = i0; i <= i1; ++i) {
+                        const o = i + nx * (j + ny * k);
+                        if (mask[o]) continue;
+                        Vec3.transformMat4(c, Vec3.set(c, i, j, k), gridToCartn);
+                        if (Vec3.squaredDistance(c, p) <= r2) mask[o] = 1;
+                    }
+                }
+            }
+            if (a % updateChunk === 0 && ctx.shouldUpdate) await ctx.update({ message: 'Masking volume', current: a, max: al });
+        }
+
+        const values = getCanonicalValues(grid);
+        const keep = invert ? 0 : 1;
+        for (let i = 0, il = values.length; i < il; ++i) {
+            if (mask[i] !== keep) values[i] = 0;
+        }
+
+        return createVolume(volume, grid.transform, createCanonicalTensor(dim, values));
+    });
+}
+
+/** Shifts and scales the values to zero mean and unit standard deviation */
+export function normalizeVolume(volume: Volume): Task<Volume> {
+    return Task.create('Normalize Volume', async () => {
+        const { grid } = volume;
+        const values = getCanonicalValues(grid);
+        const mean = arrayMean(values);
+        let sumSq = 0;
+        for (let i = 0, il = values.length; i < il; ++i) {
+            const d = values[i] - mean;
+            sumSq += d * d;
+        }
+        const sigma = Math.sqrt(sumSq / values.length);
+        if (sigma === 0) throw new Error('Cannot normalize a volume with constant values.');
+
+        for (let i = 0, il = values.length; i < il; ++i) {
+            values[i] = (values[i] - mean) / sigma;
+        }
+
+        return createVolume(volume, grid.transform, createCanonicalTensor(grid.cells.space.dimensions, values));
+    });
+}
@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Mat4, Tensor, Vec3 } from '../../mol-math/linear-algebra';
+import { Task } from '../../mol-task';
+import { arrayMax, arrayMean, arrayMin, arrayRms } from '../../mol-util/array';
+import { CustomProperties } from '../custom-property';
+import { Volume } from './volume';
+
+/**
+ * Cromer-Mann coefficients `[a1, b1, a2, b2, a3, b3, a4, b4, c]` of the X-ray form factor
+ * f(s) = sum(a_i * exp(-b_i * s^2)) + c with s = sin(theta) / lambda,
+ * from International Tables for Crystallography Vol. C, Table 6.1.1.4
+ */
+const FormFactors: { [e: string]: number[] } = {
+    H: [0.489918, 20.6593, 0.262003, 7.74039, 0.196767, 49.5519, 0.049879, 2.20159, 0.001305],
+    C: [2.31000, 20.8439, 1.02000, 10.2075, 1.58860, 0.568700, 0.865000, 51.6512, 0.215600],
+    N: [12.2126, 0.005700, 3.13220, 9.89330, 2.01250, 28.9975, 1.16630, 0.582600, -11.529],
+    O: [3.04850, 13.2771, 2.28680, 5.70110, 1.54630, 0.323900, 0.867000, 32.9089, 0.250800],
+    P: [6.43450, 1.90670, 4.17910, 27.1570, 1.78000, 0.526000, 1.49080, 68.1645, 1.11490],
+    S: [6.90530, 1.46790, 5.20340, 22.2151, 1.43790, 0.253600, 1.58630, 56.1720, 0.866900],
+};
+
+const AtomicNumbers: { [e: string]: number } = {
+    H: 1, C: 6, N: 7, O: 8, F: 9, NA: 11, MG: 12, P: 15, S: 16, CL: 17, K: 19, CA: 20,
+    MN: 25, FE: 26, CO: 27, NI: 28, CU: 29, ZN: 30, SE: 34, BR: 35, I: 53,
+};
+
+/** Elements without coefficients are approximated by the carbon form factor scaled by the atomic number */
+function getFormFactor(element: string) {
+    const e = element.toUpperCase();
+    if (FormFactors[e]) return FormFactors[e];
+    const scale = (AtomicNumbers[e] ?? 6) / 6;
+    return FormFactors.C.map((v, i) => i % 2 === 1 ? v : v * scale);
+}
+
+/** B-factor of a gaussian blur matching the given resolution, with sigma = 0.225 * resolution */
+export function getResolutionBFactor(resolution: number) {
+    const sigma = 0.225 * resolution;
+    return 8 * Math.PI * Math.PI * sigma * sigma;
+}
+
+export interface SimulatedDensityAtoms {
+    readonly x: ArrayLike<number>
+    readonly y: ArrayLike<number>
+    readonly z: ArrayLike<number>
+    /** Element symbols, case-insensitive */
+    readonly element: ArrayLike<string>
+    /** Atomic B-factors, added to the resolution dependent B-factor if given */
+    readonly B?: ArrayLike<number>
+}
+
+export interface SimulatedDensityProps {
+    /** Resolution in Å */
+    resolution: number
+    /** Grid spacing in Å */
+    voxelSize: number
+}
+
+const updateChunk = 1000;
+const FourPiSq = 4 * Math.PI * Math.PI;
+/** Distance in units of sigma beyond which the gaussian terms are ignored */
+const Cutoff = 3;
+
+/**
+ * Computes the electron density of the atoms as the sum of their real-space form factors,
+ * each term blurred by the resolution dependent and the atomic B-factor
+ */
+export function simulateDensity(atoms: SimulatedDensityAtoms, props: SimulatedDensityProps): Task<Volume> {
+    return Task.create('Simulate Density', async ctx => {
+        const { x, y, z, element, B } = atoms;
+        const { resolution, voxelSize } = props;
+        const n = x.length;
+        if (n === 0) throw new Error('No atoms to simulate density from.');
+
+        const resolutionB = getResolutionBFactor(resolution);
+
+        // per atom gaussian terms: amplitude and exponent factor for squared distances
+        const terms: { amplitude: Float64Array, exponent: Float64Array, cutoff: number }[] = [];
+        let maxCutoff = 0;
+        for (let i = 0; i < n; ++i) {
+            const f = getFormFactor(element[i]);
+            const b = resolutionB + (B ? Math.max(B[i], 0) : 0);
+            const amplitude = new Float64Array(5);
+            const exponent = new Float64Array(5);
+            let maxB = 0;
+            for (let t = 0; t < 5; ++t) {
+                // the constant term is a delta function, i.e. a gaussian with zero width
+                const a = t < 4 ? f[2 * t] : f[8];
+                const bt = (t < 4 ? f[2 * t + 1] : 0) + b;
+                amplitude[t] = a * Math.pow(4 * Math.PI / bt, 1.5);
+                exponent[t] = -FourPiSq / bt;
+                if (bt > maxB) maxB = bt;
+            }
+            const cutoff = Cutoff * Math.sqrt(maxB / (8 * Math.PI * Math.PI));
+            if (cutoff > maxCutoff) maxCutoff = cutoff;
+            terms[i] = { amplitude, exponent, cutoff };
+        }
+
+        const min = Vec3.create(Infinity, Infinity, Infinity);
+        const max = Vec3.create(-Infinity, -Infinity, -Infinity);
+        for (let i = 0; i < n; ++i) {
+            min[0] = Math.min(min[0], x[i]); max[0] = Math.max(max[0], x[i]);
+            min[1] = Math.min(min[1], y[i]); max[1] = Math.max(max[1], y[i]);
+            min[2] = Math.min(min[2], z[i]); max[2] = Math.max(max[2], z[i]);
+        }
+        Vec3.subScalar(min, min, maxCutoff);
+        Vec3.addScalar(max, max, maxCutoff);
+        Vec3.scale(min, min, 1 / voxelSize);
+        Vec3.floor(min, min);
+        Vec3.scale(min, min, voxelSize);
+
+        const dim = Vec3.sub(Vec3(), max, min);
+        Vec3.scale(dim, dim, 1 / voxelSize);
+        Vec3.ceil(dim, dim);
+        Vec3.addScalar(dim, dim, 1);
+        const [nx, ny, nz] = dim;
+
+        const space = Tensor.Space([nx, ny, nz], [2, 1, 0], Float32Array);
+        const data = space.create();
+
+        for (let i = 0; i < n; ++i) {
+            if (i % updateChunk === 0 && ctx.shouldUpdate) {
+                await ctx.update({ message: 'Accumulating atom densities...', current: i, max: n });
+            }
+
+            const { amplitude, exponent, cutoff } = terms[i];
+            const ax = x[i], ay = y[i], az = z[i];
+            const cutoffSq = cutoff * cutoff;
+
+            const i0 = Math.max(0, Math.ceil((ax - cutoff - min[0]) / voxelSize)), i1 = Math.min(nx - 1, Math.floor((ax + cutoff - min[0]) / voxelSize));
+            const j0 = Math.max(0, Math.ceil((ay - cutoff - min[1]) / voxelSize)), j1 = Math.min(ny - 1, Math.floor((ay + cutoff - min[1]) / voxelSize));
+            const k0 = Math.max(0, Math.ceil((az - cutoff - min[2]) / voxelSize)), k1 = Math.min(nz - 1, Math.floor((az + cutoff - min[2]) / voxelSize));
+
+            for (let k = k0; k <= k1; ++k) {
+                const dz = min[2] + k * voxelSize - az;
+                for (let j = j0; j <= j1; ++j) {
+                    const dy = min[1] + j * voxelSize - ay;
+                    const dyzSq = dy * dy + dz * dz;
+                    if (dyzSq > cutoffSq) continue;
+                    let o = space.dataOffset(i0, j, k);
+                    for (let ii = i0; ii <= i1; ++ii, ++o) {
+                        const dx = min[0] + ii * voxelSize - ax;
+                        const dSq = dx * dx + dyzSq;
+                        if (dSq > cutoffSq) continue;
+                        data[o] += amplitude[0] * Math.exp(exponent[0] * dSq)
+                            + amplitude[1] * Math.exp(exponent[1] * dSq)
+                            + amplitude[2] * Math.exp(exponent[2] * dSq)
+                            + amplitude[3] * Math.exp(exponent[3] * dSq)
+                            + amplitude[4] * Math.exp(exponent[4] * dSq);
+                    }
+                }
+            }
+        }
+
+        const matrix = Mat4.mul(Mat4(), Mat4.fromTranslation(Mat4(), min), Mat4.fromUniformScaling(Mat4(), voxelSize));
+        return {
+            grid: {
+                transform: { kind: 'matrix', matrix },
+                cells: Tensor.create(space, data),
+                stats: { min: arrayMin(data), max: arrayMax(data), mean: arrayMean(data), sigma: arrayRms(data) },
+            },
+            sourceData: { kind: 'simulated-density', name: 'Simulated Density', data: {} },
+            customProperties: new CustomProperties(),
+            _propertyData: Object.create(null),
+        };
+    });
+}
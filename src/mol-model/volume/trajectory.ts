@@ -0,0 +1,35 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Task } from '../../mol-task';
+import { Volume } from './volume';
+
+/**
+ * A series of volumes, e.g. time-resolved density or occupancy maps from a simulation
+ */
+export interface VolumeTrajectory {
+    readonly frameCount: number,
+
+    /** Statically available representative volume, the first frame */
+    readonly representative: Volume,
+
+    getFrameAtIndex(i: number): Task<Volume> | Volume
+}
+
+export class ArrayVolumeTrajectory implements VolumeTrajectory {
+    readonly frameCount: number;
+    readonly representative: Volume;
+
+    getFrameAtIndex(i: number) {
+        return this.frames[i];
+    }
+
+    constructor(private frames: Volume[]) {
+        if (frames.length === 0) throw new Error('A volume trajectory needs at least one frame.');
+        this.frameCount = frames.length;
+        this.representative = frames[0];
+    }
+}
@@ -6,7 +6,7 @@
 
 import { Grid } from './grid';
 import { OrderedSet } from '../../mol-data/int';
-import { Sphere3D } from '../../mol-math/geometry';
+import { Box3D, Sphere3D } from '../../mol-math/geometry';
 import { Vec3, Mat4 } from '../../mol-math/linear-algebra';
 import { BoundaryHelper } from '../../mol-math/geometry/boundary-helper';
 import { CubeFormat } from '../../mol-model-formats/volume/cube';
@@ -16,6 +16,7 @@ import { CustomProperties } from '../custom-property';
 import { ParamDefinition as PD } from '../../mol-util/param-definition';
 import { toPrecision } from '../../mol-util/number';
 import { DscifFormat } from '../../mol-model-formats/volume/density-server';
+import { Color } from '../../mol-util/color';
 
 export interface Volume {
     readonly label?: string
@@ -34,6 +35,9 @@ export interface Volume {
 
     // TODO add as customProperty?
     readonly colorVolume?: Volume
+
+    /** Set when the grid is an integer label map with one value per segment */
+    readonly segmentation?: Volume.Segmentation
 }
 
 export namespace Volume {
@@ -219,4 +223,105 @@ export namespace Volume {
             return Sphere3D.expand(bs, bs, Mat4.getMaxScaleOnAxis(transform) * 10);
         }
     }
+
+    export interface Segment {
+        /** Value of the segment cells in the label map */
+        readonly id: number
+        readonly label: string
+        readonly color?: Color
+        readonly description?: string
+    }
+
+    export type SegmentAnnotation = { readonly id: number } & Partial<Omit<Segment, 'id'>>
+
+    export interface Segmentation {
+        /** All segments present in the label map, sorted by id, zero is the background */
+        readonly segments: ReadonlyArray<Segment>
+        /** Index into `segments` by segment id */
+        readonly index: ReadonlyMap<number, number>
+        /** Bounding box of each segment in grid coordinates */
+        readonly bounds: ReadonlyArray<Box3D>
+    }
+
+    export namespace Segmentation {
+        /** Collects the segments present in the grid and attaches the matching annotations */
+        export function create(grid: Grid, annotations: ReadonlyArray<SegmentAnnotation> = []): Segmentation {
+            const { space, data } = grid.cells;
+            const [nx, ny, nz] = space.dimensions;
+
+            const boxes = new Map<number, Box3D>();
+            const p = Vec3();
+            for (let k = 0; k < nz; ++k) {
+                for (let j = 0; j < ny; ++j) {
+                    for (let i = 0; i < nx; ++i) {
+                        const id = Math.round(data[space.dataOffset(i, j, k)]);
+                        if (id === 0) continue;
+                        let box = boxes.get(id);
+                        if (!box) {
+                            box = Box3D.setEmpty(Box3D());
+                            boxes.set(id, box);
+                        }
+                        Box3D.add(box, Vec3.set(p, i, j, k));
+                    }
+                }
+            }
+
+            const annotationMap = new Map<number, SegmentAnnotation>();
+            for (const a of annotations) annotationMap.set(a.id, a);
+
+            const ids = Array.from(boxes.keys()).sort((a, b) => a - b);
+            const segments: Segment[] = [];
+            const index = new Map<number, number>();
+            const bounds: Box3D[] = [];
+            for (const id of ids) {
+                const a = annotationMap.get(id);
+                index.set(id, segments.length);
+                segments.push({ id, label: a?.label || `Segment ${id}`, color: a?.color, description: a?.description });
+                bounds.push(boxes.get(id)!);
+            }
+            return { segments, index, bounds };
+        }
+    }
+
+    export function isSegmentation(volume: Volume) {
+        return !!volume.segmentation;
+    }
+
+    export namespace Segment {
+        export interface Location {
+            readonly kind: 'segment-location'
+            volume: Volume
+            /** Index into the segments of the volume segmentation */
+            segment: number
+        }
+        export function Location(volume?: Volume, segment = 0): Location {
+            return { kind: 'segment-location', volume: volume as Volume, segment };
+        }
+        export function isLocation(x: any): x is Location {
+            return !!x && x.kind === 'segment-location';
+        }
+
+        export interface Loci { readonly kind: 'segment-loci', readonly volume: Volume, readonly segments: OrderedSet<number> }
+        export function Loci(volume: Volume, segments: OrderedSet<number>): Loci { return { kind: 'segment-loci', volume, segments }; }
+        export function isLoci(x: any): x is Loci { return !!x && x.kind === 'segment-loci'; }
+        export function areLociEqual(a: Loci, b: Loci) { return a.volume === b.volume && OrderedSet.areEqual(a.segments, b.segments); }
+        export function isLociEmpty(loci: Loci) { return OrderedSet.size(loci.segments) === 0; }
+
+        export function getBoundingSphere(volume: Volume, segments: OrderedSet<number>, boundingSphere?: Sphere3D) {
+            if (!boundingSphere) boundingSphere = Sphere3D();
+            const { segmentation } = volume;
+            if (!segmentation) return Volume.getBoundingSphere(volume, boundingSphere);
+
+            const box = Box3D.setEmpty(Box3D());
+            for (let i = 0, il = OrderedSet.size(segments); i < il; ++i) {
+                const b = segmentation.bounds[OrderedSet.getAt(segments, i)];
+                Box3D.add(box, b.min);
+                Box3D.add(box, b.max);
+            }
+            // the segment surface passes half-way between boundary cells and background
+            Box3D.expand(box, box, Vec3.create(0.5, 0.5, 0.5));
+            Box3D.transform(box, box, Grid.getGridToCartesianTransform(volume.grid));
+            return Sphere3D.fromBox3D(boundingSphere, box);
+        }
+    }
 }
\ No newline at end of file
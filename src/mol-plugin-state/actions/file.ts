@@ -8,13 +8,39 @@ import { PluginContext } from '../../mol-plugin/context';
 import { StateAction } from '../../mol-state';
 import { Task } from '../../mol-task';
 import { Asset } from '../../mol-util/assets';
-import { getFileInfo } from '../../mol-util/file-info';
+import { FileInfo, getFileInfo } from '../../mol-util/file-info';
 import { ParamDefinition as PD } from '../../mol-util/param-definition';
 import { unzip } from '../../mol-util/zip/zip';
 import { PluginStateObject } from '../objects';
+import { DataFormatProvider } from '../formats/provider';
+import { sortVolumeSeriesFiles } from '../formats/volume';
+
+/** Provider that reads from the file on demand, see `DataFormatProvider.parseFile` */
+function getFileProvider(plugin: PluginContext, info: FileInfo, format: string) {
+    // compressed files, e.g. 'traj.xtc.gz', need to be read fully to be decompressed
+    if (!info.name.toLowerCase().endsWith(`.${info.ext}`)) return;
+
+    if (format !== 'auto') {
+        const provider = plugin.dataFormats.get(format);
+        return provider?.parseFile ? provider : undefined;
+    }
+    // without reading the data only the extension can be checked
+    return plugin.dataFormats.list.find(({ provider: p }) => {
+        return p.parseFile && !p.isApplicable && p.binaryExtensions?.includes(info.ext);
+    })?.provider;
+}
 
 async function processFile(file: Asset.File, plugin: PluginContext, format: string, visuals: boolean) {
     const info = getFileInfo(file.file!);
+    const fileProvider = getFileProvider(plugin, info, format);
+    if (fileProvider) {
+        const parsed = await fileProvider.parseFile!(plugin, file);
+        if (visuals) {
+            await fileProvider.visuals?.(plugin, parsed);
+        }
+        return;
+    }
+
     const isBinary = plugin.dataFormats.binaryExtensions.has(info.ext);
     const { data } = await plugin.builders.data.readFile({ file, isBinary });
     const provider = format === 'auto'
@@ -34,6 +60,22 @@ async function processFile(file: Asset.File, plugin: PluginContext, format: stri
     }
 };
 
+async function processSeries(files: Asset.File[], plugin: PluginContext, provider: DataFormatProvider, visuals: boolean) {
+    const sorted = sortVolumeSeriesFiles(files);
+    // all files of a series are read the same way
+    const binary = sorted.map(f => plugin.dataFormats.binaryExtensions.has(getFileInfo(f.name).ext));
+    if (binary.some(b => b !== binary[0])) {
+        throw new Error('Cannot open a series that mixes binary (e.g. CCP4, BinaryCIF) and text (e.g. CIF) files.');
+    }
+    const isBinary = binary[0];
+    const data = await plugin.builders.data.readFileBlob({ files: sorted, isBinary });
+
+    const parsed = await provider.parseSeries!(plugin, data);
+    if (visuals) {
+        await provider.visuals?.(plugin, parsed);
+    }
+}
+
 export const OpenFiles = StateAction.build({
     display: { name: 'Open Files', description: 'Load one or more files and optionally create default visuals' },
     from: PluginStateObject.Root,
@@ -57,6 +99,17 @@ export const OpenFiles = StateAction.build({
             return;
         }
 
+        const provider = params.format.name === 'specific' ? plugin.dataFormats.get(params.format.params) : undefined;
+        if (provider?.parseSeries && params.files.length > 1) {
+            try {
+                await processSeries(params.files, plugin, provider, params.visuals);
+            } catch (e) {
+                console.error(e);
+                plugin.log.error(`Error opening files as '${provider.label}': ${e}`);
+            }
+            return;
+        }
+
         for (const file of params.files) {
             try {
                 if (file.file && file.name.toLowerCase().endsWith('.zip')) {
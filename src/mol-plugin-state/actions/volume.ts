@@ -16,6 +16,17 @@ import { DataFormatProvider } from '../formats/provider';
 import { Asset } from '../../mol-util/assets';
 import { StateTransforms } from '../transforms';
 import { assertUnreachable } from '../../mol-util/type-helpers';
+import { Box3D } from '../../mol-math/geometry';
+import { Vec3 } from '../../mol-math/linear-algebra';
+import { to_CCP4 } from '../../mol-model/volume';
+import { download } from '../../mol-util/download';
+import { MapModelFitProvider } from '../../mol-model-props/computed/map-model-fit';
+import { MapModelFitComputationParams } from '../../mol-model-props/computed/map-model-fit/map-model-fit';
+import { MapModelFitColorThemeProvider } from '../../mol-model-props/computed/themes/map-model-fit';
+import { Grid } from '../../mol-model/volume';
+import { Structure, StructureElement } from '../../mol-model/structure';
+import { getSlicePlane } from '../../mol-repr/volume/slice';
+import { parseSegmentAnnotations } from '../../mol-model-formats/volume/segmentation';
 
 export type EmdbDownloadProvider = 'pdbe' | 'rcsb'
 
@@ -155,4 +166,137 @@ export const AssignColorVolume = StateAction.build({
     }
 })(({ ref, params, state }, plugin: PluginContext) => {
     return plugin.build().to(ref).apply(StateTransforms.Volume.AssignColorVolume, { ref: params.ref }, { dependsOn: [params.ref] }).commit();
-});
\ No newline at end of file
+});
+
+export const CombineVolumes = StateAction.build({
+    display: { name: 'Volume Arithmetic', description: 'Creates the sum or difference of two volumes on the same grid.' },
+    from: PluginStateObject.Volume.Data,
+    params(a, plugin: PluginContext) {
+        const operation = PD.Select('difference', [['difference', 'Difference (A - B)'], ['sum', 'Sum (A + B)']] as const);
+        const cells = plugin.state.data.select(StateSelection.Generators.root.subtree().ofType(PluginStateObject.Volume.Data).filter(cell => !!cell.obj && cell.obj !== a));
+        if (cells.length === 0) return { operation, ref: PD.Text('', { isHidden: true, label: 'Volume' }) };
+        return { operation, ref: PD.Select(cells[0].transform.ref, cells.map(c => [c.transform.ref, c.obj!.label]), { label: 'Volume' }) };
+    }
+})(({ ref, params }, plugin: PluginContext) => {
+    return plugin.build().to(ref).apply(StateTransforms.Volume.VolumeArithmetic, params, { dependsOn: [params.ref] }).commit();
+});
+
+export const MaskVolume = StateAction.build({
+    display: { name: 'Mask Volume', description: 'Sets the volume to zero beyond a distance from the current selection.' },
+    from: PluginStateObject.Volume.Data,
+    params: {
+        radius: PD.Numeric(3, { min: 0.5, max: 20, step: 0.5 }, { description: 'Distance in \u212B from the selected atoms.' }),
+        invert: PD.Boolean(false, { description: 'Zero out the volume within the radius instead.' }),
+    }
+})(({ ref, params }, plugin: PluginContext) => {
+    const selected = Array.from(plugin.managers.structure.selection.entries).filter(([, e]) => !StructureElement.Loci.isEmpty(e.selection));
+    if (selected.length === 0) throw new Error('Nothing selected.');
+    if (selected.length > 1) throw new Error('Select atoms of a single structure.');
+
+    const [structureRef, entry] = selected[0];
+    const structure = plugin.state.data.cells.get(structureRef)?.obj?.data as Structure | undefined;
+    if (!structure) throw new Error('Structure not available.');
+    const bundle = StructureElement.Bundle.fromLoci(StructureElement.Loci.remap(entry.selection, structure));
+    return plugin.build().to(ref).apply(StateTransforms.Volume.VolumeMask, { ...params, ref: structureRef, bundle }, { dependsOn: [structureRef] }).commit();
+});
+
+export const ComputeMapModelFit = StateAction.build({
+    display: { name: 'Compute Map-Model Fit', description: 'Scores how well each residue of a structure fits the volume.' },
+    from: PluginStateObject.Volume.Data,
+    params(a, plugin: PluginContext) {
+        const params = {
+            ...MapModelFitComputationParams,
+            colorRepresentations: PD.Boolean(true, { description: 'Color the representations of the structure by the fit.' }),
+        };
+        const cells = plugin.state.data.select(StateSelection.Generators.root.subtree().ofType(PluginStateObject.Molecule.Structure).filter(cell => !!cell.obj && !cell.obj.data.parent));
+        if (cells.length === 0) return { ...params, ref: PD.Text('', { isHidden: true, label: 'Structure' }) };
+        return { ...params, ref: PD.Select(cells[0].transform.ref, cells.map(c => [c.transform.ref, c.obj!.label]), { label: 'Structure' }) };
+    }
+})(({ a, params }, plugin: PluginContext) => Task.create('Compute Map-Model Fit', async runtime => {
+    const cell = plugin.state.data.cells.get(params.ref);
+    if (!PluginStateObject.Molecule.Structure.is(cell?.obj)) throw new Error('Structure not available.');
+    const structure = cell!.obj.data;
+
+    const { colorRepresentations, ref, ...props } = params;
+    await MapModelFitProvider.attach({ runtime, assetManager: plugin.managers.asset }, structure, { ...props, volume: a.data });
+
+    const s = plugin.managers.structure.hierarchy.current.structures.find(s => s.cell.transform.ref === ref);
+    if (s && colorRepresentations) {
+        await plugin.managers.structure.component.updateRepresentationsTheme(s.components, { color: MapModelFitColorThemeProvider.name as any });
+    }
+}));
+
+export const ExportVolumeRegion = StateAction.build({
+    display: { name: 'Export Volume', description: 'Saves the whole volume or a box around the current selection as a CCP4/MRC map.' },
+    from: PluginStateObject.Volume.Data,
+    params: {
+        region: PD.MappedStatic('full', {
+            full: PD.EmptyGroup(),
+            selection: PD.Group({
+                padding: PD.Numeric(5, { min: 0, max: 50, step: 0.5 }, { description: 'Padding in \u212B around the selection bounding box.' }),
+            }, { isFlat: true }),
+            box: PD.Group({
+                min: PD.Vec3(Vec3.create(0, 0, 0)),
+                max: PD.Vec3(Vec3.create(10, 10, 10)),
+            }, { isFlat: true }),
+        }, { options: [['full', 'Full Volume'], ['selection', 'Around Selection'], ['box', 'Custom Box']] }),
+        format: PD.Select('mrc', [['mrc', 'MRC'], ['ccp4', 'CCP4']]),
+    }
+})(({ a, params }, plugin: PluginContext) => Task.create('Export Volume', async () => {
+    let box: Box3D | undefined = void 0;
+    if (params.region.name === 'selection') {
+        if (plugin.managers.structure.selection.stats.elementCount === 0) {
+            throw new Error('Nothing selected.');
+        }
+        const { min, max } = plugin.managers.structure.selection.getBoundary().box;
+        box = Box3D.expand(Box3D(), Box3D.create(Vec3.clone(min), Vec3.clone(max)), Vec3.create(params.region.params.padding, params.region.params.padding, params.region.params.padding));
+    } else if (params.region.name === 'box') {
+        box = Box3D.create(Vec3.clone(params.region.params.min), Vec3.clone(params.region.params.max));
+    }
+
+    const data = to_CCP4(a.data, { box });
+    const name = (a.data.entryId || a.label || 'volume').replace(/[^a-z0-9_\-]/gi, '_');
+    download(new Blob([data]), `${name}.${params.format}`);
+}));
+
+export const AlignVolumeSlice = StateAction.build({
+    display: { name: 'Align Slice to Selection', description: 'Places the slice plane through the center of the current selection, spanned by its two major principal axes.' },
+    from: PluginStateObject.Volume.Representation3D,
+    isApplicable(a, t) { return t.params?.type?.name === 'slice'; }
+})(({ a, ref }, plugin: PluginContext) => {
+    if (plugin.managers.structure.selection.stats.elementCount === 0) {
+        throw new Error('Nothing selected.');
+    }
+    const { origin, dirC } = plugin.managers.structure.selection.getPrincipalAxes().momentsAxes;
+    const { grid } = a.data.sourceData;
+
+    const normal = Vec3.normalize(Vec3(), dirC);
+    const { center } = getSlicePlane(grid, normal, 0);
+    const radius = Math.ceil(Grid.getBoundingSphere(grid).radius);
+    const offset = Math.min(radius, Math.max(-radius, Vec3.dot(Vec3.sub(Vec3(), origin, center), normal)));
+
+    return plugin.build().to(ref).update(StateTransforms.Representation.VolumeRepresentation3D, old => {
+        const { dimension } = old.type.params;
+        const handle = dimension.name === 'plane' ? dimension.params.handle : true;
+        return { ...old, type: { ...old.type, params: { ...old.type.params, dimension: { name: 'plane', params: { normal, offset, handle } } } } };
+    }).commit();
+});
+
+export const ImportSegmentAnnotations = StateAction.build({
+    display: { name: 'Import Segment Annotations', description: 'Sets the segment labels and colors from a table with one segment id and label per row.' },
+    from: PluginStateObject.Volume.Data,
+    isApplicable(a, t) { return t.transformer === StateTransforms.Volume.VolumeSegmentation; },
+    params: {
+        file: PD.File({ accept: '.csv,.tsv,.txt', description: 'Rows of segment id, label and optional #rrggbb color.' }),
+    }
+})(({ ref, params }, plugin: PluginContext) => Task.create('Import Segment Annotations', async ctx => {
+    if (!params.file) throw new Error('No file selected.');
+
+    const asset = await plugin.managers.asset.resolve(params.file, 'string').runInContext(ctx);
+    try {
+        const annotations = parseSegmentAnnotations(asset.data).map(a => ({ id: a.id, label: a.label || '', color: a.color }));
+        await plugin.build().to(ref).update(StateTransforms.Volume.VolumeSegmentation, old => ({ ...old, annotations })).commit();
+    } finally {
+        asset.dispose();
+    }
+}));
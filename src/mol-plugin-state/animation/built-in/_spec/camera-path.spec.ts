@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Camera } from '../../../../mol-canvas3d/camera';
+import { Vec3 } from '../../../../mol-math/linear-algebra/3d/vec3';
+import { CameraPathProps, createCameraPathKeyframe, getCameraPathDuration, interpolateCameraPath } from '../camera-path';
+
+function keyframe(x: number, durationInMs = 1000) {
+    const snapshot = Camera.createDefaultSnapshot();
+    Vec3.set(snapshot.position, x, 0, 100);
+    Vec3.set(snapshot.target, x, 0, 0);
+    return { ...createCameraPathKeyframe(snapshot), durationInMs };
+}
+
+function props(xs: number[], closed = false): CameraPathProps {
+    return { keyframes: xs.map(x => keyframe(x)), tension: 0.5, closed };
+}
+
+function positionX(p: CameraPathProps, timeMs: number) {
+    return interpolateCameraPath(Camera.createDefaultSnapshot(), p, timeMs).position[0];
+}
+
+describe('camera-path', () => {
+    it('duration', () => {
+        expect(getCameraPathDuration(props([]))).toBe(0);
+        expect(getCameraPathDuration(props([0]))).toBe(0);
+        expect(getCameraPathDuration(props([0, 10, 20]))).toBe(2000);
+        expect(getCameraPathDuration(props([0, 10, 20], true))).toBe(3000);
+    });
+
+    it('passes through keyframes', () => {
+        const p = props([0, 10, 30]);
+        expect(positionX(p, 0)).toBeCloseTo(0);
+        expect(positionX(p, 1000)).toBeCloseTo(10);
+        expect(positionX(p, 2000)).toBeCloseTo(30);
+        // clamped to the ends of the path
+        expect(positionX(p, -500)).toBeCloseTo(0);
+        expect(positionX(p, 5000)).toBeCloseTo(30);
+    });
+
+    it('moves between keyframes', () => {
+        const x = positionX(props([0, 10, 30]), 500);
+        expect(x).toBeGreaterThan(0);
+        expect(x).toBeLessThan(10);
+    });
+
+    it('closed path returns to start', () => {
+        const p = props([0, 10, 30], true);
+        expect(positionX(p, 2000)).toBeCloseTo(30);
+        expect(positionX(p, 3000)).toBeCloseTo(0);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Camera } from '../../../mol-canvas3d/camera';
+import * as Easing from '../../../mol-math/easing';
+import { clamp, lerp } from '../../../mol-math/interpolate';
+import { Quat } from '../../../mol-math/linear-algebra/3d/quat';
+import { Vec3 } from '../../../mol-math/linear-algebra/3d/vec3';
+import { PluginContext } from '../../../mol-plugin/context';
+import { ParamDefinition as PD } from '../../../mol-util/param-definition';
+import { stringToWords } from '../../../mol-util/string';
+import { PluginStateAnimation } from '../model';
+
+export type CameraPathEasing = 'linear' | keyof typeof Easing
+const EasingOptions = [['linear', 'Linear'], ...Object.keys(Easing).map(k => [k, stringToWords(k)])] as [CameraPathEasing, string][];
+
+function getEasing(name: CameraPathEasing): (t: number) => number {
+    return name === 'linear' ? t => t : Easing[name];
+}
+
+export const CameraPathKeyframeParams = {
+    snapshot: PD.Value<Camera.Snapshot>(Camera.createDefaultSnapshot(), { isHidden: true }),
+    durationInMs: PD.Numeric(2000, { min: 100, max: 20000, step: 100 }, { description: 'Duration of the segment to the next keyframe.' }),
+    easing: PD.Select<CameraPathEasing>('linear', EasingOptions, { description: 'Easing of the segment to the next keyframe.' }),
+};
+export type CameraPathKeyframe = PD.Values<typeof CameraPathKeyframeParams>
+
+export function createCameraPathKeyframe(snapshot: Camera.Snapshot): CameraPathKeyframe {
+    return { ...PD.getDefaultValues(CameraPathKeyframeParams), snapshot: Camera.copySnapshot(Camera.createDefaultSnapshot(), snapshot) };
+}
+
+function getKeyframeLabel(k: CameraPathKeyframe) {
+    return `${k.durationInMs} ms, ${stringToWords(k.easing)}`;
+}
+
+export function getCameraPathParams(ctx?: PluginContext) {
+    return {
+        keyframes: PD.ObjectList(CameraPathKeyframeParams, getKeyframeLabel, {
+            description: 'Camera views to move through, in order.',
+            // new keyframes start from the current view
+            ctor: () => createCameraPathKeyframe(ctx?.canvas3d?.camera.getSnapshot() ?? Camera.createDefaultSnapshot())
+        }),
+        tension: PD.Numeric(0.5, { min: 0, max: 1, step: 0.05 }, { description: 'Tension of the Catmull-Rom spline, 0 gives straight segments.' }),
+        closed: PD.Boolean(false, { description: 'Return to the first keyframe at the end.' }),
+    };
+}
+export type CameraPathProps = PD.Values<ReturnType<typeof getCameraPathParams>>
+
+function getSegmentCount(props: CameraPathProps) {
+    const n = props.keyframes.length;
+    if (n < 2) return 0;
+    return props.closed ? n : n - 1;
+}
+
+export function getCameraPathDuration(props: CameraPathProps) {
+    let durationMs = 0;
+    for (let i = 0, il = getSegmentCount(props); i < il; ++i) {
+        durationMs += props.keyframes[i].durationInMs;
+    }
+    return durationMs;
+}
+
+const _rot = Quat();
+
+/** Camera view at the given time along the path, positions and targets follow a Catmull-Rom spline */
+export function interpolateCameraPath(out: Camera.Snapshot, props: CameraPathProps, timeMs: number): Camera.Snapshot {
+    const { keyframes, tension, closed } = props;
+    const n = keyframes.length;
+    if (n === 0) return out;
+
+    const segmentCount = getSegmentCount(props);
+    if (segmentCount === 0) return Camera.copySnapshot(out, keyframes[0].snapshot);
+
+    let i = 0;
+    let time = Math.max(timeMs, 0);
+    while (i < segmentCount - 1 && time >= keyframes[i].durationInMs) {
+        time -= keyframes[i].durationInMs;
+        i += 1;
+    }
+    const t = getEasing(keyframes[i].easing)(clamp(time / keyframes[i].durationInMs, 0, 1));
+
+    const index = (j: number) => closed ? (j + n) % n : clamp(j, 0, n - 1);
+    const k0 = keyframes[index(i - 1)].snapshot;
+    const k1 = keyframes[index(i)].snapshot;
+    const k2 = keyframes[index(i + 1)].snapshot;
+    const k3 = keyframes[index(i + 2)].snapshot;
+
+    Camera.copySnapshot(out, t < 1 ? k1 : k2);
+
+    Vec3.spline(out.position, k0.position, k1.position, k2.position, k3.position, t, tension);
+    Vec3.spline(out.target, k0.target, k1.target, k2.target, k3.target, t, tension);
+
+    Quat.slerp(_rot, Quat.Identity, Quat.rotationTo(_rot, k1.up, k2.up), t);
+    Vec3.transformQuat(out.up, k1.up, _rot);
+
+    out.radius = lerp(k1.radius, k2.radius, t);
+    out.radiusMax = lerp(k1.radiusMax, k2.radiusMax, t);
+    out.fov = lerp(k1.fov, k2.fov, t);
+    out.fog = lerp(k1.fog, k2.fog, t);
+
+    return out;
+}
+
+export const AnimateCameraPath = PluginStateAnimation.create({
+    name: 'built-in.animate-camera-path',
+    display: { name: 'Camera Path', description: 'Move the camera smoothly through a list of keyframe views' },
+    isExportable: true,
+    params: (ctx: PluginContext) => getCameraPathParams(ctx),
+    canApply: ctx => ctx.canvas3d ? { canApply: true } : { canApply: false, reason: 'No 3D view' },
+    initialState: () => ({}),
+    getDuration: p => ({ kind: 'fixed', durationMs: getCameraPathDuration(p) }),
+
+    async apply(animState: {}, t, ctx) {
+        const durationMs = getCameraPathDuration(ctx.params);
+        if (durationMs === 0) {
+            return { kind: 'finished' };
+        }
+
+        // include the last frame, so that the path ends at the last keyframe
+        const phase = t.animation
+            ? t.animation.currentFrame / Math.max(t.animation.frameCount, 1)
+            : clamp(t.current / durationMs, 0, 1);
+
+        const snapshot = interpolateCameraPath(Camera.createDefaultSnapshot(), ctx.params, phase * durationMs);
+        ctx.plugin.canvas3d?.requestCameraReset({ snapshot, durationMs: 0 });
+
+        if (phase >= 0.99999) {
+            return { kind: 'finished' };
+        }
+
+        return { kind: 'next', state: animState };
+    }
+});
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { ParamDefinition as PD } from '../../../mol-util/param-definition';
+import { PluginStateAnimation } from '../model';
+
+/** Params of animations that step through frames, e.g. of trajectories or volume series */
+export function getFrameIndexParams(targetFps: PD.Numeric, maxFps: PD.Numeric) {
+    return {
+        mode: PD.MappedStatic('loop', {
+            palindrome: PD.Group({ }),
+            loop: PD.Group({ direction: PD.Select('forward', [['forward', 'Forward'], ['backward', 'Backward']]) }),
+            once: PD.Group({ direction: PD.Select('forward', [['forward', 'Forward'], ['backward', 'Backward']]) }, { isFlat: true })
+        }, { options: [['palindrome', 'Palindrome'], ['loop', 'Loop'], ['once', 'Once']] }),
+        duration: PD.MappedStatic('fixed', {
+            fixed: PD.Group({
+                durationInS: PD.Numeric(5, { min: 1, max: 120, step: 0.1 }, { description: 'Duration in seconds' })
+            }, { isFlat: true }),
+            computed: PD.Group({ targetFps }, { isFlat: true }),
+            sequential: PD.Group({ maxFps }, { isFlat: true })
+        })
+    };
+}
+export type FrameIndexProps = PD.Values<ReturnType<typeof getFrameIndexParams>>
+
+export interface FrameIndexState {
+    palindromeDirections?: { [id: string]: -1 | 1 | undefined }
+}
+
+export function getFrameIndexDuration(p: FrameIndexProps, getFrameCounts: () => number[]): PluginStateAnimation.Duration {
+    if (p.duration?.name === 'fixed') {
+        return { kind: 'fixed', durationMs: p.duration.params.durationInS * 1000 };
+    } else if (p.duration.name === 'computed') {
+        let maxDuration = 0;
+        for (const frameCount of getFrameCounts()) {
+            maxDuration = Math.max(Math.ceil(1000 * frameCount / p.duration.params.targetFps), maxDuration);
+        }
+        return { kind: 'fixed', durationMs: maxDuration };
+    }
+    return { kind: 'unknown' };
+}
+
+/** Whether to skip the tick to limit the fps of sequential stepping */
+export function isFrameIndexSkip(p: FrameIndexProps, t: PluginStateAnimation.Time) {
+    return p.duration.name === 'sequential' && t.current > 0 && t.current - t.lastApplied < 1000 / p.duration.params.maxFps;
+}
+
+/**
+ * Index of the frame to show next, `ref` identifies the animated object to keep
+ * track of its direction in palindrome mode. `isEnd` is set at the last frame.
+ */
+export function getNextFrameIndex(p: FrameIndexProps, t: PluginStateAnimation.Time, index: number, frameCount: number, ref: string, palindromeDirections: NonNullable<FrameIndexState['palindromeDirections']>): { index: number, isEnd: boolean } {
+    const len = frameCount;
+    if (p.duration.name === 'sequential') {
+        let dir: -1 | 1 = 1;
+        if (p.mode.name === 'once') {
+            dir = p.mode.params.direction === 'backward' ? -1 : 1;
+            // if we are at start or end already, do nothing.
+            if ((dir === -1 && index === 0) || (dir === 1 && index === len - 1)) {
+                return { index, isEnd: true };
+            }
+        } else if (p.mode.name === 'palindrome') {
+            if (index === 0) dir = 1;
+            else if (index === len - 1) dir = -1;
+            else dir = palindromeDirections[ref] || 1;
+        }
+        palindromeDirections[ref] = dir;
+
+        let next = (index + dir) % len;
+        if (next < 0) next += len;
+
+        return { index: next, isEnd: (dir === -1 && next === 0) || (dir === 1 && next === len - 1) };
+    }
+
+    const durationInMs = p.duration.name === 'fixed'
+        ? p.duration.params.durationInS * 1000
+        : Math.ceil(1000 * len / p.duration.params.targetFps);
+
+    let phase: number = (t.current % durationInMs) / durationInMs;
+    if (p.mode.name === 'loop') {
+        if (p.mode.params.direction === 'backward') {
+            phase = 1 - phase;
+        }
+    } else if (p.mode.name === 'palindrome') {
+        phase = 2 * phase;
+        if (phase > 1) phase = 2 - phase;
+    }
+
+    const next = Math.min(Math.floor(len * phase), len - 1);
+    return { index: next, isEnd: next === len - 1 };
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { PluginCommands } from '../../../mol-plugin/commands';
+import { PluginContext } from '../../../mol-plugin/context';
+import { StateSelection } from '../../../mol-state';
+import { ParamDefinition as PD } from '../../../mol-util/param-definition';
+import { PluginStateObject } from '../../objects';
+import { StateTransforms } from '../../transforms';
+import { PluginStateAnimation } from '../model';
+import { FrameIndexState, getFrameIndexDuration, getFrameIndexParams, getNextFrameIndex, isFrameIndexSkip } from './frame-index';
+
+function getVolumes(plugin: PluginContext) {
+    const state = plugin.state.data;
+    const volumes = state.select(StateSelection.Generators.ofTransformer(StateTransforms.Volume.VolumeFromTrajectory));
+    const ret: { cell: typeof volumes[number], frameCount: number }[] = [];
+    for (const v of volumes) {
+        const parent = StateSelection.findAncestorOfType(state.tree, state.cells, v.transform.ref, PluginStateObject.Volume.Trajectory);
+        if (parent && parent.obj && parent.obj.data.frameCount > 1) ret.push({ cell: v, frameCount: parent.obj.data.frameCount });
+    }
+    return ret;
+}
+
+export const AnimateVolumeIndex = PluginStateAnimation.create({
+    name: 'built-in.animate-volume-index',
+    display: { name: 'Animate Volume Series' },
+    isExportable: true,
+    params: () => getFrameIndexParams(
+        PD.Numeric(10, { min: 1, max: 60, step: 1 }, { label: 'Target FPS' }),
+        PD.Numeric(10, { min: 1, max: 60, step: 1 })
+    ),
+    canApply(ctx) {
+        if (getVolumes(ctx).length > 0) return { canApply: true };
+        return { canApply: false, reason: 'No volume series to animate' };
+    },
+    getDuration: (p, ctx) => getFrameIndexDuration(p, () => getVolumes(ctx).map(v => v.frameCount)),
+    initialState: () => ({} as FrameIndexState),
+    async apply(animState, t, ctx) {
+        // limit fps
+
+        if (isFrameIndexSkip(ctx.params, t)) {
+            return { kind: 'skip' };
+        }
+
+        const volumes = getVolumes(ctx.plugin);
+        if (volumes.length === 0) {
+            // nothing more to do here
+            return { kind: 'finished' };
+        }
+
+        const state = ctx.plugin.state.data;
+        const update = state.build();
+
+        const params = ctx.params;
+        const palindromeDirections = animState.palindromeDirections || { };
+        let isEnd = false;
+
+        for (const { cell, frameCount } of volumes) {
+            update.to(cell).update(old => {
+                const next = getNextFrameIndex(params, t, old.frameIndex, frameCount, cell.transform.ref, palindromeDirections);
+                isEnd = isEnd || next.isEnd;
+                if (next.index === old.frameIndex) return old;
+                return { frameIndex: next.index };
+            });
+        }
+
+        await PluginCommands.State.Update(ctx.plugin, { state, tree: update, options: { doNotLogTiming: true } });
+
+        if (params.mode.name === 'once' && isEnd) return { kind: 'finished' };
+        if (params.mode.name === 'palindrome') return { kind: 'next', state: { palindromeDirections } };
+        return { kind: 'next', state: {} };
+    }
+});
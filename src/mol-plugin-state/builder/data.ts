@@ -6,7 +6,7 @@
 
 import { StateTransformer, StateTransform } from '../../mol-state';
 import { PluginContext } from '../../mol-plugin/context';
-import { Download, ReadFile, DownloadBlob, RawData } from '../transforms/data';
+import { Download, ReadFile, DownloadBlob, RawData, ReadFileBlob } from '../transforms/data';
 import { getFileInfo } from '../../mol-util/file-info';
 
 export class DataBuilder {
@@ -35,6 +35,11 @@ export class DataBuilder {
         return { data: data, fileInfo };
     }
 
+    readFileBlob(params: StateTransformer.Params<ReadFileBlob>, options?: Partial<StateTransform.Options>) {
+        const data = this.dataState.build().toRoot().apply(ReadFileBlob, params, options);
+        return data.commit({ revertOnError: true });
+    }
+
     constructor(public plugin: PluginContext) {
     }
 }
\ No newline at end of file
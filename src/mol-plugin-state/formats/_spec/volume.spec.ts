@@ -0,0 +1,27 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { getVolumeSeriesFormat, sortVolumeSeriesFiles } from '../volume';
+
+describe('volume series', () => {
+    it('format per file', () => {
+        expect(getVolumeSeriesFormat('map_1.ccp4')).toBe('ccp4');
+        expect(getVolumeSeriesFormat('MAP_1.MRC')).toBe('ccp4');
+        expect(getVolumeSeriesFormat('map_1.map')).toBe('ccp4');
+        expect(getVolumeSeriesFormat('map_1.cif')).toBe('cif');
+        expect(getVolumeSeriesFormat('map_1.bcif')).toBe('cif');
+        expect(getVolumeSeriesFormat('map_1.dx')).toBeUndefined();
+        expect(getVolumeSeriesFormat('map_1')).toBeUndefined();
+    });
+
+    it('natural sort', () => {
+        const names = ['map_10.ccp4', 'map_2.ccp4', 'map_1.ccp4', 'map_20.ccp4', 'map_3.ccp4'];
+        const sorted = sortVolumeSeriesFiles(names.map(name => ({ name }))).map(f => f.name);
+        expect(sorted).toEqual(['map_1.ccp4', 'map_2.ccp4', 'map_3.ccp4', 'map_10.ccp4', 'map_20.ccp4']);
+        // input is not modified
+        expect(names[0]).toBe('map_10.ccp4');
+    });
+});
@@ -21,6 +21,13 @@ const DcdProvider = DataFormatProvider({
             .to(data)
             .apply(StateTransforms.Model.CoordinatesFromDcd);
 
+        return coordinates.commit();
+    },
+    parseFile: (plugin, file) => {
+        const coordinates = plugin.state.data.build()
+            .toRoot()
+            .apply(StateTransforms.Model.CoordinatesFromDcdFile, { file });
+
         return coordinates.commit();
     }
 });
@@ -37,6 +44,13 @@ const XtcProvider = DataFormatProvider({
             .to(data)
             .apply(StateTransforms.Model.CoordinatesFromXtc);
 
+        return coordinates.commit();
+    },
+    parseFile: (plugin, file) => {
+        const coordinates = plugin.state.data.build()
+            .toRoot()
+            .apply(StateTransforms.Model.CoordinatesFromXtcFile, { file });
+
         return coordinates.commit();
     }
 });
@@ -74,13 +88,64 @@ const NctrajProvider = DataFormatProvider({
 });
 type NctrajProvider = typeof NctrajProvider;
 
-export type CoordinatesProvider = DcdProvider | XtcProvider | TrrProvider;
+export { Rst7Provider };
+const Rst7Provider = DataFormatProvider({
+    label: 'RST7',
+    description: 'AMBER ASCII restart/inpcrd',
+    category: CoordinatesFormatCategory,
+    stringExtensions: ['rst7', 'inpcrd', 'restrt'],
+    parse: (plugin, data) => {
+        const coordinates = plugin.state.data.build()
+            .to(data)
+            .apply(StateTransforms.Model.CoordinatesFromRst7);
+
+        return coordinates.commit();
+    }
+});
+type Rst7Provider = typeof Rst7Provider;
+
+export { NcrstProvider };
+const NcrstProvider = DataFormatProvider({
+    label: 'NCRST',
+    description: 'AMBER NetCDF restart',
+    category: CoordinatesFormatCategory,
+    binaryExtensions: ['ncrst'],
+    parse: (plugin, data) => {
+        const coordinates = plugin.state.data.build()
+            .to(data)
+            .apply(StateTransforms.Model.CoordinatesFromNcrst);
+
+        return coordinates.commit();
+    }
+});
+type NcrstProvider = typeof NcrstProvider;
+
+export { LammpsDumpProvider };
+const LammpsDumpProvider = DataFormatProvider({
+    label: 'LAMMPS Dump',
+    description: 'LAMMPS Dump',
+    category: CoordinatesFormatCategory,
+    stringExtensions: ['lammpstrj', 'dump'],
+    parse: (plugin, data) => {
+        const coordinates = plugin.state.data.build()
+            .to(data)
+            .apply(StateTransforms.Model.CoordinatesFromLammpsDump);
+
+        return coordinates.commit();
+    }
+});
+type LammpsDumpProvider = typeof LammpsDumpProvider;
+
+export type CoordinatesProvider = DcdProvider | XtcProvider | TrrProvider | NctrajProvider | Rst7Provider | NcrstProvider | LammpsDumpProvider;
 
 export const BuiltInCoordinatesFormats = [
     ['dcd', DcdProvider] as const,
     ['xtc', XtcProvider] as const,
     ['trr', TrrProvider] as const,
     ['nctraj', NctrajProvider] as const,
+    ['rst7', Rst7Provider] as const,
+    ['ncrst', NcrstProvider] as const,
+    ['lammps-dump', LammpsDumpProvider] as const,
 ] as const;
 
 export type BuiltInCoordinatesFormat = (typeof BuiltInCoordinatesFormats)[number][0]
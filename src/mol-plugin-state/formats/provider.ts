@@ -8,6 +8,7 @@
 import { decodeMsgPack } from '../../mol-io/common/msgpack/decode';
 import { PluginContext } from '../../mol-plugin/context';
 import { StateObjectRef } from '../../mol-state';
+import { Asset } from '../../mol-util/assets';
 import { FileInfo } from '../../mol-util/file-info';
 import { PluginStateObject } from '../objects';
 
@@ -19,6 +20,10 @@ export interface DataFormatProvider<P = any, R = any, V = any> {
     binaryExtensions?: string[],
     isApplicable?(info: FileInfo, data: string | Uint8Array): boolean,
     parse(plugin: PluginContext, data: StateObjectRef<PluginStateObject.Data.Binary | PluginStateObject.Data.String>, params?: P): Promise<R>,
+    /** Parses several files together, e.g. as the frames of a series, instead of one by one */
+    parseSeries?(plugin: PluginContext, data: StateObjectRef<PluginStateObject.Data.Blob>, params?: P): Promise<R>,
+    /** Parses from the file on demand instead of loading all of its data first, e.g. the frames of a trajectory */
+    parseFile?(plugin: PluginContext, file: Asset.File, params?: P): Promise<R>,
     visuals?(plugin: PluginContext, data: R): Promise<V> | undefined
 }
 
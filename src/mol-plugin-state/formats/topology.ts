@@ -67,12 +67,32 @@ const TopProvider = DataFormatProvider({
 });
 type TopProvider = typeof TopProvider;
 
+export { LammpsDataProvider };
+const LammpsDataProvider = DataFormatProvider({
+    label: 'LAMMPS Data',
+    description: 'LAMMPS Data',
+    category: TopologyFormatCategory,
+    stringExtensions: ['data', 'lmp'],
+    parse: async (plugin, data) => {
+        const format = plugin.state.data.build()
+            .to(data)
+            .apply(StateTransforms.Data.ParseLammpsData, {}, { state: { isGhost: true } });
+        const topology = format.apply(StateTransforms.Model.TopologyFromLammpsData);
+
+        await format.commit();
+
+        return { format: format.selector, topology: topology.selector };
+    }
+});
+type LammpsDataProvider = typeof LammpsDataProvider;
+
 export type TopologyProvider = PsfProvider;
 
 export const BuiltInTopologyFormats = [
     ['psf', PsfProvider] as const,
     ['prmtop', PrmtopProvider] as const,
     ['top', TopProvider] as const,
+    ['lammps-data', LammpsDataProvider] as const,
 ] as const;
 
 export type BuiltInTopologyFormat = (typeof BuiltInTopologyFormats)[number][0]
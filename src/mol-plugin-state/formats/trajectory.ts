@@ -112,6 +112,15 @@ export const XyzProvider: TrajectoryFormatProvider = {
     visuals: defaultVisuals
 };
 
+export const PqrProvider: TrajectoryFormatProvider = {
+    label: 'PQR',
+    description: 'PQR',
+    category: TrajectoryFormatCategory,
+    stringExtensions: ['pqr'],
+    parse: directTrajectory(StateTransforms.Model.TrajectoryFromPQR),
+    visuals: defaultVisuals
+};
+
 export const GroProvider: TrajectoryFormatProvider = {
     label: 'GRO',
     description: 'GRO',
@@ -154,6 +163,7 @@ export const BuiltInTrajectoryFormats = [
     ['cifCore', CifCoreProvider] as const,
     ['pdb', PdbProvider] as const,
     ['pdbqt', PdbqtProvider] as const,
+    ['pqr', PqrProvider] as const,
     ['gro', GroProvider] as const,
     ['xyz', XyzProvider] as const,
     ['mol', MolProvider] as const,
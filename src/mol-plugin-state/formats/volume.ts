@@ -9,7 +9,7 @@
 import { StateTransforms } from '../transforms';
 import { DataFormatProvider, guessCifVariant } from './provider';
 import { PluginContext } from '../../mol-plugin/context';
-import { StateObjectSelector } from '../../mol-state';
+import { StateObjectRef, StateObjectSelector } from '../../mol-state';
 import { PluginStateObject } from '../objects';
 import { VolumeRepresentation3DHelpers } from '../transforms/representation';
 import { ColorNames } from '../../mol-util/color/names';
@@ -19,6 +19,7 @@ import { objectForEach } from '../../mol-util/object';
 import { RecommendedIsoValue } from '../../mol-model-formats/volume/property';
 import { getContourLevelEmdb } from '../../mol-plugin/behavior/dynamic/volume-streaming/util';
 import { Task } from '../../mol-task';
+import { getFileInfo } from '../../mol-util/file-info';
 
 export const VolumeFormatCategory = 'Volume';
 type Params = { entryId?: string };
@@ -246,12 +247,77 @@ export const DscifProvider = DataFormatProvider({
     }
 });
 
+const Ccp4SeriesExtensions = ['ccp4', 'mrc', 'map'];
+const CifSeriesExtensions = ['cif', 'bcif'];
+
+/** Format of a volume series file by its extension, `undefined` if not supported */
+export function getVolumeSeriesFormat(name: string): 'ccp4' | 'cif' | undefined {
+    const { ext } = getFileInfo(name);
+    if (Ccp4SeriesExtensions.includes(ext)) return 'ccp4';
+    if (CifSeriesExtensions.includes(ext)) return 'cif';
+}
+
+/** Orders volume series files naturally by name, e.g. 'map_2' before 'map_10' */
+export function sortVolumeSeriesFiles<T extends { name: string }>(files: T[]): T[] {
+    return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+/** Checks for the 'MAP ' string at byte 208 of CCP4/MRC/MAP headers */
+function isCcp4Data(data: Uint8Array) {
+    return data.length > 212 && String.fromCharCode(data[208], data[209], data[210], data[211]) === 'MAP ';
+}
+
+export const VolumeSeriesProvider = DataFormatProvider({
+    label: 'Volume Series',
+    description: 'Series of CCP4/MRC/MAP files or density-server CIF data blocks, e.g. time-resolved maps',
+    category: VolumeFormatCategory,
+    parse: async (plugin, data, params?: Params) => {
+        // a single CCP4/MRC/MAP file is a series of one volume
+        const input = StateObjectRef.resolveAndCheck(plugin.state.data, data)?.obj?.data;
+        if (input instanceof Uint8Array && isCcp4Data(input)) {
+            return Ccp4Provider.parse(plugin, data, params);
+        }
+
+        const trajectory = plugin.build()
+            .to(data)
+            .apply(StateTransforms.Data.ParseCif, {}, { state: { isGhost: true } })
+            .apply(StateTransforms.Volume.VolumeTrajectoryFromDensityServerCif, { entryId: params?.entryId });
+
+        const volume = trajectory.apply(StateTransforms.Volume.VolumeFromTrajectory, { frameIndex: 0 });
+
+        await trajectory.commit({ revertOnError: true });
+        return { trajectory: trajectory.selector, volume: volume.selector };
+    },
+    parseSeries: async (plugin, data, params?: Params) => {
+        const blob = StateObjectRef.resolveAndCheck(plugin.state.data, data)?.obj?.data;
+        if (!blob) throw new Error('Missing data');
+
+        const formats = blob.map(e => {
+            const format = getVolumeSeriesFormat(e.id);
+            if (!format) throw new Error(`${e.id}: unsupported volume series file, expected CCP4/MRC/MAP or density-server CIF`);
+            return { id: e.id, format };
+        });
+
+        const trajectory = plugin.build()
+            .to(data)
+            .apply(StateTransforms.Data.ParseBlob, { formats }, { state: { isGhost: true } })
+            .apply(StateTransforms.Volume.VolumeTrajectoryFromBlob, { entryId: params?.entryId });
+
+        const volume = trajectory.apply(StateTransforms.Volume.VolumeFromTrajectory, { frameIndex: 0 });
+
+        await trajectory.commit({ revertOnError: true });
+        return { trajectory: trajectory.selector, volume: volume.selector };
+    },
+    visuals: defaultVisuals
+});
+
 export const BuiltInVolumeFormats = [
     ['ccp4', Ccp4Provider] as const,
     ['dsn6', Dsn6Provider] as const,
     ['cube', CubeProvider] as const,
     ['dx', DxProvider] as const,
     ['dscif', DscifProvider] as const,
+    ['volume-series', VolumeSeriesProvider] as const,
 ] as const;
 
 export type BuildInVolumeFormat = (typeof BuiltInVolumeFormats)[number][0]
\ No newline at end of file
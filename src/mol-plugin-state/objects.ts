@@ -13,7 +13,7 @@ import { PlyFile } from '../mol-io/reader/ply/schema';
 import { PsfFile } from '../mol-io/reader/psf/parser';
 import { ShapeProvider } from '../mol-model/shape/provider';
 import { Coordinates as _Coordinates, Model as _Model, Structure as _Structure, Trajectory as _Trajectory, StructureElement, Topology as _Topology } from '../mol-model/structure';
-import { Volume as _Volume } from '../mol-model/volume';
+import { Volume as _Volume, VolumeTrajectory } from '../mol-model/volume';
 import { PluginBehavior } from '../mol-plugin/behavior/behavior';
 import { Representation } from '../mol-repr/representation';
 import { ShapeRepresentation } from '../mol-repr/shape/representation';
@@ -26,6 +26,7 @@ import { Color } from '../mol-util/color/color';
 import { Asset } from '../mol-util/assets';
 import { PrmtopFile } from '../mol-io/reader/prmtop/parser';
 import { TopFile } from '../mol-io/reader/top/parser';
+import { LammpsDataFile } from '../mol-io/reader/lammps/data/parser';
 
 export type TypeClass = 'root' | 'data' | 'prop'
 
@@ -76,6 +77,7 @@ export namespace PluginStateObject {
         export class Psf extends Create<PsfFile>({ name: 'PSF File', typeClass: 'Data' }) { }
         export class Prmtop extends Create<PrmtopFile>({ name: 'PRMTOP File', typeClass: 'Data' }) { }
         export class Top extends Create<TopFile>({ name: 'TOP File', typeClass: 'Data' }) { }
+        export class LammpsData extends Create<LammpsDataFile>({ name: 'LAMMPS Data File', typeClass: 'Data' }) { }
         export class Ply extends Create<PlyFile>({ name: 'PLY File', typeClass: 'Data' }) { }
         export class Ccp4 extends Create<Ccp4File>({ name: 'CCP4/MRC/MAP File', typeClass: 'Data' }) { }
         export class Dsn6 extends Create<Dsn6File>({ name: 'DSN6/BRIX File', typeClass: 'Data' }) { }
@@ -140,6 +142,7 @@ export namespace PluginStateObject {
         }
 
         export class Data extends Create<_Volume>({ name: 'Volume', typeClass: 'Object' }) { }
+        export class Trajectory extends Create<VolumeTrajectory>({ name: 'Volume Trajectory', typeClass: 'Object' }) { }
         export class Lazy extends Create<LazyInfo>({ name: 'Lazy Volume', typeClass: 'Object' }) { }
         export class Representation3D extends CreateRepresentation3D<VolumeRepresentation<any>, _Volume>({ name: 'Volume 3D' }) { }
     }
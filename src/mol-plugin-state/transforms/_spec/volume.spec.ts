@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Mat4, Tensor } from '../../../mol-math/linear-algebra';
+import { CustomProperties } from '../../../mol-model/custom-property';
+import { Volume } from '../../../mol-model/volume';
+import { to_CCP4 } from '../../../mol-model/volume/export/ccp4';
+import { StateTransformer } from '../../../mol-state';
+import { StateTreeSpine } from '../../../mol-state/tree/spine';
+import { Task } from '../../../mol-task';
+import { PluginStateObject as SO } from '../../objects';
+import { ParseBlob } from '../data';
+import { VolumeTrajectoryFromBlob } from '../volume';
+
+function createCcp4Data(value: number) {
+    const space = Tensor.Space([2, 3, 4], [0, 1, 2], Float32Array);
+    const data = space.create();
+    data.fill(value);
+    const volume: Volume = {
+        grid: {
+            transform: { kind: 'matrix', matrix: Mat4.identity() },
+            cells: Tensor.create(space, data),
+            stats: { min: value, max: value, mean: value, sigma: 0 },
+        },
+        sourceData: { kind: '', name: '', data: {} },
+        customProperties: new CustomProperties(),
+        _propertyData: Object.create(null),
+    };
+    return to_CCP4(volume);
+}
+
+async function apply<T extends StateTransformer>(transformer: T, a: StateTransformer.From<T>, params: StateTransformer.Params<T>) {
+    const result = transformer.definition.apply({ a, params, cache: {}, spine: new StateTreeSpine.Impl(new Map()) }, void 0);
+    return (Task.is(result) ? await result.run() : result) as StateTransformer.To<T>;
+}
+
+describe('volume trajectory from blob', () => {
+    it('ccp4 frames', async () => {
+        const blob = new SO.Data.Blob([
+            { id: 'map_1.ccp4', kind: 'binary', data: createCcp4Data(1) },
+            { id: 'map_2.ccp4', kind: 'binary', data: createCcp4Data(2) },
+        ]);
+        const formats = blob.data.map(e => ({ id: e.id, format: 'ccp4' as const }));
+
+        const parsed = await apply(ParseBlob, blob, { formats });
+        expect(parsed.data.map(e => e.kind)).toEqual(['ccp4', 'ccp4']);
+
+        const trajectory = (await apply(VolumeTrajectoryFromBlob, parsed, { entryId: '' })).data;
+        expect(trajectory.frameCount).toBe(2);
+
+        const second = trajectory.getFrameAtIndex(1) as Volume;
+        expect(second.label).toBe('map_2.ccp4');
+        expect(second.grid.cells.space.dimensions).toEqual([2, 3, 4]);
+        expect(second.grid.stats.mean).toBe(2);
+    });
+
+    it('ccp4 needs binary data', async () => {
+        const blob = new SO.Data.Blob([{ id: 'map_1.ccp4', kind: 'string', data: 'MAP' }]);
+        await expect(apply(ParseBlob, blob, { formats: [{ id: 'map_1.ccp4', format: 'ccp4' }] })).rejects.toThrow('CCP4 requires binary data');
+    });
+});
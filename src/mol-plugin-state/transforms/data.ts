@@ -23,17 +23,20 @@ import { ColorNames } from '../../mol-util/color/names';
 import { assertUnreachable } from '../../mol-util/type-helpers';
 import { parsePrmtop } from '../../mol-io/reader/prmtop/parser';
 import { parseTop } from '../../mol-io/reader/top/parser';
+import { parseLammpsData } from '../../mol-io/reader/lammps/data/parser';
 
 export { Download };
 export { DownloadBlob };
 export { RawData };
 export { ReadFile };
+export { ReadFileBlob };
 export { ParseBlob };
 export { ParseCif };
 export { ParseCube };
 export { ParsePsf };
 export { ParsePrmtop };
 export { ParseTop };
+export { ParseLammpsData };
 export { ParsePly };
 export { ParseCcp4 };
 export { ParseDsn6 };
@@ -230,6 +233,48 @@ const ReadFile = PluginStateTransform.BuiltIn({
     isSerializable: () => ({ isSerializable: false, reason: 'Cannot serialize user loaded files.' })
 });
 
+type ReadFileBlob = typeof ReadFileBlob
+const ReadFileBlob = PluginStateTransform.BuiltIn({
+    name: 'read-file-blob',
+    display: { name: 'Read File Blob', description: 'Read multiple string or binary data from the specified files' },
+    from: SO.Root,
+    to: SO.Data.Blob,
+    params: {
+        files: PD.FileList({ multiple: true }),
+        label: PD.Optional(PD.Text('')),
+        isBinary: PD.Optional(PD.Boolean(false, { description: 'If true, open files as as binary (string otherwise)' }))
+    }
+})({
+    apply({ params: p, cache }, plugin: PluginContext) {
+        return Task.create('Open Files', async ctx => {
+            if (!p.files?.length) {
+                plugin.log.error('No file(s) selected');
+                return StateObject.Null;
+            }
+
+            const entries: SO.Data.BlobEntry[] = [];
+            const assets: Asset.Wrapper[] = [];
+            for (const file of p.files) {
+                const asset = await plugin.managers.asset.resolve(file, p.isBinary ? 'binary' : 'string').runInContext(ctx);
+                assets.push(asset);
+                entries.push(p.isBinary
+                    ? { id: file.name, kind: 'binary', data: asset.data as Uint8Array }
+                    : { id: file.name, kind: 'string', data: asset.data as string });
+            }
+            (cache as any).assets = assets;
+
+            const label = p.label || `${entries.length} ${entries.length === 1 ? 'file' : 'files'}`;
+            return new SO.Data.Blob(entries, { label, description: `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}` });
+        });
+    },
+    dispose({ cache }) {
+        const assets: Asset.Wrapper[] | undefined = (cache as any)?.assets;
+        if (!assets) return;
+        for (const a of assets) a.dispose();
+    },
+    isSerializable: () => ({ isSerializable: false, reason: 'Cannot serialize user loaded files.' })
+});
+
 type ParseBlob = typeof ParseBlob
 const ParseBlob = PluginStateTransform.BuiltIn({
     name: 'parse-blob',
@@ -239,7 +284,7 @@ const ParseBlob = PluginStateTransform.BuiltIn({
     params: {
         formats: PD.ObjectList({
             id: PD.Text('', { label: 'Unique ID' }),
-            format: PD.Select<'cif'>('cif', [['cif', 'cif']])
+            format: PD.Select<'cif' | 'ccp4'>('cif', [['cif', 'cif'], ['ccp4', 'ccp4']])
         }, e => `${e.id}: ${e.format}`)
     }
 })({
@@ -251,11 +296,19 @@ const ParseBlob = PluginStateTransform.BuiltIn({
             const entries: SO.Format.BlobEntry[] = [];
 
             for (const e of a.data) {
-                if (!map.has(e.id)) continue;
+                const format = map.get(e.id);
+                if (!format) continue;
 
-                const parsed = await (e.kind === 'string' ? CIF.parse(e.data) : CIF.parseBinary(e.data)).runInContext(ctx);
-                if (parsed.isError) throw new Error(`${e.id}: ${parsed.message}`);
-                entries.push({ id: e.id, kind: 'cif', data: parsed.result });
+                if (format === 'ccp4') {
+                    if (e.kind !== 'binary') throw new Error(`${e.id}: CCP4 requires binary data`);
+                    const parsed = await CCP4.parse(e.data, e.id).runInContext(ctx);
+                    if (parsed.isError) throw new Error(`${e.id}: ${parsed.message}`);
+                    entries.push({ id: e.id, kind: 'ccp4', data: parsed.result });
+                } else {
+                    const parsed = await (e.kind === 'string' ? CIF.parse(e.data) : CIF.parseBinary(e.data)).runInContext(ctx);
+                    if (parsed.isError) throw new Error(`${e.id}: ${parsed.message}`);
+                    entries.push({ id: e.id, kind: 'cif', data: parsed.result });
+                }
             }
 
             return new SO.Format.Blob(entries, { label: 'Format Blob', description: `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}` });
@@ -353,6 +406,22 @@ const ParseTop = PluginStateTransform.BuiltIn({
     }
 });
 
+type ParseLammpsData = typeof ParseLammpsData
+const ParseLammpsData = PluginStateTransform.BuiltIn({
+    name: 'parse-lammps-data',
+    display: { name: 'Parse LAMMPS Data', description: 'Parse LAMMPS data file from String data' },
+    from: [SO.Data.String],
+    to: SO.Format.LammpsData
+})({
+    apply({ a }) {
+        return Task.create('Parse LAMMPS Data', async ctx => {
+            const parsed = await parseLammpsData(a.data).runInContext(ctx);
+            if (parsed.isError) throw new Error(parsed.message);
+            return new SO.Format.LammpsData(parsed.result);
+        });
+    }
+});
+
 type ParsePly = typeof ParsePly
 const ParsePly = PluginStateTransform.BuiltIn({
     name: 'parse-ply',
@@ -5,12 +5,14 @@
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
 
-import { parseDcd } from '../../mol-io/reader/dcd/parser';
+import { FileHandle } from '../../mol-io/common/file-handle';
+import { SimpleBuffer } from '../../mol-io/common/simple-buffer';
+import { indexDcd } from '../../mol-io/reader/dcd/parser';
 import { parseGRO } from '../../mol-io/reader/gro/parser';
 import { parsePDB } from '../../mol-io/reader/pdb/parser';
 import { Mat4, Vec3 } from '../../mol-math/linear-algebra';
 import { shapeFromPly } from '../../mol-model-formats/shape/ply';
-import { coordinatesFromDcd } from '../../mol-model-formats/structure/dcd';
+import { lazyCoordinatesFromDcd } from '../../mol-model-formats/structure/dcd';
 import { trajectoryFromGRO } from '../../mol-model-formats/structure/gro';
 import { trajectoryFromMmCIF } from '../../mol-model-formats/structure/mmcif';
 import { trajectoryFromPDB } from '../../mol-model-formats/structure/pdb';
@@ -35,10 +37,12 @@ import { trajectoryFromCifCore } from '../../mol-model-formats/structure/cif-cor
 import { trajectoryFromCube } from '../../mol-model-formats/structure/cube';
 import { parseMol2 } from '../../mol-io/reader/mol2/parser';
 import { trajectoryFromMol2 } from '../../mol-model-formats/structure/mol2';
-import { parseXtc } from '../../mol-io/reader/xtc/parser';
-import { coordinatesFromXtc } from '../../mol-model-formats/structure/xtc';
+import { indexXtc } from '../../mol-io/reader/xtc/parser';
+import { lazyCoordinatesFromXtc } from '../../mol-model-formats/structure/xtc';
 import { parseXyz } from '../../mol-io/reader/xyz/parser';
 import { trajectoryFromXyz } from '../../mol-model-formats/structure/xyz';
+import { parsePqr } from '../../mol-io/reader/pqr/parser';
+import { trajectoryFromPQR } from '../../mol-model-formats/structure/pqr';
 import { parseSdf } from '../../mol-io/reader/sdf/parser';
 import { trajectoryFromSdf } from '../../mol-model-formats/structure/sdf';
 import { assertUnreachable } from '../../mol-util/type-helpers';
@@ -46,22 +50,35 @@ import { parseTrr } from '../../mol-io/reader/trr/parser';
 import { coordinatesFromTrr } from '../../mol-model-formats/structure/trr';
 import { parseNctraj } from '../../mol-io/reader/nctraj/parser';
 import { coordinatesFromNctraj } from '../../mol-model-formats/structure/nctraj';
+import { parseRst7 } from '../../mol-io/reader/rst7/parser';
+import { parseNcrst } from '../../mol-io/reader/ncrst/parser';
+import { coordinatesFromRst7 } from '../../mol-model-formats/structure/rst7';
 import { topologyFromPrmtop } from '../../mol-model-formats/structure/prmtop';
 import { topologyFromTop } from '../../mol-model-formats/structure/top';
+import { topologyFromLammpsData } from '../../mol-model-formats/structure/lammps-data';
+import { parseLammpsDump } from '../../mol-io/reader/lammps/dump/parser';
+import { coordinatesFromLammpsDump } from '../../mol-model-formats/structure/lammps-dump';
 
 export { CoordinatesFromDcd };
+export { CoordinatesFromDcdFile };
 export { CoordinatesFromXtc };
+export { CoordinatesFromXtcFile };
 export { CoordinatesFromTrr };
 export { CoordinatesFromNctraj };
+export { CoordinatesFromRst7 };
+export { CoordinatesFromNcrst };
+export { CoordinatesFromLammpsDump };
 export { TopologyFromPsf };
 export { TopologyFromPrmtop };
 export { TopologyFromTop };
+export { TopologyFromLammpsData };
 export { TrajectoryFromModelAndCoordinates };
 export { TrajectoryFromBlob };
 export { TrajectoryFromMmCif };
 export { TrajectoryFromPDB };
 export { TrajectoryFromGRO };
 export { TrajectoryFromXYZ };
+export { TrajectoryFromPQR };
 export { TrajectoryFromMOL };
 export { TrajectoryFromSDF };
 export { TrajectoryFromMOL2 };
@@ -81,6 +98,18 @@ export { CustomModelProperties };
 export { CustomStructureProperties };
 export { ShapeFromPly };
 
+async function lazyCoordinatesFromFile(ctx: RuntimeContext, file: FileHandle, size: number, format: 'dcd' | 'xtc') {
+    if (format === 'dcd') {
+        const parsed = await indexDcd(file, size).runInContext(ctx);
+        if (parsed.isError) throw new Error(parsed.message);
+        return lazyCoordinatesFromDcd(file, parsed.result).runInContext(ctx);
+    } else {
+        const parsed = await indexXtc(file, size).runInContext(ctx);
+        if (parsed.isError) throw new Error(parsed.message);
+        return lazyCoordinatesFromXtc(file, parsed.result).runInContext(ctx);
+    }
+}
+
 type CoordinatesFromDcd = typeof CoordinatesFromDcd
 const CoordinatesFromDcd = PluginStateTransform.BuiltIn({
     name: 'coordinates-from-dcd',
@@ -90,14 +119,35 @@ const CoordinatesFromDcd = PluginStateTransform.BuiltIn({
 })({
     apply({ a }) {
         return Task.create('Parse DCD', async ctx => {
-            const parsed = await parseDcd(a.data).runInContext(ctx);
-            if (parsed.isError) throw new Error(parsed.message);
-            const coordinates = await coordinatesFromDcd(parsed.result).runInContext(ctx);
+            const file = FileHandle.fromBuffer(SimpleBuffer.fromUint8Array(a.data), a.label);
+            const coordinates = await lazyCoordinatesFromFile(ctx, file, a.data.length, 'dcd');
             return new SO.Molecule.Coordinates(coordinates, { label: a.label, description: 'Coordinates' });
         });
     }
 });
 
+type CoordinatesFromDcdFile = typeof CoordinatesFromDcdFile
+const CoordinatesFromDcdFile = PluginStateTransform.BuiltIn({
+    name: 'coordinates-from-dcd-file',
+    display: { name: 'Read DCD', description: 'Read DCD frames from the file on demand, without loading all of it.' },
+    from: SO.Root,
+    to: SO.Molecule.Coordinates,
+    params: {
+        file: PD.File(),
+        label: PD.Optional(PD.Text(''))
+    }
+})({
+    apply({ params: p }) {
+        return Task.create('Read DCD', async ctx => {
+            if (!p.file?.file) throw new Error('No file selected');
+            const file = FileHandle.fromBlob(p.file.file, p.file.name);
+            const coordinates = await lazyCoordinatesFromFile(ctx, file, p.file.file.size, 'dcd');
+            return new SO.Molecule.Coordinates(coordinates, { label: p.label || p.file.name, description: 'Coordinates' });
+        });
+    },
+    isSerializable: () => ({ isSerializable: false, reason: 'Cannot serialize user loaded files.' })
+});
+
 type CoordinatesFromXtc = typeof CoordinatesFromXtc
 const CoordinatesFromXtc = PluginStateTransform.BuiltIn({
     name: 'coordinates-from-xtc',
@@ -107,14 +157,35 @@ const CoordinatesFromXtc = PluginStateTransform.BuiltIn({
 })({
     apply({ a }) {
         return Task.create('Parse XTC', async ctx => {
-            const parsed = await parseXtc(a.data).runInContext(ctx);
-            if (parsed.isError) throw new Error(parsed.message);
-            const coordinates = await coordinatesFromXtc(parsed.result).runInContext(ctx);
+            const file = FileHandle.fromBuffer(SimpleBuffer.fromUint8Array(a.data), a.label);
+            const coordinates = await lazyCoordinatesFromFile(ctx, file, a.data.length, 'xtc');
             return new SO.Molecule.Coordinates(coordinates, { label: a.label, description: 'Coordinates' });
         });
     }
 });
 
+type CoordinatesFromXtcFile = typeof CoordinatesFromXtcFile
+const CoordinatesFromXtcFile = PluginStateTransform.BuiltIn({
+    name: 'coordinates-from-xtc-file',
+    display: { name: 'Read XTC', description: 'Read XTC frames from the file on demand, without loading all of it.' },
+    from: SO.Root,
+    to: SO.Molecule.Coordinates,
+    params: {
+        file: PD.File(),
+        label: PD.Optional(PD.Text(''))
+    }
+})({
+    apply({ params: p }) {
+        return Task.create('Read XTC', async ctx => {
+            if (!p.file?.file) throw new Error('No file selected');
+            const file = FileHandle.fromBlob(p.file.file, p.file.name);
+            const coordinates = await lazyCoordinatesFromFile(ctx, file, p.file.file.size, 'xtc');
+            return new SO.Molecule.Coordinates(coordinates, { label: p.label || p.file.name, description: 'Coordinates' });
+        });
+    },
+    isSerializable: () => ({ isSerializable: false, reason: 'Cannot serialize user loaded files.' })
+});
+
 type CoordinatesFromTrr = typeof CoordinatesFromTrr
 const CoordinatesFromTrr = PluginStateTransform.BuiltIn({
     name: 'coordinates-from-trr',
@@ -149,6 +220,57 @@ const CoordinatesFromNctraj = PluginStateTransform.BuiltIn({
     }
 });
 
+type CoordinatesFromRst7 = typeof CoordinatesFromRst7
+const CoordinatesFromRst7 = PluginStateTransform.BuiltIn({
+    name: 'coordinates-from-rst7',
+    display: { name: 'Parse RST7', description: 'Parse AMBER ASCII restart/inpcrd data.' },
+    from: [SO.Data.String],
+    to: SO.Molecule.Coordinates
+})({
+    apply({ a }) {
+        return Task.create('Parse RST7', async ctx => {
+            const parsed = await parseRst7(a.data).runInContext(ctx);
+            if (parsed.isError) throw new Error(parsed.message);
+            const coordinates = await coordinatesFromRst7(parsed.result).runInContext(ctx);
+            return new SO.Molecule.Coordinates(coordinates, { label: a.label, description: 'Coordinates' });
+        });
+    }
+});
+
+type CoordinatesFromNcrst = typeof CoordinatesFromNcrst
+const CoordinatesFromNcrst = PluginStateTransform.BuiltIn({
+    name: 'coordinates-from-ncrst',
+    display: { name: 'Parse NCRST', description: 'Parse AMBER NetCDF restart binary data.' },
+    from: [SO.Data.Binary],
+    to: SO.Molecule.Coordinates
+})({
+    apply({ a }) {
+        return Task.create('Parse NCRST', async ctx => {
+            const parsed = await parseNcrst(a.data).runInContext(ctx);
+            if (parsed.isError) throw new Error(parsed.message);
+            const coordinates = await coordinatesFromRst7(parsed.result).runInContext(ctx);
+            return new SO.Molecule.Coordinates(coordinates, { label: a.label, description: 'Coordinates' });
+        });
+    }
+});
+
+type CoordinatesFromLammpsDump = typeof CoordinatesFromLammpsDump
+const CoordinatesFromLammpsDump = PluginStateTransform.BuiltIn({
+    name: 'coordinates-from-lammps-dump',
+    display: { name: 'Parse LAMMPS Dump', description: 'Parse LAMMPS dump trajectory string data.' },
+    from: [SO.Data.String],
+    to: SO.Molecule.Coordinates
+})({
+    apply({ a }) {
+        return Task.create('Parse LAMMPS Dump', async ctx => {
+            const parsed = await parseLammpsDump(a.data).runInContext(ctx);
+            if (parsed.isError) throw new Error(parsed.message);
+            const coordinates = await coordinatesFromLammpsDump(parsed.result).runInContext(ctx);
+            return new SO.Molecule.Coordinates(coordinates, { label: a.label, description: 'Coordinates' });
+        });
+    }
+});
+
 type TopologyFromPsf = typeof TopologyFromPsf
 const TopologyFromPsf = PluginStateTransform.BuiltIn({
     name: 'topology-from-psf',
@@ -194,6 +316,21 @@ const TopologyFromTop = PluginStateTransform.BuiltIn({
     }
 });
 
+type TopologyFromLammpsData = typeof TopologyFromLammpsData
+const TopologyFromLammpsData = PluginStateTransform.BuiltIn({
+    name: 'topology-from-lammps-data',
+    display: { name: 'LAMMPS Data Topology', description: 'Create topology from LAMMPS data file.' },
+    from: [SO.Format.LammpsData],
+    to: SO.Molecule.Topology
+})({
+    apply({ a }) {
+        return Task.create('Create Topology', async ctx => {
+            const topology = await topologyFromLammpsData(a.data).runInContext(ctx);
+            return new SO.Molecule.Topology(topology, { label: topology.label || a.label, description: 'Topology' });
+        });
+    }
+});
+
 async function getTrajectory(ctx: RuntimeContext, obj: StateObject, coordinates: Coordinates) {
     if (obj.type === SO.Molecule.Topology.type) {
         const topology = obj.data as Topology;
@@ -352,6 +489,24 @@ const TrajectoryFromXYZ = PluginStateTransform.BuiltIn({
     }
 });
 
+type TrajectoryFromPQR = typeof TrajectoryFromPQR
+const TrajectoryFromPQR = PluginStateTransform.BuiltIn({
+    name: 'trajectory-from-pqr',
+    display: { name: 'Parse PQR', description: 'Parse PQR string and create trajectory.' },
+    from: [SO.Data.String],
+    to: SO.Molecule.Trajectory
+})({
+    apply({ a }) {
+        return Task.create('Parse PQR', async ctx => {
+            const parsed = await parsePqr(a.data, a.label).runInContext(ctx);
+            if (parsed.isError) throw new Error(parsed.message);
+            const models = await trajectoryFromPQR(parsed.result).runInContext(ctx);
+            const props = trajectoryProps(models);
+            return new SO.Molecule.Trajectory(models, props);
+        });
+    }
+});
+
 type TrajectoryFromMOL = typeof TrajectoryFromMOL
 const TrajectoryFromMOL = PluginStateTransform.BuiltIn({
     name: 'trajectory-from-mol',
@@ -5,7 +5,7 @@
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
 
-import { CIF } from '../../mol-io/reader/cif';
+import { CIF, CifBlock } from '../../mol-io/reader/cif';
 import { Vec3 } from '../../mol-math/linear-algebra';
 import { volumeFromCcp4 } from '../../mol-model-formats/volume/ccp4';
 import { volumeFromDensityServerData } from '../../mol-model-formats/volume/density-server';
@@ -15,9 +15,11 @@ import { ParamDefinition as PD } from '../../mol-util/param-definition';
 import { PluginStateObject as SO, PluginStateTransform } from '../objects';
 import { volumeFromCube } from '../../mol-model-formats/volume/cube';
 import { volumeFromDx } from '../../mol-model-formats/volume/dx';
-import { Volume } from '../../mol-model/volume';
+import { ArrayVolumeTrajectory, combineVolumes, maskVolume, normalizeVolume, resampleVolume, simulateDensity, SimulatedDensityAtoms, smoothVolume, Volume } from '../../mol-model/volume';
+import { Structure, StructureElement, Unit } from '../../mol-model/structure';
 import { PluginContext } from '../../mol-plugin/context';
 import { StateSelection } from '../../mol-state';
+import { ColorNames } from '../../mol-util/color/names';
 
 export { VolumeFromCcp4 };
 export { VolumeFromDsn6 };
@@ -25,6 +27,16 @@ export { VolumeFromCube };
 export { VolumeFromDx };
 export { AssignColorVolume };
 export { VolumeFromDensityServerCif };
+export { VolumeArithmetic };
+export { VolumeGaussianSmooth };
+export { VolumeResample };
+export { VolumeMask };
+export { VolumeNormalize };
+export { VolumeSegmentation };
+export { VolumeFromStructure };
+export { VolumeTrajectoryFromBlob };
+export { VolumeTrajectoryFromDensityServerCif };
+export { VolumeFromTrajectory };
 
 type VolumeFromCcp4 = typeof VolumeFromCcp4
 const VolumeFromCcp4 = PluginStateTransform.BuiltIn({
@@ -189,3 +201,323 @@ const AssignColorVolume = PluginStateTransform.BuiltIn({
         });
     }
 });
+
+type VolumeArithmetic = typeof VolumeArithmetic
+const VolumeArithmetic = PluginStateTransform.BuiltIn({
+    name: 'volume-arithmetic',
+    display: { name: 'Volume Arithmetic', description: 'Creates the sum or difference of two volumes on the same grid.' },
+    from: SO.Volume.Data,
+    to: SO.Volume.Data,
+    params(a, plugin: PluginContext) {
+        const operation = PD.Select('difference', [['difference', 'Difference (A - B)'], ['sum', 'Sum (A + B)']] as const);
+        if (!a) return { operation, ref: PD.Text() };
+        const cells = plugin.state.data.select(StateSelection.Generators.root.subtree().ofType(SO.Volume.Data).filter(cell => !!cell.obj && cell.obj !== a));
+        if (cells.length === 0) return { operation, ref: PD.Text('', { isHidden: true }) };
+        return { operation, ref: PD.Select(cells[0].transform.ref, cells.map(c => [c.transform.ref, c.obj!.label])) };
+    }
+})({
+    apply({ a, params, dependencies }) {
+        return Task.create('Volume Arithmetic', async ctx => {
+            if (!dependencies || !dependencies[params.ref]) {
+                throw new Error('Dependency not available.');
+            }
+            const b = dependencies[params.ref] as SO.Volume.Data;
+            const volume = await combineVolumes(a.data, b.data, params.operation).runInContext(ctx);
+            const op = params.operation === 'sum' ? '+' : '-';
+            const props = { label: `${a.label} ${op} ${b.label}`, description: params.operation === 'sum' ? 'Sum' : 'Difference' };
+            return new SO.Volume.Data(volume, props);
+        });
+    },
+    dispose({ b }) {
+        b?.data.customProperties.dispose();
+    }
+});
+
+type VolumeGaussianSmooth = typeof VolumeGaussianSmooth
+const VolumeGaussianSmooth = PluginStateTransform.BuiltIn({
+    name: 'volume-gaussian-smooth',
+    display: { name: 'Smooth Volume', description: 'Applies a Gaussian filter to the volume.' },
+    from: SO.Volume.Data,
+    to: SO.Volume.Data,
+    params: {
+        sigma: PD.Numeric(1, { min: 0.1, max: 10, step: 0.1 }, { description: 'Standard deviation of the Gaussian in \u212B.' }),
+    }
+})({
+    apply({ a, params }) {
+        return Task.create('Smooth Volume', async ctx => {
+            const volume = await smoothVolume(a.data, params.sigma).runInContext(ctx);
+            const props = { label: a.label, description: `Smoothed (\u03C3 ${params.sigma} \u212B)` };
+            return new SO.Volume.Data(volume, props);
+        });
+    },
+    dispose({ b }) {
+        b?.data.customProperties.dispose();
+    }
+});
+
+type VolumeResample = typeof VolumeResample
+const VolumeResample = PluginStateTransform.BuiltIn({
+    name: 'volume-resample',
+    display: { name: 'Resample Volume', description: 'Resamples the volume to a new voxel size using trilinear interpolation.' },
+    from: SO.Volume.Data,
+    to: SO.Volume.Data,
+    params: {
+        voxelSize: PD.Numeric(1, { min: 0.1, max: 10, step: 0.1 }, { description: 'Voxel size in \u212B.' }),
+    }
+})({
+    apply({ a, params }) {
+        return Task.create('Resample Volume', async ctx => {
+            const volume = await resampleVolume(a.data, params.voxelSize).runInContext(ctx);
+            const [x, y, z] = volume.grid.cells.space.dimensions;
+            const props = { label: a.label, description: `Volume ${x}\u00D7${y}\u00D7${z}` };
+            return new SO.Volume.Data(volume, props);
+        });
+    },
+    dispose({ b }) {
+        b?.data.customProperties.dispose();
+    }
+});
+
+function getStructurePositions(structure: Structure) {
+    const x = new Float32Array(structure.elementCount);
+    const y = new Float32Array(structure.elementCount);
+    const z = new Float32Array(structure.elementCount);
+    let o = 0;
+    for (const { elements, conformation } of structure.units) {
+        for (let i = 0, il = elements.length; i < il; ++i) {
+            const e = elements[i];
+            x[o] = conformation.x(e);
+            y[o] = conformation.y(e);
+            z[o++] = conformation.z(e);
+        }
+    }
+    return { x, y, z };
+}
+
+type VolumeMask = typeof VolumeMask
+const VolumeMask = PluginStateTransform.BuiltIn({
+    name: 'volume-mask',
+    display: { name: 'Mask Volume', description: 'Sets the volume to zero beyond a distance from a structure or a selection of it.' },
+    from: SO.Volume.Data,
+    to: SO.Volume.Data,
+    params(a, plugin: PluginContext) {
+        const params = {
+            radius: PD.Numeric(3, { min: 0.5, max: 20, step: 0.5 }, { description: 'Distance in \u212B from the structure atoms.' }),
+            invert: PD.Boolean(false, { description: 'Zero out the volume within the radius instead.' }),
+            bundle: PD.Value<StructureElement.Bundle>(StructureElement.Bundle.Empty, { isHidden: true, description: 'Atoms of the structure to mask by, all atoms when empty.' }),
+        };
+        if (!a) return { ...params, ref: PD.Text() };
+        const cells = plugin.state.data.select(StateSelection.Generators.root.subtree().ofType(SO.Molecule.Structure).filter(cell => !!cell.obj));
+        if (cells.length === 0) return { ...params, ref: PD.Text('', { isHidden: true, label: 'Structure' }) };
+        return { ...params, ref: PD.Select(cells[0].transform.ref, cells.map(c => [c.transform.ref, c.obj!.label]), { label: 'Structure' }) };
+    }
+})({
+    apply({ a, params, dependencies }) {
+        return Task.create('Mask Volume', async ctx => {
+            if (!dependencies || !dependencies[params.ref]) {
+                throw new Error('Dependency not available.');
+            }
+            const structure = dependencies[params.ref] as SO.Molecule.Structure;
+            const { bundle } = params;
+            const isSelection = bundle.elements.length > 0;
+            if (isSelection && bundle.hash !== structure.data.hashCode) {
+                throw new Error('Selection does not match the structure.');
+            }
+            const atoms = isSelection ? StructureElement.Bundle.toStructure(bundle, structure.data) : structure.data;
+            const volume = await maskVolume(a.data, getStructurePositions(atoms), params.radius, params.invert).runInContext(ctx);
+            const props = { label: a.label, description: `Masked by ${isSelection ? 'selection of ' : ''}${structure.label}` };
+            return new SO.Volume.Data(volume, props);
+        });
+    },
+    dispose({ b }) {
+        b?.data.customProperties.dispose();
+    }
+});
+
+type VolumeNormalize = typeof VolumeNormalize
+const VolumeNormalize = PluginStateTransform.BuiltIn({
+    name: 'volume-normalize',
+    display: { name: 'Normalize Volume', description: 'Shifts and scales the volume values to zero mean and unit sigma.' },
+    from: SO.Volume.Data,
+    to: SO.Volume.Data
+})({
+    apply({ a }) {
+        return Task.create('Normalize Volume', async ctx => {
+            const volume = await normalizeVolume(a.data).runInContext(ctx);
+            const props = { label: a.label, description: 'Normalized' };
+            return new SO.Volume.Data(volume, props);
+        });
+    },
+    dispose({ b }) {
+        b?.data.customProperties.dispose();
+    }
+});
+
+type VolumeSegmentation = typeof VolumeSegmentation
+const VolumeSegmentation = PluginStateTransform.BuiltIn({
+    name: 'volume-segmentation',
+    display: { name: 'Volume Segmentation', description: 'Interprets the volume as an integer label map with one segment per non-zero value.' },
+    from: SO.Volume.Data,
+    to: SO.Volume.Data,
+    isDecorator: true,
+    params: {
+        annotations: PD.ObjectList({
+            id: PD.Numeric(1, { min: 1, step: 1 }, { description: 'Value of the segment cells in the label map' }),
+            label: PD.Text(''),
+            color: PD.Optional(PD.Color(ColorNames.grey)),
+            description: PD.Optional(PD.Text('')),
+        }, e => `${e.id}: ${e.label}`, { description: 'Segment annotations, segments without an entry are labeled by their id.' })
+    }
+})({
+    apply({ a, params }) {
+        return Task.create('Volume Segmentation', async ctx => {
+            await ctx.update('Collecting segments...');
+            const segmentation = Volume.Segmentation.create(a.data.grid, params.annotations);
+            const volume: Volume = {
+                ...a.data,
+                segmentation
+            };
+            const props = { label: a.label, description: `Segmentation (${segmentation.segments.length} segments)` };
+            return new SO.Volume.Data(volume, props);
+        });
+    }
+});
+
+function getStructureAtoms(structure: Structure, useBFactors: boolean): SimulatedDensityAtoms {
+    const x: number[] = [], y: number[] = [], z: number[] = [], element: string[] = [], B: number[] = [];
+    for (const unit of structure.units) {
+        if (!Unit.isAtomic(unit)) continue;
+        const { elements, conformation, model } = unit;
+        const { type_symbol } = model.atomicHierarchy.atoms;
+        const { B_iso_or_equiv } = model.atomicConformation;
+        for (let i = 0, il = elements.length; i < il; ++i) {
+            const e = elements[i];
+            x.push(conformation.x(e));
+            y.push(conformation.y(e));
+            z.push(conformation.z(e));
+            element.push(type_symbol.value(e));
+            if (useBFactors) B.push(B_iso_or_equiv.value(e));
+        }
+    }
+    return { x, y, z, element, B: useBFactors ? B : undefined };
+}
+
+type VolumeFromStructure = typeof VolumeFromStructure
+const VolumeFromStructure = PluginStateTransform.BuiltIn({
+    name: 'volume-from-structure',
+    display: { name: 'Simulated Density', description: 'Create a density map from the atoms of the structure at the given resolution.' },
+    from: SO.Molecule.Structure,
+    to: SO.Volume.Data,
+    params: {
+        resolution: PD.Numeric(4, { min: 0.5, max: 30, step: 0.1 }, { description: 'Resolution in \u212B, sets the B-factor used to blur the atom densities.' }),
+        voxelSize: PD.Numeric(1, { min: 0.1, max: 10, step: 0.1 }, { description: 'Grid spacing in \u212B.' }),
+        useBFactors: PD.Boolean(false, { description: 'Add the atomic B-factors to the resolution dependent B-factor.' }),
+    }
+})({
+    apply({ a, params }) {
+        return Task.create('Simulated Density', async ctx => {
+            const atoms = getStructureAtoms(a.data, params.useBFactors);
+            const volume = await simulateDensity(atoms, params).runInContext(ctx);
+            const props = { label: `${a.label} Density`, description: `Simulated at ${params.resolution} \u212B` };
+            return new SO.Volume.Data(volume, props);
+        });
+    },
+    dispose({ b }) {
+        b?.data.customProperties.dispose();
+    }
+});
+
+/** Skips the data block with the query meta-data */
+function hasVolumeData(block: CifBlock) {
+    return block.categories['volume_data_3d_info']?.rowCount > 0;
+}
+
+type VolumeTrajectoryFromBlob = typeof VolumeTrajectoryFromBlob
+const VolumeTrajectoryFromBlob = PluginStateTransform.BuiltIn({
+    name: 'volume-trajectory-from-blob',
+    display: { name: 'Volume Trajectory from Blob', description: 'Create a volume trajectory with one frame per CCP4/MRC or density-server CIF entry' },
+    from: SO.Format.Blob,
+    to: SO.Volume.Trajectory,
+    params: {
+        entryId: PD.Text(''),
+    }
+})({
+    apply({ a, params }) {
+        return Task.create('Create volume trajectory', async ctx => {
+            const frames: Volume[] = [];
+            for (const e of a.data) {
+                if (e.kind === 'ccp4') {
+                    frames.push(await volumeFromCcp4(e.data, { entryId: params.entryId, label: e.id }).runInContext(ctx));
+                } else if (e.kind === 'cif') {
+                    const block = e.data.blocks.find(hasVolumeData);
+                    if (!block) throw new Error(`${e.id}: no volume data block`);
+                    const densityServerCif = CIF.schema.densityServer(block);
+                    const volume = await volumeFromDensityServerData(densityServerCif, { entryId: params.entryId }).runInContext(ctx);
+                    frames.push({ ...volume, label: e.id });
+                } else {
+                    throw new Error(`${e.id}: unsupported '${e.kind}' entry`);
+                }
+            }
+            const trajectory = new ArrayVolumeTrajectory(frames);
+            return new SO.Volume.Trajectory(trajectory, { label: params.entryId || 'Volume Trajectory', description: `${frames.length} frames` });
+        });
+    }
+});
+
+type VolumeTrajectoryFromDensityServerCif = typeof VolumeTrajectoryFromDensityServerCif
+const VolumeTrajectoryFromDensityServerCif = PluginStateTransform.BuiltIn({
+    name: 'volume-trajectory-from-density-server-cif',
+    display: { name: 'Volume Trajectory from density-server CIF', description: 'Create a volume trajectory with one frame per data block' },
+    from: SO.Format.Cif,
+    to: SO.Volume.Trajectory,
+    params: {
+        entryId: PD.Text(''),
+    }
+})({
+    isApplicable: a => a.data.blocks.filter(hasVolumeData).length > 1,
+    apply({ a, params }) {
+        return Task.create('Create volume trajectory', async ctx => {
+            const frames: Volume[] = [];
+            for (const block of a.data.blocks.filter(hasVolumeData)) {
+                const densityServerCif = CIF.schema.densityServer(block);
+                const volume = await volumeFromDensityServerData(densityServerCif, { entryId: params.entryId }).runInContext(ctx);
+                frames.push({ ...volume, label: block.header });
+            }
+            const trajectory = new ArrayVolumeTrajectory(frames);
+            return new SO.Volume.Trajectory(trajectory, { label: params.entryId || 'Volume Trajectory', description: `${frames.length} frames` });
+        });
+    }
+});
+
+const plus1 = (v: number) => v + 1, minus1 = (v: number) => v - 1;
+
+type VolumeFromTrajectory = typeof VolumeFromTrajectory
+const VolumeFromTrajectory = PluginStateTransform.BuiltIn({
+    name: 'volume-from-trajectory',
+    display: { name: 'Volume from Trajectory', description: 'Create a volume from specified index in a volume trajectory.' },
+    from: SO.Volume.Trajectory,
+    to: SO.Volume.Data,
+    params: a => {
+        if (!a) {
+            return { frameIndex: PD.Numeric(0, {}, { description: 'Zero-based index of the frame', immediateUpdate: true }) };
+        }
+        return { frameIndex: PD.Converted(plus1, minus1, PD.Numeric(1, { min: 1, max: a.data.frameCount, step: 1 }, { description: 'Frame Index', immediateUpdate: true })) };
+    }
+})({
+    isApplicable: a => a.data.frameCount > 0,
+    apply({ a, params }) {
+        return Task.create('Volume from Trajectory', async ctx => {
+            let frameIndex = params.frameIndex % a.data.frameCount;
+            if (frameIndex < 0) frameIndex += a.data.frameCount;
+            const volume = await Task.resolveInContext(a.data.getFrameAtIndex(frameIndex), ctx);
+            const [x, y, z] = volume.grid.cells.space.dimensions;
+            const label = `Frame ${frameIndex + 1}`;
+            const description = `of ${a.data.frameCount}, Volume ${x}\u00D7${y}\u00D7${z}`;
+            return new SO.Volume.Data(volume, { label, description });
+        });
+    },
+    interpolate(a, b, t) {
+        const frameIndex = t >= 1 ? b.frameIndex : a.frameIndex + Math.floor((b.frameIndex - a.frameIndex + 1) * t);
+        return { frameIndex };
+    }
+});
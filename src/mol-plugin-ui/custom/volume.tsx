@@ -180,6 +180,14 @@ export class VolumeStreamingCustomControls extends PluginUIComponent<StateTransf
                     params: old.entry.params,
                 }
             });
+        } else if (name === 'mode') {
+            this.newParams({
+                ...old,
+                entry: {
+                    name: old.entry.name,
+                    params: { ...old.entry.params, mode: value },
+                }
+            });
         } else {
             const b = (this.props.b as VolumeStreaming).data;
             const isEM = b.info.kind === 'em';
@@ -256,6 +264,7 @@ export class VolumeStreamingCustomControls extends PluginUIComponent<StateTransf
         // TODO: factor common things out, cache
         const OptionsParams = {
             entry: PD.Select(params.entry.name, b.data.entries.map(info => [info.dataId, info.dataId] as [string, string]), { isHidden: isOff, description: 'Which entry with volume data to display.' }),
+            mode: PD.Select(params.entry.params.mode, VolumeStreaming.ModeTypeOptions, { isHidden: isOff, description: 'Compute the isosurfaces locally from the volume data or download meshes computed by the server.' }),
             view: PD.MappedStatic(params.entry.params.view.name, {
                 'off': PD.Group({
                     isRelative: PD.Boolean(isRelative, { isHidden: true }),
@@ -291,6 +300,7 @@ export class VolumeStreamingCustomControls extends PluginUIComponent<StateTransf
         };
         const options = {
             entry: params.entry.name,
+            mode: params.entry.params.mode,
             view: {
                 name: params.entry.params.view.name,
                 params: {
@@ -8,6 +8,7 @@ import { PluginUIComponent } from '../base';
 import { ParameterControls, ParamOnChange } from '../controls/parameters';
 import { Button } from '../controls/common';
 import { PlayArrowSvg } from '../controls/icons';
+import { AnimateCameraPath, CameraPathProps, createCameraPathKeyframe } from '../../mol-plugin-state/animation/built-in/camera-path';
 
 export class AnimationControls extends PluginUIComponent<{ onStart?: () => void }> {
     componentDidMount() {
@@ -22,6 +23,13 @@ export class AnimationControls extends PluginUIComponent<{ onStart?: () => void
         this.plugin.managers.animation.updateCurrentParams({ [p.name]: p.value });
     };
 
+    addCameraPathKeyframe = () => {
+        if (!this.plugin.canvas3d) return;
+        const { keyframes } = this.plugin.managers.animation.current.paramValues as CameraPathProps;
+        const keyframe = createCameraPathKeyframe(this.plugin.canvas3d.camera.getSnapshot());
+        this.plugin.managers.animation.updateCurrentParams({ keyframes: [...keyframes, keyframe] });
+    };
+
     startOrStop = () => {
         const anim = this.plugin.managers.animation;
         if (anim.state.animationState === 'playing') anim.stop();
@@ -41,6 +49,9 @@ export class AnimationControls extends PluginUIComponent<{ onStart?: () => void
         return <>
             <ParameterControls params={anim.getParams()} values={anim.state.params} onChange={this.updateParams} isDisabled={isDisabled} />
             <ParameterControls params={anim.current.params} values={anim.current.paramValues} onChange={this.updateCurrentParams} isDisabled={isDisabled} />
+            {anim.current.anim.name === AnimateCameraPath.name && <div className='msp-flex-row'>
+                <Button onClick={this.addCameraPathKeyframe} disabled={isDisabled}>Add Current View</Button>
+            </div>}
 
             <div className='msp-flex-row'>
                 <Button icon={anim.state.animationState !== 'playing' ? void 0 : PlayArrowSvg} onClick={this.startOrStop} disabled={canApply !== void 0 && canApply.canApply === false}>
@@ -15,15 +15,19 @@ import { InitVolumeStreaming } from '../../mol-plugin/behavior/dynamic/volume-st
 import { State, StateObjectCell, StateObjectSelector, StateSelection, StateTransform } from '../../mol-state';
 import { CollapsableControls, CollapsableState, PurePluginUIComponent } from '../base';
 import { ActionMenu } from '../controls/action-menu';
-import { Button, ExpandGroup, IconButton } from '../controls/common';
+import { Button, ControlRow, ExpandGroup, IconButton, ToggleButton } from '../controls/common';
 import { ApplyActionControl } from '../state/apply-action';
 import { UpdateTransformControl } from '../state/update-transform';
 import { BindingsHelp } from '../viewport/help';
 import { PluginCommands } from '../../mol-plugin/commands';
-import { BlurOnSvg, ErrorSvg, CheckSvg, AddSvg, VisibilityOffOutlinedSvg, VisibilityOutlinedSvg, DeleteOutlinedSvg, MoreHorizSvg } from '../controls/icons';
+import { BlurOnSvg, ErrorSvg, CheckSvg, AddSvg, VisibilityOffOutlinedSvg, VisibilityOutlinedSvg, DeleteOutlinedSvg, MoreHorizSvg, BarChartSvg } from '../controls/icons';
 import { PluginStateObject } from '../../mol-plugin-state/objects';
 import { StateTransforms } from '../../mol-plugin-state/transforms';
 import { createVolumeRepresentationParams } from '../../mol-plugin-state/helpers/volume-representation-params';
+import { Grid, Volume } from '../../mol-model/volume';
+import { clamp } from '../../mol-math/interpolate';
+import { round } from '../../mol-util';
+import { memoizeLatest } from '../../mol-util/memoize';
 
 interface VolumeStreamingControlState extends CollapsableState {
     isBusy: boolean
@@ -108,7 +112,8 @@ export class VolumeStreamingControls extends CollapsableControls<{}, VolumeStrea
 interface VolumeSourceControlState extends CollapsableState {
     isBusy: boolean,
     loadingLabel?: string,
-    show?: 'hierarchy' | 'add-repr'
+    show?: 'hierarchy' | 'add-repr',
+    showInspector?: boolean
 }
 
 export class VolumeSourceControls extends CollapsableControls<{}, VolumeSourceControlState> {
@@ -239,6 +244,7 @@ export class VolumeSourceControls extends CollapsableControls<{}, VolumeSourceCo
 
     toggleHierarchy = () => this.setState({ show: this.state.show !== 'hierarchy' ? 'hierarchy' : void 0 });
     toggleAddRepr = () => this.setState({ show: this.state.show !== 'add-repr' ? 'add-repr' : void 0 });
+    toggleInspector = () => this.setState({ showInspector: !this.state.showInspector });
 
     renderControls() {
         const disabled = this.state.isBusy || this.isEmpty;
@@ -249,9 +255,11 @@ export class VolumeSourceControls extends CollapsableControls<{}, VolumeSourceCo
             <div className='msp-flex-row' style={{ marginTop: '1px' }}>
                 <Button noOverflow flex onClick={this.toggleHierarchy} disabled={disabled} title={label}>{label}</Button>
                 {!this.isEmpty && selected && <IconButton svg={AddSvg} onClick={this.toggleAddRepr} title='Apply a structure presets to the current hierarchy.' toggleState={this.state.show === 'add-repr'} disabled={disabled} />}
+                {!this.isEmpty && selected?.kind === 'volume' && <IconButton svg={BarChartSvg} onClick={this.toggleInspector} title='Volume statistics' toggleState={!!this.state.showInspector} disabled={disabled} />}
             </div>
             {this.state.show === 'hierarchy' && <ActionMenu items={this.hierarchyItems} onSelect={this.selectCurrent} />}
             {this.state.show === 'add-repr' && <ActionMenu items={this.addActions} onSelect={this.selectAdd} />}
+            {this.state.showInspector && selected?.kind === 'volume' && <VolumeInspectorControls volume={selected} />}
 
             {selected && selected.representations.length > 0 && <div style={{ marginTop: '6px' }}>
                 {selected.representations.map(r => <VolumeRepresentationControls key={r.cell.transform.ref} representation={r} />)}
@@ -316,4 +324,190 @@ class VolumeRepresentationControls extends PurePluginUIComponent<{ representatio
             </div>}
         </>;
     }
-}
\ No newline at end of file
+}
+
+const HistogramBinCount = 100;
+const HistogramWidth = 300;
+const HistogramHeight = 80;
+
+type VolumeInspectorRegion = 'map' | 'selection'
+
+interface VolumeInspectorState {
+    region: VolumeInspectorRegion,
+    /** Isosurface representation being dragged and its current absolute isovalue */
+    drag?: { ref: StateTransform.Ref, value: number }
+}
+
+/**
+ * Histogram of the volume values with mean, sigma and isovalue markers.
+ * Isovalues of isosurface representations can be changed by dragging their marker.
+ */
+export class VolumeInspectorControls extends PurePluginUIComponent<{ volume: VolumeRef }, VolumeInspectorState> {
+    state: VolumeInspectorState = { region: 'map' };
+
+    private svg = React.createRef<SVGSVGElement>();
+    private selectionVersion = 0;
+
+    componentDidMount() {
+        this.subscribe(this.plugin.managers.structure.selection.events.changed, () => {
+            this.selectionVersion += 1;
+            if (this.state.region === 'selection') this.forceUpdate();
+        });
+        this.subscribe(this.plugin.state.events.cell.stateUpdated, e => {
+            if (e.cell.transform.parent === this.props.volume.cell.transform.ref) this.forceUpdate();
+        });
+    }
+
+    componentWillUnmount() {
+        super.componentWillUnmount();
+        this.removeDragListeners();
+    }
+
+    private get volume() {
+        return this.props.volume.cell.obj?.data;
+    }
+
+    private get isosurfaces() {
+        return this.props.volume.representations.filter(r => r.cell.transform.params?.type?.name === 'isosurface');
+    }
+
+    private toX(value: number, hist: { min: number, max: number }) {
+        const range = hist.max - hist.min;
+        return range > 0 ? (value - hist.min) / range * HistogramWidth : 0;
+    }
+
+    private getValue(clientX: number) {
+        const volume = this.volume;
+        if (!volume || !this.svg.current) return 0;
+        const { min, max } = volume.grid.stats;
+        const rect = this.svg.current.getBoundingClientRect();
+        return min + clamp((clientX - rect.left) / rect.width, 0, 1) * (max - min);
+    }
+
+    private startDrag(ref: StateTransform.Ref, e: React.MouseEvent) {
+        e.preventDefault();
+        this.setState({ drag: { ref, value: this.getValue(e.clientX) } });
+        window.addEventListener('mousemove', this.onDrag);
+        window.addEventListener('mouseup', this.endDrag);
+    }
+
+    private onDrag = (e: MouseEvent) => {
+        const { drag } = this.state;
+        if (drag) this.setState({ drag: { ref: drag.ref, value: this.getValue(e.clientX) } });
+    };
+
+    private endDrag = () => {
+        this.removeDragListeners();
+        const { drag } = this.state;
+        const volume = this.volume;
+        this.setState({ drag: void 0 });
+        if (!drag || !volume) return;
+
+        const { stats } = volume.grid;
+        const absolute = Volume.IsoValue.absolute(drag.value);
+        this.plugin.build().to(drag.ref).update(StateTransforms.Representation.VolumeRepresentation3D, old => {
+            const isoValue = old.type.params.isoValue?.kind === 'relative' ? Volume.IsoValue.toRelative(absolute, stats) : absolute;
+            return { ...old, type: { ...old.type, params: { ...old.type.params, isoValue } } };
+        }).commit();
+    };
+
+    private removeDragListeners() {
+        window.removeEventListener('mousemove', this.onDrag);
+        window.removeEventListener('mouseup', this.endDrag);
+    }
+
+    showMap = () => this.setState({ region: 'map' });
+    showSelection = () => this.setState({ region: 'selection' });
+
+    /** Recomputed only when the grid or the selection changes, not while dragging */
+    private getSelectionStats = memoizeLatest((grid: Grid, selectionVersion: number) => {
+        const { selection } = this.plugin.managers.structure;
+        if (selection.stats.elementCount === 0) return;
+        return Grid.getRegionStats(grid, selection.getBoundary().box);
+    });
+
+    private getRegionStats(grid: Grid) {
+        if (this.state.region === 'map') return Grid.getRegionStats(grid);
+        return this.getSelectionStats(grid, this.selectionVersion);
+    }
+
+    renderHistogram(grid: Grid) {
+        const hist = Grid.getHistogram(grid, HistogramBinCount);
+        const { mean, sigma } = grid.stats;
+
+        // log scale, volumes are usually dominated by values around the mean
+        let maxCount = 0;
+        for (let i = 0; i < hist.counts.length; i++) maxCount = Math.max(maxCount, hist.counts[i]);
+        const norm = Math.log(maxCount + 1) || 1;
+        const binWidth = HistogramWidth / hist.counts.length;
+        let bars = '';
+        for (let i = 0; i < hist.counts.length; i++) {
+            const h = Math.log(hist.counts[i] + 1) / norm * HistogramHeight;
+            if (h > 0) bars += `M${i * binWidth} ${HistogramHeight}v${-h}h${binWidth}v${h}z`;
+        }
+
+        const markers: JSX.Element[] = [];
+        const addLine = (key: string, value: number, className: string, title: string) => {
+            if (value < hist.min || value > hist.max) return;
+            const x = this.toX(value, hist);
+            markers.push(<line key={key} x1={x} x2={x} y1={0} y2={HistogramHeight} className={className}><title>{title}</title></line>);
+        };
+
+        addLine('mean', mean, 'msp-volume-histogram-mean', `Mean: ${round(mean, 3)}`);
+        for (const k of [-3, -2, -1, 1, 2, 3]) {
+            addLine(`sigma${k}`, mean + k * sigma, 'msp-volume-histogram-sigma', `${k > 0 ? '+' : ''}${k}σ: ${round(mean + k * sigma, 3)}`);
+        }
+
+        const { drag } = this.state;
+        for (const r of this.isosurfaces) {
+            const ref = r.cell.transform.ref;
+            const isoValue = r.cell.transform.params?.type.params.isoValue as Volume.IsoValue | undefined;
+            if (!isoValue) continue;
+            const value = drag?.ref === ref ? drag.value : Volume.IsoValue.toAbsolute(isoValue, grid.stats).absoluteValue;
+            if (value < hist.min || value > hist.max) continue;
+            const x = this.toX(value, hist);
+            markers.push(<g key={ref} className='msp-volume-histogram-iso' onMouseDown={e => this.startDrag(ref, e)}>
+                <title>{`${r.cell.obj?.label || 'Isosurface'}: ${round(value, 3)}. Drag to change.`}</title>
+                <line x1={x} x2={x} y1={0} y2={HistogramHeight} />
+                <rect x={x - 4} y={0} width={8} height={HistogramHeight} />
+            </g>);
+        }
+
+        return <div className='msp-volume-histogram'>
+            <svg ref={this.svg} viewBox={`0 0 ${HistogramWidth} ${HistogramHeight}`} preserveAspectRatio='none'>
+                <path d={bars} className='msp-volume-histogram-bars' />
+                {markers}
+            </svg>
+            <div>
+                <span style={{ float: 'left' }}>{round(hist.min, 3)}</span>
+                <span style={{ float: 'right' }}>{round(hist.max, 3)}</span>
+            </div>
+        </div>;
+    }
+
+    renderStats(grid: Grid) {
+        const stats = this.getRegionStats(grid);
+        if (!stats) return <ControlRow label='Statistics' control={<span className='msp-25-lower-contrast-text'>Nothing selected</span>} />;
+        return <>
+            <ControlRow label='Min / Max' control={<span>{round(stats.min, 3)} / {round(stats.max, 3)}</span>} />
+            <ControlRow label='Mean' control={<span>{round(stats.mean, 3)}</span>} />
+            <ControlRow label='RMS' control={<span>{round(stats.rms, 3)}</span>} />
+            <ControlRow label='Cells' control={<span>{stats.count}</span>} />
+        </>;
+    }
+
+    render() {
+        const volume = this.volume;
+        if (!volume || Grid.isEmpty(volume.grid)) return null;
+        const { region } = this.state;
+
+        return <div className='msp-accent-offset' style={{ marginTop: '1px' }}>
+            {this.renderHistogram(volume.grid)}
+            <div className='msp-flex-row'>
+                <ToggleButton label='Whole Map' title='Statistics of the whole map' toggle={this.showMap} isSelected={region === 'map'} />
+                <ToggleButton label='Selection Box' title='Statistics of the box around the current selection' toggle={this.showSelection} isSelected={region === 'selection'} />
+            </div>
+            {this.renderStats(volume.grid)}
+        </div>;
+    }
+}
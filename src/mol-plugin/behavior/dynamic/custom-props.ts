@@ -9,6 +9,7 @@ export { StructureInfo } from './custom-props/structure-info';
 
 export { AccessibleSurfaceArea } from './custom-props/computed/accessible-surface-area';
 export { Interactions } from './custom-props/computed/interactions';
+export { MapModelFit } from './custom-props/computed/map-model-fit';
 export { SecondaryStructure } from './custom-props/computed/secondary-structure';
 export { ValenceModel } from './custom-props/computed/valence-model';
 export { SIFTSMapping as BestDatabaseSequenceMapping } from './custom-props/sequence/sifts-mapping';
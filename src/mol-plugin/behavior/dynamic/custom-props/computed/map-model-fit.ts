@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { PluginBehavior } from '../../../behavior';
+import { ParamDefinition as PD } from '../../../../../mol-util/param-definition';
+import { MapModelFitProvider } from '../../../../../mol-model-props/computed/map-model-fit';
+import { Loci } from '../../../../../mol-model/loci';
+import { MapModelFitColorThemeProvider } from '../../../../../mol-model-props/computed/themes/map-model-fit';
+import { OrderedSet } from '../../../../../mol-data/int';
+import { Unit } from '../../../../../mol-model/structure';
+
+export const MapModelFit = PluginBehavior.create<{ showTooltip: boolean }>({
+    name: 'computed-map-model-fit-prop',
+    category: 'custom-props',
+    display: { name: 'Map-Model Fit' },
+    ctor: class extends PluginBehavior.Handler<{ showTooltip: boolean }> {
+        private provider = MapModelFitProvider;
+
+        private labelProvider = {
+            label: (loci: Loci): string | undefined => {
+                if (!this.params.showTooltip) return;
+                return mapModelFitLabel(loci);
+            }
+        };
+
+        update(p: { showTooltip: boolean }) {
+            const updated = this.params.showTooltip !== p.showTooltip;
+            this.params.showTooltip = p.showTooltip;
+            return updated;
+        }
+
+        register(): void {
+            // computed on demand for a given map, never auto-attached
+            this.ctx.customStructureProperties.register(this.provider, false);
+            this.ctx.representation.structure.themes.colorThemeRegistry.add(MapModelFitColorThemeProvider);
+            this.ctx.managers.lociLabels.addProvider(this.labelProvider);
+        }
+
+        unregister() {
+            this.ctx.customStructureProperties.unregister(this.provider.descriptor.name);
+            this.ctx.representation.structure.themes.colorThemeRegistry.remove(MapModelFitColorThemeProvider);
+            this.ctx.managers.lociLabels.removeProvider(this.labelProvider);
+        }
+    },
+    params: () => ({
+        showTooltip: PD.Boolean(true)
+    })
+});
+
+//
+
+const MetricLabel = {
+    'atom-inclusion': 'Atom Inclusion',
+    'density-correlation': 'Density Correlation',
+};
+
+function mapModelFitLabel(loci: Loci): string | undefined {
+    if (loci.kind !== 'element-loci' || loci.elements.length === 0) return;
+
+    const mapModelFit = MapModelFitProvider.get(loci.structure).value;
+    if (!mapModelFit || mapModelFit.residueScore.size === 0) return;
+
+    const seen = new Set<string>();
+    let sum = 0;
+    for (const { indices, unit } of loci.elements) {
+        if (!Unit.isAtomic(unit)) continue;
+        const scores = mapModelFit.residueScore.get(unit.id);
+        if (!scores) continue;
+
+        const { elements, residueIndex } = unit;
+        OrderedSet.forEach(indices, idx => {
+            const rI = residueIndex[elements[idx]];
+            const key = `${unit.id}|${rI}`;
+            if (seen.has(key) || isNaN(scores[rI])) return;
+            sum += scores[rI];
+            seen.add(key);
+        });
+    }
+    if (seen.size === 0) return;
+
+    const residueCount = `<small>(${seen.size > 1 ? `${seen.size} Residues mean` : 'Residue'})</small>`;
+    return `${MetricLabel[mapModelFit.metric]} ${residueCount}: ${(sum / seen.size).toFixed(2)}`;
+}
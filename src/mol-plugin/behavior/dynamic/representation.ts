@@ -20,6 +20,11 @@ import { Bond, Structure, StructureElement, StructureProperties } from '../../..
 import { arrayMax } from '../../../mol-util/array';
 import { Representation } from '../../../mol-repr/representation';
 import { LociLabel } from '../../../mol-plugin-state/manager/loci-label';
+import { HandleGroup, HandleParams, isHandleLoci } from '../../../mol-canvas3d/helper/handle-helper';
+import { Grid, Volume } from '../../../mol-model/volume';
+import { getSlicePlane } from '../../../mol-repr/volume/slice';
+import { Mat3, Vec3, Vec4 } from '../../../mol-math/linear-algebra';
+import { StateTransforms } from '../../../mol-plugin-state/transforms';
 
 const B = ButtonsType;
 const M = ModifiersKeys;
@@ -293,4 +298,125 @@ export const FocusLoci = PluginBehavior.create<FocusLociProps>({
     },
     params: () => FocusLociParams,
     display: { name: 'Representation Focus Loci on Canvas' }
-});
\ No newline at end of file
+});
+
+//
+
+const tmpProjA = Vec4();
+const tmpProjB = Vec4();
+const tmpNormalEnd = Vec3();
+
+export const VolumeSliceHandle = PluginBehavior.create({
+    name: 'representation-volume-slice-handle',
+    category: 'interaction',
+    ctor: class extends PluginBehavior.Handler {
+        /** Slice representation the handle is shown for */
+        private ref: string | undefined = void 0;
+        private pendingOffset = 0;
+        private isUpdating = false;
+
+        private getSlice(ref: string) {
+            const cell = this.ctx.state.data.cells.get(ref);
+            if (!SO.Volume.Representation3D.is(cell?.obj) || cell!.state.isHidden) return;
+
+            const { type } = cell!.transform.params;
+            if (type.name !== 'slice' || type.params.dimension.name !== 'plane' || !type.params.dimension.params.handle) return;
+
+            const volume: Volume = cell!.obj.data.sourceData;
+            const { normal, offset } = type.params.dimension.params;
+            return { volume, offset: offset as number, plane: getSlicePlane(volume.grid, normal, offset) };
+        }
+
+        private updateHandle() {
+            const canvas3d = this.ctx.canvas3d;
+            if (!canvas3d) return;
+
+            const slice = this.ref ? this.getSlice(this.ref) : undefined;
+            if (!slice) {
+                this.ref = void 0;
+                if (canvas3d.helper.handle.isEnabled) canvas3d.setProps({ handle: { handle: { name: 'off', params: {} } } });
+                return;
+            }
+
+            if (!canvas3d.helper.handle.isEnabled) {
+                canvas3d.setProps({ handle: { handle: { name: 'on', params: PD.getDefaultValues(HandleParams) } } });
+            }
+            // handle z-axis along the plane normal
+            const { center, u, v, normal } = slice.plane;
+            const rotation = Mat3.create(u[0], u[1], u[2], v[0], v[1], v[2], normal[0], normal[1], normal[2]);
+            canvas3d.helper.handle.update(canvas3d.camera, center, rotation);
+            canvas3d.requestDraw();
+        }
+
+        private async moveSlice(delta: number) {
+            this.pendingOffset += delta;
+            if (this.isUpdating) return;
+
+            this.isUpdating = true;
+            try {
+                while (this.pendingOffset !== 0 && this.ref) {
+                    const slice = this.getSlice(this.ref);
+                    if (!slice) break;
+
+                    const radius = Math.ceil(Grid.getBoundingSphere(slice.volume.grid).radius);
+                    const offset = Math.min(radius, Math.max(-radius, slice.offset + this.pendingOffset));
+                    this.pendingOffset = 0;
+
+                    await this.ctx.state.data.build().to(this.ref).update(StateTransforms.Representation.VolumeRepresentation3D, old => {
+                        const { dimension } = old.type.params;
+                        return { ...old, type: { ...old.type, params: { ...old.type.params, dimension: { ...dimension, params: { ...dimension.params, offset } } } } };
+                    }).commit();
+                }
+            } finally {
+                this.pendingOffset = 0;
+                this.isUpdating = false;
+            }
+        }
+
+        register(): void {
+            const onChanged = ({ ref }: { ref: string }) => {
+                // the last created or updated plane slice gets the handle
+                if (ref === this.ref || this.getSlice(ref)) {
+                    if (this.getSlice(ref)) this.ref = ref;
+                    this.updateHandle();
+                }
+            };
+            this.subscribeObservable(this.ctx.state.data.events.object.created, onChanged);
+            this.subscribeObservable(this.ctx.state.data.events.object.updated, onChanged);
+            this.subscribeObservable(this.ctx.state.data.events.object.removed, onChanged);
+            this.subscribeObservable(this.ctx.state.data.events.cell.stateUpdated, onChanged);
+
+            this.subscribeObservable(this.ctx.behaviors.interaction.drag, ({ current, pageStart, pageEnd }) => {
+                if (!this.ref || !this.ctx.canvas3d || !isHandleLoci(current.loci)) return;
+
+                const { groupId } = current.loci.elements[0];
+                if (groupId !== HandleGroup.TranslateObjectZ && groupId !== HandleGroup.TranslateScreenXY) return;
+
+                const slice = this.getSlice(this.ref);
+                if (!slice) return;
+
+                // screen space direction of the plane normal, in pixels per Å
+                const { camera } = this.ctx.canvas3d;
+                const { center, normal } = slice.plane;
+                camera.project(tmpProjA, center);
+                camera.project(tmpProjB, Vec3.add(tmpNormalEnd, center, normal));
+                const sx = tmpProjB[0] - tmpProjA[0], sy = tmpProjB[1] - tmpProjA[1];
+                const lengthSq = sx * sx + sy * sy;
+                // looking along the normal
+                if (lengthSq < 1e-6) return;
+
+                const dx = (pageEnd[0] - pageStart[0]) * camera.pixelRatio;
+                const dy = (pageEnd[1] - pageStart[1]) * camera.pixelRatio;
+                this.moveSlice((dx * sx + dy * sy) / lengthSq);
+            });
+        }
+
+        unregister() {
+            super.unregister();
+            this.ref = void 0;
+            this.updateHandle();
+        }
+    },
+    params: () => ({}),
+    display: { name: 'Volume Slice Handle' }
+});
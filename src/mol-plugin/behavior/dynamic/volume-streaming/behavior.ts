@@ -16,7 +16,7 @@ import { PluginBehavior } from '../../behavior';
 import { LRUCache } from '../../../../mol-util/lru-cache';
 import { urlCombine } from '../../../../mol-util/url';
 import { CIF } from '../../../../mol-io/reader/cif';
-import { volumeFromDensityServerData } from '../../../../mol-model-formats/volume/density-server';
+import { meshFromDensityServerData, volumeFromDensityServerData } from '../../../../mol-model-formats/volume/density-server';
 import { PluginCommands } from '../../../commands';
 import { StateSelection } from '../../../../mol-state';
 import { StructureElement, Structure } from '../../../../mol-model/structure';
@@ -24,6 +24,7 @@ import { PluginContext } from '../../../context';
 import { EmptyLoci, Loci, isEmptyLoci } from '../../../../mol-model/loci';
 import { Asset } from '../../../../mol-util/assets';
 import { GlobalModelTransformInfo } from '../../../../mol-model/structure/model/properties/global-transform';
+import { Mesh } from '../../../../mol-geo/geometry/mesh/mesh';
 
 export class VolumeStreaming extends PluginStateObject.CreateBehavior<VolumeStreaming.Behavior>({ name: 'Volume Streaming' }) { }
 
@@ -99,6 +100,7 @@ export namespace VolumeStreaming {
             }, { options: ViewTypeOptions, description: 'Controls what of the volume is displayed. "Off" hides the volume alltogether. "Bounded box" shows the volume inside the given box. "Around Interaction" shows the volume around the focused element/atom. "Whole Structure" shows the volume for the whole structure.' }),
             detailLevel: PD.Select<number>(Math.min(3, info.header.availablePrecisions.length - 1),
                 info.header.availablePrecisions.map((p, i) => [i, `${i + 1} [ ${Math.pow(p.maxVoxels, 1 / 3) | 0}^3 cells ]`] as [number, string]), { description: 'Determines the maximum number of voxels. Depending on the size of the volume options are in the range from 0 (0.52M voxels) to 6 (25.17M voxels).' }),
+            mode: PD.Select<ModeTypes>('volume', ModeTypeOptions, { description: '"Volume" downloads the density values and computes the isosurfaces locally. "Mesh" downloads only the isosurface meshes computed by the server, which requires a new request whenever the iso value changes.' }),
             channels: info.kind === 'em'
                 ? PD.Group({
                     'em': channelParam('EM', Color(0x638F8F), info.emDefaultContourLevel || Volume.IsoValue.relative(1), info.header.sampling[0].valuesInfo[0], channelParams['em'])
@@ -115,11 +117,23 @@ export namespace VolumeStreaming {
 
     export type ViewTypes = 'off' | 'box' | 'selection-box' | 'cell' | 'auto'
 
+    export const ModeTypeOptions = [['volume', 'Volume'], ['mesh', 'Mesh']] as [ModeTypes, string][];
+
+    export type ModeTypes = 'volume' | 'mesh'
+
     export type ParamDefinition = ReturnType<typeof createParams>
     export type Params = PD.Values<ParamDefinition>
 
     type ChannelsInfo = { [name in ChannelType]?: { isoValue: Volume.IsoValue, color: Color, wireframe: boolean, opacity: number } }
     type ChannelsData = { [name in 'EM' | '2FO-FC' | 'FO-FC']?: Volume }
+    type ChannelsMesh = { [name in ChannelType]?: Mesh }
+
+    const ChannelBlock: { [name in ChannelType]: keyof ChannelsData } = {
+        'em': 'EM',
+        '2fo-fc': '2FO-FC',
+        'fo-fc(+ve)': 'FO-FC',
+        'fo-fc(-ve)': 'FO-FC'
+    };
 
     export type ChannelType = 'em' | '2fo-fc' | 'fo-fc(+ve)' | 'fo-fc(-ve)'
     export const ChannelTypeOptions: [ChannelType, string][] = [['em', 'em'], ['2fo-fc', '2fo-fc'], ['fo-fc(+ve)', 'fo-fc(+ve)'], ['fo-fc(-ve)', 'fo-fc(-ve)']];
@@ -128,7 +142,9 @@ export namespace VolumeStreaming {
         color: Color,
         wireframe: boolean,
         isoValue: Volume.IsoValue.Relative,
-        opacity: number
+        opacity: number,
+        /** Isosurface computed by the server, only set in 'mesh' mode */
+        mesh?: Mesh
     }
     export type Channels = { [name in ChannelType]?: ChannelInfo }
 
@@ -136,6 +152,7 @@ export namespace VolumeStreaming {
 
     export class Behavior extends PluginBehavior.WithSubscribers<Params> {
         private cache = LRUCache.create<{ data: ChannelsData, asset: Asset.Wrapper }>(25);
+        private meshCache = LRUCache.create<{ data: ChannelsMesh, asset: Asset.Wrapper }>(25);
         public params: Params = {} as any;
         private lastLoci: StructureElement.Loci | EmptyLoci = EmptyLoci;
         private ref: string = '';
@@ -147,9 +164,11 @@ export namespace VolumeStreaming {
             return this.infoMap.get(this.params.entry.name)!;
         }
 
-        private async queryData(box?: Box3D) {
+        private getQueryUrl(box: Box3D | undefined, isMesh: boolean) {
             let url = urlCombine(this.data.serverUrl, `${this.info.kind}/${this.info.dataId.toLowerCase()}`);
 
+            if (isMesh) url += `/mesh`;
+
             if (box) {
                 const { min: a, max: b } = box;
                 url += `/box`
@@ -165,6 +184,11 @@ export namespace VolumeStreaming {
             }
 
             url += `?detail=${detail}`;
+            return url;
+        }
+
+        private async queryData(box?: Box3D) {
+            const url = this.getQueryUrl(box, false);
 
             const entry = LRUCache.get(this.cache, url);
             if (entry) return entry.data;
@@ -179,6 +203,50 @@ export namespace VolumeStreaming {
             return data;
         }
 
+        /** Queries the meshes of all channels at once, each at its own isovalue */
+        private async queryMesh(box: Box3D | undefined, names: ChannelType[]) {
+            const isoValues = names.map(name => `${ChannelBlock[name]}:${this.channels[name]!.isoValue.relativeValue}`);
+            const url = this.getQueryUrl(box, true) + `&isovalue=${encodeURIComponent(isoValues.join(','))}&isovalue_kind=relative`;
+
+            const entry = LRUCache.get(this.meshCache, url);
+            if (entry) return entry.data;
+
+            const urlAsset = Asset.getUrlAsset(this.plugin.managers.asset, url);
+            const asset = await this.plugin.runTask(this.plugin.managers.asset.resolve(urlAsset, 'binary'));
+            const data = await this.parseMeshCif(asset.data, names);
+            if (!data) return;
+
+            const removed = LRUCache.set(this.meshCache, url, { data, asset });
+            if (removed) removed.asset.dispose();
+            return data;
+        }
+
+        /** The server returns one block per requested isovalue, in the order of `names` */
+        private async parseMeshCif(data: Uint8Array, names: ChannelType[]): Promise<ChannelsMesh | undefined> {
+            const parsed = await this.plugin.runTask(CIF.parseBinary(data));
+            if (parsed.isError) {
+                this.plugin.log.error('VolumeStreaming, parsing CIF: ' + parsed.toString());
+                return;
+            }
+            if (parsed.result.blocks.length !== names.length + 1) {
+                this.plugin.log.error('VolumeStreaming: Invalid data.');
+                return;
+            }
+
+            const ret: ChannelsMesh = {};
+            for (let i = 0; i < names.length; i++) {
+                const block = parsed.result.blocks[i + 1];
+                if (block.header !== ChannelBlock[names[i]]) {
+                    this.plugin.log.error(`VolumeStreaming: Expected '${ChannelBlock[names[i]]}' mesh, got '${block.header}'.`);
+                    return;
+                }
+
+                const densityServerMeshCif = CIF.schema.densityServerMesh(block);
+                ret[names[i]] = await this.plugin.runTask(meshFromDensityServerData(densityServerMeshCif));
+            }
+            return ret;
+        }
+
         private async parseCif(data: Uint8Array): Promise<ChannelsData | undefined> {
             const parsed = await this.plugin.runTask(CIF.parseBinary(data));
             if (parsed.isError) {
@@ -301,6 +369,11 @@ export namespace VolumeStreaming {
                 entry.value.data.asset.dispose();
                 entry = entry.next;
             }
+            let meshEntry = this.meshCache.entries.first;
+            while (meshEntry) {
+                meshEntry.value.data.asset.dispose();
+                meshEntry = meshEntry.next;
+            }
         }
 
         private _invTransform: Mat4 = Mat4();
@@ -409,7 +482,8 @@ export namespace VolumeStreaming {
                     break;
             }
 
-            const data = emptyData ? {} : await this.queryData(box);
+            const isMesh = params.entry.params.mode === 'mesh';
+            const data = emptyData || isMesh ? {} : await this.queryData(box);
 
             if (!data) return false;
 
@@ -423,6 +497,15 @@ export namespace VolumeStreaming {
                 this.channels['em'] = this.createChannel(data['EM'] || Volume.One, info['em'], this.info.header.sampling[0].valuesInfo[0]);
             }
 
+            if (isMesh) {
+                const names: ChannelType[] = this.info.kind === 'x-ray' ? ['2fo-fc', 'fo-fc(+ve)', 'fo-fc(-ve)'] : ['em'];
+                const meshes = emptyData ? {} : await this.queryMesh(box, names);
+                if (!meshes) return false;
+                for (const name of names) {
+                    this.channels[name]!.mesh = meshes[name] || Mesh.createEmpty();
+                }
+            }
+
             return true;
         }
 
@@ -23,6 +23,13 @@ import { Vec3 } from '../../../../mol-math/linear-algebra';
 import { PluginConfig } from '../../../config';
 import { Model } from '../../../../mol-model/structure';
 import { GlobalModelTransformInfo } from '../../../../mol-model/structure/model/properties/global-transform';
+import { Mesh } from '../../../../mol-geo/geometry/mesh/mesh';
+import { Lines } from '../../../../mol-geo/geometry/lines/lines';
+import { LinesBuilder } from '../../../../mol-geo/geometry/lines/lines-builder';
+import { Shape } from '../../../../mol-model/shape';
+import { ShapeRepresentation } from '../../../../mol-repr/shape/representation';
+import { Color } from '../../../../mol-util/color';
+import { RuntimeContext } from '../../../../mol-task';
 
 function addEntry(entries: InfoEntryProps[], method: VolumeServerInfo.Kind, dataId: string, emDefaultContourLevel: number) {
     entries.push({
@@ -249,7 +256,7 @@ const VolumeStreamingVisual = PluginStateTransform.BuiltIn({
     name: 'create-volume-streaming-visual',
     display: { name: 'Volume Streaming Visual' },
     from: VolumeStreaming,
-    to: SO.Volume.Representation3D,
+    to: [SO.Volume.Representation3D, SO.Shape.Representation3D],
     params: {
         channel: PD.Select<VolumeStreaming.ChannelType>('em', VolumeStreaming.ChannelTypeOptions, { isHidden: true })
     }
@@ -258,6 +265,16 @@ const VolumeStreamingVisual = PluginStateTransform.BuiltIn({
         const channel = a.data.channels[srcParams.channel];
         if (!channel) return StateObject.Null;
 
+        if (channel.mesh) {
+            const data = createMeshData(channel, srcParams.channel);
+            const repr = createMeshRepresentation(data);
+            await repr.createOrUpdate(createMeshProps(channel), data).runInContext(ctx);
+            const structure = spine.getAncestorOfType(SO.Molecule.Structure)?.data;
+            const transform = structure?.models.length === 0 ? void 0 : GlobalModelTransformInfo.get(structure?.models[0]!);
+            if (transform) repr.setState({ transform });
+            return new SO.Shape.Representation3D({ repr, sourceData: data }, { label: `${Math.round(channel.isoValue.relativeValue * 100) / 100} σ [${srcParams.channel}]`, description: 'Mesh' });
+        }
+
         const params = createVolumeProps(a.data, srcParams.channel);
         const provider = VolumeRepresentationRegistry.BuiltIn.isosurface;
         const props = params.type.params || {};
@@ -276,6 +293,23 @@ const VolumeStreamingVisual = PluginStateTransform.BuiltIn({
         // TODO: is this correct behavior?
         if (!channel) return StateTransformer.UpdateResult.Unchanged;
 
+        // switching between volume and mesh mode or between mesh and wireframe changes the representation type
+        if (!!channel.mesh !== SO.Shape.Representation3D.is(b)) return StateTransformer.UpdateResult.Recreate;
+
+        if (channel.mesh) {
+            const shape = b as SO.Shape.Representation3D;
+            const oldData = shape.data.sourceData as StreamingMeshData;
+            if (oldData.wireframe !== channel.wireframe) return StateTransformer.UpdateResult.Recreate;
+
+            const data = createMeshData(channel, newParams.channel);
+            const visible = shape.data.repr.state.visible;
+            await shape.data.repr.createOrUpdate({ ...shape.data.repr.props, ...createMeshProps(channel) }, data).runInContext(ctx);
+            shape.data.repr.setState({ visible });
+            shape.data.sourceData = data;
+            shape.label = `${Math.round(channel.isoValue.relativeValue * 100) / 100} σ [${newParams.channel}]`;
+            return StateTransformer.UpdateResult.Updated;
+        }
+
         const visible = b.data.repr.state.visible;
         const params = createVolumeProps(a.data, newParams.channel);
         const props = { ...b.data.repr.props, ...params.type.params };
@@ -299,4 +333,48 @@ function createVolumeProps(streaming: VolumeStreaming.Behavior, channelName: Vol
     return VolumeRepresentation3DHelpers.getDefaultParamsStatic(streaming.plugin,
         'isosurface', { isoValue: channel.isoValue, alpha: channel.opacity, visuals: channel.wireframe ? ['wireframe'] : ['solid'] },
         'uniform', { value: channel.color });
+}
+
+//
+
+interface StreamingMeshData {
+    mesh: Mesh,
+    color: Color,
+    wireframe: boolean,
+    label: string
+}
+
+function createMeshData(channel: VolumeStreaming.ChannelInfo, channelName: VolumeStreaming.ChannelType): StreamingMeshData {
+    return { mesh: channel.mesh!, color: channel.color, wireframe: channel.wireframe, label: `Isosurface [${channelName}]` };
+}
+
+function createMeshProps(channel: VolumeStreaming.ChannelInfo) {
+    return channel.wireframe
+        ? { ...PD.getDefaultValues(Lines.Params), sizeFactor: 3, alpha: channel.opacity }
+        : { ...PD.getDefaultValues(Mesh.Params), alpha: channel.opacity };
+}
+
+function createMeshRepresentation(data: StreamingMeshData) {
+    return data.wireframe
+        ? ShapeRepresentation(getWireframeShape, Lines.Utils)
+        : ShapeRepresentation(getMeshShape, Mesh.Utils);
+}
+
+function getMeshShape(ctx: RuntimeContext, data: StreamingMeshData) {
+    return Shape.create(data.label, data, data.mesh, () => data.color, () => 1, () => data.label);
+}
+
+function getWireframeShape(ctx: RuntimeContext, data: StreamingMeshData, props: PD.Values<Lines.Params>, shape?: Shape<Lines>) {
+    const { vertexCount, triangleCount } = data.mesh;
+    const vertices = data.mesh.vertexBuffer.ref.value;
+    const indices = data.mesh.indexBuffer.ref.value;
+
+    const builder = LinesBuilder.create(triangleCount * 3, Math.max(vertexCount, 1024), shape?.geometry);
+    for (let i = 0, il = triangleCount * 3; i < il; i += 3) {
+        for (let j = 0; j < 3; ++j) {
+            const u = indices[i + j] * 3, v = indices[i + (j + 1) % 3] * 3;
+            builder.add(vertices[u], vertices[u + 1], vertices[u + 2], vertices[v], vertices[v + 1], vertices[v + 2], 0);
+        }
+    }
+    return Shape.create(data.label, data, builder.getLines(), () => data.color, () => 1, () => data.label);
 }
\ No newline at end of file
@@ -203,22 +203,7 @@ export class PluginContext {
                 const preferWebGl1 = this.config.get(PluginConfig.General.PreferWebGl1) || false;
                 (this.canvas3dContext as Canvas3DContext) = Canvas3DContext.fromCanvas(canvas, { antialias, preserveDrawingBuffer, pixelScale, pickScale, pickPadding, enableWboit, preferWebGl1 });
             }
-            (this.canvas3d as Canvas3D) = Canvas3D.create(this.canvas3dContext!);
-            this.canvas3dInit.next(true);
-            let props = this.spec.canvas3d;
-
-            const backgroundColor = Color(0xFCFBF9);
-            if (!props) {
-                this.canvas3d?.setProps({ renderer: { backgroundColor } });
-            } else {
-                if (props.renderer?.backgroundColor === void 0) {
-                    props = produce(props, p => {
-                        if (p.renderer) p.renderer.backgroundColor = backgroundColor;
-                        else p.renderer = { backgroundColor };
-                    });
-                }
-                this.canvas3d?.setProps(props);
-            }
+            this.initCanvas3D();
             this.animationLoop.start();
             (this.helpers.viewportScreenshot as ViewportScreenshotHelper) = new ViewportScreenshotHelper(this);
 
@@ -238,6 +223,41 @@ export class PluginContext {
         }
     }
 
+    /**
+     * Init the viewer without a DOM, e.g. with a context from `Canvas3DContext.fromGLContext`.
+     * There is no animation loop, use `canvas3d.commit(true)` before rendering an image.
+     */
+    initHeadlessViewer(canvas3dContext: Canvas3DContext) {
+        try {
+            (this.canvas3dContext as Canvas3DContext) = canvas3dContext;
+            this.initCanvas3D();
+            return true;
+        } catch (e) {
+            this.log.error('' + e);
+            console.error(e);
+            return false;
+        }
+    }
+
+    private initCanvas3D() {
+        (this.canvas3d as Canvas3D) = Canvas3D.create(this.canvas3dContext!);
+        this.canvas3dInit.next(true);
+        let props = this.spec.canvas3d;
+
+        const backgroundColor = Color(0xFCFBF9);
+        if (!props) {
+            this.canvas3d?.setProps({ renderer: { backgroundColor } });
+        } else {
+            if (props.renderer?.backgroundColor === void 0) {
+                props = produce(props, p => {
+                    if (p.renderer) p.renderer.backgroundColor = backgroundColor;
+                    else p.renderer = { backgroundColor };
+                });
+            }
+            this.canvas3d?.setProps(props);
+        }
+    }
+
     handleResize() {
         const canvas = this.canvas3dContext?.canvas;
         const container = this.layout.root;
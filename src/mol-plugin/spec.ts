@@ -9,6 +9,7 @@ import { PartialCanvas3DProps } from '../mol-canvas3d/canvas3d';
 import { AnimateAssemblyUnwind } from '../mol-plugin-state/animation/built-in/assembly-unwind';
 import { AnimateCameraSpin } from '../mol-plugin-state/animation/built-in/camera-spin';
 import { AnimateModelIndex } from '../mol-plugin-state/animation/built-in/model-index';
+import { AnimateVolumeIndex } from '../mol-plugin-state/animation/built-in/volume-index';
 import { AnimateStateSnapshots } from '../mol-plugin-state/animation/built-in/state-snapshots';
 import { PluginStateAnimation } from '../mol-plugin-state/animation/model';
 import { DataFormatProvider } from '../mol-plugin-state/formats/provider';
@@ -18,12 +19,13 @@ import { StructureFocusRepresentation } from './behavior/dynamic/selection/struc
 import { PluginConfigItem } from './config';
 import { PluginLayoutStateProps } from './layout';
 import { StateActions } from '../mol-plugin-state/actions';
-import { AssignColorVolume } from '../mol-plugin-state/actions/volume';
+import { AlignVolumeSlice, AssignColorVolume, CombineVolumes, ComputeMapModelFit, ExportVolumeRegion, ImportSegmentAnnotations, MaskVolume } from '../mol-plugin-state/actions/volume';
 import { StateTransforms } from '../mol-plugin-state/transforms';
 import { BoxifyVolumeStreaming, CreateVolumeStreamingBehavior, InitVolumeStreaming } from '../mol-plugin/behavior/dynamic/volume-streaming/transformers';
 import { AnimateStateInterpolation } from '../mol-plugin-state/animation/built-in/state-interpolation';
 import { AnimateStructureSpin } from '../mol-plugin-state/animation/built-in/spin-structure';
 import { AnimateCameraRock } from '../mol-plugin-state/animation/built-in/camera-rock';
+import { AnimateCameraPath } from '../mol-plugin-state/animation/built-in/camera-path';
 
 export { PluginSpec };
 
@@ -106,10 +108,23 @@ export const DefaultPluginSpec = (): PluginSpec => ({
         PluginSpec.Action(StateTransforms.Representation.SubstanceStructureRepresentation3DFromScript),
 
         PluginSpec.Action(AssignColorVolume),
+        PluginSpec.Action(ExportVolumeRegion),
+        PluginSpec.Action(CombineVolumes),
+        PluginSpec.Action(MaskVolume),
+        PluginSpec.Action(ComputeMapModelFit),
+        PluginSpec.Action(AlignVolumeSlice),
+        PluginSpec.Action(StateTransforms.Volume.VolumeGaussianSmooth),
+        PluginSpec.Action(StateTransforms.Volume.VolumeResample),
+        PluginSpec.Action(StateTransforms.Volume.VolumeNormalize),
+        PluginSpec.Action(StateTransforms.Volume.VolumeSegmentation),
+        PluginSpec.Action(ImportSegmentAnnotations),
+        PluginSpec.Action(StateTransforms.Volume.VolumeFromStructure),
         PluginSpec.Action(StateTransforms.Volume.VolumeFromCcp4),
         PluginSpec.Action(StateTransforms.Volume.VolumeFromDsn6),
         PluginSpec.Action(StateTransforms.Volume.VolumeFromCube),
         PluginSpec.Action(StateTransforms.Volume.VolumeFromDx),
+        PluginSpec.Action(StateTransforms.Volume.VolumeTrajectoryFromDensityServerCif),
+        PluginSpec.Action(StateTransforms.Volume.VolumeFromTrajectory),
         PluginSpec.Action(StateTransforms.Representation.VolumeRepresentation3D),
     ],
     behaviors: [
@@ -117,6 +132,7 @@ export const DefaultPluginSpec = (): PluginSpec => ({
         PluginSpec.Behavior(PluginBehaviors.Representation.SelectLoci),
         PluginSpec.Behavior(PluginBehaviors.Representation.DefaultLociLabelProvider),
         PluginSpec.Behavior(PluginBehaviors.Representation.FocusLoci),
+        PluginSpec.Behavior(PluginBehaviors.Representation.VolumeSliceHandle),
         PluginSpec.Behavior(PluginBehaviors.Camera.FocusLoci),
         PluginSpec.Behavior(PluginBehaviors.Camera.CameraAxisHelper),
         PluginSpec.Behavior(StructureFocusRepresentation),
@@ -125,14 +141,17 @@ export const DefaultPluginSpec = (): PluginSpec => ({
         PluginSpec.Behavior(PluginBehaviors.CustomProps.AccessibleSurfaceArea),
         PluginSpec.Behavior(PluginBehaviors.CustomProps.BestDatabaseSequenceMapping),
         PluginSpec.Behavior(PluginBehaviors.CustomProps.Interactions),
+        PluginSpec.Behavior(PluginBehaviors.CustomProps.MapModelFit),
         PluginSpec.Behavior(PluginBehaviors.CustomProps.SecondaryStructure),
         PluginSpec.Behavior(PluginBehaviors.CustomProps.ValenceModel),
         PluginSpec.Behavior(PluginBehaviors.CustomProps.CrossLinkRestraint),
     ],
     animations: [
         AnimateModelIndex,
+        AnimateVolumeIndex,
         AnimateCameraSpin,
         AnimateCameraRock,
+        AnimateCameraPath,
         AnimateStateSnapshots,
         AnimateAssemblyUnwind,
         AnimateStructureSpin,
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { CameraHelperParams } from '../../mol-canvas3d/helper/camera-helper';
+import { ImagePass } from '../../mol-canvas3d/passes/image';
+import { Task } from '../../mol-task';
+import { PixelData } from '../../mol-util/image';
+import { ParamDefinition as PD } from '../../mol-util/param-definition';
+import { encodePng } from '../../mol-util/png';
+import { PluginContext } from '../context';
+import { getImagePostprocessingProps } from './viewport-screenshot';
+
+export { HeadlessScreenshotHelper };
+
+interface HeadlessScreenshotOptions {
+    width: number,
+    height: number,
+    transparent?: boolean,
+    axes?: PD.Values<typeof CameraHelperParams>['axes']
+}
+
+/**
+ * Renders images of a plugin initialized with `PluginContext.initHeadlessViewer`,
+ * using the same postprocessing as `ViewportScreenshotHelper` but without a DOM.
+ */
+class HeadlessScreenshotHelper {
+    private _imagePass: ImagePass | undefined = void 0;
+
+    private getImagePass(options: HeadlessScreenshotOptions) {
+        const c = this.plugin.canvas3d;
+        if (!c) throw new Error('Canvas3D not initialized');
+
+        const props = {
+            transparentBackground: !!options.transparent,
+            cameraHelper: { axes: options.axes ?? { name: 'off', params: {} } },
+            postprocessing: getImagePostprocessingProps(c),
+            marking: { ...c.props.marking }
+        };
+        if (this._imagePass) {
+            this._imagePass.setProps(props);
+            return this._imagePass;
+        }
+
+        const { colorBufferFloat, textureFloat } = c.webgl.extensions;
+        return this._imagePass = c.getImagePass({
+            ...props,
+            multiSample: { mode: 'on', sampleLevel: colorBufferFloat && textureFloat ? 4 : 2 }
+        });
+    }
+
+    /** Commits pending scene changes and renders the current view */
+    getPixelData(options: HeadlessScreenshotOptions): PixelData {
+        this.plugin.canvas3d?.commit(true);
+        return this.getImagePass(options).getPixelData(options.width, options.height);
+    }
+
+    getPng(options: HeadlessScreenshotOptions) {
+        return this.plugin.runTask(Task.create('Render Image', async ctx => {
+            await ctx.update('Rendering image...');
+            const pixelData = this.getPixelData(options);
+            await ctx.update('Encoding image...');
+            return encodePng(ctx, pixelData);
+        }));
+    }
+
+    constructor(private plugin: PluginContext) { }
+}
@@ -5,9 +5,11 @@
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
 
+import { Canvas3D } from '../../mol-canvas3d/canvas3d';
 import { Viewport } from '../../mol-canvas3d/camera/util';
 import { CameraHelperParams } from '../../mol-canvas3d/helper/camera-helper';
 import { ImagePass } from '../../mol-canvas3d/passes/image';
+import { PostprocessingProps } from '../../mol-canvas3d/passes/postprocessing';
 import { canvasToBlob } from '../../mol-canvas3d/util';
 import { equalEps } from '../../mol-math/linear-algebra/3d/common';
 import { PluginComponent } from '../../mol-plugin-state/component';
@@ -20,7 +22,7 @@ import { ParamDefinition as PD } from '../../mol-util/param-definition';
 import { SetUtils } from '../../mol-util/set';
 import { PluginContext } from '../context';
 
-export { ViewportScreenshotHelper, ViewportScreenshotHelperParams };
+export { ViewportScreenshotHelper, ViewportScreenshotHelperParams, getImagePostprocessingProps };
 
 namespace ViewportScreenshotHelper {
     export type ResolutionSettings = PD.Values<ReturnType<ViewportScreenshotHelper['createParams']>>['resolution']
@@ -29,6 +31,17 @@ namespace ViewportScreenshotHelper {
 
 type ViewportScreenshotHelperParams = PD.Values<ReturnType<ViewportScreenshotHelper['createParams']>>
 
+/** Postprocessing of the viewer, with high quality ambient occlusion */
+function getImagePostprocessingProps(canvas3d: Canvas3D): PostprocessingProps {
+    const aoProps = canvas3d.props.postprocessing.occlusion;
+    return {
+        ...canvas3d.props.postprocessing,
+        occlusion: aoProps.name === 'on'
+            ? { name: 'on', params: { ...aoProps.params, samples: 128, resolutionScale: 1 } }
+            : aoProps
+    };
+}
+
 class ViewportScreenshotHelper extends PluginComponent {
     private createParams() {
         const max = Math.min(this.plugin.canvas3d ? this.plugin.canvas3d.webgl.maxRenderbufferSize : 4096, 4096);
@@ -108,7 +121,6 @@ class ViewportScreenshotHelper extends PluginComponent {
     private createPass(mutlisample: boolean) {
         const c = this.plugin.canvas3d!;
         const { colorBufferFloat, textureFloat } = c.webgl.extensions;
-        const aoProps = c.props.postprocessing.occlusion;
         return c.getImagePass({
             transparentBackground: this.values.transparent,
             cameraHelper: { axes: this.values.axes },
@@ -116,12 +128,7 @@ class ViewportScreenshotHelper extends PluginComponent {
                 mode: mutlisample ? 'on' : 'off',
                 sampleLevel: colorBufferFloat && textureFloat ? 4 : 2
             },
-            postprocessing: {
-                ...c.props.postprocessing,
-                occlusion: aoProps.name === 'on'
-                    ? { name: 'on', params: { ...aoProps.params, samples: 128, resolutionScale: 1 } }
-                    : aoProps
-            },
+            postprocessing: getImagePostprocessingProps(c),
             marking: { ...c.props.marking }
         });
     }
@@ -135,17 +142,11 @@ class ViewportScreenshotHelper extends PluginComponent {
     get imagePass() {
         if (this._imagePass) {
             const c = this.plugin.canvas3d!;
-            const aoProps = c.props.postprocessing.occlusion;
             this._imagePass.setProps({
                 cameraHelper: { axes: this.values.axes },
                 transparentBackground: this.values.transparent,
                 // TODO: optimize because this creates a copy of a large object!
-                postprocessing: {
-                    ...c.props.postprocessing,
-                    occlusion: aoProps.name === 'on'
-                        ? { name: 'on', params: { ...aoProps.params, samples: 128, resolutionScale: 1 } }
-                        : aoProps
-                },
+                postprocessing: getImagePostprocessingProps(c),
                 marking: { ...c.props.marking }
             });
             return this._imagePass;
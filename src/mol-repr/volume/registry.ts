@@ -10,6 +10,7 @@ import { IsosurfaceRepresentationProvider } from './isosurface';
 import { objectForEach } from '../../mol-util/object';
 import { SliceRepresentationProvider } from './slice';
 import { DirectVolumeRepresentationProvider } from './direct-volume';
+import { SegmentRepresentationProvider } from './segment';
 
 export class VolumeRepresentationRegistry extends RepresentationRegistry<Volume, Representation.State> {
     constructor() {
@@ -26,6 +27,7 @@ export namespace VolumeRepresentationRegistry {
         'isosurface': IsosurfaceRepresentationProvider,
         'slice': SliceRepresentationProvider,
         'direct-volume': DirectVolumeRepresentationProvider,
+        'segment': SegmentRepresentationProvider,
     };
 
     type _BuiltIn = typeof BuiltIn
@@ -0,0 +1,222 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { ParamDefinition as PD } from '../../mol-util/param-definition';
+import { Grid, Volume } from '../../mol-model/volume';
+import { VisualContext } from '../visual';
+import { Theme, ThemeRegistryContext } from '../../mol-theme/theme';
+import { Mesh } from '../../mol-geo/geometry/mesh/mesh';
+import { MeshBuilder } from '../../mol-geo/geometry/mesh/mesh-builder';
+import { computeMarchingCubesMesh } from '../../mol-geo/util/marching-cubes/algorithm';
+import { VolumeVisual, VolumeRepresentation, VolumeRepresentationProvider } from './representation';
+import { LocationIterator } from '../../mol-geo/util/location-iterator';
+import { VisualUpdateState } from '../util';
+import { RepresentationContext, RepresentationParamsGetter, Representation } from '../representation';
+import { PickingId } from '../../mol-geo/geometry/picking';
+import { EmptyLoci, Loci } from '../../mol-model/loci';
+import { Interval, OrderedSet, SortedArray } from '../../mol-data/int';
+import { Mat4, Tensor, Vec3 } from '../../mol-math/linear-algebra';
+import { RuntimeContext } from '../../mol-task';
+import { arrayEqual } from '../../mol-util/array';
+
+export const VolumeSegmentParams = {
+    segments: PD.MultiSelect<string>([], [], { description: 'Visible segments, given by their id in the label map.' }),
+};
+export type VolumeSegmentParams = typeof VolumeSegmentParams
+export type VolumeSegmentProps = PD.Values<VolumeSegmentParams>
+
+function getVisibleSegments(volume: Volume, props: VolumeSegmentProps) {
+    const { index } = volume.segmentation!;
+    const visible: number[] = [];
+    for (const id of props.segments) {
+        const idx = index.get(+id);
+        if (idx !== undefined) visible.push(idx);
+    }
+    return SortedArray.ofUnsortedArray(visible);
+}
+
+function getLoci(volume: Volume, props: VolumeSegmentProps) {
+    if (!volume.segmentation) return EmptyLoci;
+    return Volume.Segment.Loci(volume, getVisibleSegments(volume, props));
+}
+
+function getSegmentLoci(pickingId: PickingId, volume: Volume, props: VolumeSegmentProps, id: number) {
+    const { objectId, groupId } = pickingId;
+    if (id === objectId) {
+        return Volume.Segment.Loci(volume, OrderedSet.ofSingleton(groupId));
+    }
+    return EmptyLoci;
+}
+
+export function eachSegment(loci: Loci, volume: Volume, props: VolumeSegmentProps, apply: (interval: Interval) => boolean) {
+    const segmentCount = volume.segmentation?.segments.length || 0;
+    let changed = false;
+    if (Volume.isLoci(loci)) {
+        if (!Volume.areEquivalent(loci.volume, volume)) return false;
+        if (apply(Interval.ofLength(segmentCount))) changed = true;
+    } else if (Volume.Segment.isLoci(loci)) {
+        if (!Volume.areEquivalent(loci.volume, volume)) return false;
+        if (Interval.is(loci.segments)) {
+            if (apply(loci.segments)) changed = true;
+        } else {
+            OrderedSet.forEach(loci.segments, v => {
+                if (apply(Interval.ofSingleton(v))) changed = true;
+            });
+        }
+    }
+    return changed;
+}
+
+//
+
+namespace VolumeSegmentMeshes {
+    const name = 'volume-segment-meshes';
+
+    /**
+     * Surface of a single segment in the grid space of a padded sub-grid
+     * that covers the bounding box of the segment
+     */
+    interface SegmentMesh { mesh: Mesh, offset: Vec3 }
+
+    function getCache(volume: Volume) {
+        if (!volume._propertyData[name]) volume._propertyData[name] = new Map<number, SegmentMesh>();
+        return volume._propertyData[name] as Map<number, SegmentMesh>;
+    }
+
+    async function compute(runtime: RuntimeContext, volume: Volume, segment: number): Promise<SegmentMesh> {
+        const { segments, bounds } = volume.segmentation!;
+        const { id } = segments[segment];
+        const { min, max } = bounds[segment];
+        const { space, data } = volume.grid.cells;
+        const [nx, ny, nz] = space.dimensions;
+
+        // pad by one cell so that surfaces at the grid boundary are closed
+        const offset = Vec3.subScalar(Vec3(), min, 1);
+        const dim = Vec3.addScalar(Vec3(), Vec3.sub(Vec3(), max, min), 3);
+        const mask = Tensor.Space(dim, [2, 1, 0], Float32Array);
+        const maskData = mask.create();
+
+        for (let k = 0; k < dim[2]; ++k) {
+            const z = offset[2] + k;
+            if (z < 0 || z >= nz) continue;
+            for (let j = 0; j < dim[1]; ++j) {
+                const y = offset[1] + j;
+                if (y < 0 || y >= ny) continue;
+                for (let i = 0; i < dim[0]; ++i) {
+                    const x = offset[0] + i;
+                    if (x < 0 || x >= nx) continue;
+                    if (Math.round(data[space.dataOffset(x, y, z)]) === id) mask.set(maskData, i, j, k, 1);
+                }
+            }
+        }
+
+        const mesh = await computeMarchingCubesMesh({
+            isoLevel: 0.5,
+            scalarField: Tensor.create(mask, maskData)
+        }).runAsChild(runtime);
+        return { mesh, offset };
+    }
+
+    export async function get(runtime: RuntimeContext, volume: Volume, segment: number) {
+        const cache = getCache(volume);
+        if (!cache.has(segment)) cache.set(segment, await compute(runtime, volume, segment));
+        return cache.get(segment)!;
+    }
+}
+
+export async function createVolumeSegmentMesh(ctx: VisualContext, volume: Volume, theme: Theme, props: VolumeSegmentProps, mesh?: Mesh) {
+    if (!volume.segmentation) return Mesh.createEmpty(mesh);
+
+    const visible = getVisibleSegments(volume, props);
+    const gridToCartesian = Grid.getGridToCartesianTransform(volume.grid);
+    const t = Mat4();
+
+    let count = 0;
+    const meshes: { segment: number, mesh: Mesh, offset: Vec3 }[] = [];
+    for (let i = 0, il = visible.length; i < il; ++i) {
+        if (ctx.runtime.shouldUpdate) {
+            await ctx.runtime.update({ message: 'Marching cubes...', current: i, max: il });
+        }
+        const segment = visible[i];
+        const m = await VolumeSegmentMeshes.get(ctx.runtime, volume, segment);
+        meshes.push({ segment, ...m });
+        count += m.mesh.vertexCount;
+    }
+
+    const builderState = MeshBuilder.createState(count, Math.max(count / 4, 1024), mesh);
+    for (const { segment, mesh: m, offset } of meshes) {
+        builderState.currentGroup = segment;
+        Mat4.mul(t, gridToCartesian, Mat4.fromTranslation(t, offset));
+        MeshBuilder.addMesh(builderState, t, m);
+    }
+
+    const surface = MeshBuilder.getMesh(builderState);
+    surface.setBoundingSphere(Volume.Segment.getBoundingSphere(volume, visible));
+    return surface;
+}
+
+export const SegmentMeshParams = {
+    ...Mesh.Params,
+    ...VolumeSegmentParams,
+    quality: { ...Mesh.Params.quality, isEssential: false },
+};
+export type SegmentMeshParams = typeof SegmentMeshParams
+
+export function SegmentMeshVisual(materialId: number): VolumeVisual<SegmentMeshParams> {
+    return VolumeVisual<Mesh, SegmentMeshParams>({
+        defaultProps: PD.getDefaultValues(SegmentMeshParams),
+        createGeometry: createVolumeSegmentMesh,
+        createLocationIterator: (volume: Volume) => {
+            const l = Volume.Segment.Location(volume);
+            return LocationIterator(volume.segmentation?.segments.length || 0, 1, 1, (groupIndex: number) => {
+                l.segment = groupIndex;
+                return l;
+            });
+        },
+        getLoci: getSegmentLoci,
+        eachLocation: eachSegment,
+        setUpdateState: (state: VisualUpdateState, volume: Volume, newProps: PD.Values<SegmentMeshParams>, currentProps: PD.Values<SegmentMeshParams>) => {
+            if (!arrayEqual(newProps.segments, currentProps.segments)) state.createGeometry = true;
+        },
+        geometryUtils: Mesh.Utils
+    }, materialId);
+}
+
+//
+
+const SegmentVisuals = {
+    'segment': (ctx: RepresentationContext, getParams: RepresentationParamsGetter<Volume, SegmentMeshParams>) => VolumeRepresentation('Segment mesh', ctx, getParams, SegmentMeshVisual, getLoci),
+};
+
+export const SegmentParams = {
+    ...SegmentMeshParams,
+    visuals: PD.MultiSelect(['segment'], PD.objectToOptions(SegmentVisuals)),
+};
+export type SegmentParams = typeof SegmentParams
+export function getSegmentParams(ctx: ThemeRegistryContext, volume: Volume) {
+    const p = PD.clone(SegmentParams);
+    const segments = volume.segmentation?.segments || [];
+    const options = segments.map(s => [`${s.id}`, s.label] as [string, string]);
+    p.segments = PD.MultiSelect(options.map(o => o[0]), options, p.segments);
+    return p;
+}
+
+export type SegmentRepresentation = VolumeRepresentation<SegmentParams>
+export function SegmentRepresentation(ctx: RepresentationContext, getParams: RepresentationParamsGetter<Volume, SegmentParams>): SegmentRepresentation {
+    return Representation.createMulti('Segment', ctx, getParams, Representation.StateBuilder, SegmentVisuals as unknown as Representation.Def<Volume, SegmentParams>);
+}
+
+export const SegmentRepresentationProvider = VolumeRepresentationProvider({
+    name: 'segment',
+    label: 'Segment',
+    description: 'Displays a triangulated surface for each segment of a segmentation volume.',
+    factory: SegmentRepresentation,
+    getParams: getSegmentParams,
+    defaultValues: PD.getDefaultValues(SegmentParams),
+    defaultColorTheme: { name: 'volume-segment' },
+    defaultSizeTheme: { name: 'uniform' },
+    isApplicable: (volume: Volume) => Volume.isSegmentation(volume)
+});
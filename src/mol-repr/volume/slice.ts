@@ -23,9 +23,18 @@ import { Color } from '../../mol-util/color';
 import { ColorTheme } from '../../mol-theme/color';
 import { packIntToRGBArray } from '../../mol-util/number-packing';
 import { eachVolumeLoci } from './util';
+import { Mat4, Vec3 } from '../../mol-math/linear-algebra';
+
+type AxisDimension = { name: 'x' | 'y' | 'z', params: number }
+type PlaneDimension = { name: 'plane', params: PD.Values<typeof PlaneParams> }
 
 export async function createImage(ctx: VisualContext, volume: Volume, theme: Theme, props: PD.Values<SliceParams>, image?: Image) {
-    const { dimension: { name: dim }, isoValue } = props;
+    if (props.dimension.name === 'plane') {
+        return createPlaneImage(volume, theme, props.dimension, props, image);
+    }
+    const { isoValue } = props;
+    const dimension = props.dimension;
+    const dim = dimension.name;
 
     const { space, data } = volume.grid.cells;
     const { min, max } = volume.grid.stats;
@@ -40,7 +49,7 @@ export async function createImage(ctx: VisualContext, volume: Volume, theme: The
         x, y, z,
         x0, y0, z0,
         nx, ny, nz
-    } = getSliceInfo(volume.grid, props);
+    } = getSliceInfo(volume.grid, dimension);
 
     const corners = new Float32Array(
         dim === 'x' ? [x, 0, 0, x, y, 0, x, 0, z, x, y, z] :
@@ -49,7 +58,7 @@ export async function createImage(ctx: VisualContext, volume: Volume, theme: The
     );
 
     const imageArray = new Uint8Array(width * height * 4);
-    const groupArray = getPackedGroupArray(volume.grid, props);
+    const groupArray = getPackedGroupArray(volume.grid, dimension);
 
     let i = 0;
     for (let iy = y0; iy < ny; ++iy) {
@@ -77,8 +86,8 @@ export async function createImage(ctx: VisualContext, volume: Volume, theme: The
     return Image.create(imageTexture, corners, groupTexture, image);
 }
 
-function getSliceInfo(grid: Grid, props: PD.Values<SliceParams>) {
-    const { dimension: { name: dim, params: index } } = props;
+function getSliceInfo(grid: Grid, dimension: AxisDimension) {
+    const { name: dim, params: index } = dimension;
     const { space } = grid.cells;
 
     let width, height;
@@ -107,9 +116,9 @@ function getSliceInfo(grid: Grid, props: PD.Values<SliceParams>) {
     };
 }
 
-function getPackedGroupArray(grid: Grid, props: PD.Values<SliceParams>) {
+function getPackedGroupArray(grid: Grid, dimension: AxisDimension) {
     const { space } = grid.cells;
-    const { width, height, x0, y0, z0, nx, ny, nz } = getSliceInfo(grid, props);
+    const { width, height, x0, y0, z0, nx, ny, nz } = getSliceInfo(grid, dimension);
     const groupArray = new Uint8Array(width * height * 4);
 
     let j = 0;
@@ -124,9 +133,9 @@ function getPackedGroupArray(grid: Grid, props: PD.Values<SliceParams>) {
     return groupArray;
 }
 
-function getGroupArray(grid: Grid, props: PD.Values<SliceParams>) {
+function getGroupArray(grid: Grid, dimension: AxisDimension) {
     const { space } = grid.cells;
-    const { width, height, x0, y0, z0, nx, ny, nz } = getSliceInfo(grid, props);
+    const { width, height, x0, y0, z0, nx, ny, nz } = getSliceInfo(grid, dimension);
     const groupArray = new Uint32Array(width * height);
 
     let j = 0;
@@ -143,8 +152,10 @@ function getGroupArray(grid: Grid, props: PD.Values<SliceParams>) {
 
 function getLoci(volume: Volume, props: PD.Values<SliceParams>) {
     // TODO cache somehow?
-    const groupArray = getGroupArray(volume.grid, props);
-    return Volume.Cell.Loci(volume, SortedArray.ofUnsortedArray(groupArray));
+    const groupArray = props.dimension.name === 'plane'
+        ? getPlaneGroupArray(volume.grid, props.dimension)
+        : getGroupArray(volume.grid, props.dimension);
+    return Volume.Cell.Loci(volume, SortedArray.deduplicate(SortedArray.ofUnsortedArray(groupArray)));
 }
 
 function getSliceLoci(pickingId: PickingId, volume: Volume, props: PD.Values<SliceParams>, id: number) {
@@ -161,6 +172,158 @@ function eachSlice(loci: Loci, volume: Volume, props: PD.Values<SliceParams>, ap
 
 //
 
+export interface SlicePlane {
+    /** Point on the plane closest to the center of the volume */
+    readonly center: Vec3
+    readonly normal: Vec3
+    /** In-plane unit vectors, along the image width and height */
+    readonly u: Vec3
+    readonly v: Vec3
+}
+
+/** Plane through the center of the volume, moved along the normal by the offset */
+export function getSlicePlane(grid: Grid, normal: Vec3, offset: number): SlicePlane {
+    const [nx, ny, nz] = grid.cells.space.dimensions;
+    const center = Vec3.create((nx - 1) / 2, (ny - 1) / 2, (nz - 1) / 2);
+    Vec3.transformMat4(center, center, Grid.getGridToCartesianTransform(grid));
+
+    const n = Vec3.magnitude(normal) > 0 ? Vec3.normalize(Vec3(), normal) : Vec3.create(0, 0, 1);
+    Vec3.scaleAndAdd(center, center, n, offset);
+
+    const u = Vec3.orthogonalize(Vec3(), n, Math.abs(n[0]) < 0.9 ? Vec3.unitX : Vec3.unitY);
+    const v = Vec3.cross(Vec3(), n, u);
+    return { center, normal: n, u, v };
+}
+
+function getPlaneInfo(grid: Grid, dimension: PlaneDimension) {
+    const { normal, offset } = dimension.params;
+    const plane = getSlicePlane(grid, normal, offset);
+    const { center, u, v } = plane;
+
+    const gridToCartn = Grid.getGridToCartesianTransform(grid);
+    const cartnToGrid = Mat4.invert(Mat4(), gridToCartn);
+    const [nx, ny, nz] = grid.cells.space.dimensions;
+
+    // extent of the grid box projected onto the plane
+    let uMin = Infinity, uMax = -Infinity, vMin = Infinity, vMax = -Infinity;
+    const p = Vec3();
+    for (let c = 0; c < 8; ++c) {
+        Vec3.set(p, c & 1 ? nx - 1 : 0, c & 2 ? ny - 1 : 0, c & 4 ? nz - 1 : 0);
+        Vec3.transformMat4(p, p, gridToCartn);
+        Vec3.sub(p, p, center);
+        const pu = Vec3.dot(p, u), pv = Vec3.dot(p, v);
+        if (pu < uMin) uMin = pu;
+        if (pu > uMax) uMax = pu;
+        if (pv < vMin) vMin = pv;
+        if (pv > vMax) vMax = pv;
+    }
+
+    // sample the plane at the smallest grid spacing
+    const voxelSize = Math.min(
+        Math.hypot(gridToCartn[0], gridToCartn[1], gridToCartn[2]),
+        Math.hypot(gridToCartn[4], gridToCartn[5], gridToCartn[6]),
+        Math.hypot(gridToCartn[8], gridToCartn[9], gridToCartn[10])
+    );
+    const width = Math.max(2, Math.ceil((uMax - uMin) / voxelSize) + 1);
+    const height = Math.max(2, Math.ceil((vMax - vMin) / voxelSize) + 1);
+
+    return {
+        plane, cartnToGrid,
+        uMin, vMin, uMax, vMax,
+        du: (uMax - uMin) / (width - 1),
+        dv: (vMax - vMin) / (height - 1),
+        width, height
+    };
+}
+
+function getPlanePoint(out: Vec3, plane: SlicePlane, pu: number, pv: number) {
+    Vec3.scaleAndAdd(out, plane.center, plane.u, pu);
+    return Vec3.scaleAndAdd(out, out, plane.v, pv);
+}
+
+/** Calls `f` for each image pixel with its grid coordinates */
+function eachPlanePixel(grid: Grid, dimension: PlaneDimension, f: (i: number, coords: Vec3) => void) {
+    const { plane, cartnToGrid, uMin, vMin, du, dv, width, height } = getPlaneInfo(grid, dimension);
+    const coords = Vec3();
+    for (let iy = 0; iy < height; ++iy) {
+        for (let ix = 0; ix < width; ++ix) {
+            getPlanePoint(coords, plane, uMin + ix * du, vMin + iy * dv);
+            f(iy * width + ix, Vec3.transformMat4(coords, coords, cartnToGrid));
+        }
+    }
+}
+
+function getNearestCell(grid: Grid, coords: Vec3) {
+    const { space } = grid.cells;
+    const [nx, ny, nz] = space.dimensions;
+    const x = Math.round(coords[0]), y = Math.round(coords[1]), z = Math.round(coords[2]);
+    if (x < 0 || y < 0 || z < 0 || x >= nx || y >= ny || z >= nz) return -1;
+    return space.dataOffset(x, y, z);
+}
+
+function createPlaneImage(volume: Volume, theme: Theme, dimension: PlaneDimension, props: PD.Values<SliceParams>, image?: Image) {
+    const { min, max } = volume.grid.stats;
+    const isoVal = Volume.IsoValue.toAbsolute(props.isoValue, volume.grid.stats).absoluteValue;
+
+    const color = 'color' in theme.color ? theme.color.color(NullLocation, false) : Color(0xffffff);
+    const [r, g, b] = Color.toRgbNormalized(color);
+
+    const { plane, uMin, vMin, uMax, vMax, width, height } = getPlaneInfo(volume.grid, dimension);
+    const imageArray = new Uint8Array(width * height * 4);
+    const groupArray = new Uint8Array(width * height * 4);
+
+    eachPlanePixel(volume.grid, dimension, (i, coords) => {
+        // trilinear interpolation, NaN outside of the grid
+        const val = Grid.getInterpolatedValue(volume.grid, coords);
+        const normVal = (val - min) / (max - min);
+        const j = i * 4;
+
+        imageArray[j] = r * normVal * 2 * 255;
+        imageArray[j + 1] = g * normVal * 2 * 255;
+        imageArray[j + 2] = b * normVal * 2 * 255;
+        imageArray[j + 3] = val >= isoVal ? 255 : 0;
+
+        packIntToRGBArray(Math.max(0, getNearestCell(volume.grid, coords)), groupArray, j);
+    });
+
+    const corners = new Float32Array(12);
+    const p = Vec3();
+    Vec3.toArray(getPlanePoint(p, plane, uMin, vMin), corners, 0);
+    Vec3.toArray(getPlanePoint(p, plane, uMin, vMax), corners, 3);
+    Vec3.toArray(getPlanePoint(p, plane, uMax, vMin), corners, 6);
+    Vec3.toArray(getPlanePoint(p, plane, uMax, vMax), corners, 9);
+
+    const imageTexture = { width, height, array: imageArray, flipY: true };
+    const groupTexture = { width, height, array: groupArray, flipY: true };
+
+    return Image.create(imageTexture, corners, groupTexture, image);
+}
+
+function getPlaneGroupArray(grid: Grid, dimension: PlaneDimension) {
+    const groups: number[] = [];
+    eachPlanePixel(grid, dimension, (_, coords) => {
+        const cell = getNearestCell(grid, coords);
+        if (cell >= 0) groups.push(cell);
+    });
+    return groups;
+}
+
+function isSameDimension(a: PD.Values<SliceParams>['dimension'], b: PD.Values<SliceParams>['dimension']) {
+    if (a.name === 'plane' || b.name === 'plane') {
+        if (a.name !== 'plane' || b.name !== 'plane') return false;
+        return Vec3.exactEquals(a.params.normal, b.params.normal) && a.params.offset === b.params.offset;
+    }
+    return a.name === b.name && a.params === b.params;
+}
+
+//
+
+const PlaneParams = {
+    normal: PD.Vec3(Vec3.create(0, 0, 1), {}, { description: 'Normal of the plane in cartesian coordinates.' }),
+    offset: PD.Numeric(0, { min: -50, max: 50, step: 0.1 }, { description: 'Distance in \u212B of the plane from the volume center along the normal.' }),
+    handle: PD.Boolean(true, { description: 'Show a handle to drag the plane along its normal.' }),
+};
+
 export const SliceParams = {
     ...Image.Params,
     quality: { ...Image.Params.quality, isEssential: false },
@@ -168,6 +331,7 @@ export const SliceParams = {
         x: PD.Numeric(0, { min: 0, max: 0, step: 1 }),
         y: PD.Numeric(0, { min: 0, max: 0, step: 1 }),
         z: PD.Numeric(0, { min: 0, max: 0, step: 1 }),
+        plane: PD.Group(PlaneParams, { isFlat: true }),
     }, { isEssential: true }),
     isoValue: Volume.IsoValueParam,
 };
@@ -175,10 +339,15 @@ export type SliceParams = typeof SliceParams
 export function getSliceParams(ctx: ThemeRegistryContext, volume: Volume) {
     const p = PD.clone(SliceParams);
     const dim = volume.grid.cells.space.dimensions;
+    const radius = Math.ceil(Grid.getBoundingSphere(volume.grid).radius);
     p.dimension = PD.MappedStatic('x', {
         x: PD.Numeric(0, { min: 0, max: dim[0] - 1, step: 1 }),
         y: PD.Numeric(0, { min: 0, max: dim[1] - 1, step: 1 }),
         z: PD.Numeric(0, { min: 0, max: dim[2] - 1, step: 1 }),
+        plane: PD.Group({
+            ...PlaneParams,
+            offset: PD.Numeric(0, { min: -radius, max: radius, step: 0.1 }, { description: PlaneParams.offset.description }),
+        }, { isFlat: true }),
     }, { isEssential: true });
     p.isoValue = Volume.createIsoValueParam(Volume.IsoValue.absolute(volume.grid.stats.min), volume.grid.stats);
     return p;
@@ -193,8 +362,7 @@ export function SliceVisual(materialId: number): VolumeVisual<SliceParams> {
         eachLocation: eachSlice,
         setUpdateState: (state: VisualUpdateState, volume: Volume, newProps: PD.Values<SliceParams>, currentProps: PD.Values<SliceParams>, newTheme: Theme, currentTheme: Theme) => {
             state.createGeometry = (
-                newProps.dimension.name !== currentProps.dimension.name ||
-                newProps.dimension.params !== currentProps.dimension.params ||
+                !isSameDimension(newProps.dimension, currentProps.dimension) ||
                 !Volume.IsoValue.areSame(newProps.isoValue, currentProps.isoValue, volume.grid.stats) ||
                 !ColorTheme.areEqual(newTheme.color, currentTheme.color)
             );
@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { OrderedSet } from '../../../mol-data/int';
+import { parsePDB } from '../../../mol-io/reader/pdb/parser';
+import { trajectoryFromPDB } from '../../../mol-model-formats/structure/pdb';
+import { Structure, StructureElement, StructureSelection } from '../../../mol-model/structure';
+import { Script } from '../../script';
+import { MolScriptBuilder as B } from '../builder';
+import { Expression } from '../expression';
+import { formatMolScript } from '../expression-formatter';
+import { parseMolScript } from '../parser';
+
+const pdb = `ATOM      1  N   ALA A  10       0.000   0.000   0.000  1.00 10.00           N
+ATOM      2  CA  ALA A  10       1.458   0.000   0.000  1.00 20.00           C
+ATOM      3  C   ALA A  10       2.009   1.420   0.000  1.00 30.00           C
+ATOM      4  O   ALA A  10       1.251   2.390   0.000  1.00 40.00           O
+ATOM      5  CB  ALA A  10       1.988  -0.773  -1.199  1.00 50.00           C
+ATOM      6  N   GLY A  11       3.332   1.536   0.000  1.00 60.00           N
+ATOM      7  CA  GLY A  11       3.970   2.845   0.000  1.00 70.00           C
+ATOM      8  C   GLY A  11       5.486   2.700   0.000  1.00 80.00           C
+ATOM      9  O   GLY A  11       6.009   1.580   0.000  0.50 90.00           O
+TER
+HETATM   10  C1  LIG B 101       8.000   2.000   0.000  1.00 10.00           C
+HETATM   11  O1  LIG B 101       9.000   2.000   0.000  1.00 10.00           O
+HETATM   12  O   HOH B 201      10.500   2.000   0.000  1.00 10.00           O
+END
+`;
+
+const expressions: [string, Expression][] = [
+    ['all', B.struct.generator.all()],
+    ['residue name', B.struct.generator.atomGroups({ 'residue-test': B.core.rel.eq([B.ammp('auth_comp_id'), 'ALA']) })],
+    ['numeric strings', B.struct.generator.atomGroups({ 'residue-test': B.core.set.has([B.set('10', '101'), B.core.type.str([B.ammp('auth_seq_id')])]) })],
+    ['special strings', B.struct.generator.atomGroups({ 'atom-test': B.core.set.has([B.set('', 'C A', '.CA', '_C', ':x', 'true', 'set', 'CA'), B.ammp('auth_atom_id')]) })],
+    ['regex', B.struct.generator.atomGroups({ 'atom-test': B.core.str.match([B.re('^(C|O)[0-9]*$', 'i'), B.ammp('auth_atom_id')]) })],
+    ['element', B.struct.generator.atomGroups({ 'atom-test': B.core.rel.eq([B.acp('elementSymbol'), B.es('O')]) })],
+    ['range', B.struct.generator.atomGroups({ 'atom-test': B.core.rel.inRange([B.acp('x'), -0.5, 4.25]) })],
+    ['within', B.struct.filter.within({
+        0: B.struct.generator.atomGroups({}),
+        target: B.struct.generator.atomGroups({ 'residue-test': B.core.rel.eq([B.ammp('auth_comp_id'), 'LIG']) }),
+        'max-radius': 2
+    })],
+    ['except', B.struct.modifier.exceptBy({
+        0: B.struct.generator.all(),
+        by: B.struct.generator.atomGroups({ 'chain-test': B.core.rel.eq([B.ammp('auth_asym_id'), 'B']) })
+    })],
+    ['whole residues', B.struct.modifier.wholeResidues({
+        0: B.struct.modifier.union({ 0: B.struct.generator.atomGroups({ 'atom-test': B.core.rel.gr([B.ammp('B_iso_or_equiv'), 45]) }) })
+    })],
+    ['pymol', Script.toExpression(Script('byres (resn LIG around 3) and not solvent', 'pymol'))],
+    ['vmd', Script.toExpression(Script('same residue as (x < 2 or name "C.*")', 'vmd'))],
+];
+
+async function getStructure() {
+    const parsed = await parsePDB(pdb).run();
+    if (parsed.isError) throw parsed;
+    const trajectory = await trajectoryFromPDB(parsed.result).run();
+    return Structure.ofModel(trajectory.representative);
+}
+
+function getIndices(loci: StructureElement.Loci) {
+    const indices: number[] = [];
+    for (const { unit, indices: unitIndices } of loci.elements) {
+        OrderedSet.forEach(unitIndices, i => {
+            indices.push(unit.elements[i]);
+        });
+    }
+    return indices.sort((a, b) => a - b);
+}
+
+describe('expression-formatter', () => {
+    let structure: Structure;
+
+    beforeAll(async () => {
+        structure = await getStructure();
+    });
+
+    for (const [name, e] of expressions) {
+        it(`${name} round-trip`, () => {
+            const source = formatMolScript(e);
+            const parsed = parseMolScript(source);
+            expect(parsed.length).toBe(1);
+            expect(formatMolScript(parsed[0])).toBe(source);
+        });
+
+        it(`${name} same selection`, () => {
+            const expected = getIndices(StructureSelection.toLociWithSourceUnits(Script.getStructureSelection(e, structure)));
+            expect(getIndices(Script.toLoci(Script.fromExpression(e), structure))).toEqual(expected);
+            expect(getIndices(Script.toLoci(Script(formatMolScript(e), 'mol-script'), structure))).toEqual(expected);
+        });
+    }
+
+    it('empty lists round-trip', () => {
+        const e = B.core.type.list([]);
+        expect(formatMolScript(e)).toBe('[]');
+        expect(parseMolScript('[]')[0]).toEqual(e);
+        expect(formatMolScript(B.core.type.set([]))).toBe('{}');
+    });
+
+    it('bundle round-trip', () => {
+        const e = B.struct.generator.atomGroups({ 'residue-test': B.core.rel.eq([B.ammp('auth_comp_id'), 'ALA']) });
+        const loci = Script.toLoci(Script.fromExpression(e), structure);
+        const bundle = StructureElement.Bundle.fromLoci(loci);
+        const script = Script.fromExpression(StructureElement.Bundle.toExpression(bundle));
+        expect(script.expression).toContain('[]');
+        expect(getIndices(Script.toLoci(script, structure))).toEqual(getIndices(loci));
+    });
+
+    it('uses aliases', () => {
+        const e = B.struct.generator.atomGroups({ 'residue-test': B.core.rel.eq([B.ammp('auth_comp_id'), 'ALA']) });
+        const { expression } = Script.fromExpression(e);
+        expect(expression).toContain('sel.atom.atom-groups');
+        expect(expression).toContain('(atom.auth_comp_id)');
+        expect(expression).toContain('`ALA`');
+    });
+
+    it('throws for strings with backticks', () => {
+        expect(() => formatMolScript('a`b')).toThrow();
+    });
+});
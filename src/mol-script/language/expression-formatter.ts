@@ -8,6 +8,25 @@ import { Expression } from './expression';
 
 const { isLiteral, isSymbol, isArgumentsArray } = Expression;
 
+export interface FormatMolScriptOptions {
+    /** the name written for a symbol, defaults to the symbol id */
+    symbolName: (id: string) => string
+}
+
+const DefaultFormatMolScriptOptions: FormatMolScriptOptions = {
+    symbolName: id => id
+};
+
+/** Strings are always quoted, unquoted words are read back as symbols by the parser */
+function formatLiteral(e: Expression.Literal) {
+    if (typeof e === 'string') {
+        if (e.indexOf('`') >= 0) throw new Error(`Cannot format string '${e}' containing a backtick.`);
+        return `\`${e}\``;
+    }
+    if (typeof e === 'number' && !isFinite(e)) throw new Error(`Cannot format non-finite number '${e}'.`);
+    return `${e}`;
+}
+
 class Writer {
     private value: string[] = [];
     private currentLineLength = 0;
@@ -64,19 +83,50 @@ class Writer {
     }
 }
 
-function _format(e: Expression, writer: Writer) {
+/** Literals and symbols are kept on one line, everything else starts a new line */
+function isSimple(e: Expression) {
+    return isLiteral(e) || isSymbol(e);
+}
+
+function _formatPositional(args: Expression[], writer: Writer, options: FormatMolScriptOptions) {
+    let prevSimple = true;
+    for (const a of args) {
+        if (isSimple(a)) {
+            if (prevSimple) writer.whitespace();
+            else writer.newline();
+            prevSimple = true;
+        } else {
+            prevSimple = false;
+            writer.newline();
+        }
+        _format(a, writer, options);
+    }
+}
+
+function _format(e: Expression, writer: Writer, options: FormatMolScriptOptions) {
     if (isLiteral(e)) {
-        if (typeof e === 'string' && (/\s/.test(e) || !e.length)) writer.append(`\`${e}\``);
-        else writer.append(`${e}`);
+        writer.append(formatLiteral(e));
         return;
     }
     if (isSymbol(e)) {
-        writer.append(`${e.name}`);
+        writer.append(options.symbolName(e.name));
         return;
     }
 
+    // `(list)` is read back as a call without arguments, so empty lists and sets use brackets
+    if (isSymbol(e.head) && isArgumentsArray(e.args) && e.args.length === 0) {
+        if (e.head.name === 'core.type.list') {
+            writer.append('[]');
+            return;
+        }
+        if (e.head.name === 'core.type.set') {
+            writer.append('{}');
+            return;
+        }
+    }
+
     writer.push();
-    _format(e.head, writer);
+    _format(e.head, writer, options);
 
     if (!e.args) {
         writer.pop();
@@ -84,48 +134,46 @@ function _format(e: Expression, writer: Writer) {
     }
 
     if (isArgumentsArray(e.args)) {
-        let prevLiteral = true;
-        for (const a of e.args) {
-            if (isLiteral(a)) {
-                if (prevLiteral) writer.whitespace();
-                else writer.newline();
-                prevLiteral = true;
-            } else {
-                prevLiteral = false;
-                writer.newline();
-            }
-            _format(a, writer);
-        }
+        // trailing optional arguments such as the regex flags may be undefined
+        let count = e.args.length;
+        while (count > 0 && e.args[count - 1] === void 0) count--;
+        _formatPositional(count === e.args.length ? e.args : e.args.slice(0, count), writer, options);
         writer.pop();
         return;
     }
 
-    const keys = Object.keys(e.args);
-    if (!keys.length) {
-        writer.pop();
-        return;
-    }
+    // leading numeric keys are written as positional arguments, like the parser reads them
+    const args = e.args;
+    const keys = Object.keys(args).filter(k => args[k] !== void 0);
+    let positionalCount = 0;
+    while (positionalCount < keys.length && keys[positionalCount] === `${positionalCount}`) positionalCount++;
+    _formatPositional(keys.slice(0, positionalCount).map(k => args[k]), writer, options);
 
-    if (keys.length === 1 && isLiteral(e.args[keys[0]])) {
+    const named = keys.slice(positionalCount);
+    if (positionalCount === 0 && named.length === 1 && isSimple(args[named[0]])) {
         writer.whitespace();
-        writer.append(`:${keys[0]}`);
+        writer.append(`:${named[0]}`);
         writer.whitespace();
-        _format(e.args[keys[0]], writer);
+        _format(args[named[0]], writer, options);
         writer.pop();
         return;
     }
 
-    for (const a of keys) {
+    for (const a of named) {
         writer.newline();
         writer.append(`:${a}`);
         writer.whitespace();
-        _format(e.args[a], writer);
+        _format(args[a], writer, options);
     }
     writer.pop();
 }
 
-export function formatMolScript(e: Expression) {
+/**
+ * Formats the expression as MolScript source that can be read back with
+ * `parseMolScript`.
+ */
+export function formatMolScript(e: Expression, options?: Partial<FormatMolScriptOptions>) {
     const writer = new Writer();
-    _format(e, writer);
+    _format(e, writer, { ...DefaultFormatMolScriptOptions, ...options });
     return writer.getStr();
 }
@@ -4,12 +4,14 @@
  * @author Alexander Rose <alexander.rose@weirdbyte.de>
  */
 
-import { transpileMolScript } from './script/mol-script/symbols';
+import { AliasMap, transpileMolScript } from './script/mol-script/symbols';
 import { parseMolScript } from './language/parser';
+import { formatMolScript } from './language/expression-formatter';
 import { Expression } from './language/expression';
 import { StructureElement, QueryContext, StructureSelection, Structure, QueryFn, QueryContextOptions } from '../mol-model/structure';
 import { compile } from './runtime/query/compiler';
 import { MolScriptBuilder } from './language/builder';
+import { _transpiler } from './transpilers/all';
 
 export { Script };
 
@@ -20,7 +22,14 @@ function Script(expression: string, language: Script.Language): Script {
 }
 
 namespace Script {
-    export type Language = 'mol-script'
+    export type Language = 'mol-script' | 'pymol' | 'vmd' | 'jmol'
+
+    export const Info: { [L in Language]: string } = {
+        'mol-script': 'Mol-Script',
+        'pymol': 'PyMOL',
+        'vmd': 'VMD',
+        'jmol': 'Jmol/RasMol',
+    };
 
     export function is(x: any): x is Script {
         return !!x && typeof (x as Script).expression === 'string' && !!(x as Script).language;
@@ -36,10 +45,20 @@ namespace Script {
                 const parsed = parseMolScript(script.expression);
                 if (parsed.length === 0) throw new Error('No query');
                 return transpileMolScript(parsed[0]);
+            case 'pymol':
+            case 'vmd':
+            case 'jmol':
+                return _transpiler[script.language](script.expression);
         }
         throw new Error('unsupported script language');
     }
 
+    /** Creates a MolScript script with symbol aliases for the expression */
+    export function fromExpression(expression: Expression): Script {
+        const source = formatMolScript(expression, { symbolName: id => AliasMap[id] || id });
+        return Script(source, 'mol-script');
+    }
+
     export function toQuery(script: Script): QueryFn<StructureSelection> {
         const expression = toExpression(script);
         return compile<StructureSelection>(expression);
@@ -276,6 +276,7 @@ makeList(SymbolTable);
 const normalized = (function () {
     const symbolList: [string, MolScriptSymbol][] = [];
     const symbolMap: { [id: string]: MolScriptSymbol | undefined } = Object.create(null);
+    const aliasMap: { [id: string]: string | undefined } = Object.create(null);
     const namedArgs = UniqueArray.create<string, string>();
     const constants = UniqueArray.create<string, string>();
 
@@ -285,6 +286,7 @@ const normalized = (function () {
             if (symbolMap[a]) throw new Error(`Alias '${a}' already in use.`);
             symbolMap[a] = s;
         }
+        if (s.kind === 'alias' && !aliasMap[s.symbol.id]) aliasMap[s.symbol.id] = s.aliases[0];
         const args = s.symbol.args;
         if (args.kind !== 'dictionary') {
             if (args.type.kind === 'oneof') {
@@ -301,7 +303,7 @@ const normalized = (function () {
         }
     }
 
-    return { symbolList, symbolMap, namedArgs: namedArgs.array, constants: constants.array };
+    return { symbolList, symbolMap, aliasMap, namedArgs: namedArgs.array, constants: constants.array };
 })();
 
 export const MolScriptSymbols = list;
@@ -309,6 +311,8 @@ export const Constants = normalized.constants;
 export const NamedArgs = normalized.namedArgs;
 export const SymbolMap = normalized.symbolMap;
 export const SymbolList = normalized.symbolList;
+/** Maps a symbol id to its first alias */
+export const AliasMap = normalized.aliasMap;
 
 function substSymbols(expr: Expression): Expression {
     if (Expression.isLiteral(expr)) {
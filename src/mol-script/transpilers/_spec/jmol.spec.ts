@@ -0,0 +1,153 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { transpiler } from '../jmol/parser';
+import { keywords } from '../jmol/keywords';
+import { properties } from '../jmol/properties';
+import { operators } from '../jmol/operators';
+import { compile } from '../../runtime/query/compiler';
+import { Structure } from '../../../mol-model/structure';
+import { getSelectedAtomCount, getTestStructure } from './structure';
+
+const general = {
+    supported: [
+        // trimming
+        '    protein   ',
+        'protein   ',
+        '    protein',
+
+        // atom expressions
+        '*',
+        '*:A',
+        '10',
+        '10-20',
+        '10^A',
+        '-5',
+        '[HEM]',
+        '[HEM]:A',
+        'HEM',
+        'ala',
+        'ALA10',
+        '[ALA]10:A.CA%B/1',
+        '*.CA',
+        '.C*',
+        ':A',
+        '*/2',
+        '10:A.CA',
+
+        // functions
+        'within(5.0, ligand)',
+        'within(3, [HEM])',
+        'within(group, 10:A)',
+        'within(chain, [HEM])',
+        'within(molecule, 10)',
+        'connected([HEM])',
+
+        // combinations
+        '*:A and 10-20',
+        'protein and not (10-20 or 30-40)',
+        'resno >= 10 and resno <= 20 and chain = A',
+        'within(5.0, ligand) and not water',
+        '[HEM], [ZN]',
+        'ala and 10-20',
+        'not HOH',
+        'atomName = "C*" and group = ALA',
+    ],
+    unsupported: [
+        // unsupported keyword
+        'selected',
+        // unsupported property
+        'partialCharge > 0.5',
+        // unsupported within unit
+        'within(site, 10)',
+        // bad atom expression
+        '10:A.CA%B/x',
+        // misspelled keywords
+        'protien',
+        'protein and watr',
+    ]
+};
+
+describe('jmol general', () => {
+    general.supported.forEach(str => {
+        it(str, () => {
+            const expr = transpiler(str);
+            compile(expr);
+        });
+    });
+    general.unsupported.forEach(str => {
+        it(str, () => {
+            expect(() => transpiler(str)).toThrow();
+        });
+    });
+});
+
+describe('jmol keywords', () => {
+    for (const name of Object.keys(keywords)) {
+        const k = keywords[name];
+        for (const str of [name, ...(k.abbr || [])]) {
+            it(str, () => {
+                if (k.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('jmol properties', () => {
+    for (const name of Object.keys(properties)) {
+        const p = properties[name];
+        for (const str of p['@examples']) {
+            it(str, () => {
+                if (p.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('jmol operators', () => {
+    for (const op of operators) {
+        for (const str of op['@examples']) {
+            it(str, () => {
+                if (op.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('jmol selections', () => {
+    let structure: Structure;
+
+    beforeAll(async () => {
+        structure = await getTestStructure();
+    });
+
+    const counts: [string, number][] = [
+        ['HEM', 3],
+        ['[HEM]', 3],
+        ['ala', 150],
+        ['ala and 10-20', 55],
+        ['not HOH', 153],
+        ['HEM or HOH', 5],
+    ];
+
+    for (const [str, count] of counts) {
+        it(str, () => {
+            expect(getSelectedAtomCount(structure, transpiler(str))).toBe(count);
+        });
+    }
+});
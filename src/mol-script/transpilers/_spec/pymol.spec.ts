@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { transpiler } from '../pymol/parser';
+import { keywords } from '../pymol/keywords';
+import { properties } from '../pymol/properties';
+import { operators } from '../pymol/operators';
+import { compile } from '../../runtime/query/compiler';
+import { Structure } from '../../../mol-model/structure';
+import { getSelectedAtomCount, getTestStructure } from './structure';
+
+const general = {
+    supported: [
+        // macros
+        '10/cb',
+        'a/10-12/ca',
+        'lig/b/6+8/c+o',
+        '/1abc//A/ALA`10/CA',
+        '///A/10-50/',
+
+        // trimming
+        '    name CA   ',
+        'name CA   ',
+        '    name CA',
+
+        // combinations
+        'chain A and resi 10-50 and not solvent',
+        'byres resn LIG around 5',
+        'br. (resn LIG around 5) and polymer',
+        'chain A & (name CA | name CB)',
+        'not (chain A or chain B)',
+        'organic or inorganic',
+        'solvent within 3.5 of organic',
+        'bychain resn HEM',
+        'name O3\' and resn A',
+        'resn hoh and b > 30 and q < 1',
+    ],
+    unsupported: [
+        // unsupported keyword
+        'visible',
+        // unsupported operator
+        'resn LIG gap 1.5',
+        // bad macro
+        'a/b/c/d/e/f',
+    ]
+};
+
+describe('pymol general', () => {
+    general.supported.forEach(str => {
+        it(str, () => {
+            const expr = transpiler(str);
+            compile(expr);
+        });
+    });
+    general.unsupported.forEach(str => {
+        it(str, () => {
+            expect(() => transpiler(str)).toThrow();
+        });
+    });
+});
+
+describe('pymol keywords', () => {
+    for (const name of Object.keys(keywords)) {
+        const k = keywords[name];
+        for (const str of [name, ...(k.abbr || [])]) {
+            it(str, () => {
+                if (k.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('pymol properties', () => {
+    for (const name of Object.keys(properties)) {
+        const p = properties[name];
+        for (const str of p['@examples']) {
+            it(str, () => {
+                if (p.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('pymol operators', () => {
+    for (const op of operators) {
+        for (const str of op['@examples']) {
+            it(str, () => {
+                if (op.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('pymol selections', () => {
+    let structure: Structure;
+
+    beforeAll(async () => {
+        structure = await getTestStructure();
+    });
+
+    const counts: [string, number][] = [
+        ['all', 155],
+        ['name CA', 30],
+        ['resi 10-20', 55],
+        ['name CA in resi 10-20', 11],
+        ['name CA like resi 10-20', 11],
+        ['resi 10-20 in name CA', 11],
+        ['resn HEM in chain B', 0],
+        ['resn HEM around 5', 5],
+        ['byres (resn HEM around 5)', 5],
+        ['solvent', 2],
+        ['state 1', 155],
+        ['state 2', 0],
+    ];
+
+    for (const [str, count] of counts) {
+        it(str, () => {
+            expect(getSelectedAtomCount(structure, transpiler(str))).toBe(count);
+        });
+    }
+});
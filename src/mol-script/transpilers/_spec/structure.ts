@@ -0,0 +1,53 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { parsePDB } from '../../../mol-io/reader/pdb/parser';
+import { trajectoryFromPDB } from '../../../mol-model-formats/structure/pdb';
+import { Structure, StructureSelection } from '../../../mol-model/structure';
+import { Expression } from '../../language/expression';
+import { Script } from '../../script';
+
+function atomLine(record: string, serial: number, name: string, resn: string, chain: string, resi: number, x: number, y: number, z: number, element: string) {
+    const coords = [x, y, z].map(v => v.toFixed(3).padStart(8)).join('');
+    return `${record.padEnd(6)}${serial.toString().padStart(5)} ${(' ' + name).padEnd(4)} ${resn.padStart(3)} ${chain}${resi.toString().padStart(4)}    ${coords}  1.00 10.00          ${element.padStart(2)}`;
+}
+
+/**
+ * Chain A with 30 ALA residues spaced 10 Angstrom apart, a HEM next to residue 15
+ * and two far away waters in chain B, 155 atoms in total
+ */
+function getTestPdb() {
+    const lines: string[] = [];
+    let serial = 1;
+    const backbone: [string, string][] = [['N', 'N'], ['CA', 'C'], ['C', 'C'], ['O', 'O']];
+    for (let resi = 1; resi <= 30; ++resi) {
+        const x = resi * 10;
+        backbone.forEach(([name, element], i) => {
+            lines.push(atomLine('ATOM', serial++, name, 'ALA', 'A', resi, x, i, 0, element));
+        });
+        lines.push(atomLine('ATOM', serial++, 'CB', 'ALA', 'A', resi, x, 1, 1, 'C'));
+    }
+    lines.push(`TER   ${serial++}`);
+    lines.push(atomLine('HETATM', serial++, 'FE', 'HEM', 'A', 101, 152, 1, 0, 'FE'));
+    lines.push(atomLine('HETATM', serial++, 'NA', 'HEM', 'A', 101, 152, 2, 0, 'N'));
+    lines.push(atomLine('HETATM', serial++, 'NB', 'HEM', 'A', 101, 152, 0, 0, 'N'));
+    lines.push(atomLine('HETATM', serial++, 'O', 'HOH', 'B', 201, 0, 50, 0, 'O'));
+    lines.push(atomLine('HETATM', serial++, 'O', 'HOH', 'B', 202, 0, 60, 0, 'O'));
+    lines.push('END');
+    return lines.join('\n');
+}
+
+export async function getTestStructure() {
+    const parsed = await parsePDB(getTestPdb()).run();
+    if (parsed.isError) throw parsed;
+    const trajectory = await trajectoryFromPDB(parsed.result).run();
+    return Structure.ofModel(trajectory.representative);
+}
+
+export function getSelectedAtomCount(structure: Structure, expression: Expression) {
+    const selection = Script.getStructureSelection(expression, structure);
+    return StructureSelection.unionStructure(selection).elementCount;
+}
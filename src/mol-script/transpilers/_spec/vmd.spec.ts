@@ -0,0 +1,156 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { functions, transpiler } from '../vmd/parser';
+import { keywords } from '../vmd/keywords';
+import { properties } from '../vmd/properties';
+import { operators } from '../vmd/operators';
+import { compile } from '../../runtime/query/compiler';
+import { Structure } from '../../../mol-model/structure';
+import { getSelectedAtomCount, getTestStructure } from './structure';
+
+const general = {
+    supported: [
+        // trimming
+        '    name CA   ',
+        'name CA   ',
+        '    name CA',
+
+        // values
+        'name CA CB N',
+        'name "C.*" O',
+        'resname \'A\'',
+        'resid 1 to 10 20',
+        'serial 1 to 10',
+
+        // comparisons
+        'x < 5',
+        'beta > 50 and occupancy lt 1',
+        'sqrt(sqr(x) + sqr(y)) < 10',
+        'abs(z - 5) <= 2 * 1.5',
+        'x ** 2 + y ^ 2 > -z % 3',
+        'name == CA',
+        'resname =~ "AL."',
+        'chain ne A',
+
+        // combinations
+        'protein and within 5 of resname LIG',
+        'same residue as within 5 of resname LIG',
+        'water and not (exwithin 3 of protein or within 3 of nucleic)',
+        'backbone && (chain A || chain B)',
+        'not hydrogen and structure H E',
+        'same fragment as resid 10 and not water',
+        'same chain as name FE',
+    ],
+    unsupported: [
+        // unsupported property
+        'numbonds 0',
+        'numbonds > 1',
+        // unsupported operator
+        'pbwithin 5 of protein',
+        // unknown secondary structure type
+        'structure X',
+    ]
+};
+
+describe('vmd general', () => {
+    general.supported.forEach(str => {
+        it(str, () => {
+            const expr = transpiler(str);
+            compile(expr);
+        });
+    });
+    general.unsupported.forEach(str => {
+        it(str, () => {
+            expect(() => transpiler(str)).toThrow();
+        });
+    });
+});
+
+describe('vmd keywords', () => {
+    for (const name of Object.keys(keywords)) {
+        const k = keywords[name];
+        for (const str of [name, ...(k.abbr || [])]) {
+            it(str, () => {
+                if (k.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('vmd properties', () => {
+    for (const name of Object.keys(properties)) {
+        const p = properties[name];
+        for (const str of p['@examples']) {
+            it(str, () => {
+                if (p.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('vmd operators', () => {
+    for (const op of operators) {
+        for (const str of op['@examples']) {
+            it(str, () => {
+                if (op.isUnsupported) {
+                    expect(() => transpiler(str)).toThrow();
+                } else {
+                    compile(transpiler(str));
+                }
+            });
+        }
+    }
+});
+
+describe('vmd functions', () => {
+    for (const name of Object.keys(functions)) {
+        const str = `${name}(x) < 1`;
+        it(str, () => {
+            compile(transpiler(str));
+        });
+    }
+});
+
+describe('vmd selections', () => {
+    let structure: Structure;
+
+    beforeAll(async () => {
+        structure = await getTestStructure();
+    });
+
+    // atom counts as given by VMD for the same structure
+    const counts: [string, number][] = [
+        ['all', 155],
+        ['protein', 150],
+        ['protein and backbone', 120],
+        ['sidechain', 30],
+        ['not protein', 5],
+        ['water', 2],
+        ['resname ALA and resid 1 to 10', 50],
+        ['name CA and x < 100', 9],
+        ['within 5 of resname HEM', 8],
+        ['exwithin 5 of resname HEM', 5],
+        ['protein and within 5 of resname HEM', 5],
+        ['same residue as (name CB and resid 5)', 5],
+        ['same chain as water', 2],
+        ['name "C.*" and resid 1', 3],
+    ];
+
+    for (const [str, count] of counts) {
+        it(str, () => {
+            expect(getSelectedAtomCount(structure, transpiler(str))).toBe(count);
+        });
+    }
+});
@@ -0,0 +1,343 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MonadicParser as P } from '../../mol-util/monadic-parser';
+import { Expression } from '../language/expression';
+import { MolScriptBuilder as B } from '../language/builder';
+import { SetUtils } from '../../mol-util/set';
+import { ElementSymbol, NucleicBackboneAtoms, ProteinBackboneAtoms } from '../../mol-model/structure/model/types';
+import { ElementNames, isMetal } from '../../mol-model/structure/model/properties/atomic/types';
+
+export type AtomGroupTest = 'atom-test' | 'residue-test' | 'chain-test' | 'entity-test'
+
+export interface PropertyDef {
+    '@desc': string
+    '@examples': string[]
+    abbr?: string[]
+    isUnsupported?: boolean
+    /** the level of the atom hierarchy at which the property is tested */
+    level: AtomGroupTest
+    /** parses the value(s) given after the property name */
+    value: P<any>
+    /** maps the parsed value(s) to a test expression */
+    map: (value: any) => Expression
+    /** the tested property, for use in comparisons or for expanding selections */
+    property?: Expression
+    isNumeric?: boolean
+}
+export interface PropertyDict { [name: string]: PropertyDef }
+
+export interface KeywordDef {
+    '@desc': string
+    '@examples'?: string[]
+    abbr?: string[]
+    isUnsupported?: boolean
+    map?: () => Expression
+}
+export interface KeywordDict { [name: string]: KeywordDef }
+
+export type OperatorType = 'prefix' | 'postfix' | 'infix'
+
+export interface OperatorDef {
+    '@desc': string
+    '@examples': string[]
+    name: string
+    abbr?: string[]
+    isUnsupported?: boolean
+    type: OperatorType
+    /** lower values bind tighter, operators with equal priority must be of the same type */
+    priority: number
+    /** parses the operator including its parameters, e.g. the radius in `around 5` */
+    rule: P<any>
+    map: (op: any, ...args: Expression[]) => Expression
+}
+export type OperatorList = OperatorDef[]
+
+export type Transpiler = (source: string) => Expression
+
+//
+
+function escapeRegExp(s: string) {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Case-insensitive parser for any of the given words. Words ending in a word
+ * character must not be directly followed by another word character or a dot.
+ */
+export function words(names: string[]): P<string> {
+    const sorted = [...names].sort((a, b) => b.length - a.length);
+    const source = sorted.map(n => {
+        const e = escapeRegExp(n);
+        return /\w$/.test(n) ? `${e}(?![\\w.])` : e;
+    }).join('|');
+    return P.regexp(new RegExp(source, 'i')).desc(sorted.join(' | '));
+}
+
+export const number = P.regexp(/-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/).map(Number).desc('number');
+
+export type ComparisonOperator = '=' | '==' | '!=' | '<' | '<=' | '>' | '>='
+
+/** Parses a comparison such as `< 10` or `>= 0.5` */
+export const comparison = P.seq(P.regexp(/<=|>=|!=|==|<|>|=/), P.optWhitespace, number)
+    .map(([op, , value]) => ({ op: op as ComparisonOperator, value }));
+
+export function unsupported(kind: string, name: string): never {
+    throw new Error(`${kind} '${name}' is not supported`);
+}
+
+//
+
+/** All atoms, each in its own atom set */
+export function allAtoms(): Expression {
+    return B.struct.generator.atomGroups({});
+}
+
+export function atomGroups(level: AtomGroupTest, test: Expression): Expression {
+    return B.struct.generator.atomGroups({ [level]: test });
+}
+
+/** Names sorted such that no name is tried after one of its prefixes */
+function sortedNames(dict: { [name: string]: { abbr?: string[] } }) {
+    const maxLength = (name: string) => Math.max(name.length, ...(dict[name].abbr || []).map(a => a.length));
+    return Object.keys(dict).sort((a, b) => maxLength(b) - maxLength(a));
+}
+
+export function keywordsParser(keywords: KeywordDict): P<Expression> {
+    return P.alt(...sortedNames(keywords).map(name => {
+        const k = keywords[name];
+        return words([name, ...(k.abbr || [])]).map(() => {
+            if (k.isUnsupported || !k.map) unsupported('Keyword', name);
+            return k.map();
+        });
+    }));
+}
+
+export function propertiesParser(properties: PropertyDict): P<Expression> {
+    return P.alt(...sortedNames(properties).map(name => {
+        const p = properties[name];
+        return P.seq(words([name, ...(p.abbr || [])]), P.optWhitespace, p.value).map(([, , value]) => {
+            if (p.isUnsupported) unsupported('Property', name);
+            return atomGroups(p.level, p.map(value));
+        });
+    }));
+}
+
+function prefix(opParser: P<[OperatorDef, any]>, nextParser: P<Expression>): P<Expression> {
+    const parser: P<Expression> = P.lazy(() => P.seq(opParser, parser)
+        .map(([[op, v], e]) => op.map(v, e))
+        .or(nextParser));
+    return parser;
+}
+
+function postfix(opParser: P<[OperatorDef, any]>, nextParser: P<Expression>): P<Expression> {
+    return P.seq(nextParser, opParser.many())
+        .map(([e, ops]) => ops.reduce((acc, [op, v]) => op.map(v, acc), e));
+}
+
+function infix(opParser: P<[OperatorDef, any]>, nextParser: P<Expression>): P<Expression> {
+    return P.seq(nextParser, P.seq(opParser, nextParser).many())
+        .map(([e, rest]) => rest.reduce((acc, [[op, v], e2]) => op.map(v, acc, e2), e));
+}
+
+/**
+ * Builds an expression parser by applying the operators in order of their
+ * priority on top of the given operand parser.
+ */
+export function operatorParser(operand: P<Expression>, operators: OperatorList): P<Expression> {
+    const levels = new Map<number, OperatorDef[]>();
+    for (const op of operators) {
+        if (!levels.has(op.priority)) levels.set(op.priority, []);
+        levels.get(op.priority)!.push(op);
+    }
+
+    let parser = operand;
+    for (const priority of Array.from(levels.keys()).sort((a, b) => a - b)) {
+        const ops = levels.get(priority)!;
+        const type = ops[0].type;
+        if (ops.some(op => op.type !== type)) {
+            throw new Error(`operators with priority ${priority} must be of the same type`);
+        }
+
+        const opParser = P.alt(...ops.map(op => op.rule.map(v => {
+            if (op.isUnsupported) unsupported('Operator', op.name);
+            return [op, v] as [OperatorDef, any];
+        }))).trim(P.optWhitespace);
+
+        switch (type) {
+            case 'prefix': parser = prefix(opParser, parser); break;
+            case 'postfix': parser = postfix(opParser, parser); break;
+            case 'infix': parser = infix(opParser, parser); break;
+        }
+    }
+    return parser;
+}
+
+//
+
+/** Test for a string property to equal any of the values, supporting `*` and `?` wildcards */
+export function testStrings(property: Expression, values: string[], ignoreCase = false): Expression {
+    if (!ignoreCase && values.every(v => !/[*?]/.test(v))) {
+        return values.length === 1
+            ? B.core.rel.eq([property, values[0]])
+            : B.core.set.has([B.set(...values), property]);
+    }
+    const pattern = values.map(v => escapeRegExp(v).replace(/\\\*/g, '.*').replace(/\\\?/g, '.')).join('|');
+    return B.core.str.match([B.re(`^(${pattern})$`, ignoreCase ? 'i' : ''), property]);
+}
+
+export type NumberRange = number | [min: number, max: number]
+
+/** Test for a numeric property to equal any of the values or to lie within any of the inclusive ranges */
+export function testNumbers(property: Expression, values: NumberRange[]): Expression {
+    const tests = values.map(v => typeof v === 'number'
+        ? B.core.rel.eq([property, v])
+        : B.core.rel.inRange([property, v[0], v[1]]));
+    return tests.length === 1 ? tests[0] : B.core.logic.or(tests);
+}
+
+export function testComparison(property: Expression, op: ComparisonOperator, value: Expression): Expression {
+    switch (op) {
+        case '=': case '==': return B.core.rel.eq([property, value]);
+        case '!=': return B.core.rel.neq([property, value]);
+        case '<': return B.core.rel.lt([property, value]);
+        case '<=': return B.core.rel.lte([property, value]);
+        case '>': return B.core.rel.gr([property, value]);
+        case '>=': return B.core.rel.gre([property, value]);
+    }
+}
+
+//
+
+export function andExpr(e1: Expression, e2: Expression): Expression {
+    return B.struct.modifier.intersectBy({ 0: e1, by: e2 });
+}
+
+export function orExpr(e1: Expression, e2: Expression): Expression {
+    return B.struct.combinator.merge([e1, e2]);
+}
+
+export function notExpr(e: Expression): Expression {
+    return B.struct.modifier.exceptBy({ 0: B.struct.generator.all(), by: e });
+}
+
+/** All atoms within (or beyond when `invert` is set) the radius of the target */
+export function withinExpr(target: Expression, radius: number, invert = false): Expression {
+    return B.struct.filter.within({
+        0: allAtoms(),
+        target,
+        'max-radius': radius,
+        invert
+    });
+}
+
+/** All atoms within the radius of the target that are not part of the target */
+export function aroundExpr(target: Expression, radius: number): Expression {
+    return B.struct.modifier.exceptBy({ 0: withinExpr(target, radius), by: target });
+}
+
+export function wholeResiduesExpr(e: Expression): Expression {
+    return B.struct.modifier.wholeResidues({ 0: B.struct.modifier.union({ 0: e }) });
+}
+
+export function expandPropertyExpr(e: Expression, property: Expression): Expression {
+    return B.struct.modifier.expandProperty({ 0: B.struct.modifier.union({ 0: e }), property });
+}
+
+/** Atoms bonded to the selection within the given number of layers, including the selection */
+export function boundToExpr(e: Expression, layerCount = 1): Expression {
+    return B.struct.modifier.includeConnected({ 0: B.struct.modifier.union({ 0: e }), 'layer-count': layerCount });
+}
+
+//
+
+export const polymerEntityTest = B.core.logic.and([
+    B.core.rel.eq([B.ammp('entityType'), 'polymer']),
+    B.core.str.match([
+        B.re('(polypeptide|cyclic-pseudo-peptide|peptide-like|nucleotide|peptide nucleic acid)', 'i'),
+        B.ammp('entitySubtype')
+    ])
+]);
+
+export const proteinEntityTest = B.core.logic.and([
+    B.core.rel.eq([B.ammp('entityType'), 'polymer']),
+    B.core.str.match([
+        B.re('(polypeptide|cyclic-pseudo-peptide|peptide-like)', 'i'),
+        B.ammp('entitySubtype')
+    ])
+]);
+
+export const nucleicEntityTest = B.core.logic.and([
+    B.core.rel.eq([B.ammp('entityType'), 'polymer']),
+    B.core.str.match([
+        B.re('(nucleotide|peptide nucleic acid)', 'i'),
+        B.ammp('entitySubtype')
+    ])
+]);
+
+export const waterEntityTest = B.core.rel.eq([B.ammp('entityType'), 'water']);
+
+export const hydrogenTest = B.core.set.has([B.set(B.es('H'), B.es('D')), B.acp('elementSymbol')]);
+
+export const proteinBackboneTest = B.core.set.has([B.set(...SetUtils.toArray(ProteinBackboneAtoms)), B.ammp('label_atom_id')]);
+
+export const nucleicBackboneTest = B.core.set.has([B.set(...SetUtils.toArray(NucleicBackboneAtoms)), B.ammp('label_atom_id')]);
+
+export const metalTest = B.core.set.has([
+    B.set(...Object.keys(ElementNames).filter(e => isMetal(e as ElementSymbol)).map(B.es)),
+    B.acp('elementSymbol')
+]);
+
+/** Residue names of common residue classes */
+export const ResidueNames = {
+    acidic: ['ASP', 'GLU'],
+    basic: ['ARG', 'HIS', 'LYS', 'HSD', 'HSE', 'HSP', 'HID', 'HIE', 'HIP'],
+    neutral: ['ALA', 'ASN', 'CYS', 'GLN', 'GLY', 'ILE', 'LEU', 'MET', 'PHE', 'PRO', 'SER', 'THR', 'TRP', 'TYR', 'VAL'],
+    polar: ['ASN', 'CYS', 'GLN', 'HIS', 'SER', 'THR', 'TYR', 'GLY', 'HSD', 'HSE', 'HSP', 'HID', 'HIE', 'HIP'],
+    hydrophobic: ['ALA', 'LEU', 'VAL', 'ILE', 'PRO', 'PHE', 'MET', 'TRP'],
+    aromatic: ['HIS', 'PHE', 'TRP', 'TYR', 'HSD', 'HSE', 'HSP', 'HID', 'HIE', 'HIP'],
+    aliphatic: ['ALA', 'GLY', 'ILE', 'LEU', 'VAL'],
+    cyclic: ['HIS', 'PHE', 'PRO', 'TRP', 'TYR', 'HSD', 'HSE', 'HSP', 'HID', 'HIE', 'HIP'],
+    small: ['ALA', 'GLY', 'SER'],
+    medium: ['VAL', 'THR', 'ASP', 'ASN', 'PRO', 'CYS', 'ASX', 'PCA', 'HYP'],
+    large: ['ARG', 'HIS', 'LYS', 'GLU', 'GLN', 'ILE', 'LEU', 'MET', 'PHE', 'TRP', 'TYR', 'HSD', 'HSE', 'HSP', 'HID', 'HIE', 'HIP'],
+    purine: ['A', 'G', 'DA', 'DG', 'ADE', 'GUA'],
+    pyrimidine: ['C', 'T', 'U', 'DC', 'DT', 'CYT', 'THY', 'URA'],
+    at: ['A', 'T', 'U', 'DA', 'DT', 'ADE', 'THY', 'URA'],
+    cg: ['C', 'G', 'DC', 'DG', 'CYT', 'GUA'],
+};
+
+export function residueNamesExpr(names: string[]): Expression {
+    return atomGroups('residue-test', B.core.set.has([B.set(...names), B.ammp('auth_comp_id')]));
+}
+
+export function secondaryStructureExpr(flags: string[]): Expression {
+    return atomGroups('residue-test', B.core.flags.hasAny([
+        B.ammp('secondaryStructureFlags'),
+        B.struct.type.secondaryStructureFlags(flags)
+    ]));
+}
+
+/** Non-polymer, non-water residues */
+export function ligandResidues(): Expression {
+    return atomGroups('entity-test', B.core.logic.and([
+        B.core.logic.not([polymerEntityTest]),
+        B.core.logic.not([waterEntityTest])
+    ]));
+}
+
+/** Ligand residues that contain carbon */
+export function organicResidues(): Expression {
+    return wholeResiduesExpr(B.struct.modifier.intersectBy({
+        0: ligandResidues(),
+        by: atomGroups('atom-test', B.core.rel.eq([B.acp('elementSymbol'), B.es('C')]))
+    }));
+}
+
+/** Ligand residues without carbon */
+export function inorganicResidues(): Expression {
+    return B.struct.modifier.exceptBy({ 0: ligandResidues(), by: organicResidues() });
+}
@@ -0,0 +1,206 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MolScriptBuilder as B } from '../../language/builder';
+import { allAtoms, atomGroups, hydrogenTest, KeywordDict, ligandResidues, nucleicBackboneTest, nucleicEntityTest, proteinBackboneTest, proteinEntityTest, residueNamesExpr, ResidueNames, secondaryStructureExpr, waterEntityTest } from '../helper';
+
+const ionTest = B.core.rel.eq([B.ammp('entitySubtype'), 'ion']);
+
+export const keywords: KeywordDict = {
+    all: {
+        '@desc': 'all atoms',
+        map: () => B.struct.generator.all()
+    },
+    none: {
+        '@desc': 'no atoms',
+        map: () => B.struct.generator.empty()
+    },
+    protein: {
+        '@desc': 'all atoms of protein polymer entities',
+        map: () => atomGroups('entity-test', proteinEntityTest)
+    },
+    amino: {
+        '@desc': 'all atoms of amino acid residues',
+        map: () => residueNamesExpr(ResidueNames.neutral.concat(ResidueNames.acidic, ResidueNames.basic))
+    },
+    nucleic: {
+        '@desc': 'all atoms of nucleic acid polymer entities',
+        map: () => atomGroups('entity-test', nucleicEntityTest)
+    },
+    dna: {
+        '@desc': 'all atoms of DNA polymer entities',
+        map: () => atomGroups('entity-test', B.core.str.match([B.re('deoxyribonucleotide', 'i'), B.ammp('entitySubtype')]))
+    },
+    rna: {
+        '@desc': 'all atoms of RNA polymer entities',
+        map: () => atomGroups('entity-test', B.core.str.match([B.re('(^|/)polyribonucleotide', 'i'), B.ammp('entitySubtype')]))
+    },
+    hetero: {
+        '@desc': 'all atoms loaded from HETATM records',
+        map: () => atomGroups('atom-test', B.ammp('isHet'))
+    },
+    water: {
+        '@desc': 'all water molecules',
+        map: () => atomGroups('entity-test', waterEntityTest)
+    },
+    ions: {
+        '@desc': 'all atoms of ion entities',
+        map: () => atomGroups('entity-test', ionTest)
+    },
+    solvent: {
+        '@desc': 'water molecules and ions',
+        map: () => atomGroups('entity-test', B.core.logic.or([waterEntityTest, ionTest]))
+    },
+    ligand: {
+        '@desc': 'non-polymer residues that are neither water nor ions',
+        map: () => B.struct.modifier.exceptBy({ 0: ligandResidues(), by: atomGroups('entity-test', ionTest) })
+    },
+    carbohydrate: {
+        '@desc': 'all atoms of saccharide components',
+        map: () => atomGroups('residue-test', B.core.str.match([B.re('saccharide', 'i'), B.ammp('chemCompType')]))
+    },
+    hydrogen: {
+        '@desc': 'all hydrogen atoms',
+        map: () => atomGroups('atom-test', hydrogenTest)
+    },
+    backbone: {
+        '@desc': 'the backbone atoms of proteins and nucleic acids',
+        map: () => B.struct.combinator.merge([
+            B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': proteinBackboneTest }),
+            B.struct.generator.atomGroups({ 'entity-test': nucleicEntityTest, 'atom-test': nucleicBackboneTest })
+        ])
+    },
+    sidechain: {
+        '@desc': 'the non-backbone atoms of proteins and nucleic acids',
+        map: () => B.struct.combinator.merge([
+            B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': B.core.logic.not([proteinBackboneTest]) }),
+            B.struct.generator.atomGroups({ 'entity-test': nucleicEntityTest, 'atom-test': B.core.logic.not([nucleicBackboneTest]) })
+        ])
+    },
+    alpha: {
+        '@desc': 'the protein CA atoms',
+        map: () => B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': B.core.rel.eq([B.ammp('label_atom_id'), 'CA']) })
+    },
+    helix: {
+        '@desc': 'residues in any helix',
+        map: () => secondaryStructureExpr(['helix'])
+    },
+    helixalpha: {
+        '@desc': 'residues in an alpha helix',
+        map: () => secondaryStructureExpr(['alpha'])
+    },
+    helix310: {
+        '@desc': 'residues in a 3-10 helix',
+        map: () => secondaryStructureExpr(['310'])
+    },
+    helixpi: {
+        '@desc': 'residues in a pi helix',
+        map: () => secondaryStructureExpr(['pi'])
+    },
+    sheet: {
+        '@desc': 'residues in a beta sheet',
+        map: () => secondaryStructureExpr(['beta'])
+    },
+    turn: {
+        '@desc': 'residues in a turn',
+        map: () => secondaryStructureExpr(['turn'])
+    },
+    acidic: {
+        '@desc': 'acidic residues, ASP and GLU',
+        map: () => residueNamesExpr(ResidueNames.acidic)
+    },
+    basic: {
+        '@desc': 'basic residues, ARG, HIS and LYS',
+        map: () => residueNamesExpr(ResidueNames.basic)
+    },
+    charged: {
+        '@desc': 'acidic or basic residues',
+        map: () => residueNamesExpr([...ResidueNames.acidic, ...ResidueNames.basic])
+    },
+    neutral: {
+        '@desc': 'residues that are neither acidic nor basic',
+        map: () => residueNamesExpr(ResidueNames.neutral)
+    },
+    polar: {
+        '@desc': 'polar residues',
+        map: () => residueNamesExpr(ResidueNames.polar)
+    },
+    hydrophobic: {
+        '@desc': 'hydrophobic residues',
+        map: () => residueNamesExpr(ResidueNames.hydrophobic)
+    },
+    aromatic: {
+        '@desc': 'aromatic residues',
+        map: () => residueNamesExpr(ResidueNames.aromatic)
+    },
+    aliphatic: {
+        '@desc': 'aliphatic residues',
+        map: () => residueNamesExpr(ResidueNames.aliphatic)
+    },
+    cyclic: {
+        '@desc': 'residues with a ring in their side chain',
+        map: () => residueNamesExpr(ResidueNames.cyclic)
+    },
+    acyclic: {
+        '@desc': 'protein residues without a ring in their side chain',
+        map: () => B.struct.generator.atomGroups({
+            'entity-test': proteinEntityTest,
+            'residue-test': B.core.logic.not([B.core.set.has([B.set(...ResidueNames.cyclic), B.ammp('auth_comp_id')])])
+        })
+    },
+    small: {
+        '@desc': 'small residues',
+        map: () => residueNamesExpr(ResidueNames.small)
+    },
+    medium: {
+        '@desc': 'medium sized residues',
+        map: () => residueNamesExpr(ResidueNames.medium)
+    },
+    large: {
+        '@desc': 'large residues',
+        map: () => residueNamesExpr(ResidueNames.large)
+    },
+    purine: {
+        '@desc': 'purine nucleotides',
+        map: () => residueNamesExpr(ResidueNames.purine)
+    },
+    pyrimidine: {
+        '@desc': 'pyrimidine nucleotides',
+        map: () => residueNamesExpr(ResidueNames.pyrimidine)
+    },
+    at: {
+        '@desc': 'adenine, thymine and uracil nucleotides',
+        map: () => residueNamesExpr(ResidueNames.at)
+    },
+    cg: {
+        '@desc': 'cytosine and guanine nucleotides',
+        map: () => residueNamesExpr(ResidueNames.cg)
+    },
+    bonded: {
+        '@desc': 'atoms with at least one bond',
+        map: () => B.struct.filter.isConnectedTo({
+            0: allAtoms(),
+            target: B.struct.generator.all()
+        })
+    },
+    selected: {
+        '@desc': 'the currently selected atoms',
+        isUnsupported: true
+    },
+    displayed: {
+        '@desc': 'the currently displayed atoms',
+        abbr: ['visible'],
+        isUnsupported: true
+    },
+    hidden: {
+        '@desc': 'the currently hidden atoms',
+        isUnsupported: true
+    },
+    surface: {
+        '@desc': 'atoms at the molecular surface',
+        isUnsupported: true
+    },
+};
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { andExpr, notExpr, OperatorList, orExpr, words } from '../helper';
+
+export const operators: OperatorList = [
+    {
+        '@desc': 'Selects atoms that are not included in s1.',
+        '@examples': ['not protein', '!water'],
+        name: 'not',
+        abbr: ['!'],
+        type: 'prefix',
+        priority: 1,
+        rule: words(['not', '!']),
+        map: (op: string, e: Expression) => notExpr(e)
+    },
+    {
+        '@desc': 'Selects atoms included in both s1 and s2.',
+        '@examples': ['protein and *:A', 'protein & *:A', 'protein && *:A'],
+        name: 'and',
+        abbr: ['&', '&&'],
+        type: 'infix',
+        priority: 2,
+        rule: words(['and', '&&', '&']),
+        map: (op: string, e1: Expression, e2: Expression) => andExpr(e1, e2)
+    },
+    {
+        '@desc': 'Selects atoms included in either s1 or s2.',
+        '@examples': ['*:A or *:B', '*:A | *:B', '*:A || *:B', '10, 12, 15'],
+        name: 'or',
+        abbr: ['|', '||', ','],
+        type: 'infix',
+        priority: 3,
+        rule: words(['or', '||', '|', ',']),
+        map: (op: string, e1: Expression, e2: Expression) => orExpr(e1, e2)
+    },
+    {
+        '@desc': 'Selects atoms included in either s1 or s2 but not in both.',
+        '@examples': ['*:A xor 10-20'],
+        name: 'xor',
+        type: 'infix',
+        priority: 3,
+        rule: words(['xor']),
+        map: (op: string, e1: Expression, e2: Expression) => B.struct.modifier.exceptBy({ 0: orExpr(e1, e2), by: andExpr(e1, e2) })
+    },
+];
@@ -0,0 +1,133 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+// https://chemapps.stolaf.edu/jmol/docs/#atomexpressions
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { allAtoms, expandPropertyExpr, keywordsParser, number, operatorParser, propertiesParser, testStrings, Transpiler, unsupported, wholeResiduesExpr, withinExpr, words } from '../helper';
+import { keywords } from './keywords';
+import { operators } from './operators';
+import { properties } from './properties';
+
+const specRe = /^(?:\[([^\]]*)\]|([A-Za-z]+?(?=[-\d*:.%/^]|$)))?(\*|(-?\d+)(?:\^(\w))?(?:-(-?\d+)(?:\^\w)?)?)?(?::(\*|[^.%/]*))?(?:\.(\*|[^%/]*))?(?:%(\*|[^/]*))?(?:\/(\*|\d+))?$/;
+
+/**
+ * Atom expression of the form `[resname]resno^insertion:chain.atomname%altloc/model`
+ * where each part is optional and `*` matches anything. Residue number ranges are
+ * given as `10-20` and atom names may contain `*` and `?` wildcards.
+ */
+function residueSpec(str: string): Expression {
+    const m = str.match(specRe);
+    if (!m) throw new Error(`invalid atom expression '${str}'`);
+    const [, bracketName, name, resno, start, insertion, end, chain, atom, altloc, model] = m;
+
+    const tests: { [k: string]: Expression[] } = { 'entity-test': [], 'chain-test': [], 'residue-test': [], 'atom-test': [] };
+
+    const resname = bracketName ?? name;
+    if (resname && resname !== '*') tests['residue-test'].push(testStrings(B.ammp('auth_comp_id'), [resname], true));
+    if (resno && resno !== '*') {
+        if (end !== undefined) {
+            tests['residue-test'].push(B.core.rel.inRange([B.ammp('auth_seq_id'), +start, +end]));
+        } else {
+            tests['residue-test'].push(B.core.rel.eq([B.ammp('auth_seq_id'), +start]));
+            if (insertion) tests['residue-test'].push(B.core.rel.eq([B.ammp('pdbx_PDB_ins_code'), insertion]));
+        }
+    }
+    if (chain && chain !== '*') tests['chain-test'].push(testStrings(B.ammp('auth_asym_id'), [chain], true));
+    if (atom && atom !== '*') tests['atom-test'].push(testStrings(B.ammp('auth_atom_id'), [atom], true));
+    if (altloc !== undefined && altloc !== '*') tests['atom-test'].push(B.core.rel.eq([B.ammp('label_alt_id'), altloc]));
+    if (model && model !== '*') tests['entity-test'].push(B.core.rel.eq([B.acp('modelIndex'), +model]));
+
+    const params: { [k: string]: Expression } = {};
+    for (const k of Object.keys(tests)) {
+        if (tests[k].length === 1) params[k] = tests[k][0];
+        else if (tests[k].length > 1) params[k] = B.core.logic.and(tests[k]);
+    }
+    return B.struct.generator.atomGroups(params);
+}
+
+/** Atom expression that cannot be confused with a keyword */
+const ResidueSpec = P.regexp(/(?:\[[^\]]*\]|[A-Za-z]+(?=[\d*:.%/^])|[-\d*:.%/])[^\s()\[\],&|!=<>]*/).map(residueSpec).desc('atom expression');
+
+/** Edit distance counting insertions, deletions, substitutions and transpositions */
+function editDistance(a: string, b: string) {
+    const d: number[][] = [];
+    for (let i = 0; i <= a.length; ++i) d[i] = [i];
+    for (let j = 0; j <= b.length; ++j) d[0][j] = j;
+    for (let i = 1; i <= a.length; ++i) {
+        for (let j = 1; j <= b.length; ++j) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+const keywordNames = Object.keys(keywords).flatMap(name => [name, ...(keywords[name].abbr || [])]).map(n => n.toLowerCase()).filter(n => n.length > 3);
+
+/** Keyword that `word` is likely a misspelling of, residue names are mostly shorter than four characters */
+function getMisspelledKeyword(word: string) {
+    if (word.length < 4) return;
+    const w = word.toLowerCase();
+    const maxDistance = w.length < 6 ? 1 : 2;
+    return keywordNames.find(k => editDistance(w, k) <= maxDistance);
+}
+
+/** Bare residue name, e.g. `HEM`, words that look like misspelled keywords are rejected */
+const ResidueName = P.regexp(/[A-Za-z]\w*/).chain(name => {
+    const keyword = getMisspelledKeyword(name);
+    return keyword
+        ? P.fail(`keyword, '${name}' looks like a misspelling of '${keyword}'`)
+        : P.succeed(residueSpec(name));
+}).desc('residue name');
+
+const Parens: P<Expression> = P.lazy(() => Expr.trim(P.optWhitespace).wrap('(', ')'));
+
+const comma = P.string(',').trim(P.optWhitespace);
+
+function withinUnit(unit: string, e: Expression) {
+    switch (unit.toLowerCase()) {
+        case 'group': case 'residue': return wholeResiduesExpr(e);
+        case 'chain': return expandPropertyExpr(e, B.ammp('chainKey'));
+        case 'model': return expandPropertyExpr(e, B.acp('modelIndex'));
+        case 'element': return expandPropertyExpr(e, B.acp('elementSymbol'));
+        case 'molecule': return B.struct.modifier.includeConnected({ 0: B.struct.modifier.union({ 0: e }), 'fixed-point': true });
+    }
+    return unsupported('Within unit', unit);
+}
+
+/** `within(5.0, expr)` for atoms within a distance or `within(group, expr)` for the complete groups, chains, ... */
+const Within: P<Expression> = P.lazy(() => P.seq(
+    words(['within']).then(P.optWhitespace).then(P.string('(')).then(P.optWhitespace),
+    P.alt<number | string>(number, P.regexp(/[A-Za-z]+/)),
+    comma,
+    Expr.trim(P.optWhitespace).skip(P.string(')'))
+).map(([, v, , e]) => typeof v === 'number' ? withinExpr(e, v) : withinUnit(v, e)));
+
+/** `connected(expr)` for the atoms bonded to any atom of the expression */
+const Connected: P<Expression> = P.lazy(() => P.seq(
+    words(['connected']).then(P.optWhitespace),
+    Expr.trim(P.optWhitespace).wrap('(', ')')
+).map(([, e]) => B.struct.filter.isConnectedTo({ 0: allAtoms(), target: e })));
+
+const Operand = P.alt(
+    Parens,
+    Within,
+    Connected,
+    propertiesParser(properties),
+    ResidueSpec,
+    keywordsParser(keywords),
+    ResidueName
+).trim(P.optWhitespace);
+
+const Expr: P<Expression> = operatorParser(Operand, operators);
+
+export const transpiler: Transpiler = str => Expr.tryParse(str);
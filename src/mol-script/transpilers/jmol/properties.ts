@@ -0,0 +1,165 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { comparison, ComparisonOperator, number, PropertyDict, testComparison, testStrings } from '../helper';
+
+/** An equality test followed by a bare or quoted value, e.g. `= CA` or `!= "C*"` */
+const strComparison = P.seq(
+    P.regexp(/!=|<>|==|=/),
+    P.optWhitespace,
+    P.alt(P.regexp(/"([^"]*)"/, 1), P.regexp(/'([^']*)'/, 1), P.regexp(/[^\s()"',&|!]+/))
+).map(([op, , value]) => ({ negate: op === '!=' || op === '<>', value }));
+
+const numComparison = P.alt(
+    P.seq(P.regexp(/<>/), P.optWhitespace, number).map(([, , value]) => ({ op: '!=' as ComparisonOperator, value })),
+    comparison
+);
+
+function compareStr(property: Expression, ignoreCase = true) {
+    return ({ negate, value }: { negate: boolean, value: string }) => {
+        const test = testStrings(property, [value], ignoreCase);
+        return negate ? B.core.logic.not([test]) : test;
+    };
+}
+
+function compareNum(property: Expression) {
+    return ({ op, value }: { op: ComparisonOperator, value: number }) => testComparison(property, op, value);
+}
+
+export const properties: PropertyDict = {
+    atomno: {
+        '@desc': 'atom serial number from the input file',
+        '@examples': ['atomno = 10', 'atomno < 100', 'atomno<>5'],
+        level: 'atom-test', property: B.ammp('id'), isNumeric: true, value: numComparison,
+        map: compareNum(B.ammp('id'))
+    },
+    atomindex: {
+        '@desc': 'zero-based atom index',
+        '@examples': ['atomIndex = 0', 'atomIndex >= 10'],
+        level: 'atom-test', property: B.acp('sourceIndex'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('sourceIndex'))
+    },
+    atomname: {
+        '@desc': 'atom name, `*` and `?` are wildcards',
+        '@examples': ['atomName = CA', 'atomName = "C*"', 'atomName != N'],
+        level: 'atom-test', property: B.ammp('auth_atom_id'), value: strComparison,
+        map: compareStr(B.ammp('auth_atom_id'))
+    },
+    atomtype: {
+        '@desc': 'atom type, same as the atom name',
+        '@examples': ['atomType = CA'],
+        level: 'atom-test', property: B.ammp('auth_atom_id'), value: strComparison,
+        map: compareStr(B.ammp('auth_atom_id'))
+    },
+    element: {
+        '@desc': 'element symbol',
+        '@examples': ['element = Fe', 'element != C'],
+        level: 'atom-test', property: B.acp('elementSymbol'), value: strComparison,
+        map: ({ negate, value }: { negate: boolean, value: string }) => {
+            const test = B.core.rel.eq([B.acp('elementSymbol'), B.es(value)]);
+            return negate ? B.core.logic.not([test]) : test;
+        }
+    },
+    elemno: {
+        '@desc': 'atomic number',
+        '@examples': ['elemno = 6', 'elemno > 20'],
+        level: 'atom-test', property: B.acp('atomicNumber'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('atomicNumber'))
+    },
+    altloc: {
+        '@desc': 'alternate location identifier',
+        '@examples': ['altloc = A'],
+        level: 'atom-test', property: B.ammp('label_alt_id'), value: strComparison,
+        map: compareStr(B.ammp('label_alt_id'), false)
+    },
+    group: {
+        '@desc': 'residue name',
+        '@examples': ['group = ALA', 'resname = HOH'],
+        abbr: ['resname'], level: 'residue-test', property: B.ammp('auth_comp_id'), value: strComparison,
+        map: compareStr(B.ammp('auth_comp_id'))
+    },
+    resno: {
+        '@desc': 'residue number',
+        '@examples': ['resno = 10', 'resno >= 10 and resno <= 20'],
+        level: 'residue-test', property: B.ammp('auth_seq_id'), isNumeric: true, value: numComparison,
+        map: compareNum(B.ammp('auth_seq_id'))
+    },
+    insertion: {
+        '@desc': 'insertion code',
+        '@examples': ['insertion = A'],
+        level: 'residue-test', property: B.ammp('pdbx_PDB_ins_code'), value: strComparison,
+        map: compareStr(B.ammp('pdbx_PDB_ins_code'), false)
+    },
+    chain: {
+        '@desc': 'chain identifier',
+        '@examples': ['chain = A', 'chain != B'],
+        level: 'chain-test', property: B.ammp('auth_asym_id'), value: strComparison,
+        map: compareStr(B.ammp('auth_asym_id'))
+    },
+    model: {
+        '@desc': 'model number from the input file',
+        '@examples': ['model = 1', 'model > 2'],
+        level: 'entity-test', property: B.acp('modelIndex'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('modelIndex'))
+    },
+    temperature: {
+        '@desc': 'temperature factor',
+        '@examples': ['temperature > 50', 'temperature <= 10'],
+        level: 'atom-test', property: B.ammp('B_iso_or_equiv'), isNumeric: true, value: numComparison,
+        map: compareNum(B.ammp('B_iso_or_equiv'))
+    },
+    occupancy: {
+        '@desc': 'occupancy in percent, 100 being full occupancy',
+        '@examples': ['occupancy < 100', 'occupancy = 50'],
+        level: 'atom-test', property: B.core.math.mult([B.ammp('occupancy'), 100]), isNumeric: true, value: numComparison,
+        map: compareNum(B.core.math.mult([B.ammp('occupancy'), 100]))
+    },
+    formalcharge: {
+        '@desc': 'formal charge',
+        '@examples': ['formalCharge = -1', 'formalCharge > 0'],
+        level: 'atom-test', property: B.ammp('pdbx_formal_charge'), isNumeric: true, value: numComparison,
+        map: compareNum(B.ammp('pdbx_formal_charge'))
+    },
+    vanderwaals: {
+        '@desc': 'van der Waals radius',
+        '@examples': ['vanderWaals > 1.5'],
+        level: 'atom-test', property: B.acp('vdw'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('vdw'))
+    },
+    x: {
+        '@desc': 'x coordinate',
+        '@examples': ['x < 5', 'x >= -10'],
+        level: 'atom-test', property: B.acp('x'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('x'))
+    },
+    y: {
+        '@desc': 'y coordinate',
+        '@examples': ['y < 5'],
+        level: 'atom-test', property: B.acp('y'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('y'))
+    },
+    z: {
+        '@desc': 'z coordinate',
+        '@examples': ['z > 0'],
+        level: 'atom-test', property: B.acp('z'), isNumeric: true, value: numComparison,
+        map: compareNum(B.acp('z'))
+    },
+    partialcharge: {
+        '@desc': 'partial charge',
+        '@examples': ['partialCharge > 0.5'],
+        isUnsupported: true, level: 'atom-test', isNumeric: true, value: numComparison,
+        map: () => false
+    },
+    polymerlength: {
+        '@desc': 'number of residues in the polymer',
+        '@examples': ['polymerLength > 100'],
+        isUnsupported: true, level: 'atom-test', isNumeric: true, value: numComparison,
+        map: () => false
+    },
+};
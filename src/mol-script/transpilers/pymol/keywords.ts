@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MolScriptBuilder as B } from '../../language/builder';
+import { allAtoms, atomGroups, hydrogenTest, inorganicResidues, KeywordDict, metalTest, nucleicBackboneTest, nucleicEntityTest, organicResidues, polymerEntityTest, proteinBackboneTest, proteinEntityTest, waterEntityTest } from '../helper';
+
+export const keywords: KeywordDict = {
+    all: {
+        '@desc': 'all atoms currently loaded',
+        abbr: ['*'],
+        map: () => B.struct.generator.all()
+    },
+    none: {
+        '@desc': 'no atoms',
+        map: () => B.struct.generator.empty()
+    },
+    hydrogens: {
+        '@desc': 'all hydrogen atoms',
+        abbr: ['hydro', 'h.'],
+        map: () => atomGroups('atom-test', hydrogenTest)
+    },
+    hetatm: {
+        '@desc': 'all atoms loaded from HETATM records',
+        map: () => atomGroups('atom-test', B.ammp('isHet'))
+    },
+    polymer: {
+        '@desc': 'all atoms of polymer entities',
+        abbr: ['pol.'],
+        map: () => atomGroups('entity-test', polymerEntityTest)
+    },
+    'polymer.protein': {
+        '@desc': 'all atoms of protein polymer entities',
+        map: () => atomGroups('entity-test', proteinEntityTest)
+    },
+    'polymer.nucleic': {
+        '@desc': 'all atoms of nucleic acid polymer entities',
+        map: () => atomGroups('entity-test', nucleicEntityTest)
+    },
+    organic: {
+        '@desc': 'all non-polymer residues containing carbon, excluding water',
+        abbr: ['org.'],
+        map: organicResidues
+    },
+    inorganic: {
+        '@desc': 'all non-polymer residues without carbon, excluding water',
+        abbr: ['ino.'],
+        map: inorganicResidues
+    },
+    solvent: {
+        '@desc': 'all water molecules',
+        abbr: ['sol.'],
+        map: () => atomGroups('entity-test', waterEntityTest)
+    },
+    backbone: {
+        '@desc': 'polymer backbone atoms',
+        abbr: ['bb.'],
+        map: () => B.struct.combinator.merge([
+            B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': proteinBackboneTest }),
+            B.struct.generator.atomGroups({ 'entity-test': nucleicEntityTest, 'atom-test': nucleicBackboneTest })
+        ])
+    },
+    sidechain: {
+        '@desc': 'polymer non-backbone atoms',
+        abbr: ['sc.'],
+        map: () => B.struct.combinator.merge([
+            B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': B.core.logic.not([proteinBackboneTest]) }),
+            B.struct.generator.atomGroups({ 'entity-test': nucleicEntityTest, 'atom-test': B.core.logic.not([nucleicBackboneTest]) })
+        ])
+    },
+    guide: {
+        '@desc': 'protein CA and nucleic acid C4* atoms',
+        map: () => B.struct.combinator.merge([
+            B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': B.core.rel.eq([B.ammp('label_atom_id'), 'CA']) }),
+            B.struct.generator.atomGroups({ 'entity-test': nucleicEntityTest, 'atom-test': B.core.set.has([B.set('C4\'', 'C4*'), B.ammp('label_atom_id')]) })
+        ])
+    },
+    metals: {
+        '@desc': 'all metal atoms',
+        map: () => atomGroups('atom-test', metalTest)
+    },
+    bonded: {
+        '@desc': 'all atoms with at least one covalent bond',
+        map: () => B.struct.filter.isConnectedTo({
+            0: allAtoms(),
+            target: B.struct.generator.all()
+        })
+    },
+    present: {
+        '@desc': 'all atoms with defined coordinates in the current state, same as all',
+        abbr: ['pr.'],
+        map: () => B.struct.generator.all()
+    },
+    donors: {
+        '@desc': 'hydrogen bond donor atoms',
+        abbr: ['don.'],
+        isUnsupported: true
+    },
+    acceptors: {
+        '@desc': 'hydrogen bond acceptor atoms',
+        abbr: ['acc.'],
+        isUnsupported: true
+    },
+    visible: {
+        '@desc': 'all atoms in enabled objects with at least one visible representation',
+        abbr: ['v.'],
+        isUnsupported: true
+    },
+    enabled: {
+        '@desc': 'all atoms from enabled objects',
+        isUnsupported: true
+    },
+    center: {
+        '@desc': 'pseudo-atom at the center of the scene',
+        isUnsupported: true
+    },
+    origin: {
+        '@desc': 'pseudo-atom at the origin of rotation',
+        isUnsupported: true
+    },
+};
@@ -0,0 +1,246 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { allAtoms, andExpr, aroundExpr, boundToExpr, expandPropertyExpr, notExpr, number, OperatorList, orExpr, wholeResiduesExpr, withinExpr, words } from '../helper';
+
+/** Operator word followed by a number, e.g. `around 5` */
+function withNumber(names: string[]) {
+    return P.seq(words(names), P.whitespace, number).map(([, , v]) => v);
+}
+
+/** Operator words wrapping a number, e.g. `within 5 of` */
+function withNumberOf(names: string[]) {
+    return P.seq(words(names), P.whitespace, number, P.whitespace, words(['of'])).map(([, , v]) => v);
+}
+
+/** Atoms of `e1` whose identifier tuple also occurs in `e2` */
+function sameIdentifiers(e1: Expression, e2: Expression, properties: Expression[]) {
+    return B.struct.modifier.intersectBy({
+        0: B.struct.filter.intersectedBy({
+            0: B.struct.generator.atomGroups({ 'group-by': B.core.type.compositeKey(properties) }),
+            by: e2
+        }),
+        by: e1
+    });
+}
+
+export const operators: OperatorList = [
+    {
+        '@desc': 'Selects atoms within a given distance of the selection, excluding the selection itself.',
+        '@examples': ['resn LIG around 5', 'chain A a. 3.5'],
+        name: 'around',
+        abbr: ['a.'],
+        type: 'postfix',
+        priority: 1,
+        rule: withNumber(['around', 'a.']),
+        map: (radius: number, e: Expression) => aroundExpr(e, radius)
+    },
+    {
+        '@desc': 'Expands the selection by all atoms within a given distance.',
+        '@examples': ['resn LIG expand 5', 'chain A x. 3.5'],
+        name: 'expand',
+        abbr: ['x.'],
+        type: 'postfix',
+        priority: 1,
+        rule: withNumber(['expand', 'x.']),
+        map: (radius: number, e: Expression) => withinExpr(e, radius)
+    },
+    {
+        '@desc': 'Expands the selection by a given number of bonds.',
+        '@examples': ['resn LIG extend 2', 'name CA xt. 1'],
+        name: 'extend',
+        abbr: ['xt.'],
+        type: 'postfix',
+        priority: 1,
+        rule: withNumber(['extend', 'xt.']),
+        map: (count: number, e: Expression) => boundToExpr(e, count)
+    },
+    {
+        '@desc': 'Selects atoms whose van der Waals radii are separated by a gap less than the given distance.',
+        '@examples': ['resn LIG gap 1.5'],
+        name: 'gap',
+        isUnsupported: true,
+        type: 'postfix',
+        priority: 1,
+        rule: withNumber(['gap']),
+        map: (gap: number, e: Expression) => e
+    },
+    {
+        '@desc': 'Selects atoms in s1 that are within a given distance of any atom in s2.',
+        '@examples': ['solvent within 3.5 of resn LIG', 'chain A w. 5 of chain B'],
+        name: 'within',
+        abbr: ['w.'],
+        type: 'infix',
+        priority: 2,
+        rule: withNumberOf(['within', 'w.']),
+        map: (radius: number, e1: Expression, e2: Expression) => andExpr(withinExpr(e2, radius), e1)
+    },
+    {
+        '@desc': 'Selects atoms in s1 that are at least a given distance away from any atom in s2.',
+        '@examples': ['solvent beyond 10 of chain A', 'solvent be. 10 of chain A'],
+        name: 'beyond',
+        abbr: ['be.'],
+        type: 'infix',
+        priority: 2,
+        rule: withNumberOf(['beyond', 'be.']),
+        map: (radius: number, e1: Expression, e2: Expression) => andExpr(withinExpr(e2, radius, true), e1)
+    },
+    {
+        '@desc': 'Selects atoms in s1 that are within a given distance of s2, excluding s2.',
+        '@examples': ['all near_to 5 of resn LIG', 'chain A nto. 5 of chain B'],
+        name: 'near_to',
+        abbr: ['nto.'],
+        type: 'infix',
+        priority: 2,
+        rule: withNumberOf(['near_to', 'nto.']),
+        map: (radius: number, e1: Expression, e2: Expression) => andExpr(aroundExpr(e2, radius), e1)
+    },
+    {
+        '@desc': 'Selects atoms in s1 whose name, residue name, residue number, chain and segment identifiers match atoms in s2.',
+        '@examples': ['chain A in chain B', 'name CA in resn ALA'],
+        name: 'in',
+        type: 'infix',
+        priority: 3,
+        rule: words(['in']),
+        map: (op: string, e1: Expression, e2: Expression) => sameIdentifiers(e1, e2, [
+            B.ammp('auth_atom_id'), B.ammp('auth_comp_id'), B.ammp('auth_seq_id'), B.ammp('pdbx_PDB_ins_code'), B.ammp('auth_asym_id'), B.ammp('label_asym_id')
+        ])
+    },
+    {
+        '@desc': 'Selects atoms in s1 whose name and residue number match atoms in s2.',
+        '@examples': ['chain A like chain B'],
+        name: 'like',
+        abbr: ['l.'],
+        type: 'infix',
+        priority: 3,
+        rule: words(['like', 'l.']),
+        map: (op: string, e1: Expression, e2: Expression) => sameIdentifiers(e1, e2, [
+            B.ammp('auth_atom_id'), B.ammp('auth_seq_id'), B.ammp('pdbx_PDB_ins_code')
+        ])
+    },
+    {
+        '@desc': 'Selects atoms that are not included in s1.',
+        '@examples': ['not resn ALA', '!solvent'],
+        name: 'not',
+        abbr: ['!'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['not', '!']),
+        map: (op: string, e: Expression) => notExpr(e)
+    },
+    {
+        '@desc': 'Expands the selection to complete residues.',
+        '@examples': ['byres name N', 'br. resn LIG around 5'],
+        name: 'byres',
+        abbr: ['br.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['byres', 'byresidue', 'br.']),
+        map: (op: string, e: Expression) => wholeResiduesExpr(e)
+    },
+    {
+        '@desc': 'Expands the selection to complete chains.',
+        '@examples': ['bychain resi 10', 'bc. resn LIG'],
+        name: 'bychain',
+        abbr: ['bc.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['bychain', 'bc.']),
+        map: (op: string, e: Expression) => expandPropertyExpr(e, B.ammp('chainKey'))
+    },
+    {
+        '@desc': 'Expands the selection to complete segments.',
+        '@examples': ['bysegi resi 10', 'bs. resn LIG'],
+        name: 'bysegi',
+        abbr: ['bs.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['bysegi', 'bysegment', 'bs.']),
+        map: (op: string, e: Expression) => expandPropertyExpr(e, B.ammp('label_asym_id'))
+    },
+    {
+        '@desc': 'Expands the selection to complete covalently connected molecules.',
+        '@examples': ['bymolecule resi 10', 'bm. resn LIG'],
+        name: 'bymolecule',
+        abbr: ['bm.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['bymolecule', 'bymol', 'bm.']),
+        map: (op: string, e: Expression) => B.struct.modifier.includeConnected({ 0: B.struct.modifier.union({ 0: e }), 'fixed-point': true })
+    },
+    {
+        '@desc': 'Expands the selection to complete models.',
+        '@examples': ['byobject resi 10', 'bo. resn LIG'],
+        name: 'byobject',
+        abbr: ['bo.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['byobject', 'byobj', 'bo.']),
+        map: (op: string, e: Expression) => expandPropertyExpr(e, B.acp('modelIndex'))
+    },
+    {
+        '@desc': 'Selects atoms directly bonded to s1, excluding s1.',
+        '@examples': ['neighbor resn LIG', 'nbr. name CA'],
+        name: 'neighbor',
+        abbr: ['nbr.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['neighbor', 'nbr.']),
+        map: (op: string, e: Expression) => B.struct.modifier.exceptBy({ 0: boundToExpr(e), by: e })
+    },
+    {
+        '@desc': 'Selects atoms directly bonded to s1, including s1.',
+        '@examples': ['bound_to resn LIG', 'bto. name CA'],
+        name: 'bound_to',
+        abbr: ['bto.'],
+        type: 'prefix',
+        priority: 4,
+        rule: words(['bound_to', 'bto.']),
+        map: (op: string, e: Expression) => boundToExpr(e)
+    },
+    {
+        '@desc': 'Selects the first atom of the selection.',
+        '@examples': ['first resn LIG'],
+        name: 'first',
+        type: 'prefix',
+        priority: 4,
+        rule: words(['first']),
+        map: (op: string, e: Expression) => B.struct.filter.first({ 0: andExpr(allAtoms(), e) })
+    },
+    {
+        '@desc': 'Selects the last atom of the selection.',
+        '@examples': ['last resn LIG'],
+        name: 'last',
+        isUnsupported: true,
+        type: 'prefix',
+        priority: 4,
+        rule: words(['last']),
+        map: (op: string, e: Expression) => e
+    },
+    {
+        '@desc': 'Selects atoms included in both s1 and s2.',
+        '@examples': ['chain A and name CA', 'chain A & name CA'],
+        name: 'and',
+        abbr: ['&'],
+        type: 'infix',
+        priority: 5,
+        rule: words(['and', '&']),
+        map: (op: string, e1: Expression, e2: Expression) => andExpr(e1, e2)
+    },
+    {
+        '@desc': 'Selects atoms included in either s1 or s2.',
+        '@examples': ['chain A or chain B', 'chain A | chain B'],
+        name: 'or',
+        abbr: ['|'],
+        type: 'infix',
+        priority: 6,
+        rule: words(['or', '|']),
+        map: (op: string, e1: Expression, e2: Expression) => orExpr(e1, e2)
+    },
+];
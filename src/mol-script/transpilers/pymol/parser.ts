@@ -0,0 +1,72 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+// https://pymolwiki.org/index.php/Selection_Algebra
+// https://pymolwiki.org/index.php/Selection_Macros
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { keywordsParser, operatorParser, propertiesParser, testStrings, Transpiler } from '../helper';
+import { keywords } from './keywords';
+import { operators } from './operators';
+import { parseResi, properties } from './properties';
+
+/**
+ * Selection macro with slash separated `/object/segi/chain/resi/name` fields.
+ * With a leading slash the fields are read from the left, otherwise from the
+ * right. Empty fields match anything and the `resi` field may be given as
+ * `resn`resi`.
+ */
+function macro(str: string): Expression {
+    const fields = str.split('/');
+    const names = ['object', 'segi', 'chain', 'resi', 'name'];
+    const values: { [k: string]: string } = {};
+    if (str.startsWith('/')) {
+        fields.shift();
+        if (fields.length > names.length) throw new Error(`invalid macro '${str}'`);
+        fields.forEach((f, i) => values[names[i]] = f);
+    } else {
+        if (fields.length > names.length - 1) throw new Error(`invalid macro '${str}'`);
+        const offset = names.length - fields.length;
+        fields.forEach((f, i) => values[names[offset + i]] = f);
+    }
+
+    const split = (v: string) => v.split('+');
+    const tests: { [k: string]: Expression[] } = { 'entity-test': [], 'chain-test': [], 'residue-test': [], 'atom-test': [] };
+
+    if (values.object) tests['entity-test'].push(testStrings(B.acp('modelLabel'), split(values.object), true));
+    if (values.segi) tests['chain-test'].push(testStrings(B.ammp('label_asym_id'), split(values.segi)));
+    if (values.chain) tests['chain-test'].push(testStrings(B.ammp('auth_asym_id'), split(values.chain)));
+    if (values.resi) {
+        const [resn, resi] = values.resi.includes('`') ? values.resi.split('`') : ['', values.resi];
+        if (resn) tests['residue-test'].push(testStrings(B.ammp('auth_comp_id'), split(resn), true));
+        if (resi) tests['residue-test'].push(parseResi(split(resi)));
+    }
+    if (values.name) tests['atom-test'].push(testStrings(B.ammp('auth_atom_id'), split(values.name), true));
+
+    const params: { [k: string]: Expression } = {};
+    for (const k of Object.keys(tests)) {
+        if (tests[k].length === 1) params[k] = tests[k][0];
+        else if (tests[k].length > 1) params[k] = B.core.logic.and(tests[k]);
+    }
+    return B.struct.generator.atomGroups(params);
+}
+
+const Macro = P.regexp(/[^\s()]*[\/`][^\s()]*/).map(macro).desc('macro');
+
+const Parens: P<Expression> = P.lazy(() => Expr.trim(P.optWhitespace).wrap('(', ')'));
+
+const Operand = P.alt(
+    Parens,
+    Macro,
+    propertiesParser(properties),
+    keywordsParser(keywords)
+).trim(P.optWhitespace);
+
+const Expr: P<Expression> = operatorParser(Operand, operators);
+
+export const transpiler: Transpiler = str => Expr.tryParse(str);
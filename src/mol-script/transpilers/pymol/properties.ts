@@ -0,0 +1,175 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { comparison, ComparisonOperator, NumberRange, PropertyDict, testComparison, testNumbers, testStrings } from '../helper';
+
+/** A single value or a `+` separated list of values, optionally double quoted, `''` is the empty value */
+const valueList = P.regexp(/(?:"[^"]*"|''|[^\s()"])+/)
+    .map(v => v.split('+').map(x => x.replace(/^(["'])(.*)\1$/, '$2')));
+
+const rangeRe = /^(-?\d+)([A-Za-z]?)(?:[-:](-?\d+)([A-Za-z]?))?$/;
+
+export function parseResi(values: string[]): Expression {
+    const ranges: NumberRange[] = [];
+    const tests: Expression[] = [];
+    for (const v of values) {
+        const m = v.match(rangeRe);
+        if (!m) throw new Error(`invalid residue number '${v}'`);
+        const [, start, startIns, end] = m;
+        if (end !== undefined) {
+            ranges.push([+start, +end]);
+        } else if (startIns) {
+            tests.push(B.core.logic.and([
+                B.core.rel.eq([B.ammp('auth_seq_id'), +start]),
+                B.core.rel.eq([B.ammp('pdbx_PDB_ins_code'), startIns])
+            ]));
+        } else {
+            ranges.push(+start);
+        }
+    }
+    if (ranges.length) tests.push(testNumbers(B.ammp('auth_seq_id'), ranges));
+    return tests.length === 1 ? tests[0] : B.core.logic.or(tests);
+}
+
+function parseIds(values: string[], property: Expression): Expression {
+    return testNumbers(property, values.map(v => {
+        const m = v.match(/^(-?\d+)(?:[-:](-?\d+))?$/);
+        if (!m) throw new Error(`invalid number '${v}'`);
+        return m[2] !== undefined ? [+m[1], +m[2]] as NumberRange : +m[1];
+    }));
+}
+
+const ssFlags: { [k: string]: Expression } = {
+    H: B.struct.type.secondaryStructureFlags(['helix']),
+    S: B.struct.type.secondaryStructureFlags(['beta']),
+};
+
+function parseSs(values: string[]): Expression {
+    const tests: Expression[] = [];
+    for (const v of values) {
+        const k = v.toUpperCase();
+        if (ssFlags[k]) {
+            tests.push(B.core.flags.hasAny([B.ammp('secondaryStructureFlags'), ssFlags[k]]));
+        } else if (k === 'L' || k === '') {
+            tests.push(B.core.logic.not([B.core.flags.hasAny([B.ammp('secondaryStructureFlags'), B.struct.type.secondaryStructureFlags(['helix', 'beta'])])]));
+        } else {
+            throw new Error(`unknown secondary structure type '${v}'`);
+        }
+    }
+    return tests.length === 1 ? tests[0] : B.core.logic.or(tests);
+}
+
+function compare(property: Expression) {
+    return ({ op, value }: { op: ComparisonOperator, value: number }) => testComparison(property, op, value);
+}
+
+export const properties: PropertyDict = {
+    name: {
+        '@desc': 'list of up to 4-letter codes for atoms in proteins or nucleic acids',
+        '@examples': ['name CA', 'name CA+CB+N', 'n. C*'],
+        abbr: ['n.'], level: 'atom-test', value: valueList,
+        map: (v: string[]) => testStrings(B.ammp('auth_atom_id'), v, true)
+    },
+    resn: {
+        '@desc': 'list of 3-letter codes for amino acids or list of up to 2-letter codes for nucleic acids',
+        '@examples': ['resn ASP+GLU+ASN+GLN', 'resn HOH', 'r. A+G'],
+        abbr: ['r.'], level: 'residue-test', value: valueList,
+        map: (v: string[]) => testStrings(B.ammp('auth_comp_id'), v, true)
+    },
+    resi: {
+        '@desc': 'list of residue numbers or ranges, optionally with insertion codes',
+        '@examples': ['resi 1+10+100+1000', 'resi 1-10', 'resi 10-50+60', 'i. 100A'],
+        abbr: ['i.'], level: 'residue-test', value: valueList,
+        map: parseResi
+    },
+    chain: {
+        '@desc': 'list of single letter or longer chain identifiers',
+        '@examples': ['chain A', 'chain A+B', 'c. AA'],
+        abbr: ['c.'], level: 'chain-test', value: valueList,
+        map: (v: string[]) => testStrings(B.ammp('auth_asym_id'), v)
+    },
+    segi: {
+        '@desc': 'list of up to 4 letter segment identifiers, mapped to label_asym_id',
+        '@examples': ['segi lig', 's. A+B'],
+        abbr: ['s.'], level: 'chain-test', value: valueList,
+        map: (v: string[]) => testStrings(B.ammp('label_asym_id'), v)
+    },
+    elem: {
+        '@desc': 'list of chemical element symbols',
+        '@examples': ['elem C', 'elem N+O', 'e. FE'],
+        abbr: ['e.'], level: 'atom-test', value: valueList,
+        map: (v: string[]) => B.core.set.has([B.set(...v.map(B.es)), B.acp('elementSymbol')])
+    },
+    alt: {
+        '@desc': 'list of single letter alternate location identifiers',
+        '@examples': ['alt A', 'alt A+""', 'alt ""'],
+        level: 'atom-test', value: valueList,
+        map: (v: string[]) => testStrings(B.ammp('label_alt_id'), v)
+    },
+    id: {
+        '@desc': 'list of atom identifiers from the input file or ranges',
+        '@examples': ['id 23', 'id 1-100+200'],
+        level: 'atom-test', value: valueList,
+        map: (v: string[]) => parseIds(v, B.ammp('id'))
+    },
+    index: {
+        '@desc': 'list of one-based atom indices or ranges',
+        '@examples': ['index 1', 'idx. 1-10'],
+        abbr: ['idx.'], level: 'atom-test', value: valueList,
+        map: (v: string[]) => parseIds(v, B.core.math.add([B.acp('sourceIndex'), 1]))
+    },
+    rank: {
+        '@desc': 'list of zero-based atom indices or ranges in the order the atoms were loaded',
+        '@examples': ['rank 0', 'rank 0-9'],
+        level: 'atom-test', value: valueList,
+        map: (v: string[]) => parseIds(v, B.acp('sourceIndex'))
+    },
+    state: {
+        '@desc': 'list of model numbers from the input file or ranges',
+        '@examples': ['state 1', 'state 1-5'],
+        level: 'entity-test', value: valueList,
+        map: (v: string[]) => parseIds(v, B.acp('modelIndex'))
+    },
+    ss: {
+        '@desc': 'secondary structure type, H for helix, S for strand and L or "" for loop',
+        '@examples': ['ss H', 'ss S+L'],
+        level: 'residue-test', value: valueList,
+        map: parseSs
+    },
+    b: {
+        '@desc': 'comparison operator followed by a B-factor value',
+        '@examples': ['b > 50', 'b. <= 10'],
+        abbr: ['b.'], level: 'atom-test', value: comparison,
+        map: compare(B.ammp('B_iso_or_equiv'))
+    },
+    q: {
+        '@desc': 'comparison operator followed by an occupancy value',
+        '@examples': ['q < 1', 'q. = 0.5'],
+        abbr: ['q.'], level: 'atom-test', value: comparison,
+        map: compare(B.ammp('occupancy'))
+    },
+    formal_charge: {
+        '@desc': 'comparison operator followed by a formal charge value',
+        '@examples': ['formal_charge = -1', 'fc. > 0'],
+        abbr: ['fc.'], level: 'atom-test', value: comparison,
+        map: compare(B.ammp('pdbx_formal_charge'))
+    },
+    partial_charge: {
+        '@desc': 'comparison operator followed by a partial charge value',
+        '@examples': ['partial_charge > 0.5', 'pc. < -0.3'],
+        abbr: ['pc.'], isUnsupported: true, level: 'atom-test', value: comparison,
+        map: () => false
+    },
+    model: {
+        '@desc': 'list of model labels, PyMOL object names are not available and only model labels from the input file are matched',
+        '@examples': ['model 1abc', 'm. 1abc+2xyz'],
+        abbr: ['m.'], level: 'entity-test', value: valueList,
+        map: (v: string[]) => testStrings(B.acp('modelLabel'), v, true)
+    },
+};
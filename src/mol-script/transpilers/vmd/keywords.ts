@@ -0,0 +1,188 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MolScriptBuilder as B } from '../../language/builder';
+import { allAtoms, atomGroups, hydrogenTest, KeywordDict, nucleicBackboneTest, nucleicEntityTest, proteinBackboneTest, proteinEntityTest, residueNamesExpr, ResidueNames, secondaryStructureExpr, waterEntityTest } from '../helper';
+
+export const keywords: KeywordDict = {
+    all: {
+        '@desc': 'everything',
+        map: () => B.struct.generator.all()
+    },
+    none: {
+        '@desc': 'nothing',
+        map: () => B.struct.generator.empty()
+    },
+    protein: {
+        '@desc': 'all atoms of protein polymer entities',
+        map: () => atomGroups('entity-test', proteinEntityTest)
+    },
+    nucleic: {
+        '@desc': 'all atoms of nucleic acid polymer entities',
+        map: () => atomGroups('entity-test', nucleicEntityTest)
+    },
+    backbone: {
+        '@desc': 'the backbone atoms of proteins and nucleic acids',
+        map: () => B.struct.combinator.merge([
+            B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': proteinBackboneTest }),
+            B.struct.generator.atomGroups({ 'entity-test': nucleicEntityTest, 'atom-test': nucleicBackboneTest })
+        ])
+    },
+    sidechain: {
+        '@desc': 'the non-backbone atoms of proteins',
+        map: () => B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': B.core.logic.not([proteinBackboneTest]) })
+    },
+    water: {
+        '@desc': 'all water molecules',
+        abbr: ['waters'],
+        map: () => atomGroups('entity-test', waterEntityTest)
+    },
+    ion: {
+        '@desc': 'all atoms of ion entities',
+        abbr: ['ions'],
+        map: () => atomGroups('entity-test', B.core.rel.eq([B.ammp('entitySubtype'), 'ion']))
+    },
+    lipid: {
+        '@desc': 'all atoms of lipid entities',
+        abbr: ['lipids'],
+        map: () => atomGroups('entity-test', B.core.rel.eq([B.ammp('entitySubtype'), 'lipid']))
+    },
+    sugar: {
+        '@desc': 'all atoms of saccharide components',
+        map: () => atomGroups('residue-test', B.core.str.match([B.re('saccharide', 'i'), B.ammp('chemCompType')]))
+    },
+    hetero: {
+        '@desc': 'everything that is neither protein nor nucleic acid',
+        map: () => atomGroups('entity-test', B.core.logic.not([B.core.logic.or([proteinEntityTest, nucleicEntityTest])]))
+    },
+    hydrogen: {
+        '@desc': 'all hydrogen atoms',
+        map: () => atomGroups('atom-test', hydrogenTest)
+    },
+    noh: {
+        '@desc': 'all non-hydrogen atoms',
+        abbr: ['heavy'],
+        map: () => atomGroups('atom-test', B.core.logic.not([hydrogenTest]))
+    },
+    acidic: {
+        '@desc': 'acidic residues, ASP and GLU',
+        map: () => residueNamesExpr(ResidueNames.acidic)
+    },
+    basic: {
+        '@desc': 'basic residues, ARG, HIS and LYS',
+        map: () => residueNamesExpr(ResidueNames.basic)
+    },
+    charged: {
+        '@desc': 'acidic or basic residues',
+        map: () => residueNamesExpr([...ResidueNames.acidic, ...ResidueNames.basic])
+    },
+    neutral: {
+        '@desc': 'residues that are neither acidic nor basic',
+        map: () => residueNamesExpr(ResidueNames.neutral)
+    },
+    polar: {
+        '@desc': 'polar residues',
+        map: () => residueNamesExpr(ResidueNames.polar)
+    },
+    hydrophobic: {
+        '@desc': 'hydrophobic residues',
+        map: () => residueNamesExpr(ResidueNames.hydrophobic)
+    },
+    aromatic: {
+        '@desc': 'aromatic residues',
+        map: () => residueNamesExpr(ResidueNames.aromatic)
+    },
+    aliphatic: {
+        '@desc': 'aliphatic residues',
+        map: () => residueNamesExpr(ResidueNames.aliphatic)
+    },
+    cyclic: {
+        '@desc': 'residues with a ring in their side chain',
+        map: () => residueNamesExpr(ResidueNames.cyclic)
+    },
+    acyclic: {
+        '@desc': 'protein residues without a ring in their side chain',
+        map: () => B.struct.generator.atomGroups({
+            'entity-test': proteinEntityTest,
+            'residue-test': B.core.logic.not([B.core.set.has([B.set(...ResidueNames.cyclic), B.ammp('auth_comp_id')])])
+        })
+    },
+    small: {
+        '@desc': 'small residues',
+        map: () => residueNamesExpr(ResidueNames.small)
+    },
+    medium: {
+        '@desc': 'medium sized residues',
+        map: () => residueNamesExpr(ResidueNames.medium)
+    },
+    large: {
+        '@desc': 'large residues',
+        map: () => residueNamesExpr(ResidueNames.large)
+    },
+    purine: {
+        '@desc': 'purine nucleotides',
+        map: () => residueNamesExpr(ResidueNames.purine)
+    },
+    pyrimidine: {
+        '@desc': 'pyrimidine nucleotides',
+        map: () => residueNamesExpr(ResidueNames.pyrimidine)
+    },
+    at: {
+        '@desc': 'adenine, thymine and uracil nucleotides',
+        map: () => residueNamesExpr(ResidueNames.at)
+    },
+    cg: {
+        '@desc': 'cytosine and guanine nucleotides',
+        map: () => residueNamesExpr(ResidueNames.cg)
+    },
+    helix: {
+        '@desc': 'residues in any helix',
+        map: () => secondaryStructureExpr(['helix'])
+    },
+    alpha_helix: {
+        '@desc': 'residues in an alpha helix',
+        map: () => secondaryStructureExpr(['alpha'])
+    },
+    helix_3_10: {
+        '@desc': 'residues in a 3-10 helix',
+        map: () => secondaryStructureExpr(['310'])
+    },
+    pi_helix: {
+        '@desc': 'residues in a pi helix',
+        map: () => secondaryStructureExpr(['pi'])
+    },
+    sheet: {
+        '@desc': 'residues in a beta sheet',
+        abbr: ['betasheet', 'beta_sheet', 'extended_beta'],
+        map: () => secondaryStructureExpr(['beta'])
+    },
+    bridge_beta: {
+        '@desc': 'residues in an isolated beta bridge',
+        map: () => secondaryStructureExpr(['strand'])
+    },
+    turn: {
+        '@desc': 'residues in a turn',
+        map: () => secondaryStructureExpr(['turn'])
+    },
+    coil: {
+        '@desc': 'residues neither in a helix, sheet nor turn',
+        map: () => atomGroups('residue-test', B.core.logic.not([B.core.flags.hasAny([
+            B.ammp('secondaryStructureFlags'),
+            B.struct.type.secondaryStructureFlags(['helix', 'beta', 'turn'])
+        ])]))
+    },
+    alpha: {
+        '@desc': 'the protein CA atoms',
+        map: () => B.struct.generator.atomGroups({ 'entity-test': proteinEntityTest, 'atom-test': B.core.rel.eq([B.ammp('label_atom_id'), 'CA']) })
+    },
+    bonded: {
+        '@desc': 'atoms with at least one bond',
+        map: () => B.struct.filter.isConnectedTo({
+            0: allAtoms(),
+            target: B.struct.generator.all()
+        })
+    },
+};
@@ -0,0 +1,108 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { andExpr, aroundExpr, expandPropertyExpr, notExpr, number, OperatorList, orExpr, unsupported, wholeResiduesExpr, withinExpr, words } from '../helper';
+import { properties } from './properties';
+
+/** Operator words wrapping a number, e.g. `within 5 of` */
+function withNumberOf(names: string[]) {
+    return P.seq(words(names), P.whitespace, number, P.whitespace, words(['of'])).map(([, , v]) => v);
+}
+
+const propertyNames = words(Object.keys(properties).reduce((names, name) => {
+    return names.concat(name, properties[name].abbr || []);
+}, [] as string[]));
+
+function propertyOf(name: string) {
+    name = name.toLowerCase();
+    for (const k of Object.keys(properties)) {
+        if (k === name || properties[k].abbr?.includes(name)) return properties[k];
+    }
+    return unsupported('Property', name);
+}
+
+function sameExpr(name: string, e: Expression) {
+    switch (name.toLowerCase()) {
+        case 'residue': return wholeResiduesExpr(e);
+        case 'fragment': return B.struct.modifier.includeConnected({ 0: B.struct.modifier.union({ 0: e }), 'fixed-point': true });
+    }
+    const p = propertyOf(name);
+    if (!p.property) return unsupported('Property', name);
+    return expandPropertyExpr(e, p.property);
+}
+
+export const operators: OperatorList = [
+    {
+        '@desc': 'Selects atoms that are not included in s1.',
+        '@examples': ['not protein', '! water'],
+        name: 'not',
+        abbr: ['!'],
+        type: 'prefix',
+        priority: 1,
+        rule: words(['not', '!']),
+        map: (op: string, e: Expression) => notExpr(e)
+    },
+    {
+        '@desc': 'Selects atoms within a given distance of the selection, including the selection itself.',
+        '@examples': ['within 5 of name FE', 'protein and within 3.5 of resname LIG'],
+        name: 'within',
+        type: 'prefix',
+        priority: 1,
+        rule: withNumberOf(['within']),
+        map: (radius: number, e: Expression) => withinExpr(e, radius)
+    },
+    {
+        '@desc': 'Selects atoms within a given distance of the selection, excluding the selection itself.',
+        '@examples': ['exwithin 5 of name FE', 'water and exwithin 3 of protein'],
+        name: 'exwithin',
+        type: 'prefix',
+        priority: 1,
+        rule: withNumberOf(['exwithin']),
+        map: (radius: number, e: Expression) => aroundExpr(e, radius)
+    },
+    {
+        '@desc': 'Selects atoms within a given distance of the selection, considering periodic images.',
+        '@examples': ['pbwithin 5 of name FE'],
+        name: 'pbwithin',
+        isUnsupported: true,
+        type: 'prefix',
+        priority: 1,
+        rule: withNumberOf(['pbwithin']),
+        map: (radius: number, e: Expression) => e
+    },
+    {
+        '@desc': 'Selects atoms which have the same property value as any atom of the selection.',
+        '@examples': ['same resid as name FE', 'same chain as within 6 of water', 'same residue as exwithin 4 of resname LIG', 'same fragment as resid 10'],
+        name: 'same',
+        type: 'prefix',
+        priority: 1,
+        rule: P.seq(words(['same']), P.whitespace, propertyNames, P.whitespace, words(['as'])).map(([, , name]) => name),
+        map: (name: string, e: Expression) => sameExpr(name, e)
+    },
+    {
+        '@desc': 'Selects atoms included in both s1 and s2.',
+        '@examples': ['backbone and protein', 'backbone && protein'],
+        name: 'and',
+        abbr: ['&&'],
+        type: 'infix',
+        priority: 2,
+        rule: words(['and', '&&']),
+        map: (op: string, e1: Expression, e2: Expression) => andExpr(e1, e2)
+    },
+    {
+        '@desc': 'Selects atoms included in either s1 or s2.',
+        '@examples': ['water or protein', 'water || protein'],
+        name: 'or',
+        abbr: ['||'],
+        type: 'infix',
+        priority: 3,
+        rule: words(['or', '||']),
+        map: (op: string, e1: Expression, e2: Expression) => orExpr(e1, e2)
+    },
+];
@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+// https://www.ks.uiuc.edu/Research/vmd/vmd-1.9.3/ug/node89.html
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { atomGroups, ComparisonOperator, keywordsParser, number, operatorParser, propertiesParser, PropertyDef, testComparison, Transpiler, unsupported, words } from '../helper';
+import { keywords } from './keywords';
+import { operators } from './operators';
+import { properties, strValue } from './properties';
+
+export const functions: { [name: string]: (e: Expression) => Expression } = {
+    sqr: e => B.core.math.pow([e, 2]),
+    sqrt: e => B.core.math.sqrt([e]),
+    abs: e => B.core.math.abs([e]),
+    floor: e => B.core.math.floor([e]),
+    ceil: e => B.core.math.ceil([e]),
+    sin: e => B.core.math.sin([e]),
+    cos: e => B.core.math.cos([e]),
+    tan: e => B.core.math.tan([e]),
+    asin: e => B.core.math.asin([e]),
+    acos: e => B.core.math.acos([e]),
+    atan: e => B.core.math.atan([e]),
+    sinh: e => B.core.math.sinh([e]),
+    cosh: e => B.core.math.cosh([e]),
+    tanh: e => B.core.math.tanh([e]),
+    exp: e => B.core.math.exp([e]),
+    log: e => B.core.math.log([e]),
+    log10: e => B.core.math.log10([e]),
+};
+
+function propertyParser(isNumeric: boolean): P<PropertyDef> {
+    const names = Object.keys(properties).filter(name => !!properties[name].isNumeric === isNumeric);
+    return P.alt(...names.map(name => {
+        const p = properties[name];
+        return words([name, ...(p.abbr || [])]).map(() => {
+            if (p.isUnsupported || !p.property) unsupported('Property', name);
+            return p;
+        });
+    }));
+}
+
+const op = (s: string) => P.string(s).trim(P.optWhitespace);
+
+const NumFunction: P<Expression> = P.lazy(() => P.seq(words(Object.keys(functions)), NumExpr.trim(P.optWhitespace).wrap('(', ')'))
+    .map(([name, e]) => functions[name.toLowerCase()](e)));
+
+const NumOperand: P<Expression> = P.lazy(() => P.alt<Expression>(
+    number,
+    NumFunction,
+    propertyParser(true).map(p => p.property!),
+    NumExpr.trim(P.optWhitespace).wrap('(', ')'),
+    P.seq(op('-'), NumOperand).map(([, e]) => B.core.math.mult([-1, e]))
+));
+
+/** Exponentiation is right associative */
+const NumPower: P<Expression> = P.lazy(() => P.seq(NumOperand, P.seq(P.alt(op('**'), op('^')), NumPower).atMost(1))
+    .map(([e, rest]) => rest.length ? B.core.math.pow([e, rest[0][1]]) : e));
+
+function binary(next: P<Expression>, ops: { [op: string]: (e1: Expression, e2: Expression) => Expression }): P<Expression> {
+    const opParser = P.alt(...Object.keys(ops).map(op));
+    return P.seq(next, P.seq(opParser, next).many())
+        .map(([e, rest]) => rest.reduce((acc, [o, e2]) => ops[o](acc, e2), e));
+}
+
+const NumProduct = binary(NumPower, {
+    '*': (a, b) => B.core.math.mult([a, b]),
+    '/': (a, b) => B.core.math.div([a, b]),
+    '%': (a, b) => B.core.math.mod([a, b]),
+});
+
+const NumExpr: P<Expression> = binary(NumProduct, {
+    '+': (a, b) => B.core.math.add([a, b]),
+    '-': (a, b) => B.core.math.sub([a, b]),
+});
+
+const comparisonOperators: { [op: string]: ComparisonOperator } = {
+    '<=': '<=', '>=': '>=', '==': '==', '!=': '!=', '<': '<', '>': '>', '=': '=',
+    lt: '<', le: '<=', gt: '>', ge: '>=', eq: '==', ne: '!=',
+};
+
+const ComparisonOp = P.alt(P.regexp(/<=|>=|==|!=|<|>|=/), words(['lt', 'le', 'gt', 'ge', 'eq', 'ne']))
+    .map(o => comparisonOperators[o.toLowerCase()]).trim(P.optWhitespace);
+
+/** Numeric comparison such as `x < 5` or `sqr(x) + sqr(y) <= 100` */
+const NumComparison = P.seq(NumExpr, ComparisonOp, NumExpr)
+    .map(([e1, o, e2]) => atomGroups('atom-test', testComparison(e1, o, e2)));
+
+/** String comparison such as `name == CA`, `name =~ "C.*"` or `resname != HOH` */
+const StrComparison = P.seq(
+    propertyParser(false),
+    P.alt(P.regexp(/==|!=|=~|=/), words(['eq', 'ne'])).trim(P.optWhitespace),
+    strValue
+).map(([p, o, value]) => {
+    const test = p.map([o === '=~' && 'value' in value ? { regex: value.value } : value]);
+    const negate = o === '!=' || o.toLowerCase() === 'ne';
+    return atomGroups(p.level, negate ? B.core.logic.not([test]) : test);
+});
+
+const Parens: P<Expression> = P.lazy(() => Expr.trim(P.optWhitespace).wrap('(', ')'));
+
+const Operand = P.alt(
+    NumComparison,
+    StrComparison,
+    Parens,
+    propertiesParser(properties),
+    keywordsParser(keywords)
+).trim(P.optWhitespace);
+
+const Expr: P<Expression> = operatorParser(Operand, operators);
+
+export const transpiler: Transpiler = str => Expr.tryParse(str);
@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { MonadicParser as P } from '../../../mol-util/monadic-parser';
+import { MolScriptBuilder as B } from '../../language/builder';
+import { Expression } from '../../language/expression';
+import { AtomGroupTest, number, NumberRange, PropertyDef, PropertyDict, testNumbers, testStrings, words } from '../helper';
+
+const reservedWords = words(['and', 'or', 'not', 'within', 'exwithin', 'pbwithin', 'same', 'as', 'of', 'to']);
+
+type StrValue = { value: string } | { regex: string }
+
+/** A bare or single quoted value, or a double quoted regular expression */
+export const strValue: P<StrValue> = P.alt(
+    P.regexp(/"([^"]*)"/, 1).map(regex => ({ regex })),
+    P.regexp(/'([^']*)'/, 1).map(value => ({ value })),
+    P.regexp(/[^\s()"']+/).map(value => ({ value }))
+);
+
+const strValues = P.notFollowedBy(reservedWords).then(strValue).sepBy1(P.whitespace);
+
+const numValue: P<NumberRange> = P.seq(number, P.seq(P.whitespace, words(['to']), P.whitespace, number).atMost(1))
+    .map(([min, to]) => to.length ? [min, to[0][3]] as NumberRange : min);
+
+const numValues = P.notFollowedBy(reservedWords).then(numValue).sepBy1(P.whitespace);
+
+function testStrValues(property: Expression, values: StrValue[], mapValue?: (v: string) => Expression): Expression {
+    const tests: Expression[] = [];
+    const plain: string[] = [];
+    for (const v of values) {
+        if ('regex' in v) tests.push(B.core.str.match([B.re(`^(?:${v.regex})$`), property]));
+        else plain.push(v.value);
+    }
+    if (plain.length) {
+        tests.push(mapValue
+            ? B.core.set.has([B.set(...plain.map(mapValue)), property])
+            : testStrings(property, plain));
+    }
+    return tests.length === 1 ? tests[0] : B.core.logic.or(tests);
+}
+
+function str(desc: string, examples: string[], property: Expression, level: AtomGroupTest, props?: Partial<PropertyDef>): PropertyDef {
+    return {
+        '@desc': desc, '@examples': examples, level, property, value: strValues,
+        map: (v: StrValue[]) => testStrValues(property, v),
+        ...props
+    };
+}
+
+function num(desc: string, examples: string[], property: Expression, level: AtomGroupTest, props?: Partial<PropertyDef>): PropertyDef {
+    return {
+        '@desc': desc, '@examples': examples, level, property, value: numValues, isNumeric: true,
+        map: (v: NumberRange[]) => testNumbers(property, v),
+        ...props
+    };
+}
+
+const ssFlags: { [k: string]: Expression } = {
+    H: B.struct.type.secondaryStructureFlags(['alpha']),
+    G: B.struct.type.secondaryStructureFlags(['310']),
+    I: B.struct.type.secondaryStructureFlags(['pi']),
+    E: B.struct.type.secondaryStructureFlags(['sheet']),
+    B: B.struct.type.secondaryStructureFlags(['strand']),
+    T: B.struct.type.secondaryStructureFlags(['turn']),
+};
+
+function testStructure(values: StrValue[]): Expression {
+    const tests: Expression[] = [];
+    for (const v of values) {
+        const k = 'value' in v ? v.value.toUpperCase() : '';
+        if (ssFlags[k]) {
+            tests.push(B.core.flags.hasAny([B.ammp('secondaryStructureFlags'), ssFlags[k]]));
+        } else if (k === 'C') {
+            tests.push(B.core.logic.not([B.core.flags.hasAny([B.ammp('secondaryStructureFlags'), B.struct.type.secondaryStructureFlags(['helix', 'beta', 'turn'])])]));
+        } else {
+            throw new Error(`unknown secondary structure type '${'value' in v ? v.value : v.regex}'`);
+        }
+    }
+    return tests.length === 1 ? tests[0] : B.core.logic.or(tests);
+}
+
+export const properties: PropertyDict = {
+    name: str('atom name', ['name CA', 'name CA CB', 'name "C.*"'], B.ammp('auth_atom_id'), 'atom-test'),
+    type: str('atom type, same as the atom name', ['type C', 'type "N.*"'], B.ammp('auth_atom_id'), 'atom-test'),
+    element: str('atomic element symbol', ['element C', 'element Fe Zn'], B.acp('elementSymbol'), 'atom-test', {
+        map: (v: StrValue[]) => testStrValues(B.acp('elementSymbol'), v, B.es)
+    }),
+    altloc: str('alternate location identifier', ['altloc A', 'altloc ""'], B.ammp('label_alt_id'), 'atom-test'),
+    chain: str('chain identifier', ['chain A', 'chain A B'], B.ammp('auth_asym_id'), 'chain-test'),
+    segname: str('segment name, mapped to label_asym_id', ['segname PROA', 'segid A B'], B.ammp('label_asym_id'), 'chain-test', { abbr: ['segid'] }),
+    resname: str('residue name', ['resname ALA', 'resname HOH WAT "T.*"'], B.ammp('auth_comp_id'), 'residue-test'),
+    insertion: str('insertion code', ['insertion A', 'insertion ""'], B.ammp('pdbx_PDB_ins_code'), 'residue-test'),
+    structure: str('secondary structure, one of H G I E B T C', ['structure H', 'structure E B'], B.ammp('secondaryStructureFlags'), 'residue-test', {
+        map: testStructure
+    }),
+
+    resid: num('residue number', ['resid 10', 'resid 1 to 10', 'resid 1 5 to 7 20'], B.ammp('auth_seq_id'), 'residue-test', { abbr: ['resnum'] }),
+    index: num('zero-based atom index', ['index 0', 'index 0 to 9'], B.acp('sourceIndex'), 'atom-test'),
+    serial: num('one-based atom index', ['serial 1', 'serial 1 to 10'], B.core.math.add([B.acp('sourceIndex'), 1]), 'atom-test'),
+    atomicnumber: num('atomic number', ['atomicnumber 6', 'atomicnumber 6 to 8'], B.acp('atomicNumber'), 'atom-test'),
+    beta: num('temperature factor', ['beta 0', 'beta > 50'], B.ammp('B_iso_or_equiv'), 'atom-test'),
+    occupancy: num('occupancy', ['occupancy 1', 'occupancy < 1'], B.ammp('occupancy'), 'atom-test'),
+    mass: num('atomic mass', ['mass 12', 'mass > 30'], B.acp('mass'), 'atom-test'),
+    radius: num('van der Waals radius', ['radius 1.7', 'radius > 1.5'], B.acp('vdw'), 'atom-test'),
+    charge: num('formal charge', ['charge 1', 'charge < 0'], B.ammp('pdbx_formal_charge'), 'atom-test'),
+    x: num('x coordinate', ['x 0', 'x < 5'], B.acp('x'), 'atom-test'),
+    y: num('y coordinate', ['y 0', 'y > -5'], B.acp('y'), 'atom-test'),
+    z: num('z coordinate', ['z 0', 'z >= 10'], B.acp('z'), 'atom-test'),
+
+    residue: num('zero-based residue index', ['residue 0'], B.ammp('auth_seq_id'), 'residue-test', { isUnsupported: true }),
+    fragment: num('zero-based fragment index', ['fragment 0'], B.ammp('auth_seq_id'), 'residue-test', { isUnsupported: true }),
+    numbonds: num('number of bonds', ['numbonds 0'], B.acp('bondCount'), 'atom-test', { isUnsupported: true }),
+    user: num('user-defined value', ['user 1'], B.acp('sourceIndex'), 'atom-test', { isUnsupported: true }),
+};
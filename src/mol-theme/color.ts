@@ -37,6 +37,7 @@ import { AtomIdColorThemeProvider } from './color/atom-id';
 import { EntityIdColorThemeProvider } from './color/entity-id';
 import { Texture, TextureFilter } from '../mol-gl/webgl/texture';
 import { VolumeValueColorThemeProvider } from './color/volume-value';
+import { VolumeSegmentColorThemeProvider } from './color/volume-segment';
 import { Vec3, Vec4 } from '../mol-math/linear-algebra';
 
 export type LocationColor = (location: Location, isSecondary: boolean) => Color
@@ -147,6 +148,7 @@ namespace ColorTheme {
         'uncertainty': UncertaintyColorThemeProvider,
         'unit-index': UnitIndexColorThemeProvider,
         'uniform': UniformColorThemeProvider,
+        'volume-segment': VolumeSegmentColorThemeProvider,
         'volume-value': VolumeValueColorThemeProvider,
     };
     type _BuiltIn = typeof BuiltIn
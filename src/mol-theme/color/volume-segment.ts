@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Color } from '../../mol-util/color';
+import { Location } from '../../mol-model/location';
+import { Volume } from '../../mol-model/volume';
+import { ColorTheme, LocationColor } from '../color';
+import { ParamDefinition as PD } from '../../mol-util/param-definition';
+import { ThemeDataContext } from '../../mol-theme/theme';
+import { getPaletteParams, getPalette } from '../../mol-util/color/palette';
+import { TableLegend, ScaleLegend } from '../../mol-util/legend';
+
+const DefaultList = 'many-distinct';
+const DefaultColor = Color(0xFAFAFA);
+const Description = 'Gives every segment of a segmentation volume a color based on its id. Colors given in the segment annotation take precedence.';
+
+export const VolumeSegmentColorThemeParams = {
+    ...getPaletteParams({ type: 'colors', colorList: DefaultList }),
+    useAnnotationColors: PD.Boolean(true, { description: 'Use the segment colors given in the annotation if available.' }),
+};
+export type VolumeSegmentColorThemeParams = typeof VolumeSegmentColorThemeParams
+export function getVolumeSegmentColorThemeParams(ctx: ThemeDataContext) {
+    const params = PD.clone(VolumeSegmentColorThemeParams);
+    return params;
+}
+
+export function VolumeSegmentColorTheme(ctx: ThemeDataContext, props: PD.Values<VolumeSegmentColorThemeParams>): ColorTheme<VolumeSegmentColorThemeParams> {
+    let color: LocationColor;
+    let legend: ScaleLegend | TableLegend | undefined;
+
+    const segmentation = ctx.volume?.segmentation;
+    if (segmentation) {
+        const { segments } = segmentation;
+        const valueLabel = (i: number) => segments[i].label;
+
+        const palette = getPalette(segments.length, props, { valueLabel });
+        legend = palette.legend;
+
+        const colors: Color[] = [];
+        for (let i = 0, il = segments.length; i < il; ++i) {
+            const c = segments[i].color;
+            colors[i] = props.useAnnotationColors && c !== undefined ? c : palette.color(i);
+        }
+
+        color = (location: Location): Color => {
+            if (Volume.Segment.isLocation(location)) {
+                return colors[location.segment] ?? DefaultColor;
+            }
+            return DefaultColor;
+        };
+    } else {
+        color = () => DefaultColor;
+    }
+
+    return {
+        factory: VolumeSegmentColorTheme,
+        granularity: 'group',
+        color,
+        props,
+        description: Description,
+        legend
+    };
+}
+
+export const VolumeSegmentColorThemeProvider: ColorTheme.Provider<VolumeSegmentColorThemeParams, 'volume-segment'> = {
+    name: 'volume-segment',
+    label: 'Volume Segment',
+    category: ColorTheme.Category.Misc,
+    factory: VolumeSegmentColorTheme,
+    getParams: getVolumeSegmentColorThemeParams,
+    defaultValues: PD.getDefaultValues(VolumeSegmentColorThemeParams),
+    isApplicable: (ctx: ThemeDataContext) => !!ctx.volume?.segmentation
+};
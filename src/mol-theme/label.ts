@@ -66,9 +66,21 @@ export function lociLabel(loci: Loci, options: Partial<LabelOptions> = {}): stri
                 label.push(`${Volume.IsoValue.toString(absVal)} (${Volume.IsoValue.toString(relVal)})`);
             }
             return label.join(' | ');
+        case 'segment-loci':
+            return [
+                `${loci.volume.label || 'Volume'}`,
+                segmentLabel(loci.volume, loci.segments)
+            ].join(' | ');
     }
 }
 
+function segmentLabel(volume: Volume, segments: OrderedSet<number>) {
+    const size = OrderedSet.size(segments);
+    if (size !== 1 || !volume.segmentation) return countLabel(size, 'Segment');
+    const { label, description } = volume.segmentation.segments[OrderedSet.start(segments)];
+    return description ? `${label} (${description})` : label;
+}
+
 function countLabel(count: number, label: string) {
     return count === 1 ? `1 ${label}` : `${count} ${label}s`;
 }
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { Binding } from '../binding';
+import { ButtonsType, ModifiersKeys } from '../input/input-observer';
+
+const B = ButtonsType;
+const M = ModifiersKeys;
+
+describe('binding', () => {
+    it('match-key', () => {
+        const anyModifiers = Binding([Binding.TriggerKey('KeyW')]);
+        expect(Binding.matchKey(anyModifiers, 'KeyW', M.None)).toBe(true);
+        expect(Binding.matchKey(anyModifiers, 'KeyW', M.create({ shift: true }))).toBe(true);
+        expect(Binding.matchKey(anyModifiers, 'KeyS', M.None)).toBe(false);
+
+        const withShift = Binding([Binding.TriggerKey('KeyW', M.create({ shift: true }))]);
+        expect(Binding.matchKey(withShift, 'KeyW', M.None)).toBe(false);
+        expect(Binding.matchKey(withShift, 'KeyW', M.create({ shift: true }))).toBe(true);
+        expect(Binding.hasKey(withShift, 'KeyW')).toBe(true);
+    });
+
+    it('key triggers do not match buttons', () => {
+        const binding = Binding([Binding.TriggerKey('KeyW')]);
+        expect(Binding.isEmpty(binding)).toBe(false);
+        expect(Binding.match(binding, B.Flag.Primary, M.None)).toBe(false);
+    });
+
+    it('format', () => {
+        const binding = Binding([Binding.TriggerKey('KeyW'), Binding.Trigger(B.Flag.Primary, M.create({ shift: true }))], 'Move', 'Press ${triggers}');
+        expect(Binding.formatTriggers(binding)).toBe('W key or left mouse button + shift key');
+    });
+});
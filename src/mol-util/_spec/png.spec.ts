@@ -0,0 +1,53 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { encodePng } from '../png';
+import { PixelData } from '../image';
+import { inflate } from '../zip/zip';
+import { crc } from '../zip/checksum';
+import { SyncRuntimeContext } from '../../mol-task/execution/synchronous';
+
+function readUint32BE(buf: Uint8Array, p: number) {
+    return ((buf[p] << 24) | (buf[p + 1] << 16) | (buf[p + 2] << 8) | buf[p + 3]) >>> 0;
+}
+
+function readChunks(png: Uint8Array) {
+    const chunks: { type: string, data: Uint8Array }[] = [];
+    let p = 8;
+    while (p < png.length) {
+        const length = readUint32BE(png, p);
+        const type = String.fromCharCode(...Array.from(png.subarray(p + 4, p + 8)));
+        expect(readUint32BE(png, p + 8 + length)).toBe(crc(png, p + 4, length + 4) >>> 0);
+        chunks.push({ type, data: png.subarray(p + 8, p + 8 + length) });
+        p += 12 + length;
+    }
+    return chunks;
+}
+
+describe('png', () => {
+    it('encode', async () => {
+        const [width, height] = [3, 2];
+        const array = new Uint8Array(width * height * 4);
+        for (let i = 0; i < array.length; ++i) array[i] = i * 10;
+        const png = await encodePng(SyncRuntimeContext, PixelData.create(array, width, height));
+
+        expect(Array.from(png.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+
+        const chunks = readChunks(png);
+        expect(chunks.map(c => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+        expect(readUint32BE(chunks[0].data, 0)).toBe(width);
+        expect(readUint32BE(chunks[0].data, 4)).toBe(height);
+        expect(Array.from(chunks[0].data.subarray(8))).toEqual([8, 6, 0, 0, 0]);
+
+        const raw = await inflate(SyncRuntimeContext, chunks[1].data);
+        expect(raw.length).toBe((width * 4 + 1) * height);
+        for (let i = 0; i < height; ++i) {
+            const row = i * (width * 4 + 1);
+            expect(raw[row]).toBe(0);
+            expect(Array.from(raw.subarray(row + 1, row + 1 + width * 4))).toEqual(Array.from(array.subarray(i * width * 4, (i + 1) * width * 4)));
+        }
+    });
+});
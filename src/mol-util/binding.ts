@@ -27,13 +27,22 @@ namespace Binding {
     export const Empty: Binding = { triggers: [], action: '', description: '' };
     export function isEmpty(binding: Binding) {
         return binding.triggers.length === 0 ||
-            binding.triggers.every(t => t.buttons === undefined && t.modifiers === undefined);
+            binding.triggers.every(t => t.buttons === undefined && t.modifiers === undefined && t.key === undefined);
     }
 
     export function match(binding: Binding, buttons: ButtonsType, modifiers: ModifiersKeys) {
         return binding.triggers.some(t => Trigger.match(t, buttons, modifiers));
     }
 
+    export function matchKey(binding: Binding, code: string, modifiers: ModifiersKeys) {
+        return binding.triggers.some(t => Trigger.matchKey(t, code, modifiers));
+    }
+
+    /** Whether any trigger of the binding uses the given key, regardless of modifiers */
+    export function hasKey(binding: Binding, code: string) {
+        return binding.triggers.some(t => t.key === code);
+    }
+
     export function formatTriggers(binding: Binding) {
         return binding.triggers.map(Trigger.format).join(' or ');
     }
@@ -45,16 +54,22 @@ namespace Binding {
 
     export interface Trigger {
         buttons?: ButtonsType,
-        modifiers?: ModifiersKeys
+        modifiers?: ModifiersKeys,
+        /** Physical key, given as `KeyboardEvent.code`, e.g. 'KeyW' */
+        key?: string
     }
 
     export function Trigger(buttons?: ButtonsType, modifiers?: ModifiersKeys) {
         return Trigger.create(buttons, modifiers);
     }
 
+    export function TriggerKey(key: string, modifiers?: ModifiersKeys) {
+        return Trigger.create(undefined, modifiers, key);
+    }
+
     export namespace Trigger {
-        export function create(buttons?: ButtonsType, modifiers?: ModifiersKeys): Trigger {
-            return { buttons, modifiers };
+        export function create(buttons?: ButtonsType, modifiers?: ModifiersKeys, key?: string): Trigger {
+            return { buttons, modifiers, key };
         }
         export const Empty: Trigger = {};
 
@@ -65,9 +80,15 @@ namespace Binding {
                 (!m || ModifiersKeys.areEqual(m, modifiers));
         }
 
+        export function matchKey(trigger: Trigger, code: string, modifiers: ModifiersKeys): boolean {
+            const { key: k, modifiers: m } = trigger;
+            return k !== undefined && k === code &&
+                (!m || ModifiersKeys.areEqual(m, modifiers));
+        }
+
         export function format(trigger: Trigger) {
             const s: string[] = [];
-            const b = formatButtons(trigger.buttons);
+            const b = trigger.key !== undefined ? formatKey(trigger.key) : formatButtons(trigger.buttons);
             if (b) s.push(b);
             const m = formatModifiers(trigger.modifiers);
             if (m) s.push(m);
@@ -93,6 +114,10 @@ function formatButtons(buttons?: ButtonsType) {
     return s.join(' + ');
 }
 
+function formatKey(key: string) {
+    return `${key.replace(/^(Key|Digit)/, '')} key`;
+}
+
 function formatModifiers(modifiers?: ModifiersKeys, verbose?: boolean) {
     const s: string[] = [];
     if (modifiers) {
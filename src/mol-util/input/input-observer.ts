@@ -184,6 +184,8 @@ export type GestureInput = {
 
 export type KeyInput = {
     key: string,
+    /** Physical key, independent of the keyboard layout */
+    code: string,
     modifiers: ModifiersKeys
 }
 
@@ -232,6 +234,9 @@ interface InputObserver {
     readonly resize: Observable<ResizeInput>,
     readonly modifiers: Observable<ModifiersKeys>
     readonly key: Observable<KeyInput>
+    /** Only emitted while the pointer is inside the element */
+    readonly keyDown: Observable<KeyInput>
+    readonly keyUp: Observable<KeyInput>
 
     dispose: () => void
 }
@@ -250,11 +255,19 @@ function createEvents() {
         enter: new Subject<undefined>(),
         modifiers: new Subject<ModifiersKeys>(),
         key: new Subject<KeyInput>(),
+        keyDown: new Subject<KeyInput>(),
+        keyUp: new Subject<KeyInput>(),
     };
 }
 
 const AllowedNonPrintableKeys = ['Backspace', 'Delete'];
 
+function isEditable(target: EventTarget | null) {
+    if (!target || !(target as HTMLElement).tagName) return false;
+    const { tagName, isContentEditable } = target as HTMLElement;
+    return isContentEditable || tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT';
+}
+
 namespace InputObserver {
     export function create(props: InputObserverProps = {}): InputObserver {
         const { noScroll, noContextMenu } = { ...DefaultInputObserverProps, ...props };
@@ -306,7 +319,7 @@ namespace InputObserver {
         let isInside = false;
 
         const events = createEvents();
-        const { drag, interactionEnd, wheel, pinch, gesture, click, move, leave, enter, resize, modifiers, key } = events;
+        const { drag, interactionEnd, wheel, pinch, gesture, click, move, leave, enter, resize, modifiers, key, keyDown, keyUp } = events;
 
         attach();
 
@@ -416,6 +429,10 @@ namespace InputObserver {
             if (!modifierKeys.meta && event.metaKey) { changed = true; modifierKeys.meta = true; }
 
             if (changed && isInside) modifiers.next(getModifierKeys());
+
+            if (isInside && !event.repeat && !isEditable(event.target)) {
+                keyDown.next({ key: event.key, code: event.code, modifiers: getModifierKeys() });
+            }
         }
 
         function handleKeyUp(event: KeyboardEvent) {
@@ -428,12 +445,15 @@ namespace InputObserver {
 
             if (changed && isInside) modifiers.next(getModifierKeys());
 
+            keyUp.next({ key: event.key, code: event.code, modifiers: getModifierKeys() });
+
             if (AllowedNonPrintableKeys.includes(event.key)) handleKeyPress(event);
         }
 
         function handleKeyPress(event: KeyboardEvent) {
             key.next({
                 key: event.key,
+                code: event.code,
                 modifiers: getModifierKeys()
             });
         }
@@ -273,7 +273,7 @@ export namespace MonadicParser {
     export function alt<A, B, C>(a: MonadicParser<A>, b: MonadicParser<B>, c: MonadicParser<C>): MonadicParser<A | B | C>
     export function alt<A, B, C, D>(a: MonadicParser<A>, b: MonadicParser<B>, c: MonadicParser<C>, d: MonadicParser<D>): MonadicParser<A | B | C | D>
     export function alt<A, B, C, D, E>(a: MonadicParser<A>, b: MonadicParser<B>, c: MonadicParser<C>, d: MonadicParser<D>, e: MonadicParser<E>): MonadicParser<A | B | C | D | E>
-    export function alt<T>(...parsers: MonadicParser<T>[]): MonadicParser<T[]>
+    export function alt<T>(...parsers: MonadicParser<T>[]): MonadicParser<T>
     export function alt(...parsers: MonadicParser<any>[]): MonadicParser<any> {
         const numParsers = parsers.length;
         if (numParsers === 0) {
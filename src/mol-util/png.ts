@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { RuntimeContext, Task } from '../mol-task';
+import { PixelData } from './image';
+import { crc } from './zip/checksum';
+import { deflate } from './zip/zip';
+
+const Signature = [137, 80, 78, 71, 13, 10, 26, 10];
+
+function writeUint32BE(buf: Uint8Array, p: number, n: number) {
+    buf[p] = (n >>> 24) & 255;
+    buf[p + 1] = (n >>> 16) & 255;
+    buf[p + 2] = (n >>> 8) & 255;
+    buf[p + 3] = n & 255;
+}
+
+function writeChunk(buf: Uint8Array, p: number, type: string, data: Uint8Array) {
+    writeUint32BE(buf, p, data.length);
+    for (let i = 0; i < 4; ++i) buf[p + 4 + i] = type.charCodeAt(i);
+    buf.set(data, p + 8);
+    writeUint32BE(buf, p + 8 + data.length, crc(buf, p + 4, data.length + 4));
+    return p + 12 + data.length;
+}
+
+export function EncodePng(pixelData: PixelData) {
+    return Task.create('Encode PNG', ctx => encodePng(ctx, pixelData));
+}
+
+/**
+ * Encode 8-bit RGBA pixel data (top row first) as PNG.
+ * Works without a DOM, i.e. also in Node.
+ */
+export async function encodePng(runtime: RuntimeContext, pixelData: PixelData) {
+    const { array, width, height } = pixelData;
+    if (!(array instanceof Uint8Array)) throw new Error('PNG encoding requires 8-bit pixel data');
+
+    const header = new Uint8Array(13);
+    writeUint32BE(header, 0, width);
+    writeUint32BE(header, 4, height);
+    header[8] = 8; // bit depth
+    header[9] = 6; // color type, RGBA
+    // compression, filter and interlace methods are all 0
+
+    // each scanline is prefixed with its filter type, 0 (none)
+    const rowSize = width * 4;
+    const raw = new Uint8Array((rowSize + 1) * height);
+    for (let i = 0; i < height; ++i) {
+        raw.set(array.subarray(i * rowSize, (i + 1) * rowSize), i * (rowSize + 1) + 1);
+    }
+    const compressed = await deflate(runtime, raw);
+
+    const png = new Uint8Array(Signature.length + 3 * 12 + header.length + compressed.length);
+    png.set(Signature, 0);
+    let p = writeChunk(png, Signature.length, 'IHDR', header);
+    p = writeChunk(png, p, 'IDAT', compressed);
+    writeChunk(png, p, 'IEND', new Uint8Array(0));
+    return png;
+}
@@ -12,7 +12,7 @@ import * as argparse from 'argparse';
 import { pack } from './pack/main';
 import { VERSION } from './pack/version';
 
-type FileFormat = 'ccp4' | 'dsn6'
+type FileFormat = 'ccp4' | 'mrc' | 'dsn6' | 'dx' | 'dxbin'
 
 interface Config {
     input: { name: string, filename: string }[],
@@ -75,7 +75,7 @@ const subparsers = parser.add_subparsers({
 function addGeneralArgs(parser: argparse.ArgumentParser) {
     parser.add_argument('output', { help: `Output path.` });
     parser.add_argument('--blockSizeInMB', { default: 96, help: `Maximum block size.`, metavar: 'SIZE' });
-    parser.add_argument('--format', { default: 'ccp4', help: `Input file format.` });
+    parser.add_argument('--format', { default: 'ccp4', choices: ['ccp4', 'mrc', 'dsn6', 'dx', 'dxbin'], help: `Input file format.` });
 }
 
 const xrayParser = subparsers.add_parser('xray', { add_help: true });
@@ -0,0 +1,175 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pack } from '../main';
+import * as Format from '../format';
+import { execute } from '../../server/query/execute';
+import { CIF } from '../../../../mol-io/reader/cif';
+import { parseDx } from '../../../../mol-io/reader/dx/parser';
+import { parse as parseCcp4 } from '../../../../mol-io/reader/ccp4/parser';
+import { volumeFromDensityServerData } from '../../../../mol-model-formats/volume/density-server';
+import { volumeFromDx } from '../../../../mol-model-formats/volume/dx';
+import { volumeFromCcp4 } from '../../../../mol-model-formats/volume/ccp4';
+import { Grid, Volume } from '../../../../mol-model/volume';
+import { Mat4, Vec3 } from '../../../../mol-math/linear-algebra';
+
+const dim = [4, 5, 6];
+
+function getValue(i: number, j: number, k: number) {
+    return Math.sin(i) + Math.cos(j) * k;
+}
+
+function createDx(isBinary: boolean) {
+    const lines = [
+        '# Data from APBS',
+        `object 1 class gridpositions counts ${dim[0]} ${dim[1]} ${dim[2]}`,
+        'origin -1.5 2 0.5',
+        'delta 0.5 0 0',
+        'delta 0 0.75 0',
+        'delta 0 0 1',
+        `object 2 class gridconnections counts ${dim[0]} ${dim[1]} ${dim[2]}`,
+        `object 3 class array type double rank 0 items ${dim[0] * dim[1] * dim[2]} data follows`,
+    ];
+    // x changes slowest, z fastest
+    const values: number[] = [];
+    for (let i = 0; i < dim[0]; i++) {
+        for (let j = 0; j < dim[1]; j++) {
+            for (let k = 0; k < dim[2]; k++) values.push(getValue(i, j, k));
+        }
+    }
+
+    if (isBinary) {
+        const header = Buffer.from(lines.join('\n') + '\n');
+        const data = Buffer.alloc(8 * values.length);
+        values.forEach((v, i) => data.writeDoubleLE(v, 8 * i));
+        return new Uint8Array(Buffer.concat([header, data]));
+    }
+
+    for (let i = 0; i < values.length; i += 3) {
+        lines.push(values.slice(i, i + 3).map(v => v.toExponential(6)).join(' '));
+    }
+    lines.push('attribute "dep" string "positions"');
+    return new Uint8Array(Buffer.from(lines.join('\n') + '\n'));
+}
+
+/** Mode 2 MRC file with an extended header and ISPG 0, as written by EM software */
+function createMrc(params?: { axisOrder?: number[], cellSize?: number[], origin?: number[] }) {
+    const axisOrder = params?.axisOrder || [1, 2, 3];
+    const cellSize = params?.cellSize || [15, 18, 21];
+    const origin = params?.origin || [0, 0, 0];
+
+    const extendedHeaderSize = 96;
+    const count = dim[0] * dim[1] * dim[2];
+    const data = Buffer.alloc(1024 + extendedHeaderSize + 4 * count);
+    [dim[0], dim[1], dim[2], 2, 1, -2, 3, 10, 12, 14].forEach((v, i) => data.writeInt32LE(v, 4 * i));
+    [...cellSize, 90, 90, 90].forEach((v, i) => data.writeFloatLE(v, 4 * (10 + i)));
+    axisOrder.forEach((v, i) => data.writeInt32LE(v, 4 * (16 + i)));
+    origin.forEach((v, i) => data.writeFloatLE(v, 4 * (49 + i)));
+    data.writeInt32LE(0, 4 * 22);
+    data.writeInt32LE(extendedHeaderSize, 4 * 23);
+    data.write('MAP ', 4 * 52, 'ascii');
+    data.writeUInt8(68, 4 * 53);
+    data.writeUInt8(65, 4 * 53 + 1);
+    // column (x) changes fastest
+    for (let k = 0, o = 1024 + extendedHeaderSize; k < dim[2]; k++) {
+        for (let j = 0; j < dim[1]; j++) {
+            for (let i = 0; i < dim[0]; i++, o += 4) data.writeFloatLE(getValue(i, j, k), o);
+        }
+    }
+    return new Uint8Array(data);
+}
+
+async function packAndQuery(dir: string, input: Uint8Array, format: Format.Type) {
+    const inputFilename = path.join(dir, `input.${format}`);
+    const packedFilename = path.join(dir, `packed.${format}.mdb`);
+    fs.writeFileSync(inputFilename, input);
+    await pack([{ name: 'em', filename: inputFilename }], 4, false, packedFilename, format);
+
+    const chunks: Uint8Array[] = [];
+    const ok = await execute({ sourceFilename: packedFilename, sourceId: `em/${format}`, asBinary: true, box: { kind: 'Cell' }, detail: 0, forcedSamplingLevel: 1 }, () => ({
+        writeBinary: (data: Uint8Array) => { chunks.push(data.slice()); return true; },
+        writeString: () => true,
+        end: () => { }
+    }));
+    expect(ok).toBe(true);
+
+    const parsed = await CIF.parseBinary(new Uint8Array(Buffer.concat(chunks))).run();
+    if (parsed.isError) throw parsed;
+    return await volumeFromDensityServerData(CIF.schema.densityServer(parsed.result.blocks[1])).run();
+}
+
+/** Checks that each cell of the reference volume is found at the same position in the packed volume */
+function expectSameVolume(packed: Volume, reference: Volume) {
+    const { min, max } = reference.grid.stats;
+    // values are quantized to 255 steps by the server
+    const tolerance = (max - min) / 255;
+
+    const referenceToCartn = Grid.getGridToCartesianTransform(reference.grid);
+    const cartnToPacked = Mat4.invert(Mat4(), Grid.getGridToCartesianTransform(packed.grid));
+    const { space, data } = reference.grid.cells;
+    const packedCells = packed.grid.cells;
+    const [nx, ny, nz] = space.dimensions;
+    const p = Vec3();
+    for (let i = 0; i < nx; i++) {
+        for (let j = 0; j < ny; j++) {
+            for (let k = 0; k < nz; k++) {
+                Vec3.transformMat4(p, Vec3.set(p, i, j, k), referenceToCartn);
+                Vec3.transformMat4(p, p, cartnToPacked);
+                for (let d = 0; d < 3; d++) {
+                    expect(Math.abs(p[d] - Math.round(p[d]))).toBeLessThan(1e-3);
+                }
+                const v = packedCells.space.get(packedCells.data, Math.round(p[0]), Math.round(p[1]), Math.round(p[2]));
+                expect(Math.abs(v - space.get(data, i, j, k))).toBeLessThanOrEqual(tolerance);
+            }
+        }
+    }
+}
+
+describe('volume packer formats', () => {
+    let dir: string;
+    beforeAll(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'volume-pack-')); });
+    afterAll(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it('dx', async () => {
+        const input = createDx(false);
+        const packed = await packAndQuery(dir, input, 'dx');
+        const dx = await parseDx(Buffer.from(input).toString(), 'dx').run();
+        if (dx.isError) throw dx;
+        expectSameVolume(packed, await volumeFromDx(dx.result).run());
+    });
+
+    it('dxbin', async () => {
+        const input = createDx(true);
+        const packed = await packAndQuery(dir, input, 'dxbin');
+        const dx = await parseDx(input, 'dxbin').run();
+        if (dx.isError) throw dx;
+        expectSameVolume(packed, await volumeFromDx(dx.result).run());
+    });
+
+    it('mrc', async () => {
+        const input = createMrc();
+        const packed = await packAndQuery(dir, input, 'mrc');
+        const mrc = await parseCcp4(input, 'mrc').run();
+        if (mrc.isError) throw mrc;
+        expectSameVolume(packed, await volumeFromCcp4(mrc.result).run());
+    });
+
+    it('mrc origin with axis order', async () => {
+        // columns along z, rows along x and sections along y, without cell dimensions
+        const input = createMrc({ axisOrder: [3, 1, 2], cellSize: [0, 0, 0], origin: [2, -3, 5] });
+        const packed = await packAndQuery(dir, input, 'mrc');
+        const mrc = await parseCcp4(input, 'mrc').run();
+        if (mrc.isError) throw mrc;
+
+        // the same map with a voxel size of 1 Å and the origin as grid start, in axis order
+        const h = mrc.result.header;
+        const header = { ...h, xLength: h.NX, yLength: h.NY, zLength: h.NZ, originX: 0, originY: 0, originZ: 0, NCSTART: 5, NRSTART: 2, NSSTART: -3 };
+        expectSameVolume(packed, await volumeFromCcp4({ ...mrc.result, header }).run());
+    });
+});
@@ -11,6 +11,8 @@ import { Ccp4Provider } from './format/ccp4';
 import { TypedArrayBufferContext, TypedArrayValueArray, TypedArrayValueType, getElementByteSize, createTypedArrayBufferContext } from '../../../mol-io/common/typed-array';
 import { Dsn6Provider } from './format/dsn6';
 import { fileHandleFromDescriptor } from '../../common/file-handle';
+import { MrcProvider } from './format/mrc';
+import { DxBinaryProvider, DxProvider } from './format/dx';
 
 export interface Header {
     name: string,
@@ -92,12 +94,15 @@ export function compareHeaders(a: Header, b: Header) {
     return true;
 }
 
-export type Type = 'ccp4' | 'dsn6'
+export type Type = 'ccp4' | 'mrc' | 'dsn6' | 'dx' | 'dxbin'
 
 export function getProviderFromType(type: Type): Provider {
     switch (type) {
         case 'ccp4': return Ccp4Provider;
+        case 'mrc': return MrcProvider;
         case 'dsn6': return Dsn6Provider;
+        case 'dx': return DxProvider;
+        case 'dxbin': return DxBinaryProvider;
     }
 }
 
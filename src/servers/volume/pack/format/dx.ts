@@ -0,0 +1,132 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { FileHandle } from '../../../../mol-io/common/file-handle';
+import { TypedArrayValueType } from '../../../../mol-io/common/typed-array';
+import { utf8Read } from '../../../../mol-io/common/utf8';
+import { parseFloat as fastParseFloat } from '../../../../mol-io/reader/common/text/number-parser';
+import { Tokenizer } from '../../../../mol-io/reader/common/text/tokenizer';
+import { DxFile, readDxHeader } from '../../../../mol-io/reader/dx/parser';
+import { Header, Provider, Data } from '../format';
+
+/** Maximum number of bytes searched for the end of the header */
+const headerSize = 64 * 1024;
+/** Number of bytes read from text files at once */
+const textChunkSize = 1024 * 1024;
+
+interface DxHeader {
+    dx: DxFile.Header,
+    isBinary: boolean
+}
+
+/** Position of the next unread value of a text file */
+interface TextState {
+    position: number,
+    /** Characters read from the file but not yet parsed */
+    rest: string,
+    isEndOfFile: boolean
+}
+const textStates = new WeakMap<Data, TextState>();
+
+function createReadHeader(isBinary: boolean) {
+    return async function readHeader(name: string, file: FileHandle) {
+        const { buffer, bytesRead } = await file.readBuffer(0, headerSize);
+        const { header: dxHeader, headerByteCount } = readDxHeader(utf8Read(buffer, 0, bytesRead));
+        const { dim, min, h } = dxHeader;
+
+        // values are stored with x changing slowest and z changing fastest
+        const header: Header = {
+            name,
+            valueType: TypedArrayValueType.Float32,
+            grid: [dim[2], dim[1], dim[0]],
+            axisOrder: [2, 1, 0],
+            extent: [dim[2], dim[1], dim[0]],
+            origin: [min[2] / h[2], min[1] / h[1], min[0] / h[0]],
+            spacegroupNumber: 1, // set as P 1, since it is not available in DX files
+            cellSize: [h[0] * dim[0], h[1] * dim[1], h[2] * dim[2]],
+            cellAngles: [90, 90, 90],
+            littleEndian: true,
+            dataOffset: headerByteCount,
+            originalHeader: { dx: dxHeader, isBinary } as DxHeader
+        };
+        return header;
+    };
+}
+
+async function readValuesBinary(data: Data, valueOffset: number, count: number) {
+    const { header, file, slices } = data;
+    const { buffer, bytesRead } = await file.readBuffer(header.dataOffset + 8 * valueOffset, 8 * count);
+    if (bytesRead < 8 * count) {
+        throw new Error('dx file ended before all values were read');
+    }
+    for (let i = 0; i < count; i++) {
+        slices.values[i] = buffer.readDoubleLE(8 * i);
+    }
+}
+
+async function readValuesText(data: Data, count: number) {
+    const { header, file, slices } = data;
+    if (!textStates.has(data)) {
+        textStates.set(data, { position: header.dataOffset, rest: '', isEndOfFile: false });
+    }
+    const state = textStates.get(data)!;
+
+    let read = 0;
+    while (read < count) {
+        if (state.isEndOfFile && !state.rest.trim()) {
+            throw new Error('dx file ended before all values were read');
+        }
+
+        let str = state.rest;
+        if (!state.isEndOfFile) {
+            const { buffer, bytesRead } = await file.readBuffer(state.position, textChunkSize);
+            state.position += bytesRead;
+            state.isEndOfFile = bytesRead < textChunkSize;
+            str += utf8Read(buffer, 0, bytesRead);
+        }
+
+        const tokenizer = Tokenizer(str);
+        while (read < count) {
+            Tokenizer.skipWhitespace(tokenizer);
+            if (tokenizer.position >= tokenizer.length) break;
+            tokenizer.tokenStart = tokenizer.position;
+            Tokenizer.eatValue(tokenizer);
+            // the value may continue in the next chunk
+            if (tokenizer.tokenEnd >= tokenizer.length && !state.isEndOfFile) {
+                tokenizer.position = tokenizer.tokenStart;
+                break;
+            }
+            slices.values[read++] = fastParseFloat(str, tokenizer.tokenStart, tokenizer.tokenEnd);
+        }
+        state.rest = str.substring(tokenizer.position);
+    }
+}
+
+async function readSlices(data: Data) {
+    const { slices, header } = data;
+    if (slices.isFinished) {
+        return;
+    }
+
+    const { extent, originalHeader } = header;
+    const sliceSize = extent[0] * extent[1];
+    const sliceCount = Math.min(slices.sliceCapacity, extent[2] - slices.slicesRead);
+
+    if ((originalHeader as DxHeader).isBinary) {
+        await readValuesBinary(data, sliceSize * slices.slicesRead, sliceSize * sliceCount);
+    } else {
+        await readValuesText(data, sliceSize * sliceCount);
+    }
+    slices.slicesRead += sliceCount;
+    slices.sliceCount = sliceCount;
+
+    if (slices.slicesRead >= extent[2]) {
+        slices.isFinished = true;
+    }
+}
+
+export const DxProvider: Provider = { readHeader: createReadHeader(false), readSlices };
+export const DxBinaryProvider: Provider = { readHeader: createReadHeader(true), readSlices };
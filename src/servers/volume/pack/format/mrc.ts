@@ -0,0 +1,46 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import { FileHandle } from '../../../../mol-io/common/file-handle';
+import { Ccp4Header } from '../../../../mol-io/reader/ccp4/schema';
+import { Provider } from '../format';
+import { Ccp4Provider, readSlices } from './ccp4';
+
+/**
+ * MRC shares the CCP4 layout (including the extended header, skipped via NSYMBT)
+ * but is often written by EM software that leaves some of the fields unset
+ */
+async function readHeader(name: string, file: FileHandle) {
+    const header = await Ccp4Provider.readHeader(name, file);
+    const mrcHeader = header.originalHeader as Ccp4Header;
+
+    // 0 for images and image stacks, 401+ for volume stacks
+    if (mrcHeader.ISPG < 1 || mrcHeader.ISPG > 230) {
+        header.spacegroupNumber = 1;
+    }
+
+    // sampling not set, assume the map covers the whole unit cell
+    if (header.grid.some(v => v <= 0)) {
+        header.grid = header.extent.slice();
+    }
+
+    // cell dimensions not set, assume a voxel size of 1 Å
+    if (header.cellSize.some(v => v <= 0)) {
+        header.cellSize = [0, 1, 2].map(a => header.grid[header.axisOrder.indexOf(a)]);
+        const { originX, originY, originZ } = mrcHeader;
+        if (originX !== 0 || originY !== 0 || originZ !== 0) {
+            // the origin is given in x, y, z order
+            header.origin = header.axisOrder.map(a => [originX, originY, originZ][a]);
+        }
+    }
+    if (header.cellAngles.some(v => v <= 0)) {
+        header.cellAngles = [90, 90, 90];
+    }
+
+    return header;
+}
+
+export const MrcProvider: Provider = { readHeader, readSlices };
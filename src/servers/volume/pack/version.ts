@@ -1 +1 @@
-export const VERSION = '0.9.2';
\ No newline at end of file
+export const VERSION = '0.9.3';
\ No newline at end of file
@@ -15,7 +15,7 @@ import { LimitsConfig } from '../config';
 import { fileHandleFromDescriptor } from '../../common/file-handle';
 import { FileHandle } from '../../../mol-io/common/file-handle';
 
-export function getOutputFilename(source: string, id: string, { asBinary, box, detail, forcedSamplingLevel }: Data.QueryParams) {
+export function getOutputFilename(source: string, id: string, { asBinary, box, detail, forcedSamplingLevel, mesh }: Data.QueryParams) {
     function n(s: string) { return (s || '').replace(/[ \n\t]/g, '').toLowerCase(); }
     function r(v: number) { return Math.round(10 * v) / 10; }
     const det = forcedSamplingLevel !== void 0
@@ -24,7 +24,8 @@ export function getOutputFilename(source: string, id: string, { asBinary, box, d
     const boxInfo = box.kind === 'Cell'
         ? 'cell'
         : `${box.kind === 'Cartesian' ? 'cartn' : 'frac'}_${r(box.a[0])}_${r(box.a[1])}_${r(box.a[2])}_${r(box.b[0])}_${r(box.b[1])}_${r(box.b[2])}`;
-    return `${n(source)}_${n(id)}-${boxInfo}_${det}.${asBinary ? 'bcif' : 'cif'}`;
+    const meshInfo = mesh ? `_mesh_${mesh.kind === 'relative' ? 'rel' : 'abs'}_${mesh.isoValues.map(v => (v.channel ? `${n(v.channel)}_` : '') + r(v.isoValue)).join('_')}` : '';
+    return `${n(source)}_${n(id)}-${boxInfo}_${det}${meshInfo}.${asBinary ? 'bcif' : 'cif'}`;
 }
 
 export interface ExtendedHeader extends DataFormat.Header {
@@ -37,6 +37,8 @@ export interface JobEntry {
          */
         forcedSamplingLevel?: number,
         asBinary: boolean,
+        /** If set, isosurface meshes are computed instead of returning the values */
+        mesh?: Data.QueryParamsMesh
     },
     outputFolder: string,
     outputFilename?: string
@@ -87,7 +89,8 @@ async function query(job: JobEntry) {
         asBinary: job.params.asBinary,
         box,
         detail: !job.params.detail ? 0 : job.params.detail,
-        forcedSamplingLevel: job.params.forcedSamplingLevel
+        forcedSamplingLevel: job.params.forcedSamplingLevel,
+        mesh: job.params.mesh
     };
 
     if (!fs.existsSync(job.outputFolder)) {
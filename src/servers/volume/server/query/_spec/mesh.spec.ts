@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import * as Data from '../data-model';
+import * as Coords from '../../algebra/coordinate';
+import { computeMeshes, getGridToCartesianTransform } from '../mesh';
+import { encode } from '../encode';
+import { SpacegroupCell } from '../../../../../mol-math/geometry';
+import { Vec3 } from '../../../../../mol-math/linear-algebra';
+import { TypedArrayValueType } from '../../../../../mol-io/common/typed-array';
+import { CIF } from '../../../../../mol-io/reader/cif';
+import { meshFromDensityServerData } from '../../../../../mol-model-formats/volume/density-server';
+
+const n = 8;
+const cellSize = 8;
+const center = Vec3.create(3.5, 3.5, 3.5);
+const sigma = 2;
+/** Distance from the center at which the gaussian blob drops to 0.5 */
+const radius = Math.sqrt(2 * sigma * sigma * Math.log(2));
+
+function createQuery(): Data.QueryContext.Data {
+    const values = new Float32Array(n * n * n);
+    for (let k = 0; k < n; k++) {
+        for (let j = 0; j < n; j++) {
+            for (let i = 0; i < n; i++) {
+                const dSq = Vec3.squaredDistance(Vec3.create(i, j, k), center);
+                values[i + j * n + k * n * n] = Math.exp(-dSq / (2 * sigma * sigma));
+            }
+        }
+    }
+
+    const gridDomain = Coords.domain<'Query'>('Query', {
+        origin: Coords.fractional(0, 0, 0),
+        dimensions: Coords.fractional(1, 1, 1),
+        delta: Coords.fractional(1 / n, 1 / n, 1 / n),
+        sampleCount: [n, n, n]
+    });
+    const header = {
+        formatVersion: '1.0.0',
+        axisOrder: [0, 1, 2],
+        origin: [0, 0, 0],
+        dimensions: [1, 1, 1],
+        spacegroup: { number: 1, size: [cellSize, cellSize, cellSize], angles: [90, 90, 90], isPeriodic: false },
+        channels: ['EM'],
+        valueType: TypedArrayValueType.Float32,
+        blockSize: n,
+        sampling: [{ byteOffset: 0, rate: 1, valuesInfo: [{ mean: 0.1, sigma: 0.2, min: 0, max: 1 }], sampleCount: [n, n, n] }]
+    };
+
+    return {
+        kind: 'Data',
+        guid: '',
+        params: { sourceFilename: '', sourceId: 'em/test', asBinary: true, box: { kind: 'Cell' }, detail: 0, mesh: { isoValues: [{ isoValue: 2 }], kind: 'relative' } },
+        data: {
+            file: void 0 as any,
+            header,
+            spacegroup: SpacegroupCell.create(1, Vec3.create(cellSize, cellSize, cellSize), Vec3.create(Math.PI / 2, Math.PI / 2, Math.PI / 2)),
+            dataBox: { a: gridDomain.origin, b: gridDomain.dimensions },
+            sampling: []
+        },
+        samplingInfo: {
+            sampling: { index: 0, rate: 1, byteOffset: 0, dataDomain: gridDomain as any, blockDomain: gridDomain as any },
+            fractionalBox: { a: gridDomain.origin, b: gridDomain.dimensions },
+            gridDomain,
+            blocks: []
+        },
+        values: [values]
+    };
+}
+
+function encodeQuery(query: Data.QueryContext) {
+    const chunks: Uint8Array[] = [];
+    encode(query, {
+        writeBinary: (data: Uint8Array) => { chunks.push(data.slice()); return true; },
+        writeString: () => true,
+        end: () => { }
+    });
+    const data = new Uint8Array(chunks.reduce((s, c) => s + c.length, 0));
+    let offset = 0;
+    for (const c of chunks) {
+        data.set(c, offset);
+        offset += c.length;
+    }
+    return data;
+}
+
+describe('volume server mesh', () => {
+    it('grid to cartesian transform', () => {
+        const spacegroup = SpacegroupCell.create(1, Vec3.create(10, 20, 30), Vec3.create(Math.PI / 2, Math.PI / 2, Math.PI / 2));
+        const domain = Coords.domain<'Query'>('Query', {
+            origin: Coords.fractional(0.1, 0.2, 0.3),
+            dimensions: Coords.fractional(0.5, 0.5, 0.5),
+            delta: Coords.fractional(0.05, 0.1, 0.25),
+            sampleCount: [10, 5, 2]
+        });
+
+        // fastest to slowest axis: z, x, y
+        const m = getGridToCartesianTransform(spacegroup, [2, 0, 1], domain);
+        const o = Vec3.transformMat4(Vec3(), Vec3.create(0, 0, 0), m);
+        expect(o[0]).toBeCloseTo(2, 5);
+        expect(o[1]).toBeCloseTo(6, 5);
+        expect(o[2]).toBeCloseTo(3, 5);
+        const p = Vec3.transformMat4(Vec3(), Vec3.create(1, 1, 1), m);
+        expect(p[0]).toBeCloseTo(2 + 0.1 * 10, 5);
+        expect(p[1]).toBeCloseTo(6 + 0.25 * 20, 5);
+        expect(p[2]).toBeCloseTo(3 + 0.05 * 30, 5);
+    });
+
+    it('relative isovalue and round trip', async () => {
+        const query = createQuery();
+        await computeMeshes(query);
+
+        const [channel] = query.meshes!;
+        expect(channel.isoValue).toBeCloseTo(0.5, 6);
+        expect(channel.triangleCount).toBeGreaterThan(0);
+
+        const parsed = await CIF.parseBinary(encodeQuery(query)).run();
+        if (parsed.isError) throw parsed;
+        const [server, block] = parsed.result.blocks;
+        expect(server.categories['density_server_result'].getField('query_type')!.str(0)).toBe('mesh');
+
+        const db = CIF.schema.densityServerMesh(block);
+        expect(db.volume_mesh_3d_info.triangle_count.value(0)).toBe(channel.triangleCount);
+
+        const mesh = await meshFromDensityServerData(db).run();
+        expect(mesh.vertexCount).toBe(channel.vertexCount);
+        expect(mesh.triangleCount).toBe(channel.triangleCount);
+
+        const v = Vec3();
+        const vertices = mesh.vertexBuffer.ref.value;
+        for (let i = 0; i < mesh.vertexCount; i++) {
+            Vec3.fromArray(v, vertices, i * 3);
+            expect(Math.abs(Vec3.distance(v, center) - radius)).toBeLessThan(0.25);
+        }
+        expect(Array.from(mesh.indexBuffer.ref.value.subarray(0, 3))).toEqual(Array.from(channel.indices.subarray(0, 3)));
+    });
+
+    it('isovalue per channel', async () => {
+        expect(Data.QueryParamsMesh.parseIsoValues('1.5')).toEqual([{ isoValue: 1.5 }]);
+        expect(Data.QueryParamsMesh.parseIsoValues('2FO-FC:1.5,FO-FC:3,FO-FC:-3')).toEqual([
+            { channel: '2FO-FC', isoValue: 1.5 }, { channel: 'FO-FC', isoValue: 3 }, { channel: 'FO-FC', isoValue: -3 }
+        ]);
+        // malformed values are rejected instead of being read as 0
+        expect(() => Data.QueryParamsMesh.parseIsoValues('FO-FC:abc')).toThrow(`Invalid isovalue 'FO-FC:abc'`);
+        expect(() => Data.QueryParamsMesh.parseIsoValues('1.5,')).toThrow();
+        expect(() => Data.QueryParamsMesh.parseIsoValues('')).toThrow();
+
+        const query = createQuery();
+        query.params.mesh = { isoValues: [{ channel: 'em', isoValue: 2 }, { isoValue: 1 }], kind: 'relative' };
+        await computeMeshes(query);
+        expect(query.meshes!.map(m => m.queryIsoValue)).toEqual([2, 1]);
+        expect(query.meshes![1].isoValue).toBeCloseTo(0.3, 6);
+
+        const parsed = await CIF.parseBinary(encodeQuery(query)).run();
+        if (parsed.isError) throw parsed;
+        const blocks = parsed.result.blocks.slice(1);
+        expect(blocks.map(b => b.header)).toEqual(['EM', 'EM']);
+        expect(blocks.map(b => CIF.schema.densityServerMesh(b).volume_mesh_3d_info.iso_value_query.value(0))).toEqual([2, 1]);
+
+        query.params.mesh = { isoValues: [{ channel: 'FO-FC', isoValue: 3 }], kind: 'relative' };
+        await expect(computeMeshes(query)).rejects.toThrow(`Unknown channel 'FO-FC'`);
+    });
+});
@@ -48,17 +48,61 @@ export namespace QueryParamsBox {
 }
 export type QueryParamsBox = QueryParamsBox.Cartesian | QueryParamsBox.Fractional | QueryParamsBox.Cell
 
+/** Isosurfaces to compute on the server, relative values are in units of the sampled sigma above the sampled mean */
+export interface QueryParamsMesh {
+    /** One mesh per isovalue, for the named channel or for every channel if the name is not set */
+    isoValues: { channel?: string, isoValue: number }[],
+    kind: 'absolute' | 'relative'
+}
+
+export namespace QueryParamsMesh {
+    /**
+     * Parses the `isovalue` query parameter, e.g. `1.5` for every channel or `2FO-FC:1.5,FO-FC:3,FO-FC:-3`,
+     * throws for values that are not numbers
+     */
+    export function parseIsoValues(str: string): QueryParamsMesh['isoValues'] {
+        return str.split(',').map(e => {
+            const i = e.lastIndexOf(':');
+            const value = (i < 0 ? e : e.substring(i + 1)).trim();
+            const isoValue = +value;
+            if (!value || !Number.isFinite(isoValue)) {
+                throw new Error(`Invalid isovalue '${e}', expected a number optionally prefixed by a channel name, e.g. '1.5' or 'FO-FC:3'.`);
+            }
+            return i < 0 ? { isoValue } : { channel: e.substring(0, i).trim(), isoValue };
+        });
+    }
+
+    export function isoValuesToString({ isoValues }: QueryParamsMesh) {
+        return isoValues.map(v => v.channel === void 0 ? `${v.isoValue}` : `${v.channel}:${v.isoValue}`).join(',');
+    }
+}
+
 export interface QueryParams {
     sourceFilename: string,
     sourceId: string,
     asBinary: boolean,
     box: QueryParamsBox,
     detail: number,
-    forcedSamplingLevel?: number
+    forcedSamplingLevel?: number,
+    /** If set, isosurface meshes are returned instead of the values */
+    mesh?: QueryParamsMesh
 }
 
 export type QueryBlock = { coord: Coords.Grid<'Block'>, offsets: Coords.Fractional[] }
 
+export interface ChannelMesh {
+    channelIndex: number,
+    /** Absolute isovalue the mesh was computed at */
+    isoValue: number,
+    /** Isovalue as given in the query */
+    queryIsoValue: number,
+    /** Cartesian vertex positions */
+    vertices: Float32Array,
+    indices: Uint32Array,
+    vertexCount: number,
+    triangleCount: number
+}
+
 export interface QuerySamplingInfo {
     sampling: Sampling,
     fractionalBox: Box.Fractional,
@@ -72,5 +116,5 @@ export namespace QueryContext {
     type Base = { guid: string, params: QueryParams }
     export type Error = { kind: 'Error', message: string } & Base
     export type Empty = { kind: 'Empty', data: DataContext } & Base
-    export type Data = { kind: 'Data', data: DataContext, samplingInfo: QuerySamplingInfo, values: TypedArrayValueArray[] } & Base
+    export type Data = { kind: 'Data', data: DataContext, samplingInfo: QuerySamplingInfo, values: TypedArrayValueArray[], meshes?: ChannelMesh[] } & Base
 }
\ No newline at end of file
@@ -24,7 +24,9 @@ export function encode(query: Data.QueryContext, output: Data.QueryOutputStream)
 
 interface ResultContext {
     query: Data.QueryContext.Data,
-    channelIndex: number
+    channelIndex: number,
+    /** Index into `query.meshes`, only set for mesh queries */
+    meshIndex?: number
 }
 
 function string<T>(name: string, str: (data: T) => string, isSpecified?: (data: T) => boolean): CifWriter.Field<number, T> {
@@ -141,6 +143,65 @@ const _volume_data_3d: CifWriter.Category<ResultContext> = {
     }
 };
 
+function getChannelMesh(ctx: ResultContext) {
+    return ctx.query.meshes![ctx.meshIndex!];
+}
+
+const _volume_mesh_3d_info_fields = [
+    string<ResultContext>('name', ctx => ctx.query.data.header.channels[ctx.channelIndex]),
+    float64<ResultContext>('iso_value', ctx => getChannelMesh(ctx).isoValue),
+    string<ResultContext>('iso_value_kind', ctx => ctx.query.params.mesh!.kind),
+    float64<ResultContext>('iso_value_query', ctx => getChannelMesh(ctx).queryIsoValue),
+    int32<ResultContext>('vertex_count', ctx => getChannelMesh(ctx).vertexCount),
+    int32<ResultContext>('triangle_count', ctx => getChannelMesh(ctx).triangleCount)
+];
+
+const _volume_mesh_3d_info: CifWriter.Category<ResultContext> = {
+    name: 'volume_mesh_3d_info',
+    instance: ctx => CifWriter.categoryInstance(_volume_mesh_3d_info_fields, { data: ctx, rowCount: 1 })
+};
+
+function _volume_mesh_3d_coord(d: number) {
+    return (i: number, vertices: Float32Array) => vertices[3 * i + d];
+}
+
+const _volume_mesh_3d_vertex: CifWriter.Category<ResultContext> = {
+    name: 'volume_mesh_3d_vertex',
+    instance(ctx) {
+        const { vertices, vertexCount } = getChannelMesh(ctx);
+
+        const E = ArrayEncoding;
+        // store coordinates with 0.01 Angstrom precision, consecutive vertices are close to each other
+        const encoder = E.by(E.fixedPoint(100)).and(E.delta).and(E.integerPacking);
+        const fields = [
+            CifWriter.Field.float('x', _volume_mesh_3d_coord(0), { encoder, typedArray: Float32Array, digitCount: 2 }),
+            CifWriter.Field.float('y', _volume_mesh_3d_coord(1), { encoder, typedArray: Float32Array, digitCount: 2 }),
+            CifWriter.Field.float('z', _volume_mesh_3d_coord(2), { encoder, typedArray: Float32Array, digitCount: 2 })
+        ];
+        return CifWriter.categoryInstance(fields, { data: vertices, rowCount: vertexCount });
+    }
+};
+
+function _volume_mesh_3d_index(d: number) {
+    return (i: number, indices: Uint32Array) => indices[3 * i + d];
+}
+
+const _volume_mesh_3d_triangle: CifWriter.Category<ResultContext> = {
+    name: 'volume_mesh_3d_triangle',
+    instance(ctx) {
+        const { indices, triangleCount } = getChannelMesh(ctx);
+
+        const E = ArrayEncoding;
+        const encoder = E.by(E.delta).and(E.integerPacking);
+        const fields = [
+            CifWriter.Field.int('vertex_1', _volume_mesh_3d_index(0), { encoder, typedArray: Int32Array }),
+            CifWriter.Field.int('vertex_2', _volume_mesh_3d_index(1), { encoder, typedArray: Int32Array }),
+            CifWriter.Field.int('vertex_3', _volume_mesh_3d_index(2), { encoder, typedArray: Int32Array })
+        ];
+        return CifWriter.categoryInstance(fields, { data: indices, rowCount: triangleCount });
+    }
+};
+
 function pickQueryBoxDimension(ctx: Data.QueryContext, e: 'a' | 'b', d: number) {
     const box = ctx.params.box;
     switch (box.kind) {
@@ -163,7 +224,7 @@ const _density_server_result_fields = [
     string<Data.QueryContext>('has_error', ctx => ctx.kind === 'Error' ? 'yes' : 'no'),
     string<Data.QueryContext>('error', ctx => ctx.kind === 'Error' ? ctx.message : '', (ctx) => ctx.kind === 'Error'),
     string<Data.QueryContext>('query_source_id', ctx => ctx.params.sourceId),
-    string<Data.QueryContext>('query_type', ctx => 'box'),
+    string<Data.QueryContext>('query_type', ctx => ctx.params.mesh ? 'mesh' : 'box'),
     string<Data.QueryContext>('query_box_type', ctx => ctx.params.box.kind.toLowerCase()),
     queryBoxDimension('a', 0),
     queryBoxDimension('a', 1),
@@ -188,12 +249,26 @@ function write(encoder: CifWriter.Encoder, query: Data.QueryContext) {
 
     if (query.kind === 'Data') {
         const header = query.data.header;
-        for (let i = 0; i < header.channels.length; i++) {
-            encoder.startDataBlock(header.channels[i]);
-            const ctx: ResultContext = { query, channelIndex: i };
+        if (query.meshes) {
+            // one block per mesh, in the order of the requested isovalues
+            for (let i = 0; i < query.meshes.length; i++) {
+                const { channelIndex } = query.meshes[i];
+                encoder.startDataBlock(header.channels[channelIndex]);
+                const ctx: ResultContext = { query, channelIndex, meshIndex: i };
+
+                encoder.writeCategory(_volume_data_3d_info, ctx);
+                encoder.writeCategory(_volume_mesh_3d_info, ctx);
+                encoder.writeCategory(_volume_mesh_3d_vertex, ctx);
+                encoder.writeCategory(_volume_mesh_3d_triangle, ctx);
+            }
+        } else {
+            for (let i = 0; i < header.channels.length; i++) {
+                encoder.startDataBlock(header.channels[i]);
+                const ctx: ResultContext = { query, channelIndex: i };
 
-            encoder.writeCategory(_volume_data_3d_info, ctx);
-            encoder.writeCategory(_volume_data_3d, ctx);
+                encoder.writeCategory(_volume_data_3d_info, ctx);
+                encoder.writeCategory(_volume_data_3d, ctx);
+            }
         }
     }
 }
\ No newline at end of file
@@ -17,6 +17,7 @@ import { State } from '../state';
 import { findUniqueBlocks } from './identify';
 import { compose } from './compose';
 import { encode } from './encode';
+import { computeMeshes } from './mesh';
 import { SpacegroupCell } from '../../../../mol-math/geometry';
 import { Vec3 } from '../../../../mol-math/linear-algebra';
 import { UUID } from '../../../../mol-util';
@@ -31,7 +32,7 @@ export async function execute(params: Data.QueryParams, outputProvider: () => Da
 
     const guid = UUID.create22() as any as string;
     params.detail = Math.min(Math.max(0, params.detail | 0), LimitsConfig.maxOutputSizeInVoxelCountByPrecisionLevel.length - 1);
-    ConsoleLogger.logId(guid, 'Info', `id=${params.sourceId},encoding=${params.asBinary ? 'binary' : 'text'},detail=${params.detail},${queryBoxToString(params.box)}`);
+    ConsoleLogger.logId(guid, 'Info', `id=${params.sourceId},encoding=${params.asBinary ? 'binary' : 'text'},detail=${params.detail},${queryBoxToString(params.box)}${queryMeshToString(params.mesh)}`);
 
     let sourceFile: FileHandle | undefined;
     try {
@@ -200,6 +201,9 @@ async function _execute(file: FileHandle, params: Data.QueryParams, guid: string
         if (query.kind === 'Data') {
             // Step 3b: Compose the result data
             await compose(query);
+
+            // Step 3c: Compute the isosurface meshes
+            if (params.mesh) await computeMeshes(query);
         }
 
         // Step 4: Encode the result
@@ -234,4 +238,9 @@ function queryBoxToString(queryBox: Data.QueryParamsBox) {
         default:
             return `box-type=${queryBox.kind}`;
     }
+}
+
+function queryMeshToString(mesh: Data.QueryParamsMesh | undefined) {
+    if (!mesh) return '';
+    return `,mesh-isovalue=${Data.QueryParamsMesh.isoValuesToString(mesh)},mesh-isovalue-kind=${mesh.kind}`;
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2022 mol* contributors, licensed under MIT, See LICENSE file for more info.
+ *
+ * @author Alexander Rose <alexander.rose@weirdbyte.de>
+ */
+
+import * as Data from './data-model';
+import * as Coords from '../algebra/coordinate';
+import { Mat4, Tensor, Vec3 } from '../../../../mol-math/linear-algebra';
+import { SpacegroupCell } from '../../../../mol-math/geometry';
+import { computeMarchingCubesMesh } from '../../../../mol-geo/util/marching-cubes/algorithm';
+
+/** Computes an isosurface mesh for each requested isovalue, in the order of the query */
+export async function computeMeshes(query: Data.QueryContext.Data) {
+    const { channels } = query.data.header;
+    const meshes: Data.ChannelMesh[] = [];
+    for (const { channel, isoValue } of query.params.mesh!.isoValues) {
+        if (channel === void 0) {
+            for (let i = 0, il = channels.length; i < il; i++) {
+                meshes.push(await computeChannelMesh(query, i, isoValue));
+            }
+        } else {
+            const channelIndex = channels.findIndex(c => c.toLowerCase() === channel.toLowerCase());
+            if (channelIndex < 0) throw new Error(`Unknown channel '${channel}', available channels: ${channels.join(', ')}.`);
+            meshes.push(await computeChannelMesh(query, channelIndex, isoValue));
+        }
+    }
+    query.meshes = meshes;
+}
+
+export function getAbsoluteIsoValue(query: Data.QueryContext.Data, channelIndex: number, isoValue: number) {
+    if (query.params.mesh!.kind === 'absolute') return isoValue;
+    // same statistics as reported by `volume_data_3d_info.mean_sampled` and `sigma_sampled`
+    const { mean, sigma } = query.data.header.sampling[query.samplingInfo.sampling.index].valuesInfo[channelIndex];
+    return mean + isoValue * sigma;
+}
+
+/** Transform from query grid indices, in axis order, to cartesian coordinates */
+export function getGridToCartesianTransform(spacegroup: SpacegroupCell, axisOrder: number[], domain: Coords.GridDomain<'Query'>) {
+    const gridToFractional = Mat4.zero();
+    for (let d = 0; d < 3; d++) {
+        Mat4.setValue(gridToFractional, axisOrder[d], d, domain.dimensions[d] / domain.sampleCount[d]);
+        Mat4.setValue(gridToFractional, axisOrder[d], 3, domain.origin[d]);
+    }
+    Mat4.setValue(gridToFractional, 3, 3, 1);
+    return Mat4.mul(Mat4(), spacegroup.fromFractional, gridToFractional);
+}
+
+async function computeChannelMesh(query: Data.QueryContext.Data, channelIndex: number, queryIsoValue: number): Promise<Data.ChannelMesh> {
+    const { gridDomain } = query.samplingInfo;
+    const isoValue = getAbsoluteIsoValue(query, channelIndex, queryIsoValue);
+
+    // the query values are stored with the first axis changing fastest
+    const space = Tensor.Space(gridDomain.sampleCount, [2, 1, 0], Float32Array);
+    const scalarField = Tensor.create(space, Tensor.Data1(query.values[channelIndex]));
+    const mesh = await computeMarchingCubesMesh({ isoLevel: isoValue, scalarField }).run();
+
+    const { vertexCount, triangleCount } = mesh;
+    const vertices = mesh.vertexBuffer.ref.value.slice(0, vertexCount * 3);
+    const indices = mesh.indexBuffer.ref.value.slice(0, triangleCount * 3);
+
+    const transform = getGridToCartesianTransform(query.data.spacegroup, query.data.header.axisOrder, gridDomain);
+    const v = Vec3();
+    for (let i = 0; i < vertexCount; i++) {
+        Vec3.fromArray(v, vertices, i * 3);
+        Vec3.transformMat4(v, v, transform);
+        Vec3.toArray(v, vertices, i * 3);
+    }
+
+    // odd axis order permutations mirror the grid, restore the triangle winding
+    if (Mat4.determinant(transform) < 0) {
+        for (let i = 0, il = triangleCount * 3; i < il; i += 3) {
+            const t = indices[i + 1];
+            indices[i + 1] = indices[i + 2];
+            indices[i + 2] = t;
+        }
+    }
+
+    return { channelIndex, isoValue, queryIsoValue, vertices, indices, vertexCount, triangleCount };
+}
@@ -1,2 +1,2 @@
-export const VOLUME_SERVER_VERSION = '0.9.5';
+export const VOLUME_SERVER_VERSION = '0.9.6';
 export const VOLUME_SERVER_HEADER = `VolumeServer ${VOLUME_SERVER_VERSION}, (c) 2018-2020, Mol* contributors`;
\ No newline at end of file
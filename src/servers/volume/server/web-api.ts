@@ -31,6 +31,10 @@ export function init(app: express.Express) {
     app.get(makePath(':source/:id/box/:a1,:a2,:a3/:b1,:b2,:b3/?'), (req, res) => queryBox(req, res, getQueryParams(req, false)));
     // Cell /:src/:id/cell/?text=0|1&space=cartesian|fractional
     app.get(makePath(':source/:id/cell/?'), (req, res) => queryBox(req, res, getQueryParams(req, true)));
+    // Mesh /:src/:id/mesh/box/:a1,:a2,:a3/:b1,:b2,:b3?isovalue=1.5|2FO-FC:1.5,FO-FC:3,FO-FC:-3&isovalue_kind=relative|absolute&text=0|1&space=cartesian|fractional
+    app.get(makePath(':source/:id/mesh/box/:a1,:a2,:a3/:b1,:b2,:b3/?'), (req, res) => queryMesh(req, res, false));
+    // Mesh /:src/:id/mesh/cell/?isovalue=1.5|2FO-FC:1.5,FO-FC:3,FO-FC:-3&isovalue_kind=relative|absolute&text=0|1
+    app.get(makePath(':source/:id/mesh/cell/?'), (req, res) => queryMesh(req, res, true));
 
     app.get(makePath('openapi.json'), (req, res) => {
         res.writeHead(200, {
@@ -149,7 +153,7 @@ async function getHeader(req: express.Request, res: express.Response) {
     }
 }
 
-function getQueryParams(req: express.Request, isCell: boolean): Data.QueryParams {
+function getQueryParams(req: express.Request, isCell: boolean, isMesh = false): Data.QueryParams {
     const a = [+req.params.a1, +req.params.a2, +req.params.a3];
     const b = [+req.params.b1, +req.params.b2, +req.params.b3];
 
@@ -165,12 +169,17 @@ function getQueryParams(req: express.Request, isCell: boolean): Data.QueryParams
     const asBinary = (req.query.encoding as string || '').toLowerCase() !== 'cif';
     const sourceFilename = req.app.locals.mapFile(req.params.source, req.params.id)!;
 
+    const mesh: Data.QueryParamsMesh | undefined = isMesh
+        ? { isoValues: Data.QueryParamsMesh.parseIsoValues(req.query.isovalue as string || ''), kind: (req.query.isovalue_kind as string || '').toLowerCase() === 'absolute' ? 'absolute' : 'relative' }
+        : void 0;
+
     return {
         sourceFilename,
         sourceId: `${req.params.source}/${req.params.id}`,
         asBinary,
         box,
-        detail
+        detail,
+        mesh
     };
 }
 
@@ -202,6 +211,24 @@ async function queryBox(req: express.Request, res: express.Response, params: Dat
     }
 }
 
+async function queryMesh(req: express.Request, res: express.Response, isCell: boolean) {
+    let params: Data.QueryParams;
+    try {
+        params = getQueryParams(req, isCell, true);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : `${e}`;
+        res.writeHead(400, {
+            'Content-Type': 'text/plain; charset=utf-8',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': 'X-Requested-With'
+        });
+        res.end(message);
+        ConsoleLogger.error(`Query Mesh`, message);
+        return;
+    }
+    await queryBox(req, res, params);
+}
+
 function queryDone() {
     if (State.shutdownOnZeroPending) {
         process.exit(0);
@@ -57,44 +57,11 @@ export function getSchema() {
                     parameters: [
                         { $ref: '#/components/parameters/source' },
                         { $ref: '#/components/parameters/id' },
-                        {
-                            name: 'bottomLeftCorner',
-                            in: 'path',
-                            description: 'Bottom left corner of the query region in Cartesian or fractional coordinates (determined by the `space` query parameter).',
-                            required: true,
-                            schema: {
-                                type: 'list',
-                                items: {
-                                    type: 'float',
-                                }
-                            },
-                            style: 'simple'
-                        },
-                        {
-                            name: 'topRightCorner',
-                            in: 'path',
-                            description: 'Top right corner of the query region in Cartesian or fractional coordinates (determined by the `space` query parameter).',
-                            required: true,
-                            schema: {
-                                type: 'list',
-                                items: {
-                                    type: 'float',
-                                }
-                            },
-                            style: 'simple'
-                        },
+                        { $ref: '#/components/parameters/bottomLeftCorner' },
+                        { $ref: '#/components/parameters/topRightCorner' },
                         { $ref: '#/components/parameters/encoding' },
                         { $ref: '#/components/parameters/detail' },
-                        {
-                            name: 'space',
-                            in: 'query',
-                            description: 'Determines the coordinate space the query is in. Can be cartesian or fractional. An optional argument, default values is cartesian.',
-                            schema: {
-                                type: 'string',
-                                enum: ['cartesian', 'fractional']
-                            },
-                            style: 'form'
-                        }
+                        { $ref: '#/components/parameters/space' },
                     ],
                     responses: {
                         200: {
@@ -128,6 +95,69 @@ export function getSchema() {
                         },
                     },
                 }
+            },
+            [`${ServerConfig.apiPrefix}/{source}/{id}/mesh/box/{a1,a2,a3}/{b1,b2,b3}/`]: {
+                get: {
+                    tags: ['General'],
+                    summary: 'Returns isosurface meshes, computed on the server, of the density data inside the specified box for the given entry. For X-ray data, the 2Fo-Fc and Fo-Fc meshes can be requested in a single response.',
+                    operationId: 'getMeshBox',
+                    parameters: [
+                        { $ref: '#/components/parameters/source' },
+                        { $ref: '#/components/parameters/id' },
+                        { $ref: '#/components/parameters/bottomLeftCorner' },
+                        { $ref: '#/components/parameters/topRightCorner' },
+                        { $ref: '#/components/parameters/isovalue' },
+                        { $ref: '#/components/parameters/isovalueKind' },
+                        { $ref: '#/components/parameters/encoding' },
+                        { $ref: '#/components/parameters/detail' },
+                        { $ref: '#/components/parameters/space' },
+                    ],
+                    responses: {
+                        200: {
+                            description: 'Isosurface meshes of the volume box',
+                            content: {
+                                'text/plain': {},
+                                'application/octet-stream': {},
+                            }
+                        },
+                        400: {
+                            description: 'Invalid isovalue',
+                            content: {
+                                'text/plain': {},
+                            }
+                        },
+                    },
+                }
+            },
+            [`${ServerConfig.apiPrefix}/{source}/{id}/mesh/cell/`]: {
+                get: {
+                    tags: ['General'],
+                    summary: 'Returns isosurface meshes, computed on the server, of the (downsampled) volume data for the entire "data cell".',
+                    operationId: 'getMeshCell',
+                    parameters: [
+                        { $ref: '#/components/parameters/source' },
+                        { $ref: '#/components/parameters/id' },
+                        { $ref: '#/components/parameters/isovalue' },
+                        { $ref: '#/components/parameters/isovalueKind' },
+                        { $ref: '#/components/parameters/encoding' },
+                        { $ref: '#/components/parameters/detail' },
+                    ],
+                    responses: {
+                        200: {
+                            description: 'Isosurface meshes of the volume cell',
+                            content: {
+                                'text/plain': {},
+                                'application/octet-stream': {},
+                            }
+                        },
+                        400: {
+                            description: 'Invalid isovalue',
+                            content: {
+                                'text/plain': {},
+                            }
+                        },
+                    },
+                }
             }
         },
         components: {
@@ -234,6 +264,62 @@ export function getSchema() {
                     },
                     style: 'simple'
                 },
+                bottomLeftCorner: {
+                    name: 'bottomLeftCorner',
+                    in: 'path',
+                    description: 'Bottom left corner of the query region in Cartesian or fractional coordinates (determined by the `space` query parameter).',
+                    required: true,
+                    schema: {
+                        type: 'list',
+                        items: {
+                            type: 'float',
+                        }
+                    },
+                    style: 'simple'
+                },
+                topRightCorner: {
+                    name: 'topRightCorner',
+                    in: 'path',
+                    description: 'Top right corner of the query region in Cartesian or fractional coordinates (determined by the `space` query parameter).',
+                    required: true,
+                    schema: {
+                        type: 'list',
+                        items: {
+                            type: 'float',
+                        }
+                    },
+                    style: 'simple'
+                },
+                space: {
+                    name: 'space',
+                    in: 'query',
+                    description: 'Determines the coordinate space the query is in. Can be cartesian or fractional. An optional argument, default values is cartesian.',
+                    schema: {
+                        type: 'string',
+                        enum: ['cartesian', 'fractional']
+                    },
+                    style: 'form'
+                },
+                isovalue: {
+                    name: 'isovalue',
+                    in: 'query',
+                    description: 'Comma separated isovalues at which the meshes are computed, interpreted according to the `isovalue_kind` query parameter. A plain value, e.g. `1.5`, yields a mesh for every channel, a value prefixed by a channel name, e.g. `FO-FC:-3`, a mesh for that channel only. Meshes are returned in the given order.',
+                    required: true,
+                    schema: {
+                        type: 'string',
+                    },
+                    style: 'form'
+                },
+                isovalueKind: {
+                    name: 'isovalue_kind',
+                    in: 'query',
+                    description: 'Determines if the isovalue is absolute or relative, i.e. in units of sigma above the mean of the sampled data. An optional argument, default is relative.',
+                    schema: {
+                        type: 'string',
+                        enum: ['relative', 'absolute']
+                    },
+                    style: 'form'
+                },
                 encoding: {
                     name: 'encoding',
                     in: 'query',